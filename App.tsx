@@ -22,17 +22,46 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { INITIAL_INVENTORY, INITIAL_LEDGER, EMPTY_INVENTORY, EMPTY_LEDGER, GOOGLE_CLIENT_ID } from './constants';
-import { LifeInventory, RelationshipLedger, ChatMessage, OrchestrationProposal, UpdateRelationshipArgs, LogCheckinArgs, calculateRelationshipStatus, Person, Task, Memory, ChatHistory, StorageStats, GoogleCalendarEvent, ApprovedOrchestration } from './types';
+import { LifeInventory, RelationshipLedger, ChatMessage, OrchestrationProposal, UpdateRelationshipArgs, LogCheckinArgs, calculateRelationshipStatus, Person, Task, Memory, ChatHistory, StorageStats, GoogleCalendarEvent, ApprovedOrchestration, ActionJournalEntry, PendingChange, MemoryConflict, WeekOrchestrationProposal, TokenUsageLog, PromptProfile, PromptProfileSettings, DayReviewLog, OccurrenceScope } from './types';
 import { KinshipLedgerView } from './components/KinshipLedger';
 import { CareerInventoryView } from './components/CareerInventory';
 import { ChatInterface } from './components/ChatInterface';
-import { geminiService } from './services/geminiService';
+import { geminiService, PENDING_APPROVAL_PREFIX, AgentStreamEvent, AgentLoopOptions } from './services/geminiService';
+import { GeminiProvider } from './services/llmProvider';
+import { ScriptedProvider, ScriptedFixture } from './services/scriptedProvider';
+import demoScript from './services/fixtures/demoScript.json';
 import { GoogleCalendarService } from './services/googleCalendarService';
 import { TutorialOverlay } from './components/TutorialOverlay';
 import { CalendarImportModal } from './components/CalendarImportModal';
 import { compressImage } from './services/imageService';
 import { storageService } from './services/storageService';
+import { EMPTY_USAGE_LOG, recordUsage, isOverDailyBudget } from './services/usageTracker';
+import { revertJournalEntries, affectedDates, MAX_JOURNAL_ENTRIES } from './services/actionJournal';
+import { createPendingChange, createChangeset, settleChangesetStatus } from './services/changeset';
+import { validateOrchestration, formatValidationErrors } from './services/orchestrationValidator';
+import { scheduleDay, DaySchedulerOptions } from './services/dayScheduler';
+import { applyMovesToInventory } from './services/weekPlanner';
+import { addDaysToKey } from './services/dateKeys';
+import { semanticMemory, RecallResult } from './services/semanticMemory';
+import { fitSectionsToBudget, ContextTrim } from './services/contextBudget';
+import { applyToolEvent, ToolProgressStep } from './services/toolProgress';
+import { enforceMemoryLimit } from './services/memoryLifecycle';
+import { createToolExecutors, ExecutorHost } from './services/toolExecutors';
+import { generateUniqueTaskId, getTasksForDate, materializeOccurrence } from './services/taskQueries';
+import { deleteRecurring, findSeries, taskChanges, updateRecurring } from './services/recurringOccurrences';
+import { SessionRecorder } from './services/sessionRecorder';
+import { INVENTORY_SCHEMA_VERSION, INVENTORY_VERSION_KEY, InventoryMigrationReport, formatUnparsedFields, migrateInventory, readInventoryVersion, syncTimeFields } from './services/inventoryMigration';
+import { DayReviewInput, buildDayReview, compareDayToPlan, recentReviews, formatReviewLine } from './services/dayReview';
+import { DEADLINE_HORIZON_DAYS, approachingDeadlines, formatDeadlineLine, rolloverUnfinished } from './services/deadlines';
+import { findConflicts } from './services/conflicts';
+import { RetrospectivePeriod, RetrospectiveReport, computeRetrospective, formatStatisticsForPrompt, localNarrative } from './services/retrospective';
+import { DEFAULT_PROFILE_ID, DEFAULT_PROFILE_SETTINGS, loadProfileSettings, getActiveProfile, saveProfile, importProfile, schedulerOptionsFromProfile } from './services/promptProfile';
+import { GeminiEmbedder, localEmbedder } from './services/embeddingService';
 import { StorageManager } from './components/StorageManager';
+import { MemoryBank } from './components/MemoryBank';
+import { ProfileSettings } from './components/ProfileSettings';
+import { DayReviewPanel } from './components/DayReviewPanel';
+import { RetrospectivePanel } from './components/RetrospectivePanel';
 import { Toast, useToast } from './components/Toast';
 
 declare global {
@@ -42,21 +71,6 @@ declare global {
   }
 }
 
-/**
- * Generate a unique ID that doesn't collide with existing task IDs.
- * Uses retry logic to ensure uniqueness (max 10 attempts, then falls back to timestamp-based ID)
- */
-const generateUniqueTaskId = (existingIds: Set<string>): string => {
-  for (let attempt = 0; attempt < 10; attempt++) {
-    const id = Math.random().toString(36).substr(2, 9);
-    if (!existingIds.has(id)) {
-      return id;
-    }
-  }
-  // Fallback: Use timestamp + random to guarantee uniqueness
-  return `${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 4)}`;
-};
-
 /**
  * De-duplicate tasks by ID to clean up legacy data with duplicate IDs.
  * Tasks with duplicate IDs get new unique IDs assigned.
@@ -298,47 +312,24 @@ interface AppProps {
  * The compression service reduces each image to ~100-200KB.
  */
 const MAX_IMAGES_PER_DAY = 15;
-const toDateString = (date: Date) => date.toLocaleDateString('en-CA'); // YYYY-MM-DD format
 
 /**
- * getTasksForDate: Task filtering with recurrence expansion
- * DESIGN DECISION: Client-side recurrence calculation
- * 
- * Rather than storing every instance of recurring tasks, we store the rule
- * and expand it on-demand. This saves storage and enables easy rule modifications.
- * 
- * Recurrence logic:
- * - Tasks with date field: Return if exact match
- * - Tasks with recurrence but no date: Expand based on rule
- *   - Daily: Return for all dates
- *   - Weekly: Check if date's weekday matches rule
- *   - Monthly: Check if date's day-of-month matches rule
+ * LLM Providers per Mode
+ * DESIGN DECISION: Demo mode runs on a scripted, offline provider
+ *
+ * The demo must work for anyone who opens /demo — including local checkouts
+ * without a GEMINI_API_KEY — so it replays services/fixtures/demoScript.json
+ * through the same agent loop and executors. Live mode always talks to Gemini.
  */
-const getTasksForDate = (inv: LifeInventory, targetDateStr: string) => {
-    const [y, m, d] = targetDateStr.split('-').map(Number);
-    const targetDateObj = new Date(y, m - 1, d);
-    const dayOfWeek = targetDateObj.getDay();
-    const dayOfMonth = targetDateObj.getDate();
-
-    const isMatch = (t: Task) => {
-        if (t.date === targetDateStr) return true;
-        if (t.recurrence && !t.date) {
-            if (t.recurrence.frequency === 'daily') return true;
-            if (t.recurrence.frequency === 'weekly') {
-                return t.recurrence.weekDays?.includes(dayOfWeek);
-            }
-            if (t.recurrence.frequency === 'monthly') {
-                return t.recurrence.dayOfMonth === dayOfMonth;
-            }
-        }
-        return false;
-    };
-
-    return {
-        fixed: inv.fixed.filter(isMatch),
-        flexible: inv.flexible.filter(isMatch)
-    };
-};
+const liveProvider = new GeminiProvider();
+const offlineDemoProvider = new ScriptedProvider(demoScript as ScriptedFixture);
+const liveEmbedder = new GeminiEmbedder();
+// How long a new session waits for vector recall before using local ranking instead.
+const SESSION_RECALL_TIMEOUT_MS = 2500;
+const SEMANTIC_INDEX_DEBOUNCE_MS = 3000;
+// Approved orchestrations are kept for a month, long enough for monthly retrospectives.
+const APPROVED_ORCHESTRATION_RETENTION_DAYS = 35;
+const toDateString = (date: Date) => date.toLocaleDateString('en-CA'); // YYYY-MM-DD format
 
 const App: React.FC<AppProps> = ({ mode, onBack }) => {
   /**
@@ -368,6 +359,15 @@ const App: React.FC<AppProps> = ({ mode, onBack }) => {
    * The empty dependency array ensures one instance per App mount.
    */
   const calendarService = useMemo(() => new GoogleCalendarService(GOOGLE_CLIENT_ID), []);
+
+  // Select the provider during render (not in an effect) so the briefing effect
+  // on first mount already opens its session on the right backend.
+  useMemo(() => {
+    geminiService.setProvider(mode === 'demo' ? offlineDemoProvider : liveProvider);
+    semanticMemory.configure(mode === 'demo'
+      ? { embedder: localEmbedder, persist: false }
+      : { embedder: liveEmbedder, persist: true });
+  }, [mode]);
   
   /**
    * DESIGN DECISION: Inventory State Initialization
@@ -401,17 +401,24 @@ const App: React.FC<AppProps> = ({ mode, onBack }) => {
   const [showSyncInfo, setShowSyncInfo] = useState<{ type: 'import' | 'export' | 'signout', visible: boolean, error?: string }>({ type: 'import', visible: false });
   const [showImportModal, setShowImportModal] = useState(false);
   const [showStorageManager, setShowStorageManager] = useState(false);
+  const [showMemoryBank, setShowMemoryBank] = useState(false);
+  const [showProfileSettings, setShowProfileSettings] = useState(false);
+  const [showDayReview, setShowDayReview] = useState(false);
+  const [showRetrospective, setShowRetrospective] = useState(false);
   const [storageStats, setStorageStats] = useState<StorageStats>({
       percentage: 0,
       usedBytes: 0,
       totalQuota: 5 * 1024 * 1024,
-      breakdown: { messages: 0, ledger: 0, inventory: 0, memories: 0 },
+      breakdown: { messages: 0, ledger: 0, inventory: 0, memories: 0, usage: 0 },
       messagesByDate: {}
   });  
   const toast = useToast();
   // Determine initial state based on tutorial completion
   const isFirstRun = !localStorage.getItem('life_tutorial_completed');
   
+  // Set while loading the stored inventory; reported once after mount
+  const inventoryMigrationRef = useRef<InventoryMigrationReport | null>(null);
+
   const [inventory, setInventory] = useState<LifeInventory>(() => {
     // In demo mode, always load demo data and ignore localStorage
     if (mode === 'demo') {
@@ -431,7 +438,7 @@ const App: React.FC<AppProps> = ({ mode, onBack }) => {
         const day_p5 = getDate(5); // +5 days
         const day_p6 = getDate(6); // +6 days
         
-        return {
+        return syncTimeFields({
             fixed: [
                 // Today (ACTIVE - Interview day)
                 { id: 'w0_1', title: 'Grandma Physical Therapy', type: 'fixed', time: '10:00 AM', duration: '1h', priority: 'high', category: 'Family', date: day_0, linkedContact: ['grandma'] },
@@ -487,18 +494,24 @@ const App: React.FC<AppProps> = ({ mode, onBack }) => {
                 { id: 'wf6_1', title: 'Morning Run (5k)', type: 'flexible', duration: '30m', priority: 'medium', category: 'Health', date: day_p6 },
                 { id: 'wf6_2', title: 'Apartment Deep Clean', type: 'flexible', duration: '2h', priority: 'low', category: 'Life', date: day_p6 }
             ]
-        };
+        });
     }
     
     // In live mode, load from localStorage or return empty
     // Apply de-duplication to clean up any legacy duplicate IDs
+    // Older saves are migrated to the current schema (see inventoryMigration.ts)
     const saved = localStorage.getItem('life_inventory');
     if (saved) {
       const parsed = JSON.parse(saved) as LifeInventory;
-      return {
+      const { inventory: migrated, report } = migrateInventory({
         fixed: deduplicateTasks(parsed.fixed || []),
         flexible: deduplicateTasks(parsed.flexible || [])
-      };
+      }, readInventoryVersion(localStorage));
+      if (report.fromVersion < report.toVersion) {
+        console.info(`Migrated life_inventory v${report.fromVersion} → v${report.toVersion}: ${report.updatedTasks} task(s) updated`, report.unparsed);
+        inventoryMigrationRef.current = report;
+      }
+      return migrated;
     }
     return EMPTY_INVENTORY;
   });
@@ -707,7 +720,9 @@ const App: React.FC<AppProps> = ({ mode, onBack }) => {
    * 3. AI stops calling get_relationship_status/get_life_context for simple task additions
    * 4. Invalidate (isActive = false) when user modifies tasks
    * 
-   * Cleanup: Old orchestrations (>7 days) are automatically removed to save storage
+   * Cleanup: Orchestrations older than APPROVED_ORCHESTRATION_RETENTION_DAYS are removed
+   * to save storage. The window covers a full month so monthly retrospectives and day
+   * reviews can still compare against the plan.
    */
   const [approvedOrchestrations, setApprovedOrchestrations] = useState<Record<string, ApprovedOrchestration>>(() => {
       if (mode === 'demo') return {};
@@ -715,6 +730,108 @@ const App: React.FC<AppProps> = ({ mode, onBack }) => {
       return saved ? JSON.parse(saved) : {};
   });
 
+  /**
+   * Action Journal: Undo records for AI tool mutations (see services/actionJournal.ts)
+   * Persisted in live mode so "Undo" keeps working after a reload; capped FIFO.
+   */
+  const [actionJournal, setActionJournal] = useState<ActionJournalEntry[]>(() => {
+      if (mode === 'demo') return [];
+      const saved = localStorage.getItem('life_action_journal');
+      return saved ? JSON.parse(saved) : [];
+  });
+
+  /**
+   * Day Reviews: one end-of-day review per date (see services/dayReview.ts), written
+   * from the review panel or the save_day_review tool. Recent ones go into every
+   * session context so briefings build on how past days actually went.
+   */
+  const [dayReviews, setDayReviews] = useState<DayReviewLog>(() => {
+      if (mode === 'demo') return {};
+      const saved = localStorage.getItem('life_day_reviews');
+      return saved ? JSON.parse(saved) : {};
+  });
+
+  /**
+   * Review Mode: When on, AI write tool calls are staged into a changeset card for
+   * approval instead of being applied immediately. A preference, so it persists in live mode.
+   */
+  const [reviewMode, setReviewMode] = useState<boolean>(() => mode === 'live' && localStorage.getItem('life_review_mode') === 'true');
+  const reviewModeRef = useRef(reviewMode);
+  useEffect(() => {
+      reviewModeRef.current = reviewMode;
+      if (mode === 'live') localStorage.setItem('life_review_mode', String(reviewMode));
+  }, [reviewMode, mode]);
+
+  /**
+   * Token Usage: per-day totals of what the model calls cost, plus the daily budget
+   * that gates background orchestration (see usageTracker.ts). Demo mode starts empty
+   * and is never persisted, like the rest of its state.
+   */
+  const [tokenUsage, setTokenUsage] = useState<TokenUsageLog>(() => {
+      if (mode === 'demo') return EMPTY_USAGE_LOG;
+      const saved = localStorage.getItem('life_token_usage');
+      return saved ? { ...EMPTY_USAGE_LOG, ...JSON.parse(saved) } : EMPTY_USAGE_LOG;
+  });
+  const tokenUsageRef = useRef<TokenUsageLog>(tokenUsage);
+  const commitTokenUsage = (next: (prev: TokenUsageLog) => TokenUsageLog) => {
+      tokenUsageRef.current = next(tokenUsageRef.current);
+      setTokenUsage(tokenUsageRef.current);
+  };
+  useEffect(() => {
+      // Same write as commitTokenUsage, through the ref so the listener never goes stale
+      geminiService.setUsageListener(call => {
+          tokenUsageRef.current = recordUsage(tokenUsageRef.current, call);
+          setTokenUsage(tokenUsageRef.current);
+      });
+      return () => geminiService.setUsageListener(null);
+  }, []);
+
+  const handleSetDailyBudget = (budget: number | null) => commitTokenUsage(prev => ({ ...prev, dailyBudget: budget }));
+
+  /**
+   * Prompt Profiles: working hours, overload threshold, tone, languages and standing
+   * instructions (see promptProfile.ts). GeminiService compiles the active profile into
+   * every new session and the local schedulers use its hours and threshold. Demo mode
+   * always runs on the default profile.
+   */
+  const [profileSettings, setProfileSettings] = useState<PromptProfileSettings>(() =>
+      mode === 'demo' ? DEFAULT_PROFILE_SETTINGS : loadProfileSettings(localStorage.getItem('life_prompt_profiles')));
+  const activeProfile = useMemo(() => getActiveProfile(profileSettings), [profileSettings]);
+  const schedulerOptionsRef = useRef<Partial<DaySchedulerOptions>>(schedulerOptionsFromProfile(activeProfile));
+  const profileAppliedRef = useRef(false);
+  useEffect(() => {
+      schedulerOptionsRef.current = schedulerOptionsFromProfile(activeProfile);
+      geminiService.setPromptProfile(activeProfile);
+      // The open chat keeps the instructions it started with; the next message opens a new one
+      if (profileAppliedRef.current) geminiService.resetSession();
+      profileAppliedRef.current = true;
+  }, [activeProfile]);
+
+  const handleSaveProfile = (profile: PromptProfile) => {
+      setProfileSettings(prev => saveProfile(prev, profile));
+      toast.showSuccess(`Saved "${profile.name}". It applies from your next message.`);
+  };
+
+  const handleDeleteProfile = (id: string) => {
+      if (id === DEFAULT_PROFILE_ID) return;
+      setProfileSettings(prev => ({
+          activeId: prev.activeId === id ? DEFAULT_PROFILE_ID : prev.activeId,
+          profiles: prev.profiles.filter(p => p.id !== id),
+      }));
+  };
+
+  const handleImportProfile = (json: string): PromptProfile | null => {
+      try {
+          const result = importProfile(profileSettings, json);
+          setProfileSettings(result.settings);
+          toast.showSuccess(`Imported "${result.profile.name}" (r${result.profile.revision})`);
+          return result.profile;
+      } catch (e) {
+          toast.showError(e instanceof Error ? e.message : 'Could not import profile');
+          return null;
+      }
+  };
+
   /**
    * DESIGN DECISION: Persistence Effect
    * 
@@ -727,8 +844,9 @@ const App: React.FC<AppProps> = ({ mode, onBack }) => {
    * 3. 5MB quota is sufficient for single-user personal data
    * 4. Universal browser support without polyfills
    * 
-   * The IndexedDB implementation (db.ts) is prepared for future migration
-   * when features like vector search or offline sync become necessary.
+   * The IndexedDB implementation (db.ts) mirrors memories and messages as the
+   * vector index for semantic recall (see the indexing effect below); a full
+   * migration remains possible when offline sync becomes necessary.
    * 
    * Storage stats are updated asynchronously to avoid blocking renders.
    */
@@ -738,22 +856,36 @@ const App: React.FC<AppProps> = ({ mode, onBack }) => {
          
          localStorage.setItem('life_ledger', JSON.stringify(ledger)); 
          localStorage.setItem('life_inventory', JSON.stringify(inventory)); 
+         localStorage.setItem(INVENTORY_VERSION_KEY, String(INVENTORY_SCHEMA_VERSION));
          localStorage.setItem('life_messages', JSON.stringify(allMessages));
          localStorage.setItem('life_memories', JSON.stringify(memories));
          localStorage.setItem('approved_orchestrations', JSON.stringify(approvedOrchestrations));
+         localStorage.setItem('life_action_journal', JSON.stringify(actionJournal));
+         localStorage.setItem('life_token_usage', JSON.stringify(tokenUsage));
+         localStorage.setItem('life_prompt_profiles', JSON.stringify(profileSettings));
+         localStorage.setItem('life_day_reviews', JSON.stringify(dayReviews));
          localStorage.setItem('life_last_active', Date.now().toString()); // update active time
          
         // safe update of stats
         storageService.getStats().then(stats => setStorageStats(stats)).catch(e => console.error("Stats error", e));
 
-  }, [ledger, inventory, memories, allMessages, approvedOrchestrations, mode]);
+  }, [ledger, inventory, memories, allMessages, approvedOrchestrations, actionJournal, tokenUsage, profileSettings, dayReviews, mode]);
+
+  // Embed new/edited memories and messages into the semantic index (live mode only).
+  // Debounced because allMessages changes on every streamed chunk; the first run after
+  // load also backfills anything saved before the index existed.
+  useEffect(() => {
+    if (mode === 'demo') return;
+    const timer = setTimeout(() => { semanticMemory.index(memories, allMessages); }, SEMANTIC_INDEX_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [memories, allMessages, mode]);
   
-  // Cleanup old approved orchestrations (older than 7 days)
+  // Cleanup old approved orchestrations (older than APPROVED_ORCHESTRATION_RETENTION_DAYS)
   useEffect(() => {
     if (mode === 'demo') return;
     
     const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - 7);
+    cutoffDate.setDate(cutoffDate.getDate() - APPROVED_ORCHESTRATION_RETENTION_DAYS);
     const cutoffStr = toDateString(cutoffDate);
     
     setApprovedOrchestrations(prev => {
@@ -763,7 +895,7 @@ const App: React.FC<AppProps> = ({ mode, onBack }) => {
       
       const removedCount = Object.keys(prev).length - Object.keys(cleaned).length;
       if (removedCount > 0) {
-        console.log(`🧹 Removed ${removedCount} orchestration(s) older than 7 days`);
+        console.log(`🧹 Removed ${removedCount} orchestration(s) older than ${APPROVED_ORCHESTRATION_RETENTION_DAYS} days`);
       }
       
       return cleaned;
@@ -793,35 +925,113 @@ const App: React.FC<AppProps> = ({ mode, onBack }) => {
   const ledgerRef = useRef<RelationshipLedger>(ledger);
   useEffect(() => { ledgerRef.current = ledger; }, [ledger]);
 
-  // Worsening-only auto-recalculation: run once on mount.
+  /**
+   * DESIGN DECISION: Synchronous state commits
+   *
+   * Tool executors run inside one async agent turn, often several in a row, and
+   * read ledgerRef/inventoryRef to find their targets. Writing through these helpers
+   * updates the ref immediately (not on the next render), so:
+   * - a later tool call in the same turn sees the earlier call's result
+   * - the action journal can snapshot the exact state before and after each call
+   * All ledger/inventory writes after initialization go through commitLedger/commitInventory.
+   */
+  const commitLedger = (next: RelationshipLedger | ((prev: RelationshipLedger) => RelationshipLedger)) => {
+    const value = typeof next === 'function' ? next(ledgerRef.current) : next;
+    if (value === ledgerRef.current) return;
+    ledgerRef.current = value;
+    setLedger(value);
+  };
+
+  // Worsening-only auto-recalculation: run once on mount (mode is fixed for the App's lifetime).
   // Time can degrade a status, but only an explicit log_checkin can improve it.
   // This ensures statuses stay accurate after the app has been closed for several days.
   useEffect(() => {
     if (mode === 'demo') return; // Never mutate demo data
     const SEVERITY: Record<Person['status'], number> = { 'Stable': 0, 'Needs Attention': 1, 'Critical': 2, 'Overdue': 3 };
-    setLedger(prev => {
-      let changed = false;
-      const next = { ...prev };
-      for (const key of Object.keys(next)) {
-        const p = next[key] as Person;
-        const computed = calculateRelationshipStatus(p.priority, p.last_contact);
-        if (SEVERITY[computed] > SEVERITY[p.status]) {
-          next[key] = { ...p, status: computed };
-          changed = true;
-        }
+    let changed = false;
+    const next = { ...ledgerRef.current };
+    for (const key of Object.keys(next)) {
+      const p = next[key] as Person;
+      const computed = calculateRelationshipStatus(p.priority, p.last_contact);
+      if (SEVERITY[computed] > SEVERITY[p.status]) {
+        next[key] = { ...p, status: computed };
+        changed = true;
       }
-      return changed ? next : prev;
-    });
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // intentionally empty — run once on mount only
+    }
+    // Same write as commitLedger, which is recreated every render
+    if (changed) {
+      ledgerRef.current = next;
+      setLedger(next);
+    }
+  }, [mode]);
 
   const inventoryRef = useRef<LifeInventory>(inventory);
   useEffect(() => { inventoryRef.current = inventory; }, [inventory]);
 
+  // Once, after the stored inventory was migrated on load. `toast` is a new object every
+  // render, so the warning goes through a ref (like the rollover) and the effect runs on mount only.
+  const showMigrationWarningRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    showMigrationWarningRef.current = () => {
+      const unparsed = inventoryMigrationRef.current?.unparsed ?? [];
+      inventoryMigrationRef.current = null;
+      if (unparsed.length > 0) toast.showWarning(formatUnparsedFields(unparsed), 10000);
+    };
+  });
+  useEffect(() => showMigrationWarningRef.current(), []);
+
+  // Every write re-derives startMinutes/durationMinutes from the time and duration strings
+  const commitInventory = (next: LifeInventory | ((prev: LifeInventory) => LifeInventory)) => {
+    const value = syncTimeFields(typeof next === 'function' ? next(inventoryRef.current) : next);
+    if (value === inventoryRef.current) return;
+    inventoryRef.current = value;
+    setInventory(value);
+  };
+
+  const memoriesRef = useRef<Memory[]>(memories);
+  useEffect(() => { memoriesRef.current = memories; }, [memories]);
+
+  const commitMemories = (next: Memory[] | ((prev: Memory[]) => Memory[])) => {
+    const value = typeof next === 'function' ? next(memoriesRef.current) : next;
+    if (value === memoriesRef.current) return;
+    memoriesRef.current = value;
+    setMemories(value);
+  };
+
+  // Opt-in capture of executor calls for regression replay (see sessionRecorder.ts)
+  const sessionRecorder = useMemo(() => new SessionRecorder(() => ({
+    inventory: inventoryRef.current,
+    ledger: ledgerRef.current,
+    memories: memoriesRef.current,
+  }), () => schedulerOptionsRef.current), []);
+  const [isRecordingSession, setIsRecordingSession] = useState(false);
+
+  const handleToggleSessionRecording = () => {
+    if (!sessionRecorder.isRecording) {
+      sessionRecorder.start(geminiService.providerId);
+      setIsRecordingSession(true);
+      return;
+    }
+    const recording = sessionRecorder.stop();
+    setIsRecordingSession(false);
+    if (!recording || recording.turns.length === 0) {
+      toast.showWarning('Recording stopped: no tool calls were captured.');
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `session-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    toast.showSuccess(`Recording saved: ${recording.turns.length} turn${recording.turns.length === 1 ? '' : 's'}`);
+  };
+
   const [isLoading, setIsLoading] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
   const [showTutorial, setShowTutorial] = useState(() => !localStorage.getItem('life_tutorial_completed'));
   const pendingProposalRef = useRef<OrchestrationProposal | null>(null);
+  const pendingWeekProposalRef = useRef<WeekOrchestrationProposal | null>(null);
   const pendingContactRef = useRef<Person[]>([]);
   const initializedDateRef = useRef<string>('');
   const justCompletedTutorialRef = useRef(false);
@@ -832,6 +1042,19 @@ const App: React.FC<AppProps> = ({ mode, onBack }) => {
   const backgroundOrchestrationTimerRef = useRef<NodeJS.Timeout | null>(null);
   const currentDateAtScheduleRef = useRef<string>('');
   const lastUserMessageTimeRef = useRef<number>(0);
+  // Action journal: id of the AI turn currently executing tools, and turns that produced entries
+  const activeTurnIdRef = useRef<string>('');
+  const journaledTurnsRef = useRef<Set<string>>(new Set());
+  // Review mode: write calls staged during the current turn, and notes for the model about
+  // how the user resolved earlier changesets (prepended to the next message it receives)
+  const pendingChangesRef = useRef<PendingChange[]>([]);
+  // Changesets already being resolved: a second Accept before the card re-renders must not apply them twice
+  const resolvingChangesetsRef = useRef<Set<string>>(new Set());
+  const pendingSystemNotesRef = useRef<string[]>([]);
+  // Memory conflicts detected by save_memory during the current turn, attached to its message
+  const pendingMemoryConflictsRef = useRef<MemoryConflict[]>([]);
+  // Tool calls of the turn in progress, shown live under its model message
+  const [toolProgress, setToolProgress] = useState<{ messageId: string; steps: ToolProgressStep[] } | null>(null);
   
   const [processingProposal, setProcessingProposal] = useState(false);
 
@@ -844,59 +1067,194 @@ const App: React.FC<AppProps> = ({ mode, onBack }) => {
     setCurrentDate(date);
   };
 
-  const handleSendMessage = async (text: string, media: string | null, isHidden: boolean = false, isOrchestration: boolean = false) => {
-    // Track user message time for background orchestration debouncing
-    if (!isHidden) {
-      lastUserMessageTimeRef.current = Date.now();
-    }
+  /**
+   * DESIGN DECISION: One Session Context Builder
+   *
+   * Every path that opens a chat session (briefing, first message after a date
+   * change, tutorial complete/skip) assembles the same context block here.
+   * Memories and past conversations are not dumped wholesale: semanticMemory
+   * recalls the ones relevant to the target date's tasks and the message at hand.
+   * The memory, conversation and roster sections are then ranked and trimmed to
+   * SESSION_CONTEXT_BUDGET_TOKENS (see services/contextBudget.ts).
+   */
+  const buildSessionContext = (recall: RecallResult): { context: string; trimmed: ContextTrim[] } => {
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const dateKey = toDateString(currentDate);
 
-    // Cancel any pending background orchestration when user sends a message
-    if (backgroundOrchestrationTimerRef.current) {
-      clearTimeout(backgroundOrchestrationTimerRef.current);
-      backgroundOrchestrationTimerRef.current = null;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const viewDate = new Date(currentDate);
+    viewDate.setHours(0, 0, 0, 0);
+    const temporalMode = viewDate < today ? 'REFLECTION' : viewDate > today ? 'PLANNING' : 'ACTIVE';
+    const todayKey = toDateString(today);
+
+    // Check for active approved orchestration
+    const activeOrchestration = approvedOrchestrations[dateKey];
+    const orchestrationStatus = activeOrchestration && activeOrchestration.isActive
+      ? `ACTIVE since ${new Date(activeOrchestration.approvedAt).toLocaleString()} - Day already orchestrated`
+      : 'NONE - Day not orchestrated';
+
+    // Pinned memories are always included (and never trimmed), whatever recall ranked.
+    const recalledIds = new Set(recall.memories.map(m => m.id));
+    const pinnedMemories = memories.filter(m => m.pinned && !recalledIds.has(m.id));
+    const sessionMemories = [...pinnedMemories, ...recall.memories];
+    const memoryHeader = recall.source === 'all'
+      ? '== LONG-TERM MEMORY BANK =='
+      : `== LONG-TERM MEMORY BANK (${sessionMemories.length} most relevant of ${memories.length}) ==`;
+
+    // Roster ranking: contacts linked to this day's tasks, then by how overdue they are, then priority
+    const rosterLedger = ledgerRef.current;
+    const dayTasks = getTasksForDate(inventoryRef.current, dateKey);
+    const linkedToday = new Set(
+      [...dayTasks.fixed, ...dayTasks.flexible].flatMap(t => (Array.isArray(t.linkedContact) ? t.linkedContact : t.linkedContact ? [t.linkedContact] : []).map(c => c.toLowerCase()))
+    );
+    const statusRank: Record<Person['status'], number> = { Overdue: 0, Critical: 1, 'Needs Attention': 2, Stable: 3 };
+    const rosterPeople = Object.entries(rosterLedger)
+      .map(([key, p]) => ({ p: p as Person, linked: linkedToday.has(key.toLowerCase()) || linkedToday.has((p as Person).name.toLowerCase()) }))
+      .sort((a, b) => Number(b.linked) - Number(a.linked) || statusRank[a.p.status] - statusRank[b.p.status] || b.p.priority - a.p.priority)
+      .map(x => x.p);
+
+    const { text: rankedSections, trimmed } = fitSectionsToBudget([
+      {
+        id: 'memories',
+        header: `${memoryHeader}\n(Use the id with update_memory / forget_memory)`,
+        lines: sessionMemories.map(m => `- [${m.date}] (${m.type}${m.pinned ? ', pinned' : ''}) id=${m.id}: ${m.content}`),
+        keep: pinnedMemories.length,
+        overflowNote: n => `(+${n} less relevant memories omitted to fit the context budget)`,
+      },
+      {
+        id: 'past-conversations',
+        header: '== RELATED PAST CONVERSATIONS ==',
+        lines: recall.messages.map(m => `- [${m.date}] ${m.role === 'user' ? 'User' : 'You'}: ${m.text.length > 280 ? `${m.text.slice(0, 280)}…` : m.text}`),
+      },
+      {
+        id: 'reviews',
+        header: '== RECENT DAY REVIEWS ==\n(Plan vs actual, mood and energy from end-of-day reviews, newest first — use them to spot patterns)',
+        lines: recentReviews(dayReviews, dateKey).map(formatReviewLine),
+      },
+      {
+        id: 'deadlines',
+        header: `== APPROACHING DEADLINES ==\n(Unfinished tasks due by ${addDaysToKey(todayKey, DEADLINE_HORIZON_DAYS)} or already overdue, soonest first)`,
+        lines: approachingDeadlines(inventoryRef.current, todayKey).map(t => formatDeadlineLine(t, todayKey)),
+      },
+      {
+        // Contact roster so the LLM uses exact stored names in tool calls
+        id: 'roster',
+        header: '== KINSHIP LEDGER ROSTER ==\n(Use the EXACT Name below when calling log_checkin or update_relationship_status — do NOT paraphrase or substitute relation words)',
+        lines: rosterPeople.map(p => `- ${p.name} (${p.relation}) [${p.category}]`),
+        overflowNote: n => `(+${n} more contacts — call get_relationship_status for the full ledger)`,
+      },
+    ]);
+    if (trimmed.length > 0) {
+      console.log('✂️ Session context trimmed to budget:', trimmed.map(t => `${t.sectionId} -${t.dropped}`).join(', '));
     }
 
-    // Ensure session is initialized before sending
-    if (!geminiService.chat) {
-      console.log('[App] No active session detected, reinitializing before message send');
-      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-      let memoryContext = memories.length > 0 ? `\n\n== LONG-TERM MEMORY BANK ==\n${memories.map(m => `- [${m.date}] (${m.type}): ${m.content}`).join('\n')}` : "";
-      
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const viewDate = new Date(currentDate);
-      viewDate.setHours(0, 0, 0, 0);
-      const temporalMode = viewDate < today ? 'REFLECTION' : viewDate > today ? 'PLANNING' : 'ACTIVE';
-      
-      // Check for active approved orchestration
-      const dateKey = toDateString(currentDate);
-      const activeOrchestration = approvedOrchestrations[dateKey];
-      const orchestrationStatus = activeOrchestration && activeOrchestration.isActive
-        ? `ACTIVE since ${new Date(activeOrchestration.approvedAt).toLocaleString()} - Day already orchestrated`
-        : 'NONE - Day not orchestrated';
-
-      // Build contact roster so LLM uses exact stored names in tool calls
-      const reinitRoster = ledgerRef.current;
-      const reinitKeys = Object.keys(reinitRoster);
-      const reinitRosterContext = reinitKeys.length > 0
-        ? `\n\n== KINSHIP LEDGER ROSTER ==\n(Use the EXACT Name below when calling log_checkin or update_relationship_status — do NOT paraphrase or substitute relation words)\n${reinitKeys.map(k => { const p = reinitRoster[k] as Person; return `- ${p.name} (${p.relation}) [${p.category}]`; }).join('\n')}`
-        : '';
-      
-      geminiService.startNewSession(`
+    const context = `
 Session Context:
-Target Date: ${currentDate.toLocaleDateString()} (Format for add_task: ${toDateString(currentDate)})
+Target Date: ${currentDate.toLocaleDateString()} (Format for add_task: ${dateKey})
 Current System Date: ${new Date().toLocaleDateString()} (${toDateString(new Date())})
 Temporal Mode: ${temporalMode}
 Approved Orchestration: ${orchestrationStatus}
 
 IMPORTANT - When user says "this day", "today", "tonight":
-→ They mean the TARGET DATE: ${toDateString(currentDate)}
+→ They mean the TARGET DATE: ${dateKey}
 → NOT the current system date
 
 Current Session Time: ${getModeTime()}
 User Mode: ${mode}
 User Timezone: ${timezone}
-${memoryContext}${reinitRosterContext}`);
+${rankedSections}`;
+    return { context, trimmed };
+  };
+
+  /**
+   * Recall relevant memories/messages for a new session, then build its context.
+   * Vector recall is raced against a short timeout so a slow embedding call never
+   * delays the briefing; the local ranking is used instead.
+   */
+  const prepareSessionContext = async (pendingMessage?: string) => {
+    const dateKey = toDateString(currentDate);
+    const dayTasks = getTasksForDate(inventoryRef.current, dateKey);
+    const recentTurns = (allMessages[dateKey] || []).slice(-6).map(m => m.text);
+    const query = [
+      currentDate.toLocaleDateString('en-US', { weekday: 'long' }),
+      ...[...dayTasks.fixed, ...dayTasks.flexible].map(t => `${t.title} ${t.category ?? ''}`),
+      ...recentTurns,
+      pendingMessage ?? '',
+    ].join('\n');
+    const recallOptions = { memories, allMessages, excludeDate: dateKey };
+
+    const recall = await Promise.race([
+      semanticMemory.recall(query, recallOptions),
+      new Promise<RecallResult>(resolve => setTimeout(() => resolve(semanticMemory.recallLocally(query, recallOptions)), SESSION_RECALL_TIMEOUT_MS)),
+    ]);
+    console.log(`🧠 Session recall (${recall.source}): ${recall.memories.length}/${memories.length} memories, ${recall.messages.length} past messages`);
+    return buildSessionContext(recall);
+  };
+
+  /** Open a fresh chat session for the current date with a recalled, budgeted context. */
+  const startSession = async (pendingMessage?: string) => {
+    const { context, trimmed } = await prepareSessionContext(pendingMessage);
+    geminiService.startNewSession(context, trimmed, toDateString(currentDate));
+  };
+
+  /**
+   * Route one turn's AgentStreamEvents into the UI: streamed text goes straight into
+   * the model message, tool calls into the live progress list under it. On 'done'
+   * the final text (possibly a fallback summary) is committed and the progress list
+   * cleared; `onDone` runs in the same update for turn-specific flushing.
+   */
+  const createStreamEventHandler = (modelMsgId: string, onDone?: (message: ChatMessage) => void) => (event: AgentStreamEvent) => {
+    const updateModelMessage = (update: (message: ChatMessage) => void) => updateCurrentDayMessages(prev => {
+      const newArr = [...prev];
+      const last = newArr[newArr.length - 1];
+      if (last && last.role === 'model' && last.id === modelMsgId) update(last);
+      return [...newArr];
+    });
+
+    switch (event.type) {
+      case 'text-delta':
+        updateModelMessage(last => { last.text = event.text; });
+        setIsLoading(false);
+        break;
+      case 'tool-call-started':
+      case 'tool-call-finished':
+        if (event.type === 'tool-call-finished') {
+          sessionRecorder.noteModelCall({ name: event.call.name, args: event.call.args, status: event.call.status });
+        }
+        setToolProgress(prev => ({ messageId: modelMsgId, steps: applyToolEvent(prev?.messageId === modelMsgId ? prev.steps : [], event) }));
+        setIsLoading(false);
+        break;
+      case 'error':
+        console.warn(`⚠️ Turn error (${event.recoverable ? 'recoverable' : 'fatal'}): ${event.message}`);
+        break;
+      case 'done':
+        updateModelMessage(last => {
+          last.text = event.text;
+          last.thought = event.thought;
+          onDone?.(last);
+        });
+        setToolProgress(null);
+        break;
+    }
+  };
+
+  const handleSendMessage = async (text: string, media: string | null, isHidden: boolean = false, isOrchestration: boolean = false, loopOptions: Pick<AgentLoopOptions, 'orchestrationScope' | 'usageKind'> = {}) => {
+    // Track user message time for background orchestration debouncing
+    if (!isHidden) {
+      lastUserMessageTimeRef.current = Date.now();
+    }
+
+    // Cancel any pending background orchestration when user sends a message
+    if (backgroundOrchestrationTimerRef.current) {
+      clearTimeout(backgroundOrchestrationTimerRef.current);
+      backgroundOrchestrationTimerRef.current = null;
+    }
+
+    // Ensure session is initialized before sending
+    if (!geminiService.chat) {
+      console.log('[App] No active session detected, reinitializing before message send');
+      await startSession(text);
     }
     
     const currentDayMessages = messages;
@@ -914,14 +1272,14 @@ ${memoryContext}${reinitRosterContext}`);
     if (!isHidden) {
         updateCurrentDayMessages(prev => [...prev, { id: userMsgId, role: 'user', text, timestamp: new Date().toISOString(), media: compressedMedia || undefined }]);
     }
-    updateCurrentDayMessages(prev => [...prev, { id: modelMsgId, role: 'model', text: isOrchestration ? '🔄 Orchestrating your day...' : '', thought: '', timestamp: new Date().toISOString() }]);
+    updateCurrentDayMessages(prev => [...prev, { id: modelMsgId, role: 'model', text: isOrchestration ? (loopOptions.orchestrationScope === 'week' ? '🔄 Orchestrating your week...' : '🔄 Orchestrating your day...') : '', thought: '', timestamp: new Date().toISOString() }]);
     
     setIsLoading(true);
     setIsStreaming(true);
     
     // Fallback timer: Force-attach proposal if stream hangs
     const proposalFallbackTimer = setTimeout(() => {
-      if (pendingProposalRef.current || pendingContactRef.current.length > 0) {
+      if (pendingProposalRef.current || pendingWeekProposalRef.current || pendingContactRef.current.length > 0) {
         console.warn('Proposal fallback triggered - attaching pending items without waiting for full stream');
         updateCurrentDayMessages(prev => {
           const newArr = [...prev];
@@ -935,6 +1293,13 @@ ${memoryContext}${reinitRosterContext}`);
                 last.text = 'I\'ve prepared an orchestration for you:';
               }
             }
+            if (pendingWeekProposalRef.current && !last.weekProposal) {
+              last.weekProposal = pendingWeekProposalRef.current;
+              pendingWeekProposalRef.current = null;
+              if (!last.text) {
+                last.text = 'I\'ve prepared a plan for your week:';
+              }
+            }
             if (pendingContactRef.current.length > 0 && !last.contactProposals) {
               last.contactProposals = [...pendingContactRef.current];
               pendingContactRef.current = [];
@@ -946,36 +1311,27 @@ ${memoryContext}${reinitRosterContext}`);
       }
     }, 5000); // 5 second fallback
     
+    activeTurnIdRef.current = modelMsgId;
+    sessionRecorder.beginTurn(text, toDateString(currentDate));
+    const systemNotes = pendingSystemNotesRef.current.splice(0);
+    const aiText = systemNotes.length > 0 ? `${systemNotes.join('\n')}\n\n${text}` : text;
     try {
-      await geminiService.sendMessageStream(text, compressedMedia, executors, (streamText, streamThought) => {
-          updateCurrentDayMessages(prev => {
-              const newArr = [...prev]; const last = newArr[newArr.length - 1];
-              if (last && last.role === 'model' && last.id === modelMsgId) {
-                  last.text = streamText;
-                  last.thought = streamThought;
-              }
-              return newArr;
-          });
-          if (streamText || streamThought) setIsLoading(false);
-      }, getModeTime(), isOrchestration, (finalText, finalThought) => {
-          // onComplete: flush pending contacts/proposals into the message ONLY after
-          // the full AI response has finished streaming, preventing mid-stream card rendering.
-          updateCurrentDayMessages(prev => {
-              const newArr = [...prev];
-              const last = newArr[newArr.length - 1];
-              if (last && last.role === 'model' && last.id === modelMsgId) {
-                  if (pendingProposalRef.current && !last.proposal) {
-                      last.proposal = pendingProposalRef.current;
-                      pendingProposalRef.current = null;
-                  }
-                  if (pendingContactRef.current.length > 0 && !last.contactProposals) {
-                      last.contactProposals = [...pendingContactRef.current];
-                      pendingContactRef.current = [];
-                  }
-              }
-              return [...newArr];
-          });
-      });
+      await geminiService.sendMessageStream(aiText, compressedMedia, executors, createStreamEventHandler(modelMsgId, last => {
+          // Flush pending contacts/proposals into the message ONLY after the full AI
+          // response has finished streaming, preventing mid-stream card rendering.
+          if (pendingProposalRef.current && !last.proposal) {
+              last.proposal = pendingProposalRef.current;
+              pendingProposalRef.current = null;
+          }
+          if (pendingWeekProposalRef.current && !last.weekProposal) {
+              last.weekProposal = pendingWeekProposalRef.current;
+              pendingWeekProposalRef.current = null;
+          }
+          if (pendingContactRef.current.length > 0 && !last.contactProposals) {
+              last.contactProposals = [...pendingContactRef.current];
+              pendingContactRef.current = [];
+          }
+      }), getModeTime(), isOrchestration, loopOptions);
     } catch (error: any) { 
         console.error("SendMessage Error:", error);
         const errorMsg = error.message?.includes('timeout') 
@@ -984,6 +1340,10 @@ ${memoryContext}${reinitRosterContext}`);
         alert(errorMsg);
     } finally { 
         clearTimeout(proposalFallbackTimer); // Clear fallback timer
+        sessionRecorder.endTurn();
+        attachPendingChangeset(modelMsgId);
+        attachPendingMemoryConflicts(modelMsgId);
+        appendJournalActionMessage(modelMsgId);
         setIsLoading(false);
         setIsStreaming(false);
         
@@ -1048,6 +1408,9 @@ ${memoryContext}${reinitRosterContext}`);
    * - save_memory: Persists AI learning for future sessions
    * 
    * The AI's system prompt teaches it when and how to use each executor.
+   *
+   * The executor logic lives in services/toolExecutors.ts; this component supplies
+   * the host (state refs, dates, proposal cards) and layers review-mode staging on top.
    */
 
   const scheduleBackgroundOrchestration = () => {
@@ -1076,6 +1439,12 @@ ${memoryContext}${reinitRosterContext}`);
       return;
     }
 
+    // Guard 5: Today's token budget must not be spent (the user didn't ask for this call)
+    if (isOverDailyBudget(tokenUsageRef.current, toDateString(new Date()))) {
+      console.log('💸 Skipping background orchestration: daily token budget reached');
+      return;
+    }
+
     // Schedule orchestration with debounce (3-6 second random delay)
     const delay = 3000 + Math.random() * 3000;
     backgroundOrchestrationTimerRef.current = setTimeout(async () => {
@@ -1084,13 +1453,14 @@ ${memoryContext}${reinitRosterContext}`);
         tasksModifiedCountRef.current === 0 ||
         isStreaming ||
         toDateString(currentDate) !== currentDateAtScheduleRef.current ||
-        pendingProposalRef.current
+        pendingProposalRef.current ||
+        isOverDailyBudget(tokenUsageRef.current, toDateString(new Date()))
       ) {
         backgroundOrchestrationTimerRef.current = null;
         return;
       }
 
-      // Guard 5: Check if user sent a message recently (within 2 seconds)
+      // Guard 6: Check if user sent a message recently (within 2 seconds)
       const timeSinceLastUserMessage = Date.now() - lastUserMessageTimeRef.current;
       if (timeSinceLastUserMessage < 2000) {
         // User is actively typing/messaging, reschedule
@@ -1108,7 +1478,9 @@ ${memoryContext}${reinitRosterContext}`);
       handleSendMessage(
         'Reorganize my entire day now that I\'ve added these new tasks. Show me a complete orchestration.',
         null,
-        true // isHidden flag
+        true, // isHidden flag
+        false,
+        { usageKind: 'background_orchestration' }
       );
     }, delay);
   };
@@ -1131,36 +1503,112 @@ ${memoryContext}${reinitRosterContext}`);
     });
   };
 
-  const executors = {
-    getRelationshipStatus: async () => ledgerRef.current,
-    getLifeContext: async (args?: { date?: string }) => getTasksForDate(inventoryRef.current, args?.date || toDateString(currentDate)),
-    proposeOrchestration: async (newProposal: OrchestrationProposal) => {
-      console.log('🎯 proposeOrchestration CALLED by AI with proposal:', newProposal);
-      
-      // Tool permission validation: prevent orchestrating past dates
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const viewDate = new Date(currentDate);
-      viewDate.setHours(0, 0, 0, 0);
-      
-      if (viewDate < today) {
-        return "❌ Cannot orchestrate past dates. Past dates are for reflection only. Please navigate to today or a future date to create new orchestrations.";
-      }
-      
+  /**
+   * Store the review for a date with a fresh plan-vs-actual comparison. The plan is
+   * the approved orchestration when one exists (stale or not: it is what the user
+   * agreed to that morning), otherwise all of the day's tasks.
+   */
+  const saveDayReview = (dateKey: string, input: DayReviewInput) => {
+    const comparison = compareDayToPlan(getTasksForDate(inventoryRef.current, dateKey), approvedOrchestrations[dateKey]);
+    setDayReviews(prev => ({ ...prev, [dateKey]: buildDayReview(dateKey, comparison, input, prev[dateKey]) }));
+  };
+
+  /**
+   * Build the retrospective for the week/month of the viewed date: statistics locally
+   * (see services/retrospective.ts), narrative from the model with a local fallback.
+   */
+  const handleGenerateRetrospective = async (period: RetrospectivePeriod): Promise<RetrospectiveReport> => {
+    const stats = computeRetrospective(period, toDateString(currentDate), toDateString(new Date()), {
+      inventory: inventoryRef.current,
+      ledger: ledgerRef.current,
+      approvedOrchestrations,
+      actionJournal,
+      dayReviews,
+    }, schedulerOptionsRef.current.overloadHours);
+    const narrative = await geminiService.generateRetrospectiveNarrative(formatStatisticsForPrompt(stats));
+    return {
+      stats,
+      narrative: narrative ?? localNarrative(stats),
+      narrativeSource: narrative ? 'model' : 'local',
+      generatedAt: new Date().toISOString(),
+    };
+  };
+
+  /**
+   * After an AI turn finishes, surface its journaled changes as a single isAction
+   * message. The message only references the turn; ChatInterface renders the live
+   * entries (and their Undo state) from the journal.
+   */
+  const appendJournalActionMessage = (turnId: string) => {
+    if (!journaledTurnsRef.current.has(turnId)) return;
+    journaledTurnsRef.current.delete(turnId);
+    updateCurrentDayMessages(prev => [...prev, {
+      id: Math.random().toString(36).substr(2, 9),
+      role: 'model',
+      text: 'Changes applied by the assistant',
+      timestamp: new Date().toISOString(),
+      isAction: true,
+      journalTurnId: turnId,
+    }]);
+  };
+
+  /**
+   * Undo one or more journal entries atomically (a single entry, or a whole turn).
+   * If any item was edited again since the AI touched it, nothing is undone and the
+   * conflicts are reported.
+   */
+  const handleUndoJournalEntries = (entryIds: string[]) => {
+    const entries = actionJournal.filter(e => entryIds.includes(e.id) && !e.undoneAt);
+    if (entries.length === 0) return;
+
+    const result = revertJournalEntries(inventoryRef.current, ledgerRef.current, entries);
+    if (result.conflicts.length > 0) {
+      toast.showError(`Nothing undone: ${result.conflicts.join('; ')}`);
+      return;
+    }
+    commitInventory(result.inventory);
+    commitLedger(result.ledger);
+    affectedDates(entries.filter(e => result.revertedIds.includes(e.id)))
+      .forEach(date => invalidateApprovedOrchestration(date));
+
+    const undoneAt = new Date().toISOString();
+    setActionJournal(prev => prev.map(e => result.revertedIds.includes(e.id) ? { ...e, undoneAt } : e));
+
+    toast.showSuccess(entries.length === 1 ? 'Change undone' : `${entries.length} changes undone`);
+  };
+
+  /**
+   * Tool executor host: binds the executors in services/toolExecutors.ts to this
+   * component's refs, dates and UI. Built on every render like the executors used to
+   * be, so closures over currentDate and messages stay fresh.
+   */
+  const executorHost: ExecutorHost = {
+    getInventory: () => inventoryRef.current,
+    commitInventory,
+    getLedger: () => ledgerRef.current,
+    commitLedger,
+    getMemories: () => memoriesRef.current,
+    commitMemories,
+    viewDateKey: () => toDateString(currentDate),
+    todayKey: () => toDateString(new Date()),
+    schedulerOptions: () => schedulerOptionsRef.current,
+    getTurnId: () => activeTurnIdRef.current,
+    addPerson: person => handleAddPerson(person),
+    proposeContact: person => { pendingContactRef.current.push(person); },
+    raiseMemoryConflict: conflict => { pendingMemoryConflictsRef.current.push(conflict); },
+    presentDayProposal: proposal => {
       // Debounce protection
       const now = Date.now();
-      if (now - lastProposalTimeRef.current < 5000) {
-        return "⏳ Please wait a moment before requesting another orchestration. The previous proposal is still being processed.";
-      }
+      if (now - lastProposalTimeRef.current < 5000) return 'throttled';
       lastProposalTimeRef.current = now;
-      
+
       // Auto-dismiss old proposals for this date
       const hadExistingProposal = messages.some(msg => msg.proposal);
-      updateCurrentDayMessages(prev => 
+      updateCurrentDayMessages(prev =>
         prev.map(msg => {
           if (msg.proposal) {
-            return { 
-              ...msg, 
+            return {
+              ...msg,
               proposal: undefined,
               thought: (msg.thought || '') + ' [Previous proposal auto-dismissed due to new orchestration request]'
             };
@@ -1168,466 +1616,223 @@ ${memoryContext}${reinitRosterContext}`);
           return msg;
         })
       );
-      
-      pendingProposalRef.current = newProposal;
+
+      pendingProposalRef.current = proposal;
       tasksModifiedCountRef.current = 0; // Reset counter since we're now proposing the orchestration
-      return hadExistingProposal 
-        ? "✅ New proposal generated. Previous proposal has been replaced." 
-        : "✅ Proposal generated.";
+      return hadExistingProposal ? 'replaced' : 'presented';
     },
-    updateRelationshipStatus: async (args: UpdateRelationshipArgs) => {
-        const currentLedger = ledgerRef.current;
-        const normalize = (s: string) => s.toLowerCase().trim();
-        const targetName = normalize(args.person_name);
-        const matchedKey = Object.keys(currentLedger).find(k => {
-            const p = currentLedger[k] as Person;
-            return normalize(p.name) === targetName
-                || normalize(k) === targetName
-                || normalize(p.relation) === targetName
-                || normalize(p.relation).includes(targetName)
-                || targetName.includes(normalize(p.name));
-        });
-
-        // Use the current viewing date for last_contact, not system time
-        const contactDate = toDateString(currentDate);
-
-        if (!matchedKey) {
-            const newPerson: Person = {
-                name: args.person_name, relation: args.relation || "New Contact", category: args.category || 'Network',
-                priority: 3, notes: args.notes_update, status: args.status_level, last_contact: contactDate,
-                image: `https://ui-avatars.com/api/?name=${args.person_name}&background=random`
-            };
-            if (args.confirmed) {
-                // User explicitly asked to add — skip the proposal card and add directly
-                await handleAddPerson(newPerson);
-                return `Added ${args.person_name} to the Kinship Ledger.`;
-            } else {
-                pendingContactRef.current.push(newPerson);
-                return `Proposal to add ${args.person_name} prepared.`;
-            }
-        } else {
-            setLedger(prev => ({ ...prev, [matchedKey]: { ...(prev[matchedKey] as Person), notes: args.notes_update, status: args.status_level, last_contact: contactDate } }));
-            return `Updated ${args.person_name}'s ledger.`;
-        }
+    presentWeekProposal: proposal => {
+      const hadExistingProposal = messages.some(msg => msg.weekProposal);
+      updateCurrentDayMessages(prev => prev.map(msg => msg.weekProposal ? { ...msg, weekProposal: undefined } : msg));
+      pendingWeekProposalRef.current = proposal;
+      return hadExistingProposal ? 'replaced' : 'presented';
     },
-    logCheckin: async (args: LogCheckinArgs) => {
-        const currentLedger = ledgerRef.current;
-        const normalize = (s: string) => s.toLowerCase().trim();
-        const targetName = normalize(args.person_name);
-        const matchedKey = Object.keys(currentLedger).find(k => {
-            const p = currentLedger[k] as Person;
-            return normalize(p.name) === targetName
-                || normalize(k) === targetName
-                || normalize(p.relation) === targetName
-                || normalize(p.relation).includes(targetName)
-                || targetName.includes(normalize(p.name));
-        });
-
-        // Use date_override if provided (e.g. retroactive check-in via task checkmark),
-        // otherwise fall back to the current viewing date (respects temporal mode).
-        const contactDate = args.date_override ?? toDateString(currentDate);
-
-        if (matchedKey) {
-            const existing = currentLedger[matchedKey] as Person;
-            const newStatus = calculateRelationshipStatus(existing.priority, new Date(contactDate));
-            const updatedNotes = args.notes
-                ? `${existing.notes ? existing.notes + '\n' : ''}[${contactDate}] ${args.notes}`.trim()
-                : existing.notes;
-            setLedger(prev => ({
-                ...prev,
-                [matchedKey]: { ...existing, last_contact: contactDate, status: newStatus, notes: updatedNotes }
-            }));
-            return `Logged check-in with ${existing.name}. Status is now ${newStatus}.`;
-        } else {
-            const newPerson: Person = {
-                name: args.person_name,
-                relation: 'New Contact',
-                category: 'Network',
-                priority: 3,
-                notes: args.notes ? `[${contactDate}] ${args.notes}` : '',
-                status: 'Stable', // Just contacted — freshly stable
-                last_contact: contactDate,
-                image: `https://ui-avatars.com/api/?name=${args.person_name}&background=random`
-            };
-            if (args.confirmed) {
-                await handleAddPerson(newPerson);
-                return `Added ${args.person_name} to the Kinship Ledger and logged today's check-in.`;
-            } else {
-                pendingContactRef.current.push(newPerson);
-                return `${args.person_name} isn't in your Kinship Ledger yet. Proposal card shown — confirm to add them.`;
-            }
-        }
+    onJournalEntry: entry => {
+      journaledTurnsRef.current.add(entry.turnId);
+      setActionJournal(prev => [...prev, entry].slice(-MAX_JOURNAL_ENTRIES));
     },
-    updateTask: async (args: { task_title: string; new_title?: string; time?: string; duration?: string; priority?: string; category?: string; type?: string; date?: string; linkedContact?: string[]; description?: string }) => {
-        const allTasks = [...inventoryRef.current.fixed, ...inventoryRef.current.flexible];
-        const normalize = (s: string) => s.toLowerCase().trim();
-        const searchTitle = normalize(args.task_title);
-        const dateStr = toDateString(currentDate);
-
-        // Prefer task on the currently viewed date; fall back to any date
-        const matchedTask =
-            allTasks.find(t => t.date === dateStr && (
-                normalize(t.title) === searchTitle ||
-                normalize(t.title).includes(searchTitle) ||
-                searchTitle.includes(normalize(t.title))
-            )) ??
-            allTasks.find(t =>
-                normalize(t.title) === searchTitle ||
-                normalize(t.title).includes(searchTitle) ||
-                searchTitle.includes(normalize(t.title))
-            );
+    onTasksModified: () => { tasksModifiedCountRef.current += 1; },
+    invalidateApprovedOrchestration,
+    saveDayReview: (dateKey, input) => saveDayReview(dateKey, input),
+  };
 
-        if (!matchedTask) {
-            const similar = allTasks
-                .filter(t => normalize(t.title).includes(searchTitle.slice(0, 5)))
-                .map(t => `"${t.title}"`).join(', ');
-            return `No task matching "${args.task_title}" found.${similar ? ` Did you mean: ${similar}?` : ' Check the task title in your inventory.'}`;
-        }
+  const directExecutors = sessionRecorder.wrap(createToolExecutors(executorHost), () => toDateString(currentDate));
 
-        // Build updated task, only overriding fields that were provided
-        const updatedTask: Task = { ...matchedTask };
-        if (args.new_title !== undefined) updatedTask.title = args.new_title;
-        if (args.time !== undefined) updatedTask.time = args.time;
-        if (args.duration !== undefined) updatedTask.duration = args.duration;
-        if (args.priority !== undefined) updatedTask.priority = args.priority as Task['priority'];
-        if (args.category !== undefined) updatedTask.category = args.category as Task['category'];
-        if (args.type !== undefined) updatedTask.type = args.type as Task['type'];
-        if (args.date !== undefined) updatedTask.date = args.date;
-        if (args.linkedContact !== undefined) updatedTask.linkedContact = args.linkedContact;
-        if (args.description !== undefined) updatedTask.description = args.description;
-
-        handleUpdateTask(updatedTask);
-
-        const changes: string[] = [];
-        if (args.new_title) changes.push(`title → "${args.new_title}"`);
-        if (args.time) changes.push(`time → ${args.time}`);
-        if (args.duration) changes.push(`duration → ${args.duration}`);
-        if (args.linkedContact) changes.push(`linkedContact → [${args.linkedContact.join(', ')}]`);
-        if (args.priority) changes.push(`priority → ${args.priority}`);
-        if (args.category) changes.push(`category → ${args.category}`);
-        if (args.date) changes.push(`date → ${args.date}`);
-
-        return `✅ Updated "${matchedTask.title}"${changes.length > 0 ? ': ' + changes.join(', ') : ''}.`;
-    },
-    completeTask: async (args: { task_title: string }) => {
-        const allTasks = [...inventoryRef.current.fixed, ...inventoryRef.current.flexible];
-        const normalize = (s: string) => s.toLowerCase().trim();
-        const normalizeContacts = (lc: string | string[] | undefined): string[] =>
-            !lc ? [] : Array.isArray(lc) ? lc : [lc];
-        const searchTitle = normalize(args.task_title);
-        const dateStr = toDateString(currentDate);
-
-        // Prefer task on the currently viewed date; fall back to any date
-        const matchedTask =
-            allTasks.find(t => t.date === dateStr && (
-                normalize(t.title) === searchTitle ||
-                normalize(t.title).includes(searchTitle) ||
-                searchTitle.includes(normalize(t.title))
-            )) ??
-            allTasks.find(t =>
-                normalize(t.title) === searchTitle ||
-                normalize(t.title).includes(searchTitle) ||
-                searchTitle.includes(normalize(t.title))
-            );
+  // The user's own actions (e.g. checking off a task) reuse the executor logic. They are
+  // recorded like any executor call but never staged or journaled under an AI turn, so
+  // undoing a turn leaves them alone.
+  const manualExecutors = sessionRecorder.wrap(createToolExecutors({ ...executorHost, onJournalEntry: () => {} }), () => toDateString(currentDate));
 
-        if (!matchedTask) {
-            // Secondary fallback: AI may have passed a social phrase like "met with Alex"
-            // instead of the task title. Extract any ledger contact names from the search
-            // string and find a task for them (all matching contacts).
-            const currentLedgerFB = ledgerRef.current;
-            const normFB = (s: string) => s.toLowerCase().trim();
-            const matchedContactKeys = Object.keys(currentLedgerFB).filter(k => {
-                const p = currentLedgerFB[k] as Person;
-                return searchTitle.includes(normFB(p.name)) || searchTitle.includes(normFB(k));
-            });
-            if (matchedContactKeys.length > 0) {
-                // Try to find a task for any of the matched contacts
-                const firstPerson = currentLedgerFB[matchedContactKeys[0]] as Person;
-                const personLower = normFB(firstPerson.name);
-                const taskForPerson =
-                    allTasks.find(t => t.date === dateStr && normalize(t.title).includes(personLower)) ??
-                    allTasks.find(t => normalize(t.title).includes(personLower));
-                if (taskForPerson) {
-                    handleUpdateTask({ ...taskForPerson, completed: true });
-                    const checkinDate = taskForPerson.date ?? dateStr;
-                    const names: string[] = [];
-                    setLedger(prev => {
-                        const next = { ...prev };
-                        for (const key of matchedContactKeys) {
-                            const person = prev[key] as Person;
-                            const newStatus = calculateRelationshipStatus(person.priority, new Date(checkinDate));
-                            const noteEntry = `[${checkinDate}] Checked in via task: "${taskForPerson.title}"`;
-                            next[key] = { ...person, last_contact: checkinDate, status: newStatus, notes: person.notes ? `${person.notes}\n${noteEntry}` : noteEntry };
-                            names.push(`${person.name} (${newStatus})`);
-                        }
-                        return next;
-                    });
-                    return `Marked "${taskForPerson.title}" as complete. Check-ins logged for: ${names.join(', ')}.`;
-                } else {
-                    const names: string[] = [];
-                    setLedger(prev => {
-                        const next = { ...prev };
-                        for (const key of matchedContactKeys) {
-                            const person = prev[key] as Person;
-                            const newStatus = calculateRelationshipStatus(person.priority, new Date(dateStr));
-                            const noteEntry = `[${dateStr}] Checked in (from: "${args.task_title}")`;
-                            next[key] = { ...person, last_contact: dateStr, status: newStatus, notes: person.notes ? `${person.notes}\n${noteEntry}` : noteEntry };
-                            names.push(`${person.name} (${newStatus})`);
-                        }
-                        return next;
-                    });
-                    return `No task found for "${args.task_title}", but logged check-ins for: ${names.join(', ')}.`;
-                }
-            }
-            const similar = allTasks
-                .filter(t => normalize(t.title).includes(searchTitle.slice(0, 5)))
-                .map(t => `"${t.title}"`).join(', ');
-            return `No task matching "${args.task_title}" found.${similar ? ` Did you mean: ${similar}?` : ' Check the task title in your inventory.'}`;
-        }
+  /**
+   * DESIGN DECISION: Review mode staging
+   *
+   * Wraps a write executor: in review mode the call is recorded as a PendingChange
+   * (with a preview computed against current state) instead of running, and the model
+   * is told truthfully that the change awaits the user's approval. toArgs maps the
+   * executor's positional parameters back to the tool's argument object so the change
+   * can be previewed now and replayed through the same executor later.
+   */
+  const staged = <A extends any[]>(tool: string, toArgs: (...args: A) => any, run: (...args: A) => Promise<string>) =>
+    async (...args: A): Promise<string> => {
+      if (!reviewModeRef.current) return run(...args);
+      const change = createPendingChange(tool, toArgs(...args), {
+        inventory: inventoryRef.current,
+        ledger: ledgerRef.current,
+        memories: memoriesRef.current,
+        dateKey: toDateString(currentDate),
+      });
+      pendingChangesRef.current.push(change);
+      console.log(`⏸️ Staged ${tool} for review: ${change.summary}`);
+      return `${PENDING_APPROVAL_PREFIX} — NOT applied yet: ${change.summary}. The user is reviewing all changes from this turn on a changeset card and will accept or reject them. Do not tell the user this change is done.`;
+    };
 
-        // Mark the task as completed
-        handleUpdateTask({ ...matchedTask, completed: true });
+  const executors = {
+    ...directExecutors,
+    updateRelationshipStatus: staged('update_relationship_status', (args: UpdateRelationshipArgs) => args, directExecutors.updateRelationshipStatus),
+    logCheckin: staged('log_checkin', (args: LogCheckinArgs) => args, directExecutors.logCheckin),
+    updateTask: staged('update_task', (args: Parameters<typeof directExecutors.updateTask>[0]) => args, directExecutors.updateTask),
+    completeTask: staged('complete_task', (args: Parameters<typeof directExecutors.completeTask>[0]) => args, directExecutors.completeTask),
+    addTask: staged('add_task', (task: Parameters<typeof directExecutors.addTask>[0]) => task, directExecutors.addTask),
+    deleteTask: staged('delete_task', (title: string) => ({ title }), directExecutors.deleteTask),
+    deleteRelationshipStatus: staged('delete_relationship_status', (name: string) => ({ person_name: name }), directExecutors.deleteRelationshipStatus),
+    saveMemory: staged('save_memory', (content: string, type: Memory['type']) => ({ content, type }), directExecutors.saveMemory),
+    updateMemory: staged('update_memory', (args: Parameters<typeof directExecutors.updateMemory>[0]) => args, directExecutors.updateMemory),
+    forgetMemory: staged('forget_memory', (args: Parameters<typeof directExecutors.forgetMemory>[0]) => args, directExecutors.forgetMemory),
+    moveTasks: staged('move_tasks', (task_identifiers: string[], target_date: string, from_date?: string, scope?: OccurrenceScope) => ({ task_identifiers, target_date, from_date, scope }), directExecutors.moveTasks),
+    addSubtask: staged('add_subtask', (args: Parameters<typeof directExecutors.addSubtask>[0]) => args, directExecutors.addSubtask),
+    completeSubtask: staged('complete_subtask', (args: Parameters<typeof directExecutors.completeSubtask>[0]) => args, directExecutors.completeSubtask),
+  };
 
-        const currentLedger = ledgerRef.current;
-        const contactNormalize = (s: string) => s.toLowerCase().trim();
-        const checkinDate = matchedTask.date ?? dateStr;
-
-        // Collect all linked contact keys: start from explicit linkedContact array,
-        // then fall back to title scanning for any additional / missing contacts.
-        const explicitContacts = normalizeContacts(matchedTask.linkedContact);
-        let linkedKeys: string[] = [];
-
-        if (explicitContacts.length > 0) {
-            for (const contact of explicitContacts) {
-                const target = contactNormalize(contact);
-                const key = Object.keys(currentLedger).find(k => {
-                    const p = currentLedger[k] as Person;
-                    return contactNormalize(p.name) === target
-                        || contactNormalize(k) === target
-                        || contactNormalize(p.relation) === target;
-                });
-                if (key && !linkedKeys.includes(key)) linkedKeys.push(key);
-            }
-        }
+  /** Replay a staged change through the real (journaled) executor. */
+  const applyPendingChange = (change: PendingChange): Promise<string> => {
+    const args = change.args;
+    switch (change.tool) {
+      case 'add_task': return directExecutors.addTask(args);
+      case 'delete_task': return directExecutors.deleteTask(args.title);
+      case 'move_tasks': return directExecutors.moveTasks(args.task_identifiers, args.target_date, args.from_date, args.scope);
+      case 'update_task': return directExecutors.updateTask(args);
+      case 'complete_task': return directExecutors.completeTask(args);
+      case 'add_subtask': return directExecutors.addSubtask(args);
+      case 'complete_subtask': return directExecutors.completeSubtask(args);
+      case 'log_checkin': return directExecutors.logCheckin(args);
+      case 'update_relationship_status': return directExecutors.updateRelationshipStatus(args);
+      case 'delete_relationship_status': return directExecutors.deleteRelationshipStatus(args.person_name);
+      case 'save_memory': return directExecutors.saveMemory(args.content, args.type);
+      case 'update_memory': return directExecutors.updateMemory(args);
+      case 'forget_memory': return directExecutors.forgetMemory(args);
+      default: return Promise.resolve(`❌ Unknown staged tool: ${change.tool}`);
+    }
+  };
 
-        if (linkedKeys.length === 0) {
-            // Fallback: scan task title for ALL ledger contacts whose name appears
-            const titleLower = contactNormalize(matchedTask.title);
-            linkedKeys = Object.keys(currentLedger).filter(k => {
-                const p = currentLedger[k] as Person;
-                return titleLower.includes(contactNormalize(p.name))
-                    || titleLower.includes(contactNormalize(k));
-            });
-        }
+  /** Move the changes staged during a turn onto that turn's model message as a changeset card. */
+  const attachPendingChangeset = (modelMsgId: string) => {
+    if (pendingChangesRef.current.length === 0) return;
+    const changeset = createChangeset(pendingChangesRef.current.splice(0));
+    updateCurrentDayMessages(prev => prev.map(m => {
+      if (m.id !== modelMsgId) return m;
+      return { ...m, changeset, text: m.text || `I've staged ${changeset.changes.length} change${changeset.changes.length === 1 ? '' : 's'} for your review:` };
+    }));
+  };
 
-        let linkedMsg = '';
-        if (linkedKeys.length > 0) {
-            const checkedInNames: string[] = [];
-            setLedger(prev => {
-                const next = { ...prev };
-                for (const key of linkedKeys) {
-                    const existing = prev[key] as Person;
-                    const newStatus = calculateRelationshipStatus(existing.priority, new Date(checkinDate));
-                    const noteEntry = `[${checkinDate}] Checked in via task: "${matchedTask.title}"`;
-                    next[key] = { ...existing, last_contact: checkinDate, status: newStatus, notes: existing.notes ? `${existing.notes}\n${noteEntry}` : noteEntry };
-                    checkedInNames.push(`${existing.name} (${newStatus})`);
-                }
-                return next;
-            });
-            linkedMsg = ` Check-ins logged for: ${checkedInNames.join(', ')}.`;
-        }
+  /** Move memory conflicts found during a turn onto that turn's model message. */
+  const attachPendingMemoryConflicts = (modelMsgId: string) => {
+    if (pendingMemoryConflictsRef.current.length === 0) return;
+    const conflicts = pendingMemoryConflictsRef.current.splice(0);
+    updateCurrentDayMessages(prev => prev.map(m => m.id === modelMsgId
+      ? { ...m, memoryConflicts: [...(m.memoryConflicts || []), ...conflicts], text: m.text || 'This seems to contradict something I remembered earlier. Which should I keep?' }
+      : m));
+  };
 
-        return `Marked "${matchedTask.title}" as complete.${linkedMsg}`;
-    },
-    addTask: async (task: Omit<Task, 'id'>) => {
-        console.log('addTask called with:', JSON.stringify(task, null, 2));
-        
-        const isRecurring = !!task.recurrence;
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        const viewDate = new Date(currentDate);
-        viewDate.setHours(0, 0, 0, 0);
-        
-        // Temporal mode validation: Block fixed tasks with time slots on past dates
-        if (viewDate < today && task.type === 'fixed' && task.time) {
-          console.warn('Blocked past date task:', task.title, 'for date:', toDateString(currentDate));
-          return "❌ Cannot schedule fixed tasks with specific times on past dates. Past dates are for reflection only. For historical records, use flexible tasks without times, or navigate to today/future to schedule new tasks.";
-        }
-        
-        const taskDate = isRecurring ? undefined : (task.date || toDateString(currentDate));
-        
-        // Idempotency guard: prevent duplicate tasks from double tool-calls within one AI turn
-        const normalizeTitle = (s: string) => s.toLowerCase().trim();
-        const allExisting = [...inventoryRef.current.fixed, ...inventoryRef.current.flexible];
-        const duplicate = allExisting.find(t =>
-            normalizeTitle(t.title) === normalizeTitle(task.title) &&
-            t.date === taskDate &&
-            (t.time ?? '') === (task.time ?? '')
-        );
-        if (duplicate) {
-            console.warn(`⏭️ addTask: duplicate detected — "${task.title}" for ${taskDate} already exists. Skipping.`);
-            return `✅ "${task.title}" is already in the schedule for ${taskDate}.`;
-        }
-        
-        // Build set of existing IDs to ensure uniqueness
-        const existingIds = new Set([...inventoryRef.current.fixed, ...inventoryRef.current.flexible].map(t => t.id));
-        
-        const newTask: Task = { 
-            ...task, 
-            id: generateUniqueTaskId(existingIds), 
-            date: taskDate,
-            linkedContact: task.linkedContact,
-            completed: task.completed ?? false,
-        };
-        
-        console.log('Adding task:', newTask.title, 'to date:', taskDate, 'current view:', toDateString(currentDate));
-        
-        setInventory(prev => {
-            const listKey = newTask.type === 'fixed' ? 'fixed' : 'flexible';
-            return { ...prev, [listKey]: [...prev[listKey], newTask] };
-        });
-        
-        // Flag that tasks were modified for background orchestration
-        tasksModifiedCountRef.current += 1;
-        
-        // Invalidate approved orchestration since tasks have been modified
-        if (taskDate) {
-          invalidateApprovedOrchestration(taskDate);
-        }
-        
-        // Provide context about where the task was added
-        if (viewDate < today) {
-          return `✅ Added "${newTask.title}" to ${taskDate} as a historical record (reflection mode).`;
-        } else if (viewDate > today) {
-          return `✅ Added "${newTask.title}" to future date ${taskDate} (planning mode).`;
-        } else {
-          return `✅ Added "${newTask.title}" to today's schedule (${taskDate}).`;
-        }
-    },
-    deleteTask: async (title: string) => {
-        const normalize = (s: string) => s.toLowerCase().trim();
-        const target = normalize(title);
-        let deleted = false;
-        let deletedTaskName = '';
-        let deletedTaskDate: string | undefined;
-        
-        setInventory(prev => {
-            // Find exact matches only
-            const fixedExactMatches = prev.fixed.filter(t => normalize(t.title) === target);
-            const flexibleExactMatches = prev.flexible.filter(t => normalize(t.title) === target);
-            
-            const allExactMatches = [...fixedExactMatches, ...flexibleExactMatches];
-            
-            // If multiple exact matches, ask for clarification
-            if (allExactMatches.length > 1) {
-                const list = allExactMatches.map((t, i) => `${i+1}) ${t.title} (${t.type}, ${t.time || 'no time'})`).join('\n');
-                throw new Error(`Multiple tasks found:\n${list}\n\nPlease be more specific or delete them one at a time.`);
-            }
-            
-            // Single exact match - delete it
-            if (allExactMatches.length === 1) {
-                deleted = true;
-                const match = allExactMatches[0];
-                deletedTaskName = match.title;
-                deletedTaskDate = match.date;
-                if (fixedExactMatches.length > 0) {
-                    return { ...prev, fixed: prev.fixed.filter(t => t.id !== match.id) };
-                } else {
-                    return { ...prev, flexible: prev.flexible.filter(t => t.id !== match.id) };
-                }
-            }
-            
-            return prev;
-        });
-        
-        if (!deleted) {
-            // No exact match - search for similar tasks to help user
-            const allTasks = [...inventoryRef.current.fixed, ...inventoryRef.current.flexible];
-            const similar = allTasks.filter(t => normalize(t.title).includes(target) || target.includes(normalize(t.title)));
-            
-            if (similar.length > 0) {
-                const list = similar.map(t => `"${t.title}"`).join(', ');
-                return `No exact match found. Did you mean: ${list}? Please use the exact task name.`;
-            }
-            return `No task found with name "${title}". Please check spelling and use the exact task name.`;
-        }
-        
-        // Flag that tasks were modified for background orchestration
-        tasksModifiedCountRef.current += 1;
-        
-        // Invalidate approved orchestration since tasks have been modified
-        if (deletedTaskDate) {
-          invalidateApprovedOrchestration(deletedTaskDate);
-        }
-        
-        return `Removed task "${deletedTaskName}".`;
-    },
-    deleteRelationshipStatus: async (name: string) => {
-        const normalize = (s: string) => s.toLowerCase().trim();
-        const target = normalize(name);
-        let deleted = false;
-        setLedger(prev => {
-            const entry = Object.entries(prev).find(([_, p]) => normalize((p as Person).name).includes(target));
-            if (entry) { deleted = true; const newL = { ...prev }; delete newL[entry[0]]; return newL; }
-            return prev;
-        });
-        return deleted ? `Removed ${name}.` : "No contact found.";
-    },
-    saveMemory: async (content: string, type: 'preference' | 'decision' | 'fact') => {
-        setMemories(prev => {
-            const newMemory = { id: Math.random().toString(36).substr(2, 9), content, type, date: new Date().toLocaleDateString() };
-            const updated = [ ...prev, newMemory ];
-            
-            // Enforce 100 memory limit with FIFO (keep most recent)
-            if (updated.length > 100) {
-                return updated.slice(-100);
-            }
-            return updated;
-        });
-        return `Saved to memory: "${content}"`;
-    },
-    moveTasks: async (taskIdentifiers: string[], targetDate: string) => {
-        const normalize = (s: string) => s.toLowerCase().trim();
-        const targets = taskIdentifiers.map(normalize);
-        const currentInv = inventoryRef.current;
-        let movedCount = 0;
-        const movedNames: string[] = [];
-
-        const updateTask = (t: Task) => {
-            const normTitle = normalize(t.title);
-            const match = targets.find(target => normTitle === target || normTitle.includes(target));
-            if (match) {
-                movedCount++;
-                movedNames.push(t.title);
-                return { ...t, date: targetDate };
-            }
-            return t;
-        };
+  /** Apply the user's choice for a memory conflict card and let the model know with the next message. */
+  const handleResolveMemoryConflict = (messageId: string, conflictId: string, choice: 'existing' | 'incoming' | 'both') => {
+    const message = messages.find(m => m.id === messageId);
+    const conflict = message?.memoryConflicts?.find(c => c.id === conflictId);
+    if (!conflict || conflict.status !== 'pending') return;
+
+    if (choice === 'incoming') {
+      const stillExists = memoriesRef.current.some(m => m.id === conflict.existing.id);
+      commitMemories(prev => stillExists
+        ? prev.map(m => m.id === conflict.existing.id ? { ...m, ...conflict.incoming, updatedAt: new Date().toISOString() } : m)
+        : enforceMemoryLimit([...prev, { id: Math.random().toString(36).substr(2, 9), ...conflict.incoming, date: new Date().toLocaleDateString() }]));
+    } else if (choice === 'both') {
+      commitMemories(prev => enforceMemoryLimit([...prev, { id: Math.random().toString(36).substr(2, 9), ...conflict.incoming, date: new Date().toLocaleDateString() }]));
+    }
 
-        const newFixed = currentInv.fixed.map(updateTask);
-        const newFlexible = currentInv.flexible.map(updateTask);
-
-        if (movedCount > 0) {
-            // Collect source dates before updating inventory
-            const sourceDates = new Set<string>();
-            [...currentInv.fixed, ...currentInv.flexible].forEach(t => {
-                if (movedNames.includes(t.title) && t.date) sourceDates.add(t.date);
-            });
-            
-            setInventory({ fixed: newFixed, flexible: newFlexible });
-            // Flag that tasks were modified for background orchestration
-            tasksModifiedCountRef.current += 1;
-            
-            // Invalidate orchestrations for both source and target dates
-            sourceDates.forEach(date => invalidateApprovedOrchestration(date));
-            invalidateApprovedOrchestration(targetDate);
-            
-            return `Moved ${movedCount} tasks to ${targetDate}: ${movedNames.join(', ')}.`;
+    const status: MemoryConflict['status'] = choice === 'existing' ? 'kept_existing' : choice === 'incoming' ? 'kept_incoming' : 'kept_both';
+    updateCurrentDayMessages(prev => prev.map(m => m.id === messageId
+      ? { ...m, memoryConflicts: m.memoryConflicts?.map(c => c.id === conflictId ? { ...c, status } : c) }
+      : m));
+    pendingSystemNotesRef.current.push(
+      choice === 'existing'
+        ? `[System Note: The user kept the existing memory "${conflict.existing.content}" and discarded "${conflict.incoming.content}".]`
+        : choice === 'incoming'
+        ? `[System Note: The user replaced the memory "${conflict.existing.content}" with "${conflict.incoming.content}".]`
+        : `[System Note: The user kept both memories: "${conflict.existing.content}" and "${conflict.incoming.content}".]`
+    );
+    toast.showSuccess(choice === 'existing' ? 'Kept the existing memory' : choice === 'incoming' ? 'Memory updated' : 'Kept both memories');
+  };
+
+  /**
+   * Resolve a changeset card: apply the accepted changes in their original order,
+   * mark the rest rejected, and queue a note so the model learns the outcome with
+   * the user's next message (no extra model call just to acknowledge).
+   */
+  const handleResolveChangeset = async (messageId: string, acceptedIds: string[]) => {
+    const message = messages.find(m => m.id === messageId);
+    const changeset = message?.changeset;
+    if (!changeset || changeset.status !== 'pending' || resolvingChangesetsRef.current.has(changeset.id)) return;
+    resolvingChangesetsRef.current.add(changeset.id);
+
+    const turnId = `changeset-${changeset.id}`;
+    const previousTurnId = activeTurnIdRef.current;
+    activeTurnIdRef.current = turnId;
+    const resolved: PendingChange[] = [];
+    try {
+      for (const change of changeset.changes) {
+        if (!acceptedIds.includes(change.id)) {
+          resolved.push({ ...change, status: 'rejected' });
+          continue;
         }
-        return "No tasks found to move.";
+        try {
+          const result = await applyPendingChange(change);
+          resolved.push({ ...change, status: 'applied', result });
+        } catch (e: any) {
+          resolved.push({ ...change, status: 'failed', result: e?.message || 'Failed' });
+        }
+      }
+    } finally {
+      // Later journal entries must not land under this changeset (unless another turn took over meanwhile)
+      if (activeTurnIdRef.current === turnId) activeTurnIdRef.current = previousTurnId;
     }
+
+    const status = settleChangesetStatus(resolved);
+    updateCurrentDayMessages(prev => prev.map(m =>
+      m.id === messageId && m.changeset ? { ...m, changeset: { ...m.changeset, changes: resolved, status } } : m
+    ));
+    appendJournalActionMessage(turnId);
+
+    const applied = resolved.filter(c => c.status === 'applied');
+    const rejected = resolved.filter(c => c.status !== 'applied');
+    pendingSystemNotesRef.current.push(
+      `[System Note: The user reviewed your staged changeset. Applied: ${applied.map(c => c.summary).join('; ') || 'none'}. Rejected or failed: ${rejected.map(c => c.summary).join('; ') || 'none'}.]`
+    );
+    if (applied.length > 0) toast.showSuccess(`Applied ${applied.length} of ${resolved.length} change${resolved.length === 1 ? '' : 's'}`);
+    else toast.showInfo('Changeset rejected');
   };
 
+  /**
+   * Daily rollover (see services/deadlines.ts): once per calendar day, unfinished
+   * flexible tasks from earlier days move to today and priorities rise as deadlines
+   * near. Declared before the briefing effect so the first briefing of the day
+   * already sees the carried-over tasks; window focus re-checks for a tab left open
+   * past midnight. Live mode only: demo data is rebuilt around today on every load.
+   */
+  const runRolloverRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    // The latest closure (toast, commit helpers), so the focus listener is attached once
+    runRolloverRef.current = () => {
+      const todayKey = toDateString(new Date());
+      if (localStorage.getItem('life_last_rollover') === todayKey) return;
+      localStorage.setItem('life_last_rollover', todayKey);
+      const { inventory: next, rolled, escalated } = rolloverUnfinished(inventoryRef.current, todayKey);
+      if (next === inventoryRef.current) return;
+      commitInventory(next);
+      if (rolled.length > 0) invalidateApprovedOrchestration(todayKey);
+      console.log(`🌅 Rollover for ${todayKey}: ${rolled.length} carried over, ${escalated.length} escalated`);
+      const raised = `the priority of ${escalated.length} task${escalated.length === 1 ? '' : 's'} with a near deadline`;
+      toast.showInfo(rolled.length > 0
+        ? `Carried ${rolled.length} unfinished task${rolled.length === 1 ? '' : 's'} over to today${escalated.length > 0 ? ` and raised ${raised}` : ''}.`
+        : `Raised ${raised}.`);
+    };
+  });
+  useEffect(() => {
+    if (mode === 'demo') return;
+    const runRollover = () => runRolloverRef.current();
+    runRollover();
+    window.addEventListener('focus', runRollover);
+    return () => window.removeEventListener('focus', runRollover);
+  }, [mode]);
+
   useEffect(() => {
     const dateKey = toDateString(currentDate);
 
@@ -1661,44 +1866,6 @@ ${memoryContext}${reinitRosterContext}`);
     
     const yesterday = new Date(currentDate); yesterday.setDate(yesterday.getDate() - 1);
     const yesterdayStr = toDateString(yesterday);
-    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-    let memoryContext = memories.length > 0 ? `\n\n== LONG-TERM MEMORY BANK ==\n${memories.map(m => `- [${m.date}] (${m.type}): ${m.content}`).join('\n')}` : "";
-    
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const viewDate = new Date(currentDate);
-    viewDate.setHours(0, 0, 0, 0);
-    const temporalMode = viewDate < today ? 'REFLECTION' : viewDate > today ? 'PLANNING' : 'ACTIVE';
-    
-    // Check for active approved orchestration
-    const orchestrationDateKey = toDateString(currentDate);
-    const activeOrchestration = approvedOrchestrations[orchestrationDateKey];
-    const orchestrationStatus = activeOrchestration && activeOrchestration.isActive
-      ? `ACTIVE since ${new Date(activeOrchestration.approvedAt).toLocaleString()} - Day already orchestrated`
-      : 'NONE - Day not orchestrated';
-    
-    // Build contact roster so LLM uses exact stored names in tool calls
-    const rosterLedger = ledgerRef.current;
-    const rosterKeys = Object.keys(rosterLedger);
-    const ledgerRosterContext = rosterKeys.length > 0
-      ? `\n\n== KINSHIP LEDGER ROSTER ==\n(Use the EXACT Name below when calling log_checkin or update_relationship_status — do NOT paraphrase or substitute relation words)\n${rosterKeys.map(k => { const p = rosterLedger[k] as Person; return `- ${p.name} (${p.relation}) [${p.category}]`; }).join('\n')}`
-      : '';
-
-    geminiService.startNewSession(`
-Session Context:
-Target Date: ${currentDate.toLocaleDateString()} (Format for add_task: ${toDateString(currentDate)})
-Current System Date: ${new Date().toLocaleDateString()} (${toDateString(new Date())})
-Temporal Mode: ${temporalMode}
-Approved Orchestration: ${orchestrationStatus}
-
-IMPORTANT - When user says "this day", "today", "tonight":
-→ They mean the TARGET DATE: ${toDateString(currentDate)}
-→ NOT the current system date
-
-Current Session Time: ${getModeTime()}
-User Mode: ${mode}
-User Timezone: ${timezone}
-${memoryContext}${ledgerRosterContext}`);
 
     const startBriefing = async () => {
       const timestamp = new Date().toISOString();
@@ -1749,7 +1916,10 @@ ${memoryContext}${ledgerRosterContext}`);
               ? ` This day had the following Family/contact tasks: ${contactTaskTitles}. After covering the day's highlights, ask ONE consolidated question about whether any of these tasks involved checking in with someone — if yes, use log_checkin with date_override="${toDateString(currentDate)}" to stamp the past date.`
               : hasLedger
               ? ` After covering the day's highlights, ask ONE consolidated question: did you connect with anyone in particular that day worth logging in the Kinship Ledger? If yes, call log_checkin with date_override="${toDateString(currentDate)}".`
-              : '');
+              : '')
+            + (dayReviews[toDateString(currentDate)]
+              ? ''
+              : ` This day has no end-of-day review yet. Close the briefing by asking how the day felt (mood and energy, 1-5) and for a sentence or two about it; when the user answers, call save_day_review with date="${toDateString(currentDate)}".`);
         } else if (viewDate > today) {
           // PLANNING MODE
           briefingPrompt = `${temporalContext} ${currentDate.toLocaleDateString()}. IMPORTANT: First call get_relationship_status and get_life_context to retrieve current data, then provide your briefing. Compare with ${yesterdayStr}.`
@@ -1762,15 +1932,13 @@ ${memoryContext}${ledgerRosterContext}`);
               : '');
         }
 
-        await geminiService.sendMessageStream(briefingPrompt, null, executors, (text, thought) => {
-            updateCurrentDayMessages(prev => {
-                const newArr = [...prev]; const last = newArr[newArr.length - 1];
-                if (last && last.role === 'model' && last.id === modelId) { last.text = text; last.thought = thought; }
-                return newArr;
-            });
-            if (text || thought) setIsLoading(false);
-        }, getModeTime());
+        await startSession();
+        activeTurnIdRef.current = modelId;
+        await geminiService.sendMessageStream(briefingPrompt, null, executors, createStreamEventHandler(modelId), getModeTime(), false, { usageKind: 'briefing' });
       } catch (error) { console.error(error); } finally { 
+        attachPendingChangeset(modelId);
+        attachPendingMemoryConflicts(modelId);
+        appendJournalActionMessage(modelId);
         setIsLoading(false);
         setIsStreaming(false);
       }
@@ -1778,8 +1946,19 @@ ${memoryContext}${ledgerRosterContext}`);
     startBriefing();
   }, [currentDate, showTutorial]);
 
-  const handleUpdateTask = (task: Task) => {
-    setInventory(prev => {
+  const handleUpdateTask = (task: Task, scope: OccurrenceScope = 'this') => {
+    // An occurrence expanded from a recurring series: the edit is stored per occurrence or scope
+    if (task.occurrenceDate) {
+      const occurrenceDate = task.occurrenceDate;
+      commitInventory(prev => {
+        const series = findSeries(prev, task.id);
+        return series ? updateRecurring(prev, task.id, occurrenceDate, scope, taskChanges(materializeOccurrence(series, occurrenceDate), task)) : prev;
+      });
+      invalidateApprovedOrchestration(toDateString(currentDate));
+      return;
+    }
+
+    commitInventory(prev => {
       const fixed = prev.fixed.filter(t => t.id !== task.id);
       const flexible = prev.flexible.filter(t => t.id !== task.id);
       if (task.type === 'fixed') return { fixed: [...fixed, task], flexible };
@@ -1826,7 +2005,7 @@ ${memoryContext}${ledgerRosterContext}`);
     }
 
     for (const contact of contactSet) {
-      await executors.logCheckin({
+      await manualExecutors.logCheckin({
         person_name: contact,
         notes: `Checked in via task: "${task.title}"`,
         confirmed: true,
@@ -1838,7 +2017,7 @@ ${memoryContext}${ledgerRosterContext}`);
   const handleManualAddTask = (task: Task) => {
     const isRecurring = !!task.recurrence;
     const taskToAdd = { ...task, date: isRecurring ? undefined : task.date };
-    setInventory(prev => ({ ...prev, [taskToAdd.type]: [...prev[taskToAdd.type], taskToAdd] }));
+    commitInventory(prev => ({ ...prev, [taskToAdd.type]: [...prev[taskToAdd.type], taskToAdd] }));
     
     // Invalidate orchestration for the task's date
     if (taskToAdd.date) {
@@ -1848,12 +2027,18 @@ ${memoryContext}${ledgerRosterContext}`);
     handleSendMessage(`I've added "${taskToAdd.title}" (${taskToAdd.type}, ${taskToAdd.duration}) to my task inventory. Does this affect my schedule in any way I should know about? Would you recommend orchestrating the day?`, null);
   };
 
-  const handleDeleteTask = (id: string) => {
+  const handleDeleteTask = (id: string, scope?: OccurrenceScope, occurrenceDate?: string) => {
+    if (scope && occurrenceDate) {
+      commitInventory(prev => deleteRecurring(prev, id, occurrenceDate, scope));
+      invalidateApprovedOrchestration(toDateString(currentDate));
+      return;
+    }
+
     // Find the task being deleted to get its date
     const allTasks = [...inventoryRef.current.fixed, ...inventoryRef.current.flexible];
     const taskToDelete = allTasks.find(t => t.id === id);
     
-    setInventory(prev => ({ 
+    commitInventory(prev => ({ 
       fixed: prev.fixed.filter(t => t.id !== id), 
       flexible: prev.flexible.filter(t => t.id !== id) 
     }));
@@ -1872,6 +2057,46 @@ ${memoryContext}${ledgerRosterContext}`);
     }
     handleSendMessage('Orchestrate my day. Analyze my current schedule and propose a complete daily reorganization.', null, false, true);
   };
+
+  const handlePlanWeek = () => {
+    if (isStreaming || isLoading) {
+      console.warn('⏭️ Week orchestration request blocked — already streaming/loading');
+      return;
+    }
+    handleSendMessage('Orchestrate my week. Balance the load across the next 7 days and propose a schedule for each day, moving flexible tasks off overloaded days.', null, false, true, { orchestrationScope: 'week' });
+  };
+
+  /**
+   * DESIGN DECISION: Quick Plan (local orchestration)
+   *
+   * Same proposal card and accept flow as "Orchestrate Day", but the plan comes from
+   * the deterministic scheduler instead of the model: instant, offline, and
+   * identical every time for the same tasks. It still passes through the validator
+   * so both paths produce proposals with the same guarantees.
+   */
+  const handleQuickPlan = () => {
+    if (isStreaming || isLoading || processingProposal) return;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const viewDate = new Date(currentDate);
+    viewDate.setHours(0, 0, 0, 0);
+    if (viewDate < today) {
+      toast.showError('Cannot orchestrate past dates. Past dates are for reflection only.');
+      return;
+    }
+
+    const source = getTasksForDate(inventoryRef.current, toDateString(currentDate));
+    const result = scheduleDay(source, schedulerOptionsRef.current, toDateString(currentDate));
+    const { proposal } = validateOrchestration(result.proposal, source);
+    const summary = result.overloaded
+      ? `⚠️ Quick plan ready, but the day is overloaded (${(result.totalMinutes / 60).toFixed(1)}h).${result.suggestedMoves.length > 0 ? ` Consider moving ${result.suggestedMoves.map(t => `"${t}"`).join(', ')} to another day.` : ''}`
+      : `Quick plan ready: ${proposal.schedule.length} task${proposal.schedule.length === 1 ? '' : 's'} arranged around your fixed events.`;
+
+    updateCurrentDayMessages(prev => [
+      ...prev.map(msg => msg.proposal ? { ...msg, proposal: undefined } : msg),
+      { id: Date.now().toString(), role: 'model', text: summary, timestamp: new Date().toISOString(), proposal },
+    ]);
+  };
   
   const handleUpdatePerson = async (oldName: string, p: Person) => {
       let finalPerson = p;
@@ -1879,7 +2104,7 @@ ${memoryContext}${ledgerRosterContext}`);
           const compressed = await compressImage(p.image, 200, 200, 0.6);
           finalPerson = { ...p, image: compressed };
       }
-      setLedger(prev => { 
+      commitLedger(prev => { 
           const newL = { ...prev }; 
           const key = Object.keys(newL).find(k => (newL[k] as Person).name === oldName) || oldName.toLowerCase(); 
           newL[key] = finalPerson; 
@@ -1893,11 +2118,14 @@ ${memoryContext}${ledgerRosterContext}`);
         const compressed = await compressImage(p.image, 200, 200, 0.6);
         finalPerson = { ...p, image: compressed };
     }
-    setLedger(prev => ({ ...prev, [p.name.toLowerCase()]: finalPerson }));
+    commitLedger(prev => ({ ...prev, [p.name.toLowerCase()]: finalPerson }));
     // No automatic message - let user control when to orchestrate via button
   };
 
-  const handleDeletePerson = (name: string) => setLedger(prev => { const newL = { ...prev }; const key = Object.keys(newL).find(k => (newL[k] as Person).name === name); if (key) delete newL[key]; return newL; });
+  const handleUpdateMemory = (memory: Memory) => commitMemories(prev => prev.map(m => m.id === memory.id ? memory : m));
+  const handleDeleteMemory = (id: string) => commitMemories(prev => prev.filter(m => m.id !== id));
+
+  const handleDeletePerson = (name: string) => commitLedger(prev => { const newL = { ...prev }; const key = Object.keys(newL).find(k => (newL[k] as Person).name === name); if (key) delete newL[key]; return newL; });
 
   const acceptContact = (person: Person) => {
     handleAddPerson(person);
@@ -1924,7 +2152,72 @@ ${memoryContext}${ledgerRosterContext}`);
       })); 
   };
   
-  const acceptProposal = async (proposal: OrchestrationProposal) => {
+  /**
+   * Replace every dated task on `dateKey` with an accepted schedule. Tasks keep their
+   * id (dependencies on other days point at it); anything without a free one gets a
+   * fresh unique id. Relationship links survive the round-trip through the model by
+   * falling back to the original task's links (by id first, then by title).
+   * Occurrences of recurring tasks stay in their series: the accepted time becomes
+   * an override for that day instead of a dated copy next to the series, and so do
+   * its step block times when the occurrence is split (or was split before).
+   */
+  const replaceDaySchedule = (inv: LifeInventory, dateKey: string, fullSchedule: Task[]): LifeInventory => {
+    const dayTasks = getTasksForDate(inv, dateKey);
+    const occurrenceDates = new Map<string, string>();
+    const wasSplit = new Set<string>();
+    [...dayTasks.fixed, ...dayTasks.flexible].forEach(t => {
+      if (t.occurrenceDate && !occurrenceDates.has(t.id)) occurrenceDates.set(t.id, t.occurrenceDate);
+      if (t.occurrenceDate && t.subtasks?.some(s => s.time)) wasSplit.add(t.id);
+    });
+    let prev = inv;
+    fullSchedule
+      .filter(t => occurrenceDates.has(t.id))
+      .forEach(t => {
+        // Only touch the checklist when block times change, so the occurrence keeps following the series' steps
+        const steps = t.subtasks?.some(s => s.time) || wasSplit.has(t.id) ? { subtasks: t.subtasks } : {};
+        prev = updateRecurring(prev, t.id, occurrenceDates.get(t.id)!, 'this', { time: t.time, ...steps });
+      });
+    const schedule = fullSchedule.filter(t => !occurrenceDates.has(t.id));
+
+    const normalize = (s: string) => s.trim().toLowerCase();
+    const linkById  = new Map<string, string | string[]>();
+    const linkByTitle = new Map<string, string | string[]>();
+    [...prev.fixed, ...prev.flexible]
+      .filter(t => t.date === dateKey && t.linkedContact)
+      .forEach(t => {
+        if (t.id) linkById.set(t.id, t.linkedContact!);
+        linkByTitle.set(normalize(t.title), t.linkedContact!);
+      });
+
+    const fixed = prev.fixed.filter(t => t.date !== dateKey);
+    const flexible = prev.flexible.filter(t => t.date !== dateKey);
+    
+    // Build set of existing IDs (from tasks not being replaced) to ensure uniqueness
+    const existingIds = new Set([...fixed, ...flexible].map(t => t.id));
+    
+    const newFixed: Task[] = [];
+    const newFlexible: Task[] = [];
+    schedule.forEach(t => {
+        // Keep the task's id unless it is missing or taken (duplicate keys), then generate one
+        const newId = t.id && !existingIds.has(t.id) ? t.id : generateUniqueTaskId(existingIds);
+        existingIds.add(newId); // Track newly generated IDs to prevent collisions within batch
+        // Prefer what the AI explicitly passed, then fall back to id-match, then title-match
+        const restoredLink = t.linkedContact
+          ?? (t.id ? linkById.get(t.id) : undefined)
+          ?? linkByTitle.get(normalize(t.title));
+        const taskWithDate: Task = { 
+            ...t, 
+            date: dateKey,
+            id: newId,
+            ...(restoredLink !== undefined && { linkedContact: restoredLink }),
+        };
+        if (t.type === 'fixed') newFixed.push(taskWithDate);
+        else newFlexible.push(taskWithDate);
+    });
+    return { fixed: [...fixed, ...newFixed], flexible: [...flexible, ...newFlexible] };
+  };
+
+  const acceptProposal = async (submittedProposal: OrchestrationProposal) => {
     // Race condition guard
     if (processingProposal) return;
     setProcessingProposal(true);
@@ -1943,53 +2236,23 @@ ${memoryContext}${ledgerRosterContext}`);
         return;
       }
       
+      // Re-validate against the current tasks: the user (or another tool call) may have
+      // changed the day since the proposal was generated.
+      const validation = validateOrchestration(submittedProposal, getTasksForDate(inventoryRef.current, todayStr));
+      updateCurrentDayMessages(prev => prev.map(msg => msg.proposal === submittedProposal ? { ...msg, proposal: validation.proposal } : msg));
+      if (!validation.ok) {
+        console.warn('🚫 Orchestration rejected on accept:', validation.findings);
+        toast.showError(`This schedule no longer matches your tasks:\n${formatValidationErrors(validation.findings)}`);
+        setProcessingProposal(false);
+        return;
+      }
+      const proposal = validation.proposal;
+
       // Save current state for potential rollback
       const previousInventory = inventory;
-      
-      // Build id → linkedContact and title → linkedContact lookup maps so relationship
-      // links survive the round-trip through propose_orchestration.
-      // id-based lookup is tried first (most reliable), title-based is the fallback.
-      const normalize = (s: string) => s.trim().toLowerCase();
-      const linkById  = new Map<string, string | string[]>();
-      const linkByTitle = new Map<string, string | string[]>();
-      [...previousInventory.fixed, ...previousInventory.flexible]
-        .filter(t => t.date === todayStr && t.linkedContact)
-        .forEach(t => {
-          if (t.id) linkById.set(t.id, t.linkedContact!);
-          linkByTitle.set(normalize(t.title), t.linkedContact!);
-        });
 
       try {
-        setInventory(prev => {
-            const fixed = prev.fixed.filter(t => t.date !== todayStr);
-            const flexible = prev.flexible.filter(t => t.date !== todayStr);
-            
-            // Build set of existing IDs (from tasks not being replaced) to ensure uniqueness
-            const existingIds = new Set([...fixed, ...flexible].map(t => t.id));
-            
-            const newFixed: Task[] = [];
-            const newFlexible: Task[] = [];
-            proposal.schedule.forEach(t => {
-                // Generate new unique ID for each task to prevent duplicate key warnings
-                const newId = generateUniqueTaskId(existingIds);
-                existingIds.add(newId); // Track newly generated IDs to prevent collisions within batch
-                // Restore linkedContact: prefer what the AI passed through, fall back to
-                // the original task's links (matched by normalized title).
-                // Prefer what the AI explicitly passed, then fall back to id-match, then title-match
-                const restoredLink = t.linkedContact
-                  ?? (t.id ? linkById.get(t.id) : undefined)
-                  ?? linkByTitle.get(normalize(t.title));
-                const taskWithDate: Task = { 
-                    ...t, 
-                    date: todayStr,
-                    id: newId,
-                    ...(restoredLink !== undefined && { linkedContact: restoredLink }),
-                };
-                if (t.type === 'fixed') newFixed.push(taskWithDate);
-                else newFlexible.push(taskWithDate);
-            });
-            return { fixed: [...fixed, ...newFixed], flexible: [...flexible, ...newFlexible] };
-        });
+        commitInventory(prev => replaceDaySchedule(prev, todayStr, proposal.schedule));
         
         // Save approved orchestration for performance optimization
         const approvedOrchestration: ApprovedOrchestration = {
@@ -2009,7 +2272,7 @@ ${memoryContext}${ledgerRosterContext}`);
       } catch (error) {
         // Rollback on error
         console.error('Error accepting proposal:', error);
-        setInventory(previousInventory);
+        commitInventory(previousInventory);
         toast.showError('Failed to apply orchestration. Changes have been reverted.');
       }
     } finally {
@@ -2017,6 +2280,84 @@ ${memoryContext}${ledgerRosterContext}`);
     }
   };
 
+  /**
+   * DESIGN DECISION: Accepting a week plan per day
+   *
+   * Each accepted day is applied like a single-day proposal (replaceDaySchedule +
+   * approvedOrchestrations[date]). Moves are applied together with the first
+   * accepted day they touch, on either end: a task never exists on both days or on
+   * neither, whichever day the user accepts first. Days are re-validated against the
+   * current tasks (after those moves), so a plan that went stale is refused instead
+   * of overwriting newer edits. Days at the other end of an applied move have changed
+   * underneath any approved orchestration, so that orchestration is invalidated.
+   */
+  const acceptWeekDays = async (weekProposal: WeekOrchestrationProposal, dates: string[]) => {
+    if (processingProposal) return;
+    const todayKey = toDateString(new Date());
+    const pending = weekProposal.days.filter(d => dates.includes(d.date) && (d.status ?? 'pending') === 'pending');
+    if (pending.some(d => d.date < todayKey)) {
+      toast.showError('Cannot accept plans for past dates');
+      return;
+    }
+    if (pending.length === 0) return;
+    setProcessingProposal(true);
+
+    try {
+      let next = inventoryRef.current;
+      let moves = weekProposal.moves;
+      const changedDates = new Set<string>();
+      const accepted: typeof pending = [];
+      const appliedMoves: typeof moves = [];
+      for (const day of pending) {
+        const touching = moves.filter(m => !m.applied && (m.fromDate === day.date || m.toDate === day.date));
+        const moved = applyMovesToInventory(next, touching);
+        const validation = validateOrchestration(day.proposal, getTasksForDate(moved, day.date));
+        if (!validation.ok) {
+          console.warn(`🚫 Week plan for ${day.date} rejected on accept:`, validation.findings);
+          toast.showError(`The plan for ${day.date} no longer matches your tasks:\n${formatValidationErrors(validation.findings)}`);
+          return;
+        }
+        next = replaceDaySchedule(moved, day.date, validation.proposal.schedule);
+        moves = moves.map(m => touching.includes(m) ? { ...m, applied: true } : m);
+        appliedMoves.push(...touching);
+        touching.forEach(m => changedDates.add(m.fromDate === day.date ? m.toDate : m.fromDate));
+        accepted.push({ ...day, proposal: validation.proposal, status: 'accepted' });
+      }
+
+      commitInventory(next);
+      const approvedAt = new Date().toISOString();
+      accepted.forEach(day => changedDates.delete(day.date));
+      changedDates.forEach(date => invalidateApprovedOrchestration(date));
+      setApprovedOrchestrations(prev => ({
+        ...prev,
+        ...Object.fromEntries(accepted.map(day => [day.date, { date: day.date, proposal: day.proposal, approvedAt, isActive: true }])),
+      }));
+      console.log(`✅ Saved approved orchestrations for ${accepted.map(d => d.date).join(', ')}`);
+
+      const updated: WeekOrchestrationProposal = {
+        ...weekProposal,
+        moves,
+        days: weekProposal.days.map(d => accepted.find(a => a.date === d.date) ?? d),
+      };
+      updateCurrentDayMessages(prev => prev.map(msg => msg.weekProposal === weekProposal ? { ...msg, weekProposal: updated } : msg));
+
+      handleSendMessage(
+        `I accepted the week plan for ${accepted.map(d => d.date).join(', ')}.${appliedMoves.length > 0 ? ` Moved: ${appliedMoves.map(m => `"${m.title}" ${m.fromDate} → ${m.toDate}`).join('; ')}.` : ''}`,
+        null
+      );
+    } finally {
+      setProcessingProposal(false);
+    }
+  };
+
+  const rejectWeekDays = (weekProposal: WeekOrchestrationProposal, dates: string[]) => {
+    const updated: WeekOrchestrationProposal = {
+      ...weekProposal,
+      days: weekProposal.days.map(d => dates.includes(d.date) && (d.status ?? 'pending') === 'pending' ? { ...d, status: 'rejected' } : d),
+    };
+    updateCurrentDayMessages(prev => prev.map(msg => msg.weekProposal === weekProposal ? { ...msg, weekProposal: updated } : msg));
+  };
+
   const handleExportToGoogle = async () => {
     if (mode === 'demo') {
         setSyncStatus('exporting');
@@ -2037,22 +2378,25 @@ ${memoryContext}${ledgerRosterContext}`);
     }
     setSyncStatus('exporting');
     try {
-        const tasksForDate = [...dailyInventory.fixed, ...dailyInventory.flexible];
+        // Occurrences skipped in the app become EXDATEs of the exported series
+        const tasksForDate = [...dailyInventory.fixed, ...dailyInventory.flexible].map(t => {
+            const series = t.occurrenceDate ? findSeries(inventory, t.id) : undefined;
+            const skipped = Object.keys(series?.occurrences ?? {}).filter(key => series!.occurrences![key].skipped);
+            return series && skipped.length > 0 ? { ...t, recurrence: { ...series.recurrence!, exceptions: [...(series.recurrence!.exceptions ?? []), ...skipped] } } : t;
+        });
         const updatedTasks = await calendarService.exportTasks(tasksForDate, currentDate);
-        setInventory(prev => {
-            const newFixed = [...prev.fixed]; const newFlexible = [...prev.flexible];
-            updatedTasks.forEach(u => {
-                const targetIdx = u.type === 'fixed' ? newFixed.findIndex(t => t.id === u.id) : newFlexible.findIndex(t => t.id === u.id);
-                if (targetIdx !== -1) { if (u.type === 'fixed') newFixed[targetIdx] = u; else newFlexible[targetIdx] = u; }
-            });
-            return { fixed: newFixed, flexible: newFlexible };
+        // Only the event id is written back: exported instances of a series are expanded copies
+        const exportedIds = new Map(updatedTasks.filter(u => u.gcal_id).map(u => [u.id, u.gcal_id!]));
+        commitInventory(prev => {
+            const withId = (t: Task) => exportedIds.has(t.id) && !t.gcal_id ? { ...t, gcal_id: exportedIds.get(t.id) } : t;
+            return { fixed: prev.fixed.map(withId), flexible: prev.flexible.map(withId) };
         });
         setSyncStatus('idle');
         setShowSyncInfo({ type: 'export', visible: true });
     } catch (error: any) { setSyncStatus('idle'); setShowSyncInfo({ type: 'export', visible: true, error: error.message }); }
   };
 
-  const handleImportSelected = (tasks: Task[], importedPeopleCount: number) => {
+  const handleImportSelected = (tasks: Task[], importedPeopleCount: number, eventDates: string[] = []) => {
     // Dismiss existing proposals when importing
     updateCurrentDayMessages(prev => 
       prev.map(msg => {
@@ -2097,21 +2441,35 @@ ${memoryContext}${ledgerRosterContext}`);
       return task;
     });
     
-    setInventory(prev => {
+    commitInventory(prev => {
         const existingGcalIds = new Set(prev.fixed.map(t => t.gcal_id).filter(id => !!id));
         const existingRecurringIds = new Set(prev.fixed.map(t => t.gcal_recurring_id).filter(id => !!id));
         const filteredNew = linkedTasks.filter(t => !existingGcalIds.has(t.gcal_id) && !(t.gcal_recurring_id && existingRecurringIds.has(t.gcal_recurring_id)));
         return { ...prev, fixed: [...prev.fixed, ...filteredNew] };
     });
     setShowImportModal(false); setShowSyncInfo({ type: 'import', visible: true });
+
+    // Imported events that land on top of existing commitments (see services/conflicts.ts).
+    // Recurring series are checked on the days their imported instances fall on; occurrences
+    // keep the series id, so they match importedIds.
+    const importedIds = new Set(linkedTasks.map(t => t.id));
+    const importedDates = [...new Set([...eventDates, ...linkedTasks.map(t => t.date).filter((d): d is string => !!d)])].sort();
+    const importConflicts = importedDates.flatMap(date =>
+      findConflicts(getTasksForDate(inventoryRef.current, date), date).filter(c => importedIds.has(c.first.id) || importedIds.has(c.second.id)));
+    if (importConflicts.length > 0) {
+      toast.showWarning(`${importConflicts.length} imported event${importConflicts.length === 1 ? ' overlaps' : 's overlap'} existing tasks — look for the Conflict badges.`, 8000);
+    }
+    const conflictNote = importConflicts.length > 0
+      ? ` ${importConflicts.length === 1 ? 'One of them overlaps' : `${importConflicts.length} of them overlap`} existing commitments (${importConflicts.map(c => `${c.date}: "${c.first.title}" / "${c.second.title}"`).join('; ')}) — call get_conflicts for those days and offer me ways to resolve them.`
+      : '';
     
     // Notify AI about both events and people imported
     if (tasks.length > 0 || importedPeopleCount > 0) {
       let message = '';
       if (tasks.length > 0 && importedPeopleCount > 0) {
-        message = `I've just imported ${tasks.length} specific event${tasks.length === 1 ? '' : 's'} from my Google Calendar and added ${importedPeopleCount} new ${importedPeopleCount === 1 ? 'person' : 'people'} to my Kinship Ledger from the event attendees. The imported contacts have been automatically linked to their calendar events. Please analyze these anchors and connections, and re-orchestrate if there are better ways to flow my days while maintaining these relationships.`;
+        message = `I've just imported ${tasks.length} specific event${tasks.length === 1 ? '' : 's'} from my Google Calendar and added ${importedPeopleCount} new ${importedPeopleCount === 1 ? 'person' : 'people'} to my Kinship Ledger from the event attendees. The imported contacts have been automatically linked to their calendar events. Please analyze these anchors and connections, and re-orchestrate if there are better ways to flow my days while maintaining these relationships.${conflictNote}`;
       } else if (tasks.length > 0) {
-        message = `I've just imported ${tasks.length} specific event${tasks.length === 1 ? '' : 's'} from my Google Calendar. Please analyze these anchors and re-orchestrate if there are better ways to flow my days.`;
+        message = `I've just imported ${tasks.length} specific event${tasks.length === 1 ? '' : 's'} from my Google Calendar. Please analyze these anchors and re-orchestrate if there are better ways to flow my days.${conflictNote}`;
       } else if (importedPeopleCount > 0) {
         message = `I've added ${importedPeopleCount} new ${importedPeopleCount === 1 ? 'person' : 'people'} to my Kinship Ledger from calendar events. Please check if I need to reach out to ${importedPeopleCount === 1 ? 'them' : 'anyone'} soon.`;
       }
@@ -2125,42 +2483,7 @@ ${memoryContext}${ledgerRosterContext}`);
       localStorage.setItem('life_tutorial_completed', 'true');
 
       // Initialize session with full context so the intro message has all tools and state
-      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-      let memoryContext = memories.length > 0 ? `\n\n== LONG-TERM MEMORY BANK ==\n${memories.map(m => `- [${m.date}] (${m.type}): ${m.content}`).join('\n')}` : "";
-
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const viewDate = new Date(currentDate);
-      viewDate.setHours(0, 0, 0, 0);
-      const temporalMode = viewDate < today ? 'REFLECTION' : viewDate > today ? 'PLANNING' : 'ACTIVE';
-
-      const dateKey = toDateString(currentDate);
-      const activeOrchestration = approvedOrchestrations[dateKey];
-      const orchestrationStatus = activeOrchestration && activeOrchestration.isActive
-        ? `ACTIVE since ${new Date(activeOrchestration.approvedAt).toLocaleString()} - Day already orchestrated`
-        : 'NONE - Day not orchestrated';
-
-      const rosterLedger = ledgerRef.current;
-      const rosterKeys = Object.keys(rosterLedger);
-      const ledgerRosterContext = rosterKeys.length > 0
-        ? `\n\n== KINSHIP LEDGER ROSTER ==\n(Use the EXACT Name below when calling log_checkin or update_relationship_status)\n${rosterKeys.map(k => { const p = rosterLedger[k] as Person; return `- ${p.name} (${p.relation}) [${p.category}]`; }).join('\n')}`
-        : '';
-
-      geminiService.startNewSession(`
-Session Context:
-Target Date: ${currentDate.toLocaleDateString()} (Format for add_task: ${toDateString(currentDate)})
-Current System Date: ${new Date().toLocaleDateString()} (${toDateString(new Date())})
-Temporal Mode: ${temporalMode}
-Approved Orchestration: ${orchestrationStatus}
-
-IMPORTANT - When user says "this day", "today", "tonight":
-→ They mean the TARGET DATE: ${toDateString(currentDate)}
-→ NOT the current system date
-
-Current Session Time: ${getModeTime()}
-User Mode: ${mode}
-User Timezone: ${timezone}
-${memoryContext}${ledgerRosterContext}`);
+      await startSession();
 
       try {
           await handleSendMessage("[System Event: The user has just completed the onboarding tutorial. Please introduce yourself as their Personal Life Orchestrator. Briefly explain your core capabilities (managing Tasks, Calendar, and Relationships) and ask them what they would like to focus on first.]", null, true);
@@ -2170,42 +2493,12 @@ ${memoryContext}${ledgerRosterContext}`);
       }
   };
 
-  const handleTutorialSkip = () => {
+  const handleTutorialSkip = async () => {
       setShowTutorial(false);
       localStorage.setItem('life_tutorial_completed', 'true');
       
       // Initialize session even when skipping
-      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-      let memoryContext = memories.length > 0 ? `\n\n== LONG-TERM MEMORY BANK ==\n${memories.map(m => `- [${m.date}] (${m.type}): ${m.content}`).join('\n')}` : "";
-      
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const viewDate = new Date(currentDate);
-      viewDate.setHours(0, 0, 0, 0);
-      const temporalMode = viewDate < today ? 'REFLECTION' : viewDate > today ? 'PLANNING' : 'ACTIVE';
-      
-      // Check for active approved orchestration
-      const dateKey = toDateString(currentDate);
-      const activeOrchestration = approvedOrchestrations[dateKey];
-      const orchestrationStatus = activeOrchestration && activeOrchestration.isActive
-        ? `ACTIVE since ${new Date(activeOrchestration.approvedAt).toLocaleString()} - Day already orchestrated`
-        : 'NONE - Day not orchestrated';
-      
-      geminiService.startNewSession(`
-Session Context:
-Target Date: ${currentDate.toLocaleDateString()} (Format for add_task: ${toDateString(currentDate)})
-Current System Date: ${new Date().toLocaleDateString()} (${toDateString(new Date())})
-Temporal Mode: ${temporalMode}
-Approved Orchestration: ${orchestrationStatus}
-
-IMPORTANT - When user says "this day", "today", "tonight":
-→ They mean the TARGET DATE: ${toDateString(currentDate)}
-→ NOT the current system date
-
-Current Session Time: ${getModeTime()}
-User Mode: ${mode}
-User Timezone: ${timezone}
-${memoryContext}`);
+      await startSession();
   };
 
   return (
@@ -2230,7 +2523,38 @@ ${memoryContext}`);
           }}
         />
       )}
-      {showStorageManager && <StorageManager stats={storageStats} onClose={() => setShowStorageManager(false)} onClearDate={handleClearDateHistory} onClearAllHistory={handleClearAllHistory} />}
+      {showMemoryBank && <MemoryBank memories={memories} onUpdate={handleUpdateMemory} onDelete={handleDeleteMemory} onClose={() => setShowMemoryBank(false)} />}
+      {showProfileSettings && (
+        <ProfileSettings
+          settings={profileSettings}
+          onSelect={id => setProfileSettings(prev => ({ ...prev, activeId: id }))}
+          onSave={handleSaveProfile}
+          onDelete={handleDeleteProfile}
+          onImport={handleImportProfile}
+          onClose={() => setShowProfileSettings(false)}
+        />
+      )}
+      {showDayReview && (
+        <DayReviewPanel
+          date={currentDate}
+          comparison={compareDayToPlan(dailyInventory, approvedOrchestrations[toDateString(currentDate)])}
+          review={dayReviews[toDateString(currentDate)]}
+          onSave={input => {
+            saveDayReview(toDateString(currentDate), input);
+            setShowDayReview(false);
+            toast.showSuccess('Day review saved');
+          }}
+          onClose={() => setShowDayReview(false)}
+        />
+      )}
+      {showRetrospective && (
+        <RetrospectivePanel
+          onGenerate={handleGenerateRetrospective}
+          onCopied={() => toast.showSuccess('Report copied as Markdown')}
+          onClose={() => setShowRetrospective(false)}
+        />
+      )}
+      {showStorageManager && <StorageManager stats={storageStats} onClose={() => setShowStorageManager(false)} onClearDate={handleClearDateHistory} onClearAllHistory={handleClearAllHistory} usage={tokenUsage} sessionUsage={geminiService.getSessionUsage()} onSetDailyBudget={handleSetDailyBudget} />}
 
       <header className="bg-white border-b border-slate-200 flex-none z-20 relative">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
@@ -2251,6 +2575,12 @@ ${memoryContext}`);
              </button>
              <div className="flex items-center gap-2 mr-2 border-r border-slate-200 pr-4 hidden md:flex">
                 <button onClick={() => setShowImportModal(true)} disabled={syncStatus !== 'idle'} className={`p-2 rounded-lg transition-all flex items-center gap-2 text-xs font-bold ${syncStatus === 'importing' ? 'bg-indigo-50 text-indigo-400' : 'text-slate-500 hover:text-indigo-600 hover:bg-indigo-50'}`}>Import</button>
+                <button onClick={() => setShowMemoryBank(true)} className="p-2 rounded-lg transition-all flex items-center gap-2 text-xs font-bold text-slate-500 hover:text-amber-600 hover:bg-amber-50">Memory</button>
+                <button onClick={() => setShowProfileSettings(true)} className="p-2 rounded-lg transition-all flex items-center gap-2 text-xs font-bold text-slate-500 hover:text-violet-600 hover:bg-violet-50">Profile</button>
+                <button onClick={() => setShowRetrospective(true)} className="p-2 rounded-lg transition-all flex items-center gap-2 text-xs font-bold text-slate-500 hover:text-indigo-600 hover:bg-indigo-50">Retro</button>
+                {toDateString(currentDate) <= toDateString(new Date()) && (
+                  <button onClick={() => setShowDayReview(true)} className={`p-2 rounded-lg transition-all flex items-center gap-2 text-xs font-bold ${dayReviews[toDateString(currentDate)] ? 'text-emerald-600 hover:bg-emerald-50' : 'text-slate-500 hover:text-indigo-600 hover:bg-indigo-50'}`}>{dayReviews[toDateString(currentDate)] ? 'Reviewed' : 'Review'}</button>
+                )}
                 <button onClick={handleExportToGoogle} disabled={syncStatus !== 'idle'} className={`p-2 rounded-lg transition-all flex items-center gap-2 text-xs font-bold ${syncStatus === 'exporting' ? 'bg-emerald-50 text-emerald-400' : 'text-slate-500 hover:text-emerald-600 hover:bg-emerald-50'}`}>Export</button>
              </div>
              <div className="flex items-center bg-slate-50 rounded-lg border border-slate-200 p-1">
@@ -2288,7 +2618,7 @@ ${memoryContext}`);
                   )} />
                 </section>
                 <section data-tutorial="life-inventory" className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 flex flex-col shrink-0">
-                  <CareerInventoryView inventory={dailyInventory} onUpdateTask={handleUpdateTask} onDeleteTask={handleDeleteTask} onAddTask={handleManualAddTask} onOrchestrate={handleOrchestrate} onCompleteTask={handleCompleteTask} ledger={ledger} />
+                  <CareerInventoryView inventory={dailyInventory} onUpdateTask={handleUpdateTask} onDeleteTask={handleDeleteTask} onAddTask={handleManualAddTask} onOrchestrate={handleOrchestrate} onQuickPlan={handleQuickPlan} onPlanWeek={handlePlanWeek} onCompleteTask={handleCompleteTask} ledger={ledger} currentDate={currentDate} allInventory={inventory} />
                 </section>
              </div>
           </div>
@@ -2322,11 +2652,22 @@ ${memoryContext}`);
                     setProcessingProposal(false);
                   }
                 }}
+                onAcceptWeekDays={acceptWeekDays}
+                onRejectWeekDays={rejectWeekDays}
                 onAcceptContact={acceptContact} 
                 onAcceptAllContacts={acceptAllContacts}
                 onRejectContact={rejectContact}
                 processingProposal={processingProposal} 
                 storageStats={storageStats}
+                actionJournal={actionJournal}
+                onUndoJournalEntries={handleUndoJournalEntries}
+                reviewMode={reviewMode}
+                onToggleReviewMode={() => setReviewMode(prev => !prev)}
+                isRecordingSession={isRecordingSession}
+                onToggleSessionRecording={handleToggleSessionRecording}
+                onResolveChangeset={handleResolveChangeset}
+                onResolveMemoryConflict={handleResolveMemoryConflict}
+                toolProgress={toolProgress}
             />
           </div>
         </div>
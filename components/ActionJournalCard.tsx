@@ -0,0 +1,64 @@
+/**
+ * DESIGN DECISION: Inline Undo for AI Actions
+ *
+ * Rendered inside the isAction chat message that closes an AI turn. It lists every
+ * journaled tool call of that turn with its own Undo button, plus "Undo all" to
+ * revert the whole turn atomically. Entries are looked up live from the journal,
+ * so the card reflects undo state even after a reload.
+ */
+
+import React from 'react';
+import { ActionJournalEntry } from '../types';
+
+interface Props {
+  entries: ActionJournalEntry[];
+  onUndo: (entryIds: string[]) => void;
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  add_task: 'Add task',
+  delete_task: 'Delete task',
+  move_tasks: 'Move tasks',
+  update_task: 'Update task',
+  complete_task: 'Complete task',
+  log_checkin: 'Check-in',
+  update_relationship_status: 'Update contact',
+  delete_relationship_status: 'Remove contact',
+};
+
+export const ActionJournalCard: React.FC<Props> = ({ entries, onUndo }) => {
+  if (entries.length === 0) {
+    return <p className="text-xs text-slate-400 not-italic">No recorded changes for this turn.</p>;
+  }
+
+  const pending = entries.filter(e => !e.undoneAt);
+
+  return (
+    <div className="not-italic space-y-1.5">
+      {entries.map(entry => (
+        <div key={entry.id} className={`flex items-start gap-2 bg-white border border-slate-200 rounded-lg px-2.5 py-1.5 ${entry.undoneAt ? 'opacity-50' : ''}`}>
+          <span className="text-[9px] font-bold uppercase tracking-wider text-slate-400 mt-0.5 w-20 flex-shrink-0">{TOOL_LABELS[entry.tool] ?? entry.tool}</span>
+          <span className={`flex-1 text-xs text-slate-700 ${entry.undoneAt ? 'line-through' : ''}`}>{entry.summary}</span>
+          {entry.undoneAt ? (
+            <span className="text-[10px] font-semibold text-slate-400">Undone</span>
+          ) : (
+            <button
+              onClick={() => onUndo([entry.id])}
+              className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800 hover:bg-indigo-50 px-1.5 py-0.5 rounded transition-colors"
+            >
+              Undo
+            </button>
+          )}
+        </div>
+      ))}
+      {pending.length > 1 && (
+        <button
+          onClick={() => onUndo(pending.map(e => e.id))}
+          className="w-full mt-1 px-3 py-1.5 text-xs font-semibold text-rose-600 bg-rose-50 hover:bg-rose-100 border border-rose-200 rounded-lg transition-colors"
+        >
+          Undo all {pending.length} changes from this turn
+        </button>
+      )}
+    </div>
+  );
+};
@@ -2,10 +2,12 @@
 import React, { useState, useEffect } from 'react';
 import { Task, GoogleCalendarEvent, RelationshipLedger, Person } from '../types';
 import { EventDetailModal } from './EventDetailModal';
+import { formatDurationBetween } from '../services/timeParsing';
 
 interface Props {
   initialDate: Date;
-  onImport: (tasks: Task[], importedPeopleCount: number) => void;
+  /** eventDates: the day of every selected event, instances of recurring series included */
+  onImport: (tasks: Task[], importedPeopleCount: number, eventDates: string[]) => void;
   onCancel: () => void;
   fetchEvents: (start: Date, end: Date) => Promise<GoogleCalendarEvent[]>;
   convertEventToTask: (event: GoogleCalendarEvent) => Task;
@@ -78,10 +80,16 @@ export const CalendarImportModal: React.FC<Props> = ({
   };
 
   const handleConfirm = () => {
-    const toImport = fetchedEvents
-      .filter(e => selectedIds.has(e.id))
-      .map(e => convertEventToTask(e));
-    onImport(toImport, importedPeople.length);
+    const selected = fetchedEvents.filter(e => selectedIds.has(e.id));
+    const toImport = selected
+      .map(e => convertEventToTask(e))
+      // Instances of one recurring event convert to the same series task
+      .filter((task, index, tasks) => tasks.findIndex(t => t.id === task.id) === index);
+    // A series task carries no date, so its instances' days are passed along for the conflict check
+    const eventDates = [...new Set(selected
+      .map(e => e.start.date ?? (e.start.dateTime ? new Date(e.start.dateTime).toLocaleDateString('en-CA') : null))
+      .filter((d): d is string => !!d))];
+    onImport(toImport, importedPeople.length, eventDates);
     setImportedPeople([]); // Reset for next import session
   };
 
@@ -289,7 +297,7 @@ const EventBadges: React.FC<EventBadgesProps> = ({ event, recurrencePattern }) =
   const end = event.end.dateTime || event.end.date;
   const startDate = new Date(start!);
   const endDate = new Date(end!);
-  const duration = calculateDuration(startDate, endDate);
+  const duration = formatDurationBetween(startDate, endDate);
   
   const hasVideoLink = event.conferenceData?.entryPoints?.some(ep => ep.entryPointType === 'video');
   const attendeesCount = event.attendees?.length || 0;
@@ -360,17 +368,3 @@ const EventBadges: React.FC<EventBadgesProps> = ({ event, recurrencePattern }) =
     </div>
   );
 };
-
-// Helper function
-function calculateDuration(start: Date, end: Date): string | null {
-  const diffMs = end.getTime() - start.getTime();
-  if (diffMs <= 0) return null;
-  
-  const hrs = Math.floor(diffMs / 3600000);
-  const mins = Math.round((diffMs % 3600000) / 60000);
-  
-  if (hrs > 0 && mins > 0) return `${hrs}h ${mins}m`;
-  if (hrs > 0) return `${hrs}h`;
-  if (mins > 0) return `${mins}m`;
-  return null;
-}
\ No newline at end of file
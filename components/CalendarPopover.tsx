@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { Task } from '../types';
+import { getTasksForDate } from '../services/taskQueries';
+import { conflictsFor, findConflicts } from '../services/conflicts';
 
 interface Props {
   selectedDate: Date;
@@ -34,17 +36,22 @@ export const CalendarPopover: React.FC<Props> = ({ selectedDate, onSelectDate, t
   for (let i = 0; i < startOffset; i++) days.push(null);
   for (let i = 1; i <= totalDays; i++) days.push(i);
 
-  // Helper to check if a specific day has tasks
-  const hasTasks = (day: number) => {
-    const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-    return tasks.some(t => t.date === dateStr);
-  };
+  const dateKeyOf = (day: number) => `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
 
+  // Tasks on a day, with recurring series expanded like the day view
   const getTasksForDay = (day: number): Task[] => {
-    const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-    return tasks.filter(t => t.date === dateStr);
+    const dayTasks = getTasksForDate({ fixed: tasks, flexible: [] }, dateKeyOf(day));
+    return [...dayTasks.fixed, ...dayTasks.flexible];
+  };
+
+  // Overlapping commitments (see services/conflicts.ts); the task list is flat, so split it by type first
+  const getConflictsForDay = (day: number) => {
+    const dayTasks = getTasksForDay(day);
+    return findConflicts({ fixed: dayTasks.filter(t => t.type === 'fixed'), flexible: dayTasks.filter(t => t.type !== 'fixed') }, dateKeyOf(day));
   };
 
+  const hasTasks = (day: number) => getTasksForDay(day).length > 0;
+
   const isSelected = (day: number) => {
     return selectedDate.getDate() === day && 
            selectedDate.getMonth() === month && 
@@ -95,7 +102,7 @@ export const CalendarPopover: React.FC<Props> = ({ selectedDate, onSelectDate, t
                 >
                   {day}
                   {hasTasks(day) && (
-                    <span className={`absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full ${isSelected(day) ? 'bg-white' : 'bg-indigo-400'}`}></span>
+                    <span className={`absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full ${getConflictsForDay(day).length > 0 ? 'bg-rose-500' : isSelected(day) ? 'bg-white' : 'bg-indigo-400'}`}></span>
                   )}
                 </button>
               )}
@@ -125,6 +132,7 @@ export const CalendarPopover: React.FC<Props> = ({ selectedDate, onSelectDate, t
               low:    'bg-slate-300',
             };
             const VISIBLE = 5;
+            const dayConflicts = getConflictsForDay(hoveredDay);
             return dayTasks.length === 0 ? (
               <div className="flex flex-col items-center justify-center py-4 gap-1">
                 <svg className="w-5 h-5 text-slate-300" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" /></svg>
@@ -132,10 +140,13 @@ export const CalendarPopover: React.FC<Props> = ({ selectedDate, onSelectDate, t
               </div>
             ) : (
               <div className="p-2 space-y-1">
+                {dayConflicts.length > 0 && (
+                  <p className="text-[9px] font-semibold text-rose-600 px-1">⚠ {dayConflicts.length} conflict{dayConflicts.length === 1 ? '' : 's'}</p>
+                )}
                 {dayTasks.slice(0, VISIBLE).map(t => {
                   const cat = CATEGORY_STYLES[t.category ?? ''];
                   return (
-                    <div key={t.id} className={`flex items-start gap-1.5 rounded-md px-1.5 py-1 ${t.completed ? 'opacity-50' : 'bg-white shadow-sm border border-slate-100'}`}>
+                    <div key={`${t.id}-${t.occurrenceDate ?? ''}`} className={`flex items-start gap-1.5 rounded-md px-1.5 py-1 ${t.completed ? 'opacity-50' : 'bg-white shadow-sm border border-slate-100'}`}>
                       {/* priority dot */}
                       <span className={`mt-[3px] w-1.5 h-1.5 rounded-full flex-shrink-0 ${PRIORITY_DOT[t.priority] ?? 'bg-slate-300'}`} />
                       <div className="flex-1 min-w-0">
@@ -150,6 +161,9 @@ export const CalendarPopover: React.FC<Props> = ({ selectedDate, onSelectDate, t
                           {t.type === 'flexible' && (
                             <span className="text-[9px] text-slate-300 italic">flexible</span>
                           )}
+                          {conflictsFor(dayConflicts, t).length > 0 && (
+                            <span className="text-[9px] font-semibold text-rose-500">overlap</span>
+                          )}
                         </div>
                       </div>
                       {cat && (
@@ -18,6 +18,8 @@
  *    Recurrence options:
  *    - Daily, Weekly (select specific days), Monthly (select day-of-month)
  *    UI shows simplified controls; complex cron expressions avoided.
+ *    Editing or deleting one day of a series asks which occurrences it applies
+ *    to: this one, this and following, or all (services/recurringOccurrences.ts).
  * 
  * 3. **Visual Priority Coding**:
  *    High/Medium/Low priority affects:
@@ -38,49 +40,67 @@
  * 6. **Google Calendar Integration Indicators**:
  *    Tasks with gcal_id show sync icon. Users know what's backed up to Google.
  * 
+ * 7. **Dependencies**:
+ *    A task can list prerequisites (`dependsOn`). Cards show "Blocked" until they
+ *    are done and "Ready" after; the editor only offers prerequisites that do not
+ *    close a loop (services/taskDependencies.ts). Needs the stored inventory, since
+ *    prerequisites are often on earlier days.
+ * 
+ * 8. **Checklists**:
+ *    Steps (`subtasks`) show as a done/total badge that expands into the list.
+ *    Ticking a step saves right away (on a recurring task, for that occurrence
+ *    only); adding or removing steps goes through the edit form. Retiming the
+ *    task drops any per-step block times (services/subtasks.ts).
+ * 
+ * 9. **Deadlines**:
+ *    `dueDate` is separate from the planned day. Cards show how far off it is
+ *    and how often the task rolled over; unfinished tasks past their deadline
+ *    on other days are listed under "Overdue" so they cannot hide in the past
+ *    (services/deadlines.ts).
+ * 
+ * 10. **Natural-Language Entry**:
+ *    The add form's "When" and "Time" fields accept "next tue", "tomorrow evening"
+ *    or "5pm", resolved against the viewed date (services/dateResolver.ts) with a
+ *    live preview, so the stored task always has a real date and clock time.
+ * 
+ * 11. **Conflicts**:
+ *    Overlapping fixed events (or an imported Google event over any timed task)
+ *    get a "Conflict" badge on both cards. The badge opens the suggested fixes
+ *    from services/conflicts.ts — move, shorten or decline one side — applied
+ *    through the same update/delete handlers as manual edits (an occurrence
+ *    changes for that day only).
+ * 
  * Technical Details:
- * - RecurrenceControl: Nested component for recurrence rule editing
+ * - RecurrenceControl: Nested component for recurrence rule editing (interval,
+ *   nth weekday, yearly, end date or count; see services/recurrence.ts)
  * - InfoTooltip: Contextual help without cluttering UI
  * - Optimistic updates: UI changes immediately, sync happens async
  */
 
 import React, { useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { LifeInventory, Task, RelationshipLedger, Person } from '../types';
-
-/**
- * Convert 24-hour time format to 12-hour format with AM/PM
- * @param time - Time string like "09:00", "15:00", "21:00", or already formatted like "9:00 AM"
- * @returns Formatted time like "9:00 AM", "3:00 PM", "9:00 PM"
- */
-const formatTimeTo12Hour = (time: string | undefined): string => {
-  if (!time) return '';
-  
-  // If already has AM/PM, return as-is
-  if (time.includes('AM') || time.includes('PM') || time.includes('am') || time.includes('pm')) {
-    return time;
-  }
-  
-  // Parse 24-hour format
-  const [hoursStr, minutesStr] = time.split(':');
-  const hours = parseInt(hoursStr, 10);
-  const minutes = minutesStr || '00';
-  
-  // Convert to 12-hour format
-  const period = hours >= 12 ? 'PM' : 'AM';
-  const hours12 = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
-  
-  return `${hours12}:${minutes} ${period}`;
-};
+import { LifeInventory, Task, RelationshipLedger, Person, OccurrenceScope, RecurrenceRule } from '../types';
+import { resolveDateTimeExpression, resolveTimeExpression } from '../services/dateResolver';
+import { SCOPE_LABELS, canApplyToOccurrence, taskChanges } from '../services/recurringOccurrences';
+import { anchorRule, describeRule, ordinal } from '../services/recurrence';
+import { formatMinutesAsDuration, formatTimeForDisplay } from '../services/timeParsing';
+import { blockingPrerequisites, createsCycle } from '../services/taskDependencies';
+import { appendSubtask, subtaskProgress, withoutSubBlocks } from '../services/subtasks';
+import { DEADLINE_HORIZON_DAYS, daysUntilDue, describeDue, overdueTasks } from '../services/deadlines';
+import { ConflictResolution, TaskConflict, conflictResolutions, conflictsFor, findConflicts, otherSide } from '../services/conflicts';
 
 interface Props {
   inventory: LifeInventory;
-  onUpdateTask: (task: Task) => void;
-  onDeleteTask: (taskId: string) => void;
+  onUpdateTask: (task: Task, scope?: OccurrenceScope) => void; // scope: recurring occurrences only
+  onDeleteTask: (taskId: string, scope?: OccurrenceScope, occurrenceDate?: string) => void;
   onAddTask?: (task: Task) => void; // Optional for backward compatibility, though App.tsx provides it
   onOrchestrate?: () => void; // Trigger AI orchestration of the current day
+  onQuickPlan?: () => void; // Build a proposal with the local deterministic scheduler
+  onPlanWeek?: () => void; // Trigger AI orchestration of the next 7 days
   onCompleteTask?: (task: Task) => void; // Toggle task completion + auto-log check-in for linkedContact
   ledger?: RelationshipLedger;
+  currentDate?: Date; // Viewed date: new tasks land here and "tomorrow" etc. resolve against it
+  allInventory?: LifeInventory; // Stored tasks on every day, for prerequisites (dependsOn)
 }
 
 const InfoTooltip = ({ text }: { text: string }) => {
@@ -143,22 +163,45 @@ const InfoTooltip = ({ text }: { text: string }) => {
   );
 };
 
+const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_LABELS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const FREQUENCY_UNITS: Record<RecurrenceRule['frequency'], string> = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' };
+
+/**
+ * Recurrence editor: frequency and interval, weekdays, "day N" / "last day" /
+ * "the 2nd Tuesday" for monthly and yearly rules, and an end (date or count).
+ * `anchorDate` is the task's date: defaults come from it, and rules that count
+ * from a start (interval, count) are anchored to it (see anchorRule).
+ */
 const RecurrenceControl: React.FC<{ 
     recurrence: Task['recurrence'], 
+    anchorDate: string,
     onChange: (r: Task['recurrence']) => void 
-}> = ({ recurrence, onChange }) => {
+}> = ({ recurrence, anchorDate, onChange }) => {
     const frequency = recurrence?.frequency || 'none';
+    const [y, m, d] = anchorDate.split('-').map(Number);
+    const anchor = new Date(y, m - 1, d);
+
+    const update = (changes: Partial<RecurrenceRule>) => {
+        const next = { ...recurrence!, ...changes };
+        (Object.keys(next) as (keyof RecurrenceRule)[]).forEach(key => { if (next[key] === undefined) delete next[key]; });
+        onChange(anchorRule(next, anchorDate));
+    };
 
     const handleFrequencyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         const val = e.target.value;
+        // Interval and end carry over; day selectors are reset for the new frequency
+        const kept = { interval: recurrence?.interval, until: recurrence?.until, count: recurrence?.count, start: recurrence?.start, exceptions: recurrence?.exceptions };
         if (val === 'none') {
             onChange(undefined);
         } else if (val === 'daily') {
-            onChange({ frequency: 'daily' });
+            onChange(anchorRule({ ...kept, frequency: 'daily' }, anchorDate));
         } else if (val === 'weekly') {
-            onChange({ frequency: 'weekly', weekDays: [1, 3, 5] }); // Default M,W,F
+            onChange(anchorRule({ ...kept, frequency: 'weekly', weekDays: [1, 3, 5] }, anchorDate)); // Default M,W,F
         } else if (val === 'monthly') {
-            onChange({ frequency: 'monthly', dayOfMonth: new Date().getDate() });
+            onChange(anchorRule({ ...kept, frequency: 'monthly', dayOfMonth: anchor.getDate() }, anchorDate));
+        } else if (val === 'yearly') {
+            onChange(anchorRule({ ...kept, frequency: 'yearly', months: [anchor.getMonth() + 1], dayOfMonth: anchor.getDate() }, anchorDate));
         }
     };
 
@@ -168,14 +211,30 @@ const RecurrenceControl: React.FC<{
         const newDays = currentDays.includes(dayIndex)
             ? currentDays.filter(d => d !== dayIndex)
             : [...currentDays, dayIndex].sort();
-        onChange({ ...recurrence, weekDays: newDays });
+        update({ weekDays: newDays });
+    };
+
+    // Monthly/yearly day selection: a day of month, the last day, or the Nth weekday
+    const dayMode = recurrence?.weekDays?.length ? 'weekday' : recurrence?.dayOfMonth === -1 ? 'last' : 'day';
+    const handleDayModeChange = (mode: string) => {
+        if (mode === 'weekday') update({ dayOfMonth: undefined, weekDays: [anchor.getDay()], setPositions: [Math.min(Math.ceil(anchor.getDate() / 7), 4)] });
+        else update({ weekDays: undefined, setPositions: undefined, dayOfMonth: mode === 'last' ? -1 : anchor.getDate() });
+    };
+
+    const endMode = recurrence?.until ? 'until' : recurrence?.count ? 'count' : 'never';
+    const handleEndModeChange = (mode: string) => {
+        if (mode === 'until') update({ count: undefined, until: recurrence?.until || anchorDate });
+        else if (mode === 'count') update({ until: undefined, count: recurrence?.count || 10 });
+        else update({ until: undefined, count: undefined });
     };
 
     const days = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+    const selectClass = "bg-white border border-slate-200 text-[10px] rounded px-1.5 py-0.5 focus:outline-none";
+    const numberClass = "w-12 bg-white border border-slate-200 text-[10px] rounded px-1.5 py-0.5 focus:outline-none";
 
     return (
         <div className="flex flex-col gap-2 mt-1 bg-slate-50 p-2 rounded border border-slate-100">
-            <div className="flex items-center gap-2">
+            <div className="flex items-center gap-2 flex-wrap">
                 <span className="text-xs font-semibold text-slate-500">Repeat:</span>
                 <select 
                     value={frequency}
@@ -186,7 +245,22 @@ const RecurrenceControl: React.FC<{
                     <option value="daily">Daily</option>
                     <option value="weekly">Weekly</option>
                     <option value="monthly">Monthly</option>
+                    <option value="yearly">Yearly</option>
                 </select>
+                {recurrence && (
+                    <div className="flex items-center gap-1">
+                        <span className="text-[10px] font-bold text-slate-400">Every</span>
+                        <input
+                            type="number"
+                            min="1"
+                            max="99"
+                            value={recurrence.interval || 1}
+                            onChange={(e) => { const n = parseInt(e.target.value) || 1; update({ interval: n > 1 ? n : undefined }); }}
+                            className={numberClass}
+                        />
+                        <span className="text-[10px] font-bold text-slate-400">{FREQUENCY_UNITS[recurrence.frequency]}{(recurrence.interval || 1) > 1 ? 's' : ''}</span>
+                    </div>
+                )}
             </div>
             
             {frequency === 'weekly' && (
@@ -208,40 +282,289 @@ const RecurrenceControl: React.FC<{
                 </div>
             )}
 
-            {frequency === 'monthly' && (
-                <div className="flex items-center gap-2">
-                    <span className="text-[10px] font-bold text-slate-400">Day of Month:</span>
-                    <input 
-                        type="number"
-                        min="1"
-                        max="31"
-                        value={recurrence?.dayOfMonth || 1}
-                        onChange={(e) => onChange({ ...recurrence!, frequency: 'monthly', dayOfMonth: parseInt(e.target.value) || 1 })}
-                        className="w-12 bg-white border border-slate-200 text-[10px] rounded px-1.5 py-0.5 focus:outline-none"
-                    />
+            {(frequency === 'monthly' || frequency === 'yearly') && (
+                <div className="flex items-center gap-1.5 flex-wrap">
+                    {frequency === 'yearly' && (
+                        <select
+                            value={recurrence?.months?.[0] ?? anchor.getMonth() + 1}
+                            onChange={(e) => update({ months: [parseInt(e.target.value)] })}
+                            className={selectClass}
+                        >
+                            {MONTH_LABELS.map((label, i) => <option key={label} value={i + 1}>{label}</option>)}
+                        </select>
+                    )}
+                    <select value={dayMode} onChange={(e) => handleDayModeChange(e.target.value)} className={selectClass}>
+                        <option value="day">On day</option>
+                        <option value="last">On the last day</option>
+                        <option value="weekday">On the</option>
+                    </select>
+                    {dayMode === 'day' && (
+                        <input 
+                            type="number"
+                            min="1"
+                            max="31"
+                            value={recurrence?.dayOfMonth || 1}
+                            onChange={(e) => update({ dayOfMonth: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+                            className={numberClass}
+                        />
+                    )}
+                    {dayMode === 'weekday' && (
+                        <>
+                            <select
+                                value={recurrence?.setPositions?.[0] ?? 1}
+                                onChange={(e) => update({ setPositions: [parseInt(e.target.value)] })}
+                                className={selectClass}
+                            >
+                                {[1, 2, 3, 4, -1].map(pos => <option key={pos} value={pos}>{ordinal(pos)}</option>)}
+                            </select>
+                            <select
+                                value={recurrence?.weekDays?.[0] ?? anchor.getDay()}
+                                onChange={(e) => update({ weekDays: [parseInt(e.target.value)] })}
+                                className={selectClass}
+                            >
+                                {WEEKDAY_LABELS.map((label, i) => <option key={label} value={i}>{label}</option>)}
+                            </select>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {recurrence && (
+                <div className="flex items-center gap-1.5 flex-wrap">
+                    <span className="text-[10px] font-bold text-slate-400">Ends:</span>
+                    <select value={endMode} onChange={(e) => handleEndModeChange(e.target.value)} className={selectClass}>
+                        <option value="never">Never</option>
+                        <option value="until">On date</option>
+                        <option value="count">After</option>
+                    </select>
+                    {endMode === 'until' && (
+                        <input
+                            type="date"
+                            min={recurrence.start}
+                            value={recurrence.until}
+                            onChange={(e) => e.target.value && update({ until: e.target.value })}
+                            className={selectClass}
+                        />
+                    )}
+                    {endMode === 'count' && (
+                        <>
+                            <input
+                                type="number"
+                                min="1"
+                                max="999"
+                                value={recurrence.count}
+                                onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                                className={numberClass}
+                            />
+                            <span className="text-[10px] font-bold text-slate-400">times</span>
+                        </>
+                    )}
+                </div>
+            )}
+            {recurrence && <p className="text-[10px] text-slate-400">{describeRule(recurrence)}</p>}
+        </div>
+    );
+};
+
+/** Which occurrences of a recurring task an edit or delete applies to */
+const ScopePicker: React.FC<{ action: string; note?: string; disabled?: OccurrenceScope[]; onPick: (scope: OccurrenceScope) => void; onCancel: () => void }> = ({ action, note, disabled = [], onPick, onCancel }) => (
+    <div className="p-2 rounded-md border border-indigo-100 bg-indigo-50/60 space-y-1.5">
+        <p className="text-[10px] font-bold uppercase tracking-widest text-indigo-500">{action} recurring task</p>
+        <div className="flex flex-wrap items-center gap-1">
+            {(Object.keys(SCOPE_LABELS) as OccurrenceScope[]).map(scope => (
+                <button
+                    key={scope}
+                    onClick={() => onPick(scope)}
+                    disabled={disabled.includes(scope)}
+                    className="text-[10px] font-semibold bg-white border border-indigo-200 text-indigo-600 hover:bg-indigo-600 hover:text-white disabled:opacity-40 disabled:hover:bg-white disabled:hover:text-indigo-600 rounded px-2 py-1 transition-colors"
+                >
+                    {SCOPE_LABELS[scope]}
+                </button>
+            ))}
+            <button onClick={onCancel} className="text-[10px] font-semibold text-slate-400 hover:text-slate-600 px-2 py-1">Cancel</button>
+        </div>
+        {note && <p className="text-[10px] text-slate-400">{note}</p>}
+    </div>
+);
+
+/**
+ * Prerequisite editor: chips for the current prerequisites and a picker of other
+ * open tasks, leaving out ones that would (indirectly) depend on this task.
+ */
+const PrerequisiteControl: React.FC<{ task: Task; dependsOn: string[]; inventory: LifeInventory; onChange: (dependsOn: string[]) => void }> = ({ task, dependsOn, inventory, onChange }) => {
+    const tasks = [...inventory.fixed, ...inventory.flexible];
+    const label = (t: Task) => `${t.title}${t.date ? ` (${t.date})` : t.recurrence ? ` (${describeRule(t.recurrence)})` : ''}`;
+    const options = tasks
+        .filter(t => t.id !== task.id && !t.completed && !dependsOn.includes(t.id) && !createsCycle(inventory, task.id, [t.id]))
+        .sort((a, b) => (a.date ?? '').localeCompare(b.date ?? '') || a.title.localeCompare(b.title));
+
+    return (
+        <div className="space-y-1">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">After</p>
+            {dependsOn.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {dependsOn.map(id => {
+                        const prerequisite = tasks.find(t => t.id === id);
+                        return (
+                            <span key={id} className="text-[10px] bg-slate-100 text-slate-600 border border-slate-200 rounded px-1.5 py-0.5 flex items-center gap-1">
+                                {prerequisite ? label(prerequisite) : 'Deleted task'}
+                                <button onClick={() => onChange(dependsOn.filter(d => d !== id))} className="text-slate-400 hover:text-red-500" title="Remove prerequisite">×</button>
+                            </span>
+                        );
+                    })}
                 </div>
             )}
+            {options.length > 0 && (
+                <select
+                    value=""
+                    onChange={(e) => e.target.value && onChange([...dependsOn, e.target.value])}
+                    className="w-full border-slate-200 bg-white rounded px-2 py-1 text-xs border focus:outline-none"
+                >
+                    <option value="">Add a prerequisite…</option>
+                    {options.map(t => <option key={t.id} value={t.id}>{label(t)}</option>)}
+                </select>
+            )}
+        </div>
+    );
+};
+
+/** Checklist editor: remove steps or append new ones (with an optional duration). */
+const SubtaskEditor: React.FC<{ task: Task; onChange: (task: Task) => void }> = ({ task, onChange }) => {
+    const [title, setTitle] = useState('');
+    const [duration, setDuration] = useState('');
+    const steps = task.subtasks ?? [];
+
+    const add = () => {
+        if (!title.trim()) return;
+        onChange(appendSubtask(task, title, duration.trim() || undefined));
+        setTitle('');
+        setDuration('');
+    };
+
+    const remove = (id: string) => {
+        const remaining = steps.filter(s => s.id !== id);
+        const { subtasks: _, ...rest } = task;
+        onChange(remaining.length > 0 ? { ...rest, subtasks: remaining } : rest);
+    };
+
+    return (
+        <div className="space-y-1">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Steps</p>
+            {steps.map(step => (
+                <div key={step.id} className="flex items-center gap-1 text-xs text-slate-600">
+                    <span className={`flex-1 truncate ${step.completed ? 'line-through text-slate-400' : ''}`}>{step.title}</span>
+                    {step.duration && <span className="text-[10px] text-slate-400">{step.duration}</span>}
+                    <button onClick={() => remove(step.id)} className="text-slate-400 hover:text-red-500 px-1" title="Remove step">×</button>
+                </div>
+            ))}
+            <div className="flex gap-1">
+                <input
+                    type="text"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && add()}
+                    className="flex-1 border-slate-200 bg-white rounded px-2 py-1 text-xs border focus:outline-none"
+                    placeholder="Add a step…"
+                />
+                <input
+                    type="text"
+                    value={duration}
+                    onChange={(e) => setDuration(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && add()}
+                    className="w-16 border-slate-200 bg-white rounded px-2 py-1 text-xs border focus:outline-none"
+                    placeholder="30m"
+                />
+                <button onClick={add} disabled={!title.trim()} className="text-[10px] font-semibold text-indigo-600 hover:text-indigo-700 disabled:opacity-40 px-2">Add</button>
+            </div>
         </div>
     );
 };
 
-const TaskItem: React.FC<{ task: Task; onUpdate: (t: Task) => void; onDelete: (id: string) => void; onComplete?: (t: Task) => void; ledger?: RelationshipLedger }> = ({ task, onUpdate, onDelete, onComplete, ledger }) => {
+/** The overlaps of one task and a button per suggested fix. */
+const ConflictPanel: React.FC<{ task: Task; conflicts: TaskConflict[]; dayInventory: LifeInventory; onResolve: (resolution: ConflictResolution) => void; onClose: () => void }> = ({ task, conflicts, dayInventory, onResolve, onClose }) => (
+    <div className="p-2 rounded-md border border-rose-100 bg-rose-50/60 space-y-2">
+        {conflicts.map(conflict => {
+            const other = otherSide(conflict, task);
+            return (
+                <div key={`${conflict.first.id}-${conflict.second.id}`} className="space-y-1">
+                    <p className="text-[10px] text-rose-700">
+                        Overlaps <span className="font-semibold">"{other.title}"</span>{other.time ? ` at ${formatTimeForDisplay(other.time)}` : ''}{other.gcal_id ? ' (Google Calendar)' : ''} by {formatMinutesAsDuration(conflict.overlapMinutes)}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                        {conflictResolutions(conflict, dayInventory).map(resolution => (
+                            <button
+                                key={`${resolution.action}-${resolution.task.id}`}
+                                onClick={() => onResolve(resolution)}
+                                className="text-[10px] font-semibold bg-white border border-rose-200 text-rose-600 hover:bg-rose-600 hover:text-white rounded px-2 py-1 transition-colors"
+                            >
+                                {resolution.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            );
+        })}
+        <button onClick={onClose} className="text-[10px] font-semibold text-slate-400 hover:text-slate-600">Close</button>
+    </div>
+);
+
+const TaskItem: React.FC<{ task: Task; onUpdate: (t: Task, scope?: OccurrenceScope) => void; onDelete: (id: string, scope?: OccurrenceScope, occurrenceDate?: string) => void; onComplete?: (t: Task) => void; ledger?: RelationshipLedger; allInventory?: LifeInventory; conflicts?: TaskConflict[]; dayInventory?: LifeInventory }> = ({ task, onUpdate, onDelete, onComplete, ledger, allInventory, conflicts = [], dayInventory }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState<Task>(task);
   const [showSettings, setShowSettings] = useState(false);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [hoverKey, setHoverKey] = useState(0);
+  // Occurrences of a recurring series ask which occurrences a save/delete applies to
+  const [pickingScope, setPickingScope] = useState<'save' | 'delete' | null>(null);
+  const [showSteps, setShowSteps] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const isOccurrence = !!task.occurrenceDate;
+
+  // Step blocks were placed around the old time and length
+  const edited = () => (formData.time !== task.time || formData.duration !== task.duration ? withoutSubBlocks(formData) : formData);
 
   const handleSave = () => {
-    onUpdate(formData);
+    if (isOccurrence) {
+      if (Object.keys(taskChanges(task, formData)).length === 0) setIsEditing(false);
+      else setPickingScope('save');
+      return;
+    }
+    onUpdate(edited());
+    setIsEditing(false);
+  };
+
+  const handleSaveScope = (scope: OccurrenceScope) => {
+    onUpdate(edited(), scope);
+    setPickingScope(null);
     setIsEditing(false);
   };
 
   const handleCancel = () => {
     setFormData(task);
+    setPickingScope(null);
     setIsEditing(false);
   };
 
+  const handleDelete = () => {
+    if (isOccurrence) {
+      setPickingScope('delete');
+    } else if (window.confirm('Are you sure you want to delete this task?')) {
+      onDelete(task.id);
+    }
+  };
+
+  // Either side of a conflict may give way; an occurrence changes for its day only
+  const handleResolve = (resolution: ConflictResolution) => {
+    const target = resolution.task;
+    setShowConflicts(false);
+    if (resolution.action === 'decline') {
+      if (target.occurrenceDate) onDelete(target.id, 'this', target.occurrenceDate);
+      else if (window.confirm(`Remove "${target.title}" from this day?`)) onDelete(target.id);
+      return;
+    }
+    onUpdate({ ...withoutSubBlocks(target), ...resolution.changes });
+  };
+
   const handleOpenSettings = () => {
     setIsTransitioning(true);
     setTimeout(() => {
@@ -325,11 +648,50 @@ const TaskItem: React.FC<{ task: Task; onUpdate: (t: Task) => void; onDelete: (i
                 </select>
             </div>
             
+            {!formData.recurrence && (
+                <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    Due
+                    <input
+                        type="date"
+                        value={formData.dueDate ?? ''}
+                        onChange={(e) => {
+                            const { dueDate: _, ...rest } = formData;
+                            setFormData(e.target.value ? { ...rest, dueDate: e.target.value } : rest);
+                        }}
+                        className="flex-1 border-slate-200 bg-white rounded px-2 py-1 text-xs font-normal normal-case tracking-normal text-slate-700 border focus:outline-none"
+                    />
+                </label>
+            )}
+
             <RecurrenceControl 
                 recurrence={formData.recurrence} 
+                anchorDate={task.occurrenceDate ?? task.date ?? new Date().toLocaleDateString('en-CA')}
                 onChange={(r) => setFormData({ ...formData, recurrence: r })} 
             />
 
+            {allInventory && (
+                <PrerequisiteControl
+                    task={task}
+                    dependsOn={formData.dependsOn ?? []}
+                    inventory={allInventory}
+                    onChange={(dependsOn) => {
+                        const { dependsOn: _, ...rest } = formData;
+                        setFormData(dependsOn.length > 0 ? { ...rest, dependsOn } : rest);
+                    }}
+                />
+            )}
+
+            <SubtaskEditor task={formData} onChange={setFormData} />
+
+             {pickingScope === 'save' ? (
+                <ScopePicker
+                    action="Save"
+                    disabled={canApplyToOccurrence(taskChanges(task, formData)) ? [] : ['this']}
+                    note={canApplyToOccurrence(taskChanges(task, formData)) ? undefined : 'Type, linked contacts, prerequisites and repeat settings belong to the whole series.'}
+                    onPick={handleSaveScope}
+                    onCancel={() => setPickingScope(null)}
+                />
+             ) : (
              <div className="flex justify-end space-x-2 pt-1 border-t border-slate-100 mt-2">
                 <button onClick={handleCancel} className="p-1 text-slate-400 hover:text-slate-600">
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
@@ -338,6 +700,7 @@ const TaskItem: React.FC<{ task: Task; onUpdate: (t: Task) => void; onDelete: (i
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
                 </button>
             </div>
+             )}
         </div>
     );
   }
@@ -371,7 +734,15 @@ const TaskItem: React.FC<{ task: Task; onUpdate: (t: Task) => void; onDelete: (i
     : [];
   const linkedPerson = linkedPersons[0]; // Primary contact for avatar display
 
+  const progress = subtaskProgress(task);
+  const todayKey = new Date().toLocaleDateString('en-CA');
+  const dueIn = task.completed ? null : daysUntilDue(task, todayKey);
+
+  // Incomplete prerequisites; an occurrence is judged against its own day
+  const blockers = allInventory && task.dependsOn?.length && !task.completed ? blockingPrerequisites(task, allInventory) : [];
+
   return (
+    <>
     <div 
       className={`group relative flex items-center justify-between p-3 rounded-lg border ${cardBorder} ${cardBg} mb-2 transition-colors duration-300`}
       onMouseEnter={handleMouseEnter}
@@ -390,11 +761,7 @@ const TaskItem: React.FC<{ task: Task; onUpdate: (t: Task) => void; onDelete: (i
                         <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
                     </button>
                     <button 
-                        onClick={() => {
-                            if(window.confirm('Are you sure you want to delete this task?')) {
-                                onDelete(task.id);
-                            }
-                        }}
+                        onClick={handleDelete}
                         className="animate-swipe-in-2 p-1.5 bg-white hover:bg-red-50 rounded-md text-slate-400 hover:text-red-600 shadow-sm border border-slate-200 transition-all duration-200 hover:scale-110"
                         title="Delete"
                     >
@@ -454,11 +821,7 @@ const TaskItem: React.FC<{ task: Task; onUpdate: (t: Task) => void; onDelete: (i
                         <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
                     </button>
                     <button 
-                        onClick={() => {
-                            if(window.confirm('Are you sure you want to delete this task?')) {
-                                onDelete(task.id);
-                            }
-                        }}
+                        onClick={handleDelete}
                         className="animate-swipe-in-3 p-1.5 bg-white hover:bg-red-50 rounded-md text-slate-400 hover:text-red-600 shadow-sm border border-slate-200 transition-all duration-200"
                         title="Delete"
                     >
@@ -492,15 +855,56 @@ const TaskItem: React.FC<{ task: Task; onUpdate: (t: Task) => void; onDelete: (i
             {isRecurring && (
                 <span className="text-[10px] bg-slate-200 text-slate-500 px-1 rounded flex items-center" title="Recurring Task">
                     <svg className="w-3 h-3 mr-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
-                    {task.recurrence?.frequency === 'daily' ? 'Daily' : task.recurrence?.frequency === 'weekly' ? 'Weekly' : 'Monthly'}
+                    {describeRule(task.recurrence!)}
                 </span>
             )}
             {task.completed && (
                 <span className="text-[10px] bg-emerald-100 text-emerald-600 px-1.5 py-0.5 rounded font-semibold">Done</span>
             )}
+            {!task.completed && allInventory && !!task.dependsOn?.length && (
+                blockers.length > 0 ? (
+                    <span className="text-[10px] bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded font-semibold" title={`Waiting on ${blockers.map(b => `"${b.title}"`).join(', ')}`}>Blocked</span>
+                ) : (
+                    <span className="text-[10px] bg-sky-100 text-sky-700 px-1.5 py-0.5 rounded font-semibold" title="All prerequisites are done">Ready</span>
+                )
+            )}
+            {conflicts.length > 0 && !task.completed && (
+                <button
+                    onClick={() => setShowConflicts(s => !s)}
+                    className="text-[10px] bg-rose-100 text-rose-700 hover:bg-rose-200 px-1.5 py-0.5 rounded font-semibold"
+                    title={`Overlaps ${conflicts.map(c => `"${otherSide(c, task).title}"`).join(', ')}`}
+                >
+                    Conflict
+                </button>
+            )}
+            {dueIn !== null && (
+                <span
+                    className={`text-[10px] px-1.5 py-0.5 rounded font-semibold ${dueIn <= 0 ? 'bg-rose-100 text-rose-700' : dueIn <= DEADLINE_HORIZON_DAYS ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-500'}`}
+                    title={`Due ${task.dueDate}`}
+                >
+                    {describeDue(task, todayKey)}
+                </span>
+            )}
+            {!task.completed && !!task.rolloverCount && (
+                <span className="text-[10px] bg-slate-100 text-slate-500 px-1.5 py-0.5 rounded font-semibold" title={`Carried over unfinished ${task.rolloverCount} time${task.rolloverCount === 1 ? '' : 's'}`}>
+                    ↻ {task.rolloverCount}
+                </span>
+            )}
+            {progress && (
+                <button
+                    onClick={() => setShowSteps(s => !s)}
+                    className={`text-[10px] px-1.5 py-0.5 rounded font-semibold flex items-center gap-1 ${progress.done === progress.total ? 'bg-emerald-100 text-emerald-700' : 'bg-white border border-slate-200 text-slate-500 hover:text-indigo-600'}`}
+                    title={showSteps ? 'Hide steps' : 'Show steps'}
+                >
+                    <span className="w-6 h-1 rounded-full bg-slate-200 overflow-hidden">
+                        <span className="block h-full bg-emerald-400" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+                    </span>
+                    {progress.done}/{progress.total}
+                </button>
+            )}
           </div>
           <div className={`text-xs flex items-center mt-0.5 transition-colors duration-300 ${task.completed ? 'text-emerald-500' : 'text-slate-500'}`}>
-              {task.time ? <span className={`font-mono px-1 rounded border mr-2 ${task.completed ? 'bg-emerald-50 border-emerald-200' : 'bg-white border-slate-100'}`}>{formatTimeTo12Hour(task.time)}</span> : null}
+              {task.time ? <span className={`font-mono px-1 rounded border mr-2 ${task.completed ? 'bg-emerald-50 border-emerald-200' : 'bg-white border-slate-100'}`}>{formatTimeForDisplay(task.time)}</span> : null}
               <span>{task.duration}</span>
               {task.category && (
                   <span className={`ml-2 px-1.5 py-0.5 rounded border text-[10px] uppercase ${task.completed ? 'bg-emerald-50 border-emerald-200 text-emerald-500' : 'bg-white border-slate-100 text-slate-400'}`}>
@@ -516,6 +920,29 @@ const TaskItem: React.FC<{ task: Task; onUpdate: (t: Task) => void; onDelete: (i
               <span className="truncate">{linkedPersons.map(p => p.name).join(' · ')}</span>
             </div>
           )}
+          {blockers.length > 0 && (
+            <div className="text-[10px] mt-0.5 text-amber-600 truncate">
+              Waiting on {blockers.map(b => `"${b.title}"${b.date && b.date !== task.date ? ` (${b.date})` : ''}`).join(' · ')}
+            </div>
+          )}
+          {showSteps && progress && (
+            <ul className="mt-1 space-y-0.5">
+              {task.subtasks!.map(step => (
+                <li key={step.id}>
+                  <label className="flex items-center gap-1.5 text-xs text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!step.completed}
+                      onChange={() => onUpdate({ ...task, subtasks: task.subtasks!.map(s => (s.id === step.id ? { ...s, completed: !s.completed } : s)) })}
+                      className="rounded border-slate-300 text-emerald-500 focus:ring-emerald-400"
+                    />
+                    <span className={step.completed ? 'line-through text-slate-400' : ''}>{step.title}</span>
+                    {step.time && !step.completed && <span className="font-mono text-[10px] text-slate-400">{formatTimeForDisplay(step.time)}</span>}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
       <span className={`text-[10px] uppercase tracking-wider font-bold px-1.5 py-0.5 rounded transition-all duration-200 lg:group-hover:opacity-0 ${
@@ -524,10 +951,26 @@ const TaskItem: React.FC<{ task: Task; onUpdate: (t: Task) => void; onDelete: (i
           {task.type}
       </span>
     </div>
+    {showConflicts && conflicts.length > 0 && dayInventory && (
+        <div className="-mt-1 mb-2">
+            <ConflictPanel task={task} conflicts={conflicts} dayInventory={dayInventory} onResolve={handleResolve} onClose={() => setShowConflicts(false)} />
+        </div>
+    )}
+    {pickingScope === 'delete' && (
+        <div className="-mt-1 mb-2">
+            <ScopePicker
+                action="Delete"
+                note={`"This and following" ends the series before ${task.occurrenceDate}.`}
+                onPick={scope => { setPickingScope(null); onDelete(task.id, scope, task.occurrenceDate); }}
+                onCancel={() => setPickingScope(null)}
+            />
+        </div>
+    )}
+    </>
   );
 };
 
-export const CareerInventoryView: React.FC<Props> = ({ inventory, onUpdateTask, onDeleteTask, onAddTask, onOrchestrate, onCompleteTask, ledger }) => {
+export const CareerInventoryView: React.FC<Props> = ({ inventory, onUpdateTask, onDeleteTask, onAddTask, onOrchestrate, onQuickPlan, onPlanWeek, onCompleteTask, ledger, currentDate = new Date(), allInventory }) => {
   const [isAdding, setIsAdding] = useState(false);
   const [newTask, setNewTask] = useState<Partial<Task>>({
       title: '',
@@ -537,12 +980,39 @@ export const CareerInventoryView: React.FC<Props> = ({ inventory, onUpdateTask,
       duration: '1h',
       time: ''
   });
+  const [when, setWhen] = useState('');
+  const [due, setDue] = useState('');
+
+  const anchorKey = currentDate.toLocaleDateString('en-CA');
+  const todayKey = new Date().toLocaleDateString('en-CA');
+  const resolvedWhen = when.trim() ? resolveDateTimeExpression(when, anchorKey) : null;
+  const resolvedDue = due.trim() ? resolveDateTimeExpression(due, anchorKey) : null;
+  // Past-deadline tasks planned for other days; the viewed day's own show in its sections
+  const overdue = allInventory && anchorKey >= todayKey ? overdueTasks(allInventory, todayKey).filter(t => t.date !== anchorKey) : [];
+  const conflicts = findConflicts(inventory, anchorKey);
+  const resolvedTime = newTask.time?.trim() ? resolveTimeExpression(newTask.time) : null;
+  const formatDateKey = (key: string) => {
+      const [y, m, d] = key.split('-').map(Number);
+      return new Date(y, m - 1, d).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  };
 
   const handleSaveNew = () => {
       if (!newTask.title) {
           alert("Task title is required");
           return;
       }
+      if (when.trim() && !resolvedWhen) {
+          alert(`Couldn't understand "${when}". Try "tomorrow", "next tue", "March 7" or a date like 2026-03-07.`);
+          return;
+      }
+      if (due.trim() && !resolvedDue?.date) {
+          alert(`Couldn't understand the due date "${due}". Try "friday", "March 7" or a date like 2026-03-07.`);
+          return;
+      }
+      if (newTask.time?.trim() && !resolvedTime) {
+          alert(`Couldn't understand the time "${newTask.time}". Try "5pm", "17:00" or "evening".`);
+          return;
+      }
       if (onAddTask) {
           onAddTask({
               id: Math.random().toString(36).substr(2, 9),
@@ -551,11 +1021,16 @@ export const CareerInventoryView: React.FC<Props> = ({ inventory, onUpdateTask,
               priority: newTask.priority as 'high' | 'medium' | 'low',
               category: newTask.category as any,
               duration: newTask.duration || '1h',
-              time: newTask.time,
-              recurrence: newTask.recurrence
+              time: resolvedTime ?? resolvedWhen?.time ?? undefined,
+              date: resolvedWhen?.date ?? anchorKey,
+              ...(resolvedDue?.date && !newTask.recurrence ? { dueDate: resolvedDue.date } : {}),
+              // Re-anchor in case "when" changed after the rule was picked
+              recurrence: newTask.recurrence && anchorRule({ ...newTask.recurrence, start: undefined }, resolvedWhen?.date ?? anchorKey)
           });
       }
       setIsAdding(false);
+      setWhen('');
+      setDue('');
       setNewTask({ title: '', type: 'flexible', priority: 'medium', category: 'Career', duration: '1h', time: '' });
   };
 
@@ -579,6 +1054,26 @@ export const CareerInventoryView: React.FC<Props> = ({ inventory, onUpdateTask,
               Orchestrate Day
             </button>
           )}
+          {onQuickPlan && (
+            <button 
+              onClick={onQuickPlan}
+              className="flex items-center gap-1 bg-white hover:bg-emerald-50 text-emerald-600 border border-emerald-200 hover:border-emerald-300 text-xs font-bold px-3 py-1.5 rounded-md transition-all shadow-sm"
+              title="Instantly plan the day with the local scheduler (no AI, works offline)"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
+              Quick Plan
+            </button>
+          )}
+          {onPlanWeek && (
+            <button 
+              onClick={onPlanWeek}
+              className="flex items-center gap-1 bg-white hover:bg-emerald-50 text-emerald-600 border border-emerald-200 hover:border-emerald-300 text-xs font-bold px-3 py-1.5 rounded-md transition-all shadow-sm"
+              title="Ask AI to balance the next 7 days, moving flexible tasks off overloaded days"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+              Plan Week
+            </button>
+          )}
           {onAddTask && (
             <button 
               onClick={() => setIsAdding(!isAdding)}
@@ -623,14 +1118,55 @@ export const CareerInventoryView: React.FC<Props> = ({ inventory, onUpdateTask,
                           placeholder="Duration (e.g. 1h)"
                       />
                   </div>
-                  <div className="flex gap-2">
-                       <input 
-                          type="text" 
-                          value={newTask.time}
-                          onChange={(e) => setNewTask({...newTask, time: e.target.value})}
-                          className="flex-1 border-slate-200 bg-slate-50 rounded px-2 py-1.5 text-xs border focus:outline-none focus:bg-white"
-                          placeholder="Time (Optional)"
-                      />
+                  {!newTask.recurrence && (
+                      <div>
+                          <input 
+                              type="text" 
+                              value={when}
+                              onChange={(e) => setWhen(e.target.value)}
+                              className="w-full border-slate-200 bg-slate-50 rounded px-2 py-1.5 text-xs border focus:outline-none focus:bg-white"
+                              placeholder={`When (default ${formatDateKey(anchorKey)}; e.g. tomorrow, next tue 3pm)`}
+                          />
+                          {when.trim() && (
+                              <p className={`mt-1 text-[10px] ${resolvedWhen ? 'text-emerald-600' : 'text-rose-500'}`}>
+                                  {resolvedWhen
+                                    ? `→ ${resolvedWhen.date ? formatDateKey(resolvedWhen.date) : formatDateKey(anchorKey)}${resolvedWhen.time && !newTask.time?.trim() ? ` at ${resolvedWhen.time}` : ''}`
+                                    : 'Not recognized'}
+                              </p>
+                          )}
+                      </div>
+                  )}
+                  {!newTask.recurrence && (
+                      <div>
+                          <input
+                              type="text"
+                              value={due}
+                              onChange={(e) => setDue(e.target.value)}
+                              className="w-full border-slate-200 bg-slate-50 rounded px-2 py-1.5 text-xs border focus:outline-none focus:bg-white"
+                              placeholder="Due (optional; e.g. friday, March 7)"
+                          />
+                          {due.trim() && (
+                              <p className={`mt-1 text-[10px] ${resolvedDue?.date ? 'text-emerald-600' : 'text-rose-500'}`}>
+                                  {resolvedDue?.date ? `→ due ${formatDateKey(resolvedDue.date)}` : 'Not recognized'}
+                              </p>
+                          )}
+                      </div>
+                  )}
+                  <div className="flex gap-2 items-start">
+                       <div className="flex-1">
+                           <input 
+                              type="text" 
+                              value={newTask.time}
+                              onChange={(e) => setNewTask({...newTask, time: e.target.value})}
+                              className="w-full border-slate-200 bg-slate-50 rounded px-2 py-1.5 text-xs border focus:outline-none focus:bg-white"
+                              placeholder="Time (Optional)"
+                           />
+                           {newTask.time?.trim() && (
+                              <p className={`mt-1 text-[10px] ${resolvedTime ? 'text-emerald-600' : 'text-rose-500'}`}>
+                                  {resolvedTime ? `→ ${resolvedTime}` : 'Not recognized'}
+                              </p>
+                           )}
+                       </div>
                        <select 
                           value={newTask.category}
                           onChange={(e) => setNewTask({...newTask, category: e.target.value as any})}
@@ -654,6 +1190,7 @@ export const CareerInventoryView: React.FC<Props> = ({ inventory, onUpdateTask,
 
                   <RecurrenceControl 
                       recurrence={newTask.recurrence} 
+                      anchorDate={resolvedWhen?.date ?? anchorKey}
                       onChange={(r) => setNewTask({ ...newTask, recurrence: r })} 
                   />
 
@@ -670,13 +1207,25 @@ export const CareerInventoryView: React.FC<Props> = ({ inventory, onUpdateTask,
            </div>
         )}
 
+        {overdue.length > 0 && (
+            <div className="mb-4">
+                <h3 className="text-xs font-semibold text-rose-500 uppercase tracking-wider mb-2 flex items-center">
+                    Overdue
+                    <InfoTooltip text="Unfinished tasks whose deadline has passed, planned for another day. Finish them, move them here, or change the deadline." />
+                </h3>
+                {overdue.map(task => (
+                    <TaskItem key={task.id} task={task} onUpdate={onUpdateTask} onDelete={onDeleteTask} onComplete={onCompleteTask} ledger={ledger} allInventory={allInventory} />
+                ))}
+            </div>
+        )}
+
         <div>
             <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2 flex items-center">
                 Hard Anchors (Fixed)
                 <InfoTooltip text="Immovable commitments (meetings, appointments, or fixed travel). These are treated as 'hard constraints' that the AI cannot shift, forming the structural skeleton of your daily schedule." />
             </h3>
             {inventory.fixed.map(task => (
-                <TaskItem key={task.id} task={task} onUpdate={onUpdateTask} onDelete={onDeleteTask} onComplete={onCompleteTask} ledger={ledger} />
+                <TaskItem key={`${task.id}-${task.occurrenceDate ?? ''}`} task={task} onUpdate={onUpdateTask} onDelete={onDeleteTask} onComplete={onCompleteTask} ledger={ledger} allInventory={allInventory} conflicts={conflictsFor(conflicts, task)} dayInventory={inventory} />
             ))}
             {inventory.fixed.length === 0 && (
                 <p className="text-xs text-slate-400 italic pl-2">No fixed events for today.</p>
@@ -689,7 +1238,7 @@ export const CareerInventoryView: React.FC<Props> = ({ inventory, onUpdateTask,
                 <InfoTooltip text="Outcome-oriented tasks (deep work, gym, chores, or social calls). These have no fixed time; the AI's 'Orchestration Engine' intelligently places these in your optimal energy windows based on priority and available gaps between anchors." />
             </h3>
             {inventory.flexible.map(task => (
-                <TaskItem key={task.id} task={task} onUpdate={onUpdateTask} onDelete={onDeleteTask} onComplete={onCompleteTask} ledger={ledger} />
+                <TaskItem key={`${task.id}-${task.occurrenceDate ?? ''}`} task={task} onUpdate={onUpdateTask} onDelete={onDeleteTask} onComplete={onCompleteTask} ledger={ledger} allInventory={allInventory} conflicts={conflictsFor(conflicts, task)} dayInventory={inventory} />
             ))}
             {inventory.flexible.length === 0 && (
                  <p className="text-xs text-slate-400 italic pl-2">No flexible tasks for today.</p>
@@ -0,0 +1,113 @@
+/**
+ * DESIGN DECISION: Changeset Diff Card
+ *
+ * Review mode's counterpart to OrchestrationProposalView: every write the AI wanted
+ * to make during one turn is listed with a diff-style preview and a checkbox.
+ * The user can accept everything, reject everything, or apply just the checked items.
+ *
+ * Checkbox state is local UI state — nothing is applied until a button is pressed,
+ * and once resolved the card becomes a read-only record showing each item's outcome.
+ */
+
+import React, { useState } from 'react';
+import { Changeset, PendingChange } from '../types';
+
+interface Props {
+  changeset: Changeset;
+  onResolve: (acceptedIds: string[]) => void;
+  isProcessing?: boolean;
+}
+
+const DIFF_LINE_STYLES: Record<string, string> = {
+  '+': 'text-emerald-700 bg-emerald-50',
+  '-': 'text-rose-700 bg-rose-50',
+  '~': 'text-amber-700 bg-amber-50',
+};
+
+const STATUS_BADGES: Record<PendingChange['status'], string> = {
+  pending: 'bg-slate-100 text-slate-500',
+  applied: 'bg-emerald-100 text-emerald-700',
+  rejected: 'bg-slate-100 text-slate-400',
+  failed: 'bg-rose-100 text-rose-700',
+};
+
+export const ChangesetCard: React.FC<Props> = ({ changeset, onResolve, isProcessing = false }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(changeset.changes.map(c => c.id)));
+  const isPending = changeset.status === 'pending';
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="not-italic bg-white border border-amber-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="px-3 py-2 bg-amber-50 border-b border-amber-100 flex items-center justify-between">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-amber-700">
+          {isPending ? `Pending changes · ${changeset.changes.length}` : `Changeset ${changeset.status.replace('_', ' ')}`}
+        </span>
+        {isPending && (
+          <span className="text-[10px] text-amber-600">{selected.size} selected</span>
+        )}
+      </div>
+
+      <ul className="divide-y divide-slate-100">
+        {changeset.changes.map(change => (
+          <li key={change.id} className="px-3 py-2 flex gap-2">
+            {isPending ? (
+              <input
+                type="checkbox"
+                checked={selected.has(change.id)}
+                onChange={() => toggle(change.id)}
+                className="mt-0.5 accent-indigo-600"
+                aria-label={`Include: ${change.summary}`}
+              />
+            ) : (
+              <span className={`self-start text-[9px] font-bold uppercase px-1.5 py-0.5 rounded ${STATUS_BADGES[change.status]}`}>{change.status}</span>
+            )}
+            <div className="flex-1 min-w-0">
+              <p className={`text-xs font-semibold text-slate-700 ${change.status === 'rejected' ? 'line-through text-slate-400' : ''}`}>{change.summary}</p>
+              <div className="mt-1 space-y-0.5">
+                {change.diff.map((line, i) => (
+                  <p key={i} className={`text-[10px] font-mono px-1.5 py-0.5 rounded break-words ${DIFF_LINE_STYLES[line[0]] ?? 'text-slate-500 bg-slate-50'}`}>{line}</p>
+                ))}
+              </div>
+              {change.result && (
+                <p className="mt-1 text-[10px] text-slate-400">{change.result}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {isPending && (
+        <div className="px-3 py-2 bg-slate-50 border-t border-slate-100 flex flex-wrap gap-2">
+          <button
+            onClick={() => onResolve(changeset.changes.map(c => c.id))}
+            disabled={isProcessing}
+            className="flex-1 px-3 py-1.5 text-xs font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg disabled:opacity-50 transition-colors"
+          >
+            Accept all
+          </button>
+          <button
+            onClick={() => onResolve([...selected])}
+            disabled={isProcessing || selected.size === 0 || selected.size === changeset.changes.length}
+            className="flex-1 px-3 py-1.5 text-xs font-semibold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded-lg disabled:opacity-50 transition-colors"
+          >
+            Apply selected ({selected.size})
+          </button>
+          <button
+            onClick={() => onResolve([])}
+            disabled={isProcessing}
+            className="flex-1 px-3 py-1.5 text-xs font-semibold text-slate-600 bg-white hover:bg-slate-100 border border-slate-200 rounded-lg disabled:opacity-50 transition-colors"
+          >
+            Reject all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -11,6 +11,7 @@
  * 2. **Streaming UI**:
  *    - Thinking indicators while AI processes
  *    - Token-by-token text streaming for responsiveness
+ *    - Live tool progress under the streaming message ("Reading Tuesday's tasks…")
  *    - Animated loading states (rotating messages)
  * 
  * 3. **Embedded Interactive Elements**:
@@ -20,6 +21,7 @@
  * 
  * 4. **Storage Awareness**:
  *    - Real-time token count for user input (avoid API errors)
+ *    - Context usage popover: per-section tokens the model receives next turn
  *    - Daily image upload limits (prevent quota exhaustion)
  *    - Storage stats display (quota percentage visible)
  * 
@@ -37,11 +39,19 @@
 
 import React, { useRef, useState, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { ChatMessage, Person, Task, OrchestrationProposal, StorageStats } from '../types';
+import { ChatMessage, Person, Task, OrchestrationProposal, StorageStats, ActionJournalEntry, WeekOrchestrationProposal } from '../types';
 import { geminiService } from '../services/geminiService';
 import { OrchestrationProposalView } from './OrchestrationProposal';
+import { WeekOrchestrationProposalView } from './WeekOrchestrationProposal';
 import { ContactProposalView } from './ContactProposal';
 import { CalendarPopover } from './CalendarPopover';
+import { ActionJournalCard } from './ActionJournalCard';
+import { ChangesetCard } from './ChangesetCard';
+import { MemoryConflictCard } from './MemoryConflictCard';
+import { ContextUsagePanel } from './ContextUsagePanel';
+import { ToolProgressList } from './ToolProgressList';
+import { ToolProgressStep } from '../services/toolProgress';
+import { ContextUsageReport } from '../services/contextBudget';
 
 interface Props {
   messages: ChatMessage[];
@@ -54,11 +64,22 @@ interface Props {
   isStreaming: boolean;
   onAcceptProposal: (proposal: OrchestrationProposal) => void;
   onRejectProposal: (proposal: OrchestrationProposal) => void;
+  onAcceptWeekDays?: (proposal: WeekOrchestrationProposal, dates: string[]) => void;
+  onRejectWeekDays?: (proposal: WeekOrchestrationProposal, dates: string[]) => void;
   onAcceptContact: (person: Person) => void;
   onAcceptAllContacts: (persons: Person[]) => void;
   onRejectContact: (person: Person) => void;
   storageStats: StorageStats;
   processingProposal?: boolean;
+  actionJournal?: ActionJournalEntry[];
+  onUndoJournalEntries?: (entryIds: string[]) => void;
+  reviewMode?: boolean;
+  onToggleReviewMode?: () => void;
+  isRecordingSession?: boolean;
+  onToggleSessionRecording?: () => void;
+  onResolveChangeset?: (messageId: string, acceptedIds: string[]) => void;
+  onResolveMemoryConflict?: (messageId: string, conflictId: string, choice: 'existing' | 'incoming' | 'both') => void;
+  toolProgress?: { messageId: string; steps: ToolProgressStep[] } | null;
 }
 
 export const ChatInterface: React.FC<Props> = ({ 
@@ -72,17 +93,30 @@ export const ChatInterface: React.FC<Props> = ({
     isStreaming,
     onAcceptProposal, 
     onRejectProposal,
+    onAcceptWeekDays,
+    onRejectWeekDays,
     onAcceptContact,
     onAcceptAllContacts,
     onRejectContact,
     storageStats,
-    processingProposal = false
+    processingProposal = false,
+    actionJournal = [],
+    onUndoJournalEntries,
+    reviewMode = false,
+    onToggleReviewMode,
+    isRecordingSession = false,
+    onToggleSessionRecording,
+    onResolveChangeset,
+    onResolveMemoryConflict,
+    toolProgress = null
 }) => {
   const [input, setInput] = useState('');
   const [selectedMedia, setSelectedMedia] = useState<string | null>(null);
   const [thinkingText, setThinkingText] = useState("Processing...");
   const [showCalendar, setShowCalendar] = useState(false);
   const [tokenCount, setTokenCount] = useState(0);
+  const [showContextUsage, setShowContextUsage] = useState(false);
+  const [contextUsage, setContextUsage] = useState<ContextUsageReport | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -116,6 +150,14 @@ export const ChatInterface: React.FC<Props> = ({
     return () => clearTimeout(timer);
   }, [input]);
 
+  // Re-measure while the popover is open and the conversation moves on
+  useEffect(() => {
+    if (!showContextUsage || isLoading) return;
+    let cancelled = false;
+    geminiService.getContextUsage().then(report => { if (!cancelled) setContextUsage(report); });
+    return () => { cancelled = true; };
+  }, [showContextUsage, messages.length, isLoading]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (calendarRef.current && !calendarRef.current.contains(event.target as Node)) {
@@ -197,12 +239,34 @@ export const ChatInterface: React.FC<Props> = ({
                 </p>
             </div>
          </div>
+         <div className="flex items-center gap-2">
+         {onToggleReviewMode && (
+           <button
+             onClick={onToggleReviewMode}
+             title={reviewMode ? 'Review mode on: AI changes wait for your approval' : 'Review mode off: AI changes apply immediately'}
+             className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-colors ${reviewMode ? 'bg-amber-50 text-amber-700 border-amber-200' : 'text-slate-400 border-slate-200 hover:text-indigo-600'}`}
+           >
+             <span className={`w-1.5 h-1.5 rounded-full ${reviewMode ? 'bg-amber-500' : 'bg-slate-300'}`}></span>
+             Review changes
+           </button>
+         )}
+         {onToggleSessionRecording && (
+           <button
+             onClick={onToggleSessionRecording}
+             title={isRecordingSession ? 'Recording tool calls for regression replay. Click to stop and download.' : 'Record this session\'s tool calls for regression replay'}
+             className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-colors ${isRecordingSession ? 'bg-rose-50 text-rose-700 border-rose-200' : 'text-slate-400 border-slate-200 hover:text-indigo-600'}`}
+           >
+             <span className={`w-1.5 h-1.5 rounded-full ${isRecordingSession ? 'bg-rose-500 animate-pulse' : 'bg-slate-300'}`}></span>
+             {isRecordingSession ? 'Stop rec' : 'Rec'}
+           </button>
+         )}
          <div className="relative lg:hidden" ref={calendarRef}>
              <button onClick={() => setShowCalendar(!showCalendar)} className={`p-2 rounded-lg transition-all ${showCalendar ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-50 hover:text-indigo-600'}`}>
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
              </button>
              {showCalendar && <div className="absolute top-full right-0 mt-2 z-50"><CalendarPopover selectedDate={currentDate} tasks={allTasks} onSelectDate={(d) => { onSelectDate(d); setShowCalendar(false); }} /></div>}
          </div>
+         </div>
       </div>
 
       <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-8 bg-slate-50/50 min-h-0">
@@ -261,6 +325,40 @@ export const ChatInterface: React.FC<Props> = ({
                     <div className={`prose prose-sm max-w-none ${msg.role === 'user' && !msg.isAction ? 'prose-invert text-white' : 'text-slate-800'}`}>
                       <ReactMarkdown>{msg.text}</ReactMarkdown>
                     </div>
+
+                    {/* Staged write calls awaiting approval (review mode) */}
+                    {msg.changeset && onResolveChangeset && (
+                      <div className="mt-3 pt-3 border-t border-slate-200/60">
+                        <ChangesetCard
+                          changeset={msg.changeset}
+                          onResolve={(acceptedIds) => onResolveChangeset(msg.id, acceptedIds)}
+                          isProcessing={isStreaming}
+                        />
+                      </div>
+                    )}
+
+                    {/* save_memory calls that contradicted an existing memory */}
+                    {msg.memoryConflicts && onResolveMemoryConflict && (
+                      <div className="mt-3 pt-3 border-t border-slate-200/60 space-y-2">
+                        {msg.memoryConflicts.map(conflict => (
+                          <MemoryConflictCard
+                            key={conflict.id}
+                            conflict={conflict}
+                            onResolve={(choice) => onResolveMemoryConflict(msg.id, conflict.id, choice)}
+                          />
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Journaled AI changes with Undo - only on isAction messages that close an AI turn */}
+                    {msg.isAction && msg.journalTurnId && onUndoJournalEntries && (
+                      <div className="mt-2">
+                        <ActionJournalCard
+                          entries={actionJournal.filter(e => e.turnId === msg.journalTurnId)}
+                          onUndo={onUndoJournalEntries}
+                        />
+                      </div>
+                    )}
                     
                     {/* Orchestration Proposal - Nested inside message */}
                     {msg.proposal && (
@@ -271,6 +369,20 @@ export const ChatInterface: React.FC<Props> = ({
                         </div>
                       </div>
                     )}
+
+                    {msg.weekProposal && onAcceptWeekDays && onRejectWeekDays && (
+                      <div className="mt-3 pt-3 border-t border-slate-200/60 flex gap-2">
+                        <div className="w-1 bg-emerald-500 rounded-full flex-shrink-0"></div>
+                        <div className="flex-1">
+                          <WeekOrchestrationProposalView
+                            proposal={msg.weekProposal}
+                            onAcceptDays={dates => onAcceptWeekDays(msg.weekProposal!, dates)}
+                            onRejectDays={dates => onRejectWeekDays(msg.weekProposal!, dates)}
+                            isProcessing={processingProposal}
+                          />
+                        </div>
+                      </div>
+                    )}
                     
                     <div className={`text-[8px] mt-2 font-bold tracking-widest opacity-40 uppercase ${msg.role === 'user' ? 'text-right' : 'text-left'}`}>
                       {formatMessageTime(msg.timestamp)}
@@ -293,6 +405,7 @@ export const ChatInterface: React.FC<Props> = ({
                       ))}
                     </div>
                 )}
+                {toolProgress && toolProgress.messageId === msg.id && <ToolProgressList steps={toolProgress.steps} />}
               </div>
             ))}
           </div>
@@ -331,9 +444,20 @@ export const ChatInterface: React.FC<Props> = ({
                  <span className="text-[10px] font-bold uppercase tracking-wider text-indigo-500">AI Streaming...</span>
                </div>
              )}
-             <span className={`text-[10px] font-bold uppercase tracking-wider ${tokenCount > 1000 ? 'text-orange-500' : 'text-slate-300'} ${isStreaming ? 'ml-auto' : ''}`}>
-                {tokenCount > 0 ? `${tokenCount} Tokens` : ''}
-             </span>
+             <div className="relative flex items-center gap-2 ml-auto">
+               <span className={`text-[10px] font-bold uppercase tracking-wider ${tokenCount > 1000 ? 'text-orange-500' : 'text-slate-300'}`}>
+                  {tokenCount > 0 ? `${tokenCount} Tokens` : ''}
+               </span>
+               <button
+                 type="button"
+                 onClick={() => { setContextUsage(null); setShowContextUsage(v => !v); }}
+                 className={`text-[10px] font-bold uppercase tracking-wider transition-colors ${showContextUsage ? 'text-indigo-600' : 'text-slate-300 hover:text-slate-500'}`}
+                 title="What the AI receives on the next turn"
+               >
+                 Context
+               </button>
+               {showContextUsage && <ContextUsagePanel report={contextUsage} onClose={() => setShowContextUsage(false)} />}
+             </div>
         </div>
         <form onSubmit={handleSubmit} className="flex items-end gap-3">
           <button type="button" onClick={() => fileInputRef.current?.click()} className="p-2 text-slate-400 hover:text-indigo-600 transition-colors" title="Attach image — schedule screenshots, business cards, to-do lists, or contact photos">
@@ -0,0 +1,74 @@
+/**
+ * DESIGN DECISION: Context Usage Panel
+ *
+ * The input token counter only measures what the user is typing. This popover shows
+ * what the model actually receives on the next turn, section by section (see
+ * GeminiService.getContextUsage): instructions, the recalled session context,
+ * tool declarations, the rolling synopsis and the verbatim history. It also lists
+ * what was trimmed or summarized to stay within budget, so a "the AI forgot X"
+ * report can be checked against what it was given.
+ */
+
+import React from 'react';
+import { ContextUsageReport } from '../services/contextBudget';
+
+interface Props {
+  report: ContextUsageReport | null;
+  onClose: () => void;
+}
+
+const TRIM_LABELS: Record<string, string> = {
+  memories: 'memories',
+  'past-conversations': 'past messages',
+  roster: 'contacts',
+};
+
+export const ContextUsagePanel: React.FC<Props> = ({ report, onClose }) => {
+  const largest = report ? Math.max(1, ...report.sections.map(s => s.tokens)) : 1;
+
+  return (
+    <div className="absolute bottom-full right-0 mb-2 w-80 bg-white rounded-xl shadow-xl border border-slate-200 z-50 overflow-hidden animate-fade-in">
+      <div className="px-3 py-2 bg-slate-50 border-b border-slate-100 flex items-center justify-between">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Context window</span>
+        <button onClick={onClose} className="p-0.5 text-slate-400 hover:text-slate-600" aria-label="Close">
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+      {!report ? (
+        <p className="px-3 py-4 text-xs text-slate-400 text-center">Measuring…</p>
+      ) : (
+        <div className="p-3 space-y-2">
+          <ul className="space-y-1.5">
+            {report.sections.map(section => (
+              <li key={section.id}>
+                <div className="flex justify-between text-[11px] text-slate-600">
+                  <span className="truncate">{section.label}</span>
+                  <span className="font-mono text-slate-400 ml-2">~{section.tokens.toLocaleString()}</span>
+                </div>
+                <div className="h-1 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-400" style={{ width: `${(section.tokens / largest) * 100}%` }} />
+                </div>
+              </li>
+            ))}
+          </ul>
+          <div className="pt-2 border-t border-slate-100 flex justify-between text-[11px] font-semibold text-slate-700">
+            <span>Total</span>
+            <span className="font-mono">
+              {report.measuredTotal !== undefined ? report.measuredTotal.toLocaleString() : `~${report.total.toLocaleString()}`} tokens
+            </span>
+          </div>
+          {(report.trimmed.length > 0 || report.summarizedTurns > 0) && (
+            <div className="text-[10px] text-amber-700 bg-amber-50 rounded-md px-2 py-1.5 space-y-0.5">
+              {report.trimmed.map(t => (
+                <p key={t.sectionId}>Trimmed {t.dropped} {TRIM_LABELS[t.sectionId] ?? t.sectionId} to fit the {report.sessionBudget.toLocaleString()}-token session budget</p>
+              ))}
+              {report.summarizedTurns > 0 && (
+                <p>{report.summarizedTurns} earlier turn{report.summarizedTurns === 1 ? '' : 's'} summarized (history budget {report.historyBudget.toLocaleString()})</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
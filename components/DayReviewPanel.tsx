@@ -0,0 +1,140 @@
+/**
+ * DESIGN DECISION: End-of-Day Review Panel
+ *
+ * The manual counterpart of the save_day_review tool. The top half is the
+ * plan-vs-actual comparison, computed live so ticking off a forgotten task in the
+ * inventory and reopening the panel shows the corrected picture. The bottom half is
+ * the only part the user writes: mood, energy, a journal entry and a takeaway.
+ *
+ * Ratings are single-tap rows rather than sliders: a review should take seconds,
+ * and a 1-5 scale is all the briefings use.
+ */
+
+import React, { useState } from 'react';
+import { DayReview, DayReviewItem } from '../types';
+import { DayComparison, DayReviewInput, MOOD_LABELS, ENERGY_LABELS } from '../services/dayReview';
+
+interface Props {
+  date: Date;
+  comparison: DayComparison;
+  review?: DayReview;
+  onSave: (input: DayReviewInput) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<DayReviewItem['status'], { icon: string; className: string }> = {
+  done: { icon: '✓', className: 'text-emerald-600' },
+  partial: { icon: '◐', className: 'text-amber-500' },
+  missed: { icon: '✗', className: 'text-rose-500' },
+  unplanned: { icon: '+', className: 'text-indigo-500' },
+};
+
+const RatingRow: React.FC<{ label: string; labels: string[]; value?: number; onChange: (value: number) => void }> = ({ label, labels, value, onChange }) => (
+  <div>
+    <span className="text-xs font-semibold text-slate-600">{label}</span>
+    <div className="flex gap-1 mt-1">
+      {labels.map((text, i) => (
+        <button
+          key={text}
+          onClick={() => onChange(i + 1)}
+          className={`flex-1 rounded-md py-1.5 text-[10px] font-bold transition-colors ${value === i + 1 ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+        >
+          {i + 1} · {text}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const DayReviewPanel: React.FC<Props> = ({ date, comparison, review, onSave, onClose }) => {
+  const [mood, setMood] = useState<number | undefined>(review?.mood);
+  const [energy, setEnergy] = useState<number | undefined>(review?.energy);
+  const [journal, setJournal] = useState(review?.journal ?? '');
+  const [takeaway, setTakeaway] = useState(review?.takeaway ?? '');
+
+  // Partly done checklists count by their share of steps
+  const rate = comparison.plannedCount > 0 ? Math.round((comparison.progressScore / comparison.plannedCount) * 100) : null;
+  const partialCount = comparison.items.filter(i => i.status === 'partial').length;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full flex flex-col max-h-[90vh] border border-slate-100 overflow-hidden">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">Day Review</h2>
+            <p className="text-xs text-slate-500">
+              {date.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}
+              {review && ` · last saved ${new Date(review.updatedAt).toLocaleString()}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-full text-slate-400 transition-colors" aria-label="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-5">
+          <section>
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-2">
+              Plan vs actual · {comparison.planSource === 'approved' ? 'approved orchestration' : 'all tasks of the day'}
+            </h3>
+            {comparison.items.length === 0 ? (
+              <p className="text-xs text-slate-400">No tasks were planned for this day.</p>
+            ) : (
+              <>
+                <p className="text-sm font-bold text-slate-700 mb-2">
+                  {comparison.completedCount} of {comparison.plannedCount} planned done{partialCount > 0 && `, ${partialCount} partly`}{rate !== null && <span className="text-slate-400 font-semibold"> ({rate}%)</span>}
+                </p>
+                <ul className="space-y-1">
+                  {comparison.items.map((item, i) => (
+                    <li key={`${item.title}-${i}`} className="flex items-center gap-2 text-xs">
+                      <span className={`w-4 text-center font-bold ${STATUS_STYLES[item.status].className}`}>{STATUS_STYLES[item.status].icon}</span>
+                      <span className={item.status === 'missed' ? 'text-slate-400' : 'text-slate-700'}>{item.title}</span>
+                      {item.time && <span className="text-[10px] text-slate-400">{item.time}</span>}
+                      {item.steps && item.status !== 'unplanned' && <span className="text-[10px] text-slate-400">{item.steps.done}/{item.steps.total} steps</span>}
+                      {item.status === 'unplanned' && <span className="text-[10px] text-indigo-400">not in plan</span>}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <RatingRow label="Mood" labels={MOOD_LABELS} value={mood} onChange={setMood} />
+            <RatingRow label="Energy" labels={ENERGY_LABELS} value={energy} onChange={setEnergy} />
+            <label className="block">
+              <span className="text-xs font-semibold text-slate-600">Journal</span>
+              <textarea
+                value={journal}
+                onChange={e => setJournal(e.target.value)}
+                rows={3}
+                placeholder="How did the day go?"
+                className="mt-1 w-full text-xs border border-slate-200 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs font-semibold text-slate-600">Takeaway for the next days</span>
+              <input
+                value={takeaway}
+                onChange={e => setTakeaway(e.target.value)}
+                placeholder="e.g. Keep mornings free of meetings"
+                className="mt-1 w-full text-xs border border-slate-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+            </label>
+          </section>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex items-center justify-end gap-2">
+          <button onClick={onClose} className="text-xs font-semibold text-slate-500 hover:text-slate-700 px-3 py-1.5">Cancel</button>
+          <button
+            onClick={() => onSave({ mood, energy, journal, takeaway })}
+            disabled={!mood && !energy && !journal.trim() && !takeaway.trim()}
+            className="text-xs font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-md px-4 py-1.5"
+          >
+            {review ? 'Update review' : 'Save review'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -19,6 +19,8 @@
 import React, { useState } from 'react';
 import { createPortal } from 'react-dom';
 import { GoogleCalendarEvent, RelationshipLedger, Person } from '../types';
+import { describeRecurrence } from '../services/recurrence';
+import { formatDurationBetween } from '../services/timeParsing';
 
 interface EventDetailModalProps {
   event: GoogleCalendarEvent | null;
@@ -38,12 +40,12 @@ export const EventDetailModal: React.FC<EventDetailModalProps> = ({ event, onClo
   const endDate = new Date(end!);
   
   const isAllDay = !event.start.dateTime;
-  const duration = !isAllDay ? calculateDuration(startDate, endDate) : 'All day';
+  const duration = !isAllDay ? formatDurationBetween(startDate, endDate) ?? '0m' : 'All day';
   const timeRange = !isAllDay 
     ? `${startDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - ${endDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
     : 'All day event';
 
-  const recurrencePattern = getRecurrencePattern(event.recurrence);
+  const recurrencePattern = describeRecurrence(event.recurrence);
   const videoLink = event.conferenceData?.entryPoints?.find(ep => ep.entryPointType === 'video');
 
   // Helper: Check if email is a resource/room calendar
@@ -313,28 +315,6 @@ export const EventDetailModal: React.FC<EventDetailModalProps> = ({ event, onClo
 };
 
 // Helper functions
-function calculateDuration(start: Date, end: Date): string {
-  const diffMs = end.getTime() - start.getTime();
-  const hrs = Math.floor(diffMs / 3600000);
-  const mins = Math.round((diffMs % 3600000) / 60000);
-  
-  if (hrs > 0 && mins > 0) return `${hrs}h ${mins}m`;
-  if (hrs > 0) return `${hrs}h`;
-  return `${mins}m`;
-}
-
-function getRecurrencePattern(recurrence?: string[]): string | null {
-  if (!recurrence || recurrence.length === 0) return null;
-  
-  const rrule = recurrence[0];
-  if (rrule.includes('FREQ=DAILY')) return 'Repeats daily';
-  if (rrule.includes('FREQ=WEEKLY')) return 'Repeats weekly';
-  if (rrule.includes('FREQ=MONTHLY')) return 'Repeats monthly';
-  if (rrule.includes('FREQ=YEARLY')) return 'Repeats yearly';
-  
-  return 'Recurring event';
-}
-
 function getResponseStatusBadge(status?: string) {
   switch (status) {
     case 'accepted':
@@ -119,7 +119,7 @@ export const LegalView: React.FC<Props> = ({ type }) => {
                 <ul className="list-disc pl-6 space-y-2">
                   <li><strong>Local Data:</strong> Use the Storage Manager (accessible from chat interface) to surgically delete individual conversation dates or clear all data. You can also wipe everything by clearing your browser's site data for this domain.</li>
                   <li><strong>Google Calendar Access:</strong> Revoke calendar permissions at any time through your Google Account settings. This will prevent future calendar reads/writes but does not affect data already stored in your browser.</li>
-                  <li><strong>Memory Bank:</strong> Individual memories can be deleted through the chat interface. The system maintains a 100-memory FIFO limit automatically.</li>
+                  <li><strong>Memory Bank:</strong> Individual memories can be edited or deleted in the Memory Bank panel or by asking in chat. The system maintains a 100-memory FIFO limit automatically (pinned memories are exempt).</li>
                 </ul>
                 <p className="mt-4">
                   Once localStorage is cleared, that data is permanently deleted from your device. We cannot recover it because we never stored it on any server.
@@ -0,0 +1,136 @@
+/**
+ * DESIGN DECISION: Memory Bank Panel
+ *
+ * Memories steer every session, so the user needs to see and correct them — not
+ * just the model. This modal lists all memories grouped by type, with:
+ * - Inline edit (content + type), for preferences that changed
+ * - Delete, for things that were wrong or are no longer true
+ * - Pin, to exempt a memory from the FIFO limit and keep it in every session
+ *   context regardless of semantic recall
+ *
+ * Pinned memories sort first within their group; the rest are newest first.
+ */
+
+import React, { useState } from 'react';
+import { Memory } from '../types';
+import { MAX_MEMORIES } from '../services/memoryLifecycle';
+
+interface Props {
+  memories: Memory[];
+  onUpdate: (memory: Memory) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const TYPE_SECTIONS: Array<{ type: Memory['type']; label: string; color: string }> = [
+  { type: 'preference', label: 'Preferences', color: 'bg-indigo-100 text-indigo-700' },
+  { type: 'decision', label: 'Decisions', color: 'bg-emerald-100 text-emerald-700' },
+  { type: 'fact', label: 'Facts', color: 'bg-amber-100 text-amber-700' },
+];
+
+export const MemoryBank: React.FC<Props> = ({ memories, onUpdate, onDelete, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ content: string; type: Memory['type'] }>({ content: '', type: 'preference' });
+
+  const startEdit = (memory: Memory) => {
+    setEditingId(memory.id);
+    setDraft({ content: memory.content, type: memory.type });
+  };
+
+  const saveEdit = (memory: Memory) => {
+    if (!draft.content.trim()) return;
+    onUpdate({ ...memory, content: draft.content.trim(), type: draft.type, updatedAt: new Date().toISOString() });
+    setEditingId(null);
+  };
+
+  const pinnedCount = memories.filter(m => m.pinned).length;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full flex flex-col max-h-[90vh] border border-slate-100 overflow-hidden">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">Memory Bank</h2>
+            <p className="text-xs text-slate-500">{memories.length} of {MAX_MEMORIES} memories · {pinnedCount} pinned</p>
+          </div>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-full text-slate-400 transition-colors" aria-label="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-5">
+          {memories.length === 0 && (
+            <p className="text-sm text-slate-400 text-center py-8">Nothing remembered yet. The AI saves preferences, decisions and facts as you chat.</p>
+          )}
+          {TYPE_SECTIONS.map(section => {
+            const items = memories
+              .filter(m => m.type === section.type)
+              .map((m, index) => ({ m, index }))
+              .sort((a, b) => Number(!!b.m.pinned) - Number(!!a.m.pinned) || b.index - a.index)
+              .map(x => x.m);
+            if (items.length === 0) return null;
+            return (
+              <section key={section.type}>
+                <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-2">{section.label} · {items.length}</h3>
+                <ul className="space-y-2">
+                  {items.map(memory => (
+                    <li key={memory.id} className={`rounded-lg border px-3 py-2 ${memory.pinned ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-200 bg-white'}`}>
+                      {editingId === memory.id ? (
+                        <div className="space-y-2">
+                          <textarea
+                            value={draft.content}
+                            onChange={e => setDraft(d => ({ ...d, content: e.target.value }))}
+                            rows={3}
+                            className="w-full text-xs border border-slate-200 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                          />
+                          <div className="flex items-center gap-2">
+                            <select
+                              value={draft.type}
+                              onChange={e => setDraft(d => ({ ...d, type: e.target.value as Memory['type'] }))}
+                              className="text-xs border border-slate-200 rounded-md px-2 py-1"
+                            >
+                              {TYPE_SECTIONS.map(t => <option key={t.type} value={t.type}>{t.label.slice(0, -1)}</option>)}
+                            </select>
+                            <div className="flex-1" />
+                            <button onClick={() => setEditingId(null)} className="text-xs font-semibold text-slate-500 hover:text-slate-700 px-2 py-1">Cancel</button>
+                            <button onClick={() => saveEdit(memory)} className="text-xs font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-md px-3 py-1">Save</button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex items-start gap-2">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-xs text-slate-700 leading-relaxed">{memory.content}</p>
+                            <p className="text-[10px] text-slate-400 mt-1">
+                              <span className={`font-bold uppercase px-1 py-0.5 rounded mr-1.5 ${section.color}`}>{section.type}</span>
+                              {memory.date ? new Date(memory.date).toLocaleDateString() : ''}
+                              {memory.updatedAt && ` · edited ${new Date(memory.updatedAt).toLocaleDateString()}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-0.5 flex-shrink-0">
+                            <button
+                              onClick={() => onUpdate({ ...memory, pinned: !memory.pinned })}
+                              className={`p-1 rounded transition-colors ${memory.pinned ? 'text-indigo-600 hover:bg-indigo-100' : 'text-slate-300 hover:text-slate-500 hover:bg-slate-100'}`}
+                              title={memory.pinned ? 'Unpin' : 'Pin (never expires, always in context)'}
+                            >
+                              <svg className="w-3.5 h-3.5" fill={memory.pinned ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" /></svg>
+                            </button>
+                            <button onClick={() => startEdit(memory)} className="p-1 rounded text-slate-300 hover:text-indigo-600 hover:bg-slate-100 transition-colors" title="Edit">
+                              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.5H9V13z" /></svg>
+                            </button>
+                            <button onClick={() => onDelete(memory.id)} className="p-1 rounded text-slate-300 hover:text-rose-600 hover:bg-rose-50 transition-colors" title="Delete">
+                              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+/**
+ * DESIGN DECISION: Memory Conflict Card
+ *
+ * Shown on the model message whose save_memory call collided with an existing
+ * memory (see services/memoryLifecycle.ts). The user picks which statement is true
+ * now; the card then stays in the history as a record of the decision.
+ */
+
+import React from 'react';
+import { MemoryConflict } from '../types';
+
+interface Props {
+  conflict: MemoryConflict;
+  onResolve: (choice: 'existing' | 'incoming' | 'both') => void;
+}
+
+const RESOLVED_LABELS: Record<Exclude<MemoryConflict['status'], 'pending'>, string> = {
+  kept_existing: 'Kept the earlier memory',
+  kept_incoming: 'Replaced with the new memory',
+  kept_both: 'Kept both',
+};
+
+export const MemoryConflictCard: React.FC<Props> = ({ conflict, onResolve }) => {
+  const isPending = conflict.status === 'pending';
+
+  return (
+    <div className="not-italic bg-white border border-amber-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="px-3 py-2 bg-amber-50 border-b border-amber-100 text-[10px] font-bold uppercase tracking-widest text-amber-700">
+        {isPending ? 'Conflicting memories' : RESOLVED_LABELS[conflict.status as Exclude<MemoryConflict['status'], 'pending'>]}
+      </div>
+      <div className="grid grid-cols-2 divide-x divide-slate-100">
+        <div className={`p-3 ${conflict.status === 'kept_incoming' ? 'opacity-40 line-through' : ''}`}>
+          <p className="text-[9px] font-bold uppercase text-slate-400 mb-1">Remembered earlier · {conflict.existing.type}</p>
+          <p className="text-xs text-slate-700">{conflict.existing.content}</p>
+        </div>
+        <div className={`p-3 ${conflict.status === 'kept_existing' ? 'opacity-40 line-through' : ''}`}>
+          <p className="text-[9px] font-bold uppercase text-slate-400 mb-1">New · {conflict.incoming.type}</p>
+          <p className="text-xs text-slate-700">{conflict.incoming.content}</p>
+        </div>
+      </div>
+      {isPending && (
+        <div className="px-3 py-2 bg-slate-50 border-t border-slate-100 flex flex-wrap gap-2">
+          <button
+            onClick={() => onResolve('incoming')}
+            className="flex-1 px-3 py-1.5 text-xs font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors"
+          >
+            Keep new
+          </button>
+          <button
+            onClick={() => onResolve('existing')}
+            className="flex-1 px-3 py-1.5 text-xs font-semibold text-slate-600 bg-white hover:bg-slate-100 border border-slate-200 rounded-lg transition-colors"
+          >
+            Keep earlier
+          </button>
+          <button
+            onClick={() => onResolve('both')}
+            className="flex-1 px-3 py-1.5 text-xs font-semibold text-slate-600 bg-white hover:bg-slate-100 border border-slate-200 rounded-lg transition-colors"
+          >
+            Keep both
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
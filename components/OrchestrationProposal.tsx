@@ -30,7 +30,12 @@
  *    ```
  *    Alignment helps users scan quickly.
  * 
- * 5. **Accessibility**:
+ * 5. **Validation Findings**:
+ *    Every proposal is checked against the day's real tasks before it reaches
+ *    this card (services/orchestrationValidator.ts). Auto-repairs are listed so
+ *    the user knows the plan differs slightly from what the AI wrote.
+ * 
+ * 6. **Accessibility**:
  *    Keyboard navigation (Tab to buttons, Enter to activate)
  *    ARIA labels for screen readers
  *    High contrast colors for readability
@@ -54,7 +59,7 @@ export const OrchestrationProposalView: React.FC<Props> = ({ proposal, onAccept,
           <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>
           Proposed Orchestration
         </h3>
-        <span className="text-[10px] bg-slate-200 text-slate-600 px-1.5 py-0.5 rounded font-mono border border-slate-300">GEMINI 3</span>
+        <span className="text-[10px] bg-slate-200 text-slate-600 px-1.5 py-0.5 rounded font-mono border border-slate-300">{proposal.source === 'local' ? 'LOCAL ENGINE' : 'GEMINI 3'}</span>
       </div>
 
       <div className="space-y-2">
@@ -85,6 +90,22 @@ export const OrchestrationProposalView: React.FC<Props> = ({ proposal, onAccept,
             </div>
         </div>
 
+        {proposal.validation && proposal.validation.length > 0 && (
+            <div className="bg-amber-50 p-3 rounded-lg border border-amber-200">
+                <h4 className="text-[10px] font-semibold text-amber-700 uppercase mb-1.5">Validation · {proposal.validation.length} finding{proposal.validation.length === 1 ? '' : 's'}</h4>
+                <ul className="space-y-1">
+                    {proposal.validation.map((finding, i) => (
+                        <li key={i} className="flex items-start gap-1.5 text-xs">
+                            <span className={`flex-shrink-0 text-[9px] font-bold uppercase px-1 py-0.5 rounded ${finding.severity === 'error' ? 'bg-rose-100 text-rose-700' : finding.repaired ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+                                {finding.severity === 'error' ? 'Blocked' : finding.repaired ? 'Fixed' : 'Note'}
+                            </span>
+                            <span className="text-slate-700">{finding.message}</span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+
         <div className="flex space-x-2 mt-3 pt-2 border-t border-slate-200">
             <button 
                 onClick={onAccept}
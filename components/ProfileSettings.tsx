@@ -0,0 +1,190 @@
+/**
+ * DESIGN DECISION: Prompt Profile Settings
+ *
+ * One modal for everything that shapes the assistant per user: working hours and
+ * days, the overload threshold, tone, languages and standing instructions. The
+ * user edits a draft and saves it as the profile's next revision; the active
+ * profile is picked separately, so a teammate's imported profile can be tried
+ * without touching one's own.
+ *
+ * The preview shows the exact USER PROFILE block the model receives, which is
+ * also the quickest way to see that the default profile adds nothing.
+ */
+
+import React, { useRef, useState } from 'react';
+import { AssistantTone, PromptProfile, PromptProfileSettings } from '../types';
+import { DEFAULT_PROFILE, DEFAULT_PROFILE_ID, MAX_STANDING_INSTRUCTIONS, TONE_LABELS, compileProfileInstructions, exportProfile } from '../services/promptProfile';
+
+interface Props {
+  settings: PromptProfileSettings;
+  onSelect: (id: string) => void;
+  onSave: (profile: PromptProfile) => void;
+  onDelete: (id: string) => void;
+  /** Returns the imported profile, or null when the file was rejected */
+  onImport: (json: string) => PromptProfile | null;
+  onClose: () => void;
+}
+
+const DAY_LABELS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+export const ProfileSettings: React.FC<Props> = ({ settings, onSelect, onSave, onDelete, onImport, onClose }) => {
+  const [draft, setDraft] = useState<PromptProfile>(() => settings.profiles.find(p => p.id === settings.activeId) ?? DEFAULT_PROFILE);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isNew = !settings.profiles.some(p => p.id === draft.id);
+  const update = (patch: Partial<PromptProfile>) => setDraft(d => ({ ...d, ...patch }));
+
+  const startNew = () => setDraft({ ...draft, id: `profile-${Date.now().toString(36)}`, name: `${draft.name} (copy)`, revision: 0 });
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportProfile(draft)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${draft.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'profile'}.profile.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const imported = onImport(await file.text());
+    if (imported) setDraft(imported);
+  };
+
+  const preview = compileProfileInstructions(draft).trim();
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full flex flex-col max-h-[90vh] border border-slate-100 overflow-hidden">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">Assistant Profile</h2>
+            <p className="text-xs text-slate-500">Working hours, tone and standing instructions the assistant follows in every session</p>
+          </div>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-full text-slate-400 transition-colors" aria-label="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-5">
+          <section>
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-2">Profiles · {settings.profiles.length}</h3>
+            <ul className="space-y-1.5">
+              {settings.profiles.map(profile => (
+                <li key={profile.id} className={`flex items-center gap-2 rounded-lg border px-3 py-2 ${profile.id === draft.id ? 'border-violet-200 bg-violet-50/40' : 'border-slate-200 bg-white'}`}>
+                  <input type="radio" name="active-profile" checked={settings.activeId === profile.id} onChange={() => onSelect(profile.id)} title="Use this profile" />
+                  <button onClick={() => setDraft(profile)} className="flex-1 min-w-0 text-left">
+                    <span className="text-xs font-semibold text-slate-700">{profile.name}</span>
+                    <span className="text-[10px] text-slate-400 ml-2">r{profile.revision}{settings.activeId === profile.id ? ' · active' : ''}</span>
+                  </button>
+                  {profile.id !== DEFAULT_PROFILE_ID && (
+                    <button onClick={() => { onDelete(profile.id); if (draft.id === profile.id) setDraft(DEFAULT_PROFILE); }} className="p-1 rounded text-slate-300 hover:text-rose-600 hover:bg-rose-50 transition-colors" title="Delete">
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <div className="flex items-center gap-2 mt-2">
+              <button onClick={startNew} className="text-xs font-semibold text-violet-600 hover:text-violet-800 px-2 py-1">+ New from this</button>
+              <button onClick={() => fileInputRef.current?.click()} className="text-xs font-semibold text-slate-500 hover:text-slate-700 px-2 py-1">Import…</button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{isNew ? 'New profile' : `Editing "${draft.name}"`}</h3>
+            <label className="block">
+              <span className="text-xs font-semibold text-slate-600">Name</span>
+              <input value={draft.name} onChange={e => update({ name: e.target.value })} className="mt-1 w-full text-xs border border-slate-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-violet-200" />
+            </label>
+
+            <div className="grid grid-cols-3 gap-3">
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-600">Work starts</span>
+                <input type="time" value={draft.workingHours.start} onChange={e => update({ workingHours: { ...draft.workingHours, start: e.target.value } })} className="mt-1 w-full text-xs border border-slate-200 rounded-md px-2 py-1.5" />
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-600">Work ends</span>
+                <input type="time" value={draft.workingHours.end} onChange={e => update({ workingHours: { ...draft.workingHours, end: e.target.value } })} className="mt-1 w-full text-xs border border-slate-200 rounded-md px-2 py-1.5" />
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-600">Overload above (h/day)</span>
+                <input type="number" min={1} max={18} step={0.5} value={draft.overloadHours} onChange={e => update({ overloadHours: Number(e.target.value) })} className="mt-1 w-full text-xs border border-slate-200 rounded-md px-2 py-1.5" />
+              </label>
+            </div>
+
+            <div>
+              <span className="text-xs font-semibold text-slate-600">Work days</span>
+              <div className="flex gap-1 mt-1">
+                {DAY_LABELS.map((label, day) => {
+                  const on = draft.workDays.includes(day);
+                  return (
+                    <button
+                      key={day}
+                      onClick={() => update({ workDays: on ? draft.workDays.filter(d => d !== day) : [...draft.workDays, day].sort((a, b) => a - b) })}
+                      className={`w-8 h-7 rounded-md text-[10px] font-bold transition-colors ${on ? 'bg-violet-600 text-white' : 'bg-slate-100 text-slate-400 hover:bg-slate-200'}`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-600">Tone</span>
+                <select value={draft.tone} onChange={e => update({ tone: e.target.value as AssistantTone })} className="mt-1 w-full text-xs border border-slate-200 rounded-md px-2 py-1.5">
+                  {(Object.keys(TONE_LABELS) as AssistantTone[]).map(tone => <option key={tone} value={tone}>{TONE_LABELS[tone]}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-600">Languages (reply language first)</span>
+                <input
+                  value={draft.languages.join(', ')}
+                  onChange={e => update({ languages: e.target.value.split(',').map(l => l.trim()).filter(Boolean) })}
+                  placeholder="English, German"
+                  className="mt-1 w-full text-xs border border-slate-200 rounded-md px-2 py-1.5"
+                />
+              </label>
+            </div>
+
+            <label className="block">
+              <span className="text-xs font-semibold text-slate-600">Standing instructions (one per line, up to {MAX_STANDING_INSTRUCTIONS})</span>
+              <textarea
+                value={draft.standingInstructions.join('\n')}
+                onChange={e => update({ standingInstructions: e.target.value.split('\n') })}
+                rows={4}
+                placeholder={'No meetings before 10 on Mondays\nAlways leave Friday afternoons open'}
+                className="mt-1 w-full text-xs border border-slate-200 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-violet-200"
+              />
+            </label>
+
+            <div>
+              <span className="text-xs font-semibold text-slate-600">What the assistant receives</span>
+              <pre className="mt-1 text-[10px] leading-relaxed text-slate-600 bg-slate-50 border border-slate-200 rounded-md p-2 whitespace-pre-wrap">
+                {preview || 'Nothing — this profile matches the defaults.'}
+              </pre>
+            </div>
+          </section>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex items-center gap-2">
+          <button onClick={handleExport} className="text-xs font-semibold text-slate-500 hover:text-slate-700 px-2 py-1">Export</button>
+          <div className="flex-1" />
+          <button onClick={onClose} className="text-xs font-semibold text-slate-500 hover:text-slate-700 px-3 py-1.5">Close</button>
+          <button
+            onClick={() => onSave({ ...draft, standingInstructions: draft.standingInstructions.map(s => s.trim()).filter(Boolean) })}
+            disabled={!draft.name.trim() || draft.workingHours.end <= draft.workingHours.start}
+            className="text-xs font-semibold text-white bg-violet-600 hover:bg-violet-700 disabled:opacity-50 rounded-md px-4 py-1.5"
+          >
+            {isNew ? 'Create profile' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+/**
+ * DESIGN DECISION: Retrospective Report Panel
+ *
+ * Generating a report costs one model call, so it happens when the user asks for
+ * it (per period), not when the panel opens. The preview shows the same Markdown
+ * that is downloaded or copied; what the user sees is exactly what they share.
+ * HTML is offered as a download only, for people who want a page to print or mail.
+ */
+
+import React, { useState } from 'react';
+import { RetrospectivePeriod, RetrospectiveReport, periodTitle, renderRetrospectiveHtml, renderRetrospectiveMarkdown } from '../services/retrospective';
+
+interface Props {
+  onGenerate: (period: RetrospectivePeriod) => Promise<RetrospectiveReport>;
+  onCopied: () => void;
+  onClose: () => void;
+}
+
+const download = (content: string, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const RetrospectivePanel: React.FC<Props> = ({ onGenerate, onCopied, onClose }) => {
+  const [period, setPeriod] = useState<RetrospectivePeriod>('week');
+  const [report, setReport] = useState<RetrospectiveReport | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const generate = async (next: RetrospectivePeriod) => {
+    setPeriod(next);
+    setIsGenerating(true);
+    try {
+      setReport(await onGenerate(next));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const markdown = report ? renderRetrospectiveMarkdown(report) : '';
+  const filename = report ? `retrospective-${report.stats.period}-${report.stats.startDate}` : '';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full flex flex-col max-h-[90vh] border border-slate-100 overflow-hidden">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">Retrospective</h2>
+            <p className="text-xs text-slate-500">{report ? periodTitle(report.stats) : 'Completion, hours, orchestrations and relationships across a week or month'}</p>
+          </div>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-full text-slate-400 transition-colors" aria-label="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="px-5 pt-4 flex items-center gap-2">
+          {(['week', 'month'] as RetrospectivePeriod[]).map(p => (
+            <button
+              key={p}
+              onClick={() => generate(p)}
+              disabled={isGenerating}
+              className={`text-xs font-bold rounded-md px-3 py-1.5 transition-colors disabled:opacity-50 ${report && period === p ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+            >
+              {p === 'week' ? 'This week' : 'This month'}
+            </button>
+          ))}
+          {isGenerating && <span className="text-xs text-slate-400 animate-pulse">Writing the summary…</span>}
+          {report?.narrativeSource === 'local' && !isGenerating && <span className="text-[10px] text-amber-600">Summary generated locally (model unavailable)</span>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5">
+          {report ? (
+            <pre className="text-xs leading-relaxed text-slate-700 whitespace-pre-wrap font-mono bg-slate-50 border border-slate-200 rounded-lg p-4">{markdown}</pre>
+          ) : (
+            <p className="text-sm text-slate-400 text-center py-12">Pick a period to generate its report. It covers the week or month of the date you are viewing, up to today.</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex items-center justify-end gap-2">
+          <button
+            onClick={() => navigator.clipboard.writeText(markdown).then(onCopied)}
+            disabled={!report}
+            className="text-xs font-semibold text-slate-500 hover:text-slate-700 disabled:opacity-40 px-3 py-1.5"
+          >
+            Copy Markdown
+          </button>
+          <button
+            onClick={() => report && download(markdown, 'text/markdown', `${filename}.md`)}
+            disabled={!report}
+            className="text-xs font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 rounded-md px-3 py-1.5"
+          >
+            Download .md
+          </button>
+          <button
+            onClick={() => report && download(renderRetrospectiveHtml(report), 'text/html', `${filename}.html`)}
+            disabled={!report}
+            className="text-xs font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 rounded-md px-3 py-1.5"
+          >
+            Download .html
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -17,7 +17,7 @@
  *    This preserves important conversations while freeing space.
  * 
  * 3. **Data Breakdown**:
- *    Per-category breakdown (Messages, Ledger, Inventory, Memories) helps users
+ *    Per-category breakdown (Messages, Ledger, Inventory, Memories, Token Usage Log) helps users
  *    understand what's consuming space. Usually messages with images are the culprit.
  * 
  * 4. **Per-Date Message Sizes**:
@@ -29,7 +29,11 @@
  *    - Warning icons for high usage
  *    - Smooth animations for deletions
  * 
- * 6. **Nuclear Option**:
+ * 6. **Token Usage**:
+ *    The UsagePanel shows what the model calls cost per day and week and holds the
+ *    daily budget setting; its log is one more (small) localStorage entry.
+ * 
+ * 7. **Nuclear Option**:
  *    "Clear All Data" is intentionally destructive and requires confirmation.
  *    Used as last resort for quota issues or app reset.
  * 
@@ -40,17 +44,21 @@
  */
 
 import React from 'react';
-import { StorageStats } from '../types';
+import { StorageStats, TokenUsageLog, UsageTotals } from '../types';
 import { storageService } from '../services/storageService';
+import { UsagePanel } from './UsagePanel';
 
 interface Props {
   stats: StorageStats;
   onClose: () => void;
   onClearDate: (date: string) => void;
   onClearAllHistory: () => void;
+  usage: TokenUsageLog;
+  sessionUsage: UsageTotals;
+  onSetDailyBudget: (budget: number | null) => void;
 }
 
-export const StorageManager: React.FC<Props> = ({ stats, onClose, onClearDate, onClearAllHistory }) => {
+export const StorageManager: React.FC<Props> = ({ stats, onClose, onClearDate, onClearAllHistory, usage, sessionUsage, onSetDailyBudget }) => {
   const isHigh = stats.percentage > 80;
   const isCritical = stats.percentage > 90;
 
@@ -98,7 +106,8 @@ export const StorageManager: React.FC<Props> = ({ stats, onClose, onClearDate, o
                { label: 'Chat History', bytes: stats.breakdown.messages, color: 'bg-indigo-400' },
                { label: 'Kinship Ledger', bytes: stats.breakdown.ledger, color: 'bg-emerald-400' },
                { label: 'Long-term Memory', bytes: stats.breakdown.memories, color: 'bg-amber-400' },
-               { label: 'Life Inventory', bytes: stats.breakdown.inventory, color: 'bg-slate-400' }
+               { label: 'Life Inventory', bytes: stats.breakdown.inventory, color: 'bg-slate-400' },
+               { label: 'Token Usage Log', bytes: stats.breakdown.usage, color: 'bg-rose-400' }
              ].map(item => (
                <div key={item.label} className="flex items-center justify-between group">
                   <div className="flex items-center gap-2">
@@ -110,6 +119,8 @@ export const StorageManager: React.FC<Props> = ({ stats, onClose, onClearDate, o
              ))}
           </section>
 
+          <UsagePanel usage={usage} sessionUsage={sessionUsage} onSetDailyBudget={onSetDailyBudget} />
+
           {/* Detailed History Cleanup */}
           <section className="space-y-4">
             <div className="flex items-center justify-between">
@@ -0,0 +1,50 @@
+/**
+ * DESIGN DECISION: Live Tool Progress
+ *
+ * Rendered under the model message while its turn is running, one line per tool
+ * call in the order the model made them. A spinner marks the call in flight; the
+ * rest show how they ended (done, skipped as a duplicate, blocked, failed...).
+ * The list is transient: once the turn finishes, the Action Journal card is the
+ * durable record of what changed.
+ */
+
+import React from 'react';
+import { ToolProgressStep } from '../services/toolProgress';
+
+interface Props {
+  steps: ToolProgressStep[];
+}
+
+const STATUS_STYLES: Record<Exclude<ToolProgressStep['status'], 'running'>, { icon: string; className: string; note?: string }> = {
+  executed: { icon: '✓', className: 'text-emerald-600' },
+  duplicate: { icon: '↺', className: 'text-slate-400', note: 'already done' },
+  blocked: { icon: '⊘', className: 'text-amber-600', note: 'not allowed here' },
+  budget_exhausted: { icon: '⏹', className: 'text-amber-600', note: 'step budget reached' },
+  invalid_args: { icon: '!', className: 'text-amber-600', note: 'invalid arguments' },
+  error: { icon: '✕', className: 'text-rose-600', note: 'failed' },
+};
+
+export const ToolProgressList: React.FC<Props> = ({ steps }) => {
+  if (steps.length === 0) return null;
+
+  return (
+    <ul className="mt-2 max-w-[85%] space-y-1 animate-fade-in">
+      {steps.map(step => {
+        const style = step.status === 'running' ? null : STATUS_STYLES[step.status];
+        return (
+          <li key={step.callId} className="flex items-center gap-2 text-[11px] text-slate-500">
+            {style ? (
+              <span className={`w-3 text-center font-bold ${style.className}`}>{style.icon}</span>
+            ) : (
+              <span className="w-3 h-3 rounded-full border-2 border-indigo-200 border-t-indigo-600 animate-spin" />
+            )}
+            <span className={step.status === 'running' ? 'text-slate-700 font-medium' : ''}>
+              {step.label}{step.status === 'running' ? '…' : ''}
+            </span>
+            {style?.note && <span className="text-[10px] text-slate-400">({style.note})</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
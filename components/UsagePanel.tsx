@@ -0,0 +1,119 @@
+/**
+ * DESIGN DECISION: Token Usage Panel
+ *
+ * Shown inside Storage Management, next to the other "what is this app spending"
+ * numbers. Today is broken down by what triggered the calls (chat, briefings,
+ * orchestration...), the last 7 days are a small bar chart, and costs are list-price
+ * estimates (see usageTracker.ts). The daily budget only gates background
+ * orchestration; anything the user asks for explicitly still runs.
+ */
+
+import React, { useState } from 'react';
+import { TokenUsageLog, UsageTotals } from '../types';
+import { USAGE_KIND_LABELS, estimateCostUsd, formatTokenCount, isOverDailyBudget, summarizeUsage } from '../services/usageTracker';
+
+interface Props {
+  usage: TokenUsageLog;
+  sessionUsage: UsageTotals;
+  onSetDailyBudget: (budget: number | null) => void;
+}
+
+const formatCost = (totals: UsageTotals) => {
+  const cost = estimateCostUsd(totals);
+  return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+};
+
+export const UsagePanel: React.FC<Props> = ({ usage, sessionUsage, onSetDailyBudget }) => {
+  const todayKey = new Date().toLocaleDateString('en-CA');
+  const summary = summarizeUsage(usage, todayKey);
+  const overBudget = isOverDailyBudget(usage, todayKey);
+  const busiestDay = Math.max(1, ...summary.weekDays.map(d => d.totals.totalTokens));
+  const [budgetInput, setBudgetInput] = useState(usage.dailyBudget !== null ? String(usage.dailyBudget) : '');
+
+  const saveBudget = () => {
+    const trimmed = budgetInput.trim();
+    if (!trimmed) {
+      onSetDailyBudget(null);
+      return;
+    }
+    const budget = Math.round(Number(trimmed.replace(/[,_\s]/g, '')));
+    if (!isFinite(budget) || budget <= 0) {
+      alert('Enter the daily budget as a positive number of tokens, or leave it empty for no budget.');
+      return;
+    }
+    setBudgetInput(String(budget));
+    onSetDailyBudget(budget);
+  };
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest border-b border-slate-100 pb-2">Token Usage</h3>
+
+      <div className="grid grid-cols-3 gap-2">
+        {[
+          { label: 'Today', totals: summary.today },
+          { label: 'Last 7 days', totals: summary.week },
+          { label: 'This session', totals: sessionUsage },
+        ].map(({ label, totals }) => (
+          <div key={label} className="p-2.5 bg-slate-50 border border-slate-200 rounded-xl">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</p>
+            <p className="text-base font-bold text-slate-800">{formatTokenCount(totals.totalTokens)}</p>
+            <p className="text-[10px] text-slate-400 font-mono">{totals.calls} call{totals.calls === 1 ? '' : 's'} · {formatCost(totals)}</p>
+          </div>
+        ))}
+      </div>
+
+      {summary.todayByKind.length > 0 && (
+        <ul className="space-y-1">
+          {summary.todayByKind.map(({ kind, totals }) => (
+            <li key={kind} className="flex items-center justify-between text-xs">
+              <span className="text-slate-700 font-medium">{USAGE_KIND_LABELS[kind]}</span>
+              <span className="text-slate-400 font-mono">
+                {formatTokenCount(totals.promptTokens)} in · {formatTokenCount(totals.candidateTokens)} out · {formatCost(totals)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-end gap-1 h-16" title="Total tokens per day, last 7 days">
+        {summary.weekDays.map(({ date, totals }) => {
+          const [y, m, d] = date.split('-').map(Number);
+          return (
+            <div key={date} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+              <div
+                className={`w-full rounded-t ${date === todayKey ? (overBudget ? 'bg-red-400' : 'bg-indigo-500') : 'bg-indigo-200'}`}
+                style={{ height: `${Math.max(2, (totals.totalTokens / busiestDay) * 100)}%` }}
+                title={`${formatTokenCount(totals.totalTokens)} tokens`}
+              />
+              <span className="text-[9px] text-slate-400">{new Date(y, m - 1, d).toLocaleDateString('en-US', { weekday: 'narrow' })}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label htmlFor="daily-token-budget" className="text-xs text-slate-600 font-medium whitespace-nowrap">Daily budget</label>
+        <input
+          id="daily-token-budget"
+          type="text"
+          inputMode="numeric"
+          value={budgetInput}
+          onChange={e => setBudgetInput(e.target.value)}
+          onBlur={saveBudget}
+          onKeyDown={e => { if (e.key === 'Enter') saveBudget(); }}
+          placeholder="No budget"
+          className="flex-1 min-w-0 px-2 py-1 text-xs font-mono border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <span className="text-[10px] text-slate-400">tokens</span>
+      </div>
+      {usage.dailyBudget !== null && (
+        <p className={`text-[10px] leading-relaxed ${overBudget ? 'text-red-600' : 'text-slate-400'}`}>
+          {overBudget
+            ? 'Budget reached: background orchestration is paused until tomorrow. Chat and manual orchestration still work.'
+            : `${formatTokenCount(Math.max(0, usage.dailyBudget - summary.today.totalTokens))} tokens left today before background orchestration pauses.`}
+        </p>
+      )}
+    </section>
+  );
+};
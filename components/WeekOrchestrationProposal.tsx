@@ -0,0 +1,165 @@
+/**
+ * DESIGN DECISION: Week Orchestration Proposal Component
+ *
+ * A week plan is several day proposals plus the moves that connect them. Unlike the
+ * single-day card, approval is not all-or-nothing:
+ *
+ * 1. **Per-day decisions**: Each day has its own Accept / Skip, so the user can take
+ *    Monday's plan and keep Thursday as it is. "Accept all" applies every day
+ *    still pending in one step.
+ *
+ * 2. **Moves are explicit**: Cross-day moves are listed up front with their reason,
+ *    and each day shows what arrives and leaves, so accepting a day never moves a
+ *    task silently. A move is applied with the first accepted day on either end.
+ *
+ * 3. **Load at a glance**: Days show planned hours and an overload badge; the
+ *    timeline stays collapsed until the user opens the day.
+ */
+
+import React from 'react';
+import { WeekOrchestrationProposal } from '../types';
+import { formatMinutesAsDuration } from '../services/timeParsing';
+
+interface Props {
+  proposal: WeekOrchestrationProposal;
+  onAcceptDays: (dates: string[]) => void;
+  onRejectDays: (dates: string[]) => void;
+  isProcessing?: boolean;
+}
+
+const dayLabel = (dateKey: string) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+const STATUS_BADGES = {
+  accepted: { label: 'Accepted', className: 'bg-emerald-100 text-emerald-700' },
+  rejected: { label: 'Skipped', className: 'bg-slate-100 text-slate-500' },
+};
+
+export const WeekOrchestrationProposalView: React.FC<Props> = ({ proposal, onAcceptDays, onRejectDays, isProcessing = false }) => {
+  const pendingDates = proposal.days.filter(d => (d.status ?? 'pending') === 'pending').map(d => d.date);
+
+  return (
+    <div className="bg-slate-50 rounded-lg p-4 shadow-sm border border-slate-200 animate-fade-in">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-bold flex items-center text-emerald-600">
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+          Proposed Week · {dayLabel(proposal.startDate)} – {dayLabel(proposal.endDate)}
+        </h3>
+        <span className="text-[10px] bg-slate-200 text-slate-600 px-1.5 py-0.5 rounded font-mono border border-slate-300">{proposal.source === 'local' ? 'LOCAL ENGINE' : 'GEMINI 3'}</span>
+      </div>
+
+      <div className="space-y-2">
+        <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+            <details className="group">
+                <summary className="flex items-center justify-between p-2.5 cursor-pointer hover:bg-slate-50 transition-colors select-none">
+                    <div className="flex items-center gap-2">
+                         <div className="w-1.5 h-1.5 rounded-full bg-indigo-500"></div>
+                         <h4 className="text-[10px] font-semibold text-slate-600 uppercase tracking-wider">Strategic Reasoning</h4>
+                    </div>
+                    <svg className="w-4 h-4 text-slate-400 transition-transform duration-200 group-open:rotate-180" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                </summary>
+                <div className="px-2.5 pb-2.5 pt-0">
+                    <div className="pt-2 border-t border-slate-200">
+                        <p className="text-xs text-slate-700 leading-relaxed italic">"{proposal.reasoning}"</p>
+                    </div>
+                </div>
+            </details>
+        </div>
+
+        {proposal.moves.length > 0 && (
+            <div className="bg-white p-3 rounded-lg border border-slate-200">
+                <h4 className="text-[10px] font-semibold text-slate-600 uppercase mb-1.5">Moves · {proposal.moves.length}</h4>
+                <ul className="space-y-1">
+                    {proposal.moves.map(move => (
+                        <li key={`${move.taskId}-${move.fromDate}`} className="text-xs text-slate-700">
+                            <span className={move.applied ? 'line-through text-slate-400' : 'font-medium'}>{move.title}</span>
+                            <span className="text-slate-400 font-mono"> {dayLabel(move.fromDate)} → {dayLabel(move.toDate)}</span>
+                            {move.reason && <span className="block text-[11px] text-slate-500">{move.reason}</span>}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+
+        {proposal.days.map(day => {
+            const status = day.status ?? 'pending';
+            const arriving = proposal.moves.filter(m => m.toDate === day.date);
+            const leaving = proposal.moves.filter(m => m.fromDate === day.date);
+            return (
+                <div key={day.date} className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+                    <details className="group">
+                        <summary className="flex items-center justify-between p-2.5 cursor-pointer hover:bg-slate-50 transition-colors select-none">
+                            <div className="flex items-center gap-2 min-w-0">
+                                <span className="text-xs font-semibold text-slate-700">{dayLabel(day.date)}</span>
+                                <span className="text-[10px] font-mono text-slate-400">{formatMinutesAsDuration(day.totalMinutes)}</span>
+                                {day.overloaded && <span className="text-[9px] font-bold uppercase px-1 py-0.5 rounded bg-amber-100 text-amber-700">Overloaded</span>}
+                                {(arriving.length > 0 || leaving.length > 0) && (
+                                    <span className="text-[10px] text-slate-400 truncate">
+                                        {arriving.length > 0 && `+${arriving.length} in`}{arriving.length > 0 && leaving.length > 0 && ' · '}{leaving.length > 0 && `${leaving.length} out`}
+                                    </span>
+                                )}
+                            </div>
+                            {status === 'pending' ? (
+                                <div className="flex gap-1.5 flex-shrink-0" onClick={e => e.preventDefault()}>
+                                    <button
+                                        onClick={() => onAcceptDays([day.date])}
+                                        disabled={isProcessing}
+                                        className="bg-emerald-600 hover:bg-emerald-500 disabled:bg-emerald-300 disabled:cursor-not-allowed text-white px-2 py-0.5 rounded text-[10px] font-medium transition-colors"
+                                    >
+                                        Accept
+                                    </button>
+                                    <button
+                                        onClick={() => onRejectDays([day.date])}
+                                        disabled={isProcessing}
+                                        className="bg-slate-200 hover:bg-slate-300 disabled:cursor-not-allowed text-slate-600 px-2 py-0.5 rounded text-[10px] font-medium transition-colors"
+                                    >
+                                        Skip
+                                    </button>
+                                </div>
+                            ) : (
+                                <span className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded ${STATUS_BADGES[status].className}`}>{STATUS_BADGES[status].label}</span>
+                            )}
+                        </summary>
+                        <div className="px-2.5 pb-2.5 pt-0">
+                            <div className="pt-2 border-t border-slate-200 text-xs font-mono text-emerald-700 whitespace-pre-wrap leading-relaxed">
+                                {day.proposal.optimized_timeline || day.proposal.schedule.map(t => `${t.time || '—'}  ${t.title}`).join('\n')}
+                            </div>
+                            {day.proposal.validation && day.proposal.validation.length > 0 && (
+                                <ul className="mt-2 space-y-0.5">
+                                    {day.proposal.validation.map((finding, i) => (
+                                        <li key={i} className="text-[11px] text-amber-700">{finding.message}</li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    </details>
+                </div>
+            );
+        })}
+
+        {pendingDates.length > 0 && (
+            <div className="flex space-x-2 mt-3 pt-2 border-t border-slate-200">
+                <button
+                    onClick={() => onAcceptDays(pendingDates)}
+                    disabled={isProcessing}
+                    className="flex-1 bg-emerald-600 hover:bg-emerald-500 disabled:bg-emerald-300 disabled:cursor-not-allowed text-white py-2 rounded-md font-medium text-xs transition-colors shadow-sm"
+                >
+                    {isProcessing ? 'Processing...' : pendingDates.length === proposal.days.length ? 'Accept Whole Week' : `Accept Remaining ${pendingDates.length} Day${pendingDates.length === 1 ? '' : 's'}`}
+                </button>
+                <button
+                    onClick={() => onRejectDays(pendingDates)}
+                    disabled={isProcessing}
+                    className="flex-1 bg-slate-600 hover:bg-slate-500 disabled:bg-slate-300 disabled:cursor-not-allowed text-white py-2 rounded-md font-medium text-xs transition-colors shadow-sm"
+                >
+                    Skip All
+                </button>
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
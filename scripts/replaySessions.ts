@@ -0,0 +1,59 @@
+/**
+ * Replay recorded sessions against the current tool executors.
+ *
+ *   npm run replay                      # every *.json in services/fixtures/recordings
+ *   npm run replay -- path/to/file.json # one recording (or another directory)
+ *
+ * Recordings are downloaded from the chat header's "Rec" toggle. Exits non-zero
+ * when any turn no longer matches (see services/sessionReplay.ts), or when the
+ * default directory holds no recordings. `npm test` replays the same directory
+ * (services/sessionReplay.test.ts), so the recordings gate every test run.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { formatReplayReport, replaySession } from '../services/sessionReplay';
+import { SessionRecording } from '../services/sessionRecorder';
+
+const DEFAULT_DIR = 'services/fixtures/recordings';
+
+const target = path.resolve(process.argv[2] ?? DEFAULT_DIR);
+const print = (line: string) => process.stdout.write(`${line}\n`);
+
+// The executors log every call; only the report belongs on stdout.
+console.log = () => {};
+console.warn = () => {};
+
+const recordingFiles = (): string[] => {
+  if (!fs.existsSync(target)) return [];
+  if (fs.statSync(target).isFile()) return [target];
+  return fs.readdirSync(target).filter(f => f.endsWith('.json')).sort().map(f => path.join(target, f));
+};
+
+const main = async () => {
+  const files = recordingFiles();
+  if (files.length === 0) {
+    print(`No recordings found at ${target}. Record a session with the chat header's "Rec" toggle and save the JSON there.`);
+    // The committed fixtures are the regression gate; an empty default directory means it checks nothing.
+    if (process.argv[2] === undefined) process.exitCode = 1;
+    return;
+  }
+
+  let failed = 0;
+  for (const file of files) {
+    const name = path.relative(process.cwd(), file);
+    try {
+      const recording: SessionRecording = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      const report = await replaySession(recording);
+      if (report.failedTurns > 0) failed++;
+      print(formatReplayReport(name, report));
+    } catch (e) {
+      failed++;
+      print(`❌ ${name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  print(`\n${files.length - failed}/${files.length} recording(s) passed`);
+  if (failed > 0) process.exitCode = 1;
+};
+
+main();
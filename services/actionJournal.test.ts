@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { createJournalEntry, revertJournalEntries } from "./actionJournal";
+import { ActionJournalEntry, LifeInventory, Task } from "../types";
+
+const task = (id: string, title: string, extra: Partial<Task> = {}): Task =>
+  ({ id, title, type: 'flexible', duration: '1h', priority: 'medium', date: '2026-03-11', ...extra });
+
+const journal = (before: LifeInventory, after: LifeInventory, tool: string, timestamp: string): ActionJournalEntry => ({
+  ...createJournalEntry({ turnId: 'turn-1', date: '2026-03-11', tool, args: {}, result: 'ok', beforeInventory: before, afterInventory: after, beforeLedger: {}, afterLedger: {} })!,
+  timestamp,
+});
+
+const EMPTY: LifeInventory = { fixed: [], flexible: [] };
+const ADDED: LifeInventory = { fixed: [], flexible: [task('t1', 'Write report')] };
+const UPDATED: LifeInventory = { fixed: [], flexible: [task('t1', 'Write report', { duration: '2h' })] };
+
+describe('revertJournalEntries', () => {
+  it('undoes an add then an update of one task in the same millisecond', () => {
+    const sameMoment = '2026-03-11T09:00:00.000Z';
+    const entries = [journal(EMPTY, ADDED, 'add_task', sameMoment), journal(ADDED, UPDATED, 'update_task', sameMoment)];
+
+    const result = revertJournalEntries(UPDATED, {}, entries);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.revertedIds).toEqual([entries[1].id, entries[0].id]);
+    expect(result.inventory).toEqual(EMPTY);
+  });
+
+  it('reverts nothing when an item changed after the turn', () => {
+    const entries = [journal(EMPTY, ADDED, 'add_task', '2026-03-11T09:00:00.000Z'), journal(ADDED, UPDATED, 'update_task', '2026-03-11T09:00:00.001Z')];
+    const editedSince: LifeInventory = { fixed: [], flexible: [task('t1', 'Write report', { duration: '3h' })] };
+
+    const result = revertJournalEntries(editedSince, {}, entries);
+
+    expect(result.revertedIds).toEqual([]);
+    expect(result.inventory).toBe(editedSince);
+    expect(result.conflicts).toContain('"Write report" was changed again after this action');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * DESIGN DECISION: Action Journal for AI Tool Mutations
+ *
+ * Every write tool the model calls (add_task, delete_task, move_tasks, update_task,
+ * complete_task, add_subtask, complete_subtask, log_checkin, update_relationship_status,
+ * delete_relationship_status)
+ * goes through fuzzy title/name matching in services/toolExecutors.ts. That is convenient, but a wrong
+ * match — e.g. deleting "Call with Grandpa" when the user meant "Call with Grandma" —
+ * used to be irreversible.
+ *
+ * The journal turns every executed call into an undo record:
+ * 1. Before the executor runs, its `journaled` wrapper captures the current inventory/ledger.
+ * 2. After it runs, createJournalEntry() diffs before vs. after by task id / ledger key
+ *    and keeps only the entities that changed.
+ * 3. revertJournalEntries() restores the "before" copies, newest entry first, so undoing
+ *    a whole turn unwinds it in the reverse order it happened. It is all or nothing:
+ *    if anything was changed again since, no entry is reverted.
+ *
+ * Diffing (instead of asking each executor to report what it touched) means new tools
+ * are journaled correctly without extra bookkeeping, and side effects such as the
+ * complete_task → log_checkin cascade are captured in the same entry.
+ *
+ * Pure functions only: App owns the state, this module just computes snapshots.
+ */
+
+import { LifeInventory, RelationshipLedger, Task, Person, ActionJournalEntry, TaskSnapshotChange, PersonSnapshotChange } from "../types";
+
+/** Maximum number of entries persisted; older entries fall off FIFO like memories do. */
+export const MAX_JOURNAL_ENTRIES = 200;
+
+const indexTasks = (inv: LifeInventory): Map<string, Task> => {
+  const map = new Map<string, Task>();
+  [...inv.fixed, ...inv.flexible].forEach(t => map.set(t.id, t));
+  return map;
+};
+
+// Structural equality is enough here: tasks and people are plain JSON objects.
+const sameEntity = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+export const diffInventory = (before: LifeInventory, after: LifeInventory): TaskSnapshotChange[] => {
+  if (before === after) return [];
+  const beforeMap = indexTasks(before);
+  const afterMap = indexTasks(after);
+  const changes: TaskSnapshotChange[] = [];
+  beforeMap.forEach((task, id) => {
+    const next = afterMap.get(id) ?? null;
+    if (next !== task && !sameEntity(task, next)) changes.push({ taskId: id, before: task, after: next });
+  });
+  afterMap.forEach((task, id) => {
+    if (!beforeMap.has(id)) changes.push({ taskId: id, before: null, after: task });
+  });
+  return changes;
+};
+
+export const diffLedger = (before: RelationshipLedger, after: RelationshipLedger): PersonSnapshotChange[] => {
+  if (before === after) return [];
+  const changes: PersonSnapshotChange[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.forEach(key => {
+    const prev = (before[key] as Person | undefined) ?? null;
+    const next = (after[key] as Person | undefined) ?? null;
+    if (prev !== next && !sameEntity(prev, next)) changes.push({ key, before: prev, after: next });
+  });
+  return changes;
+};
+
+const describeTaskChange = ({ before, after }: TaskSnapshotChange): string => {
+  if (!before && after) return `Added "${after.title}"${after.date ? ` on ${after.date}` : ''}`;
+  if (before && !after) return `Deleted "${before.title}"`;
+  if (!before || !after) return '';
+  if (!before.completed && after.completed) return `Completed "${after.title}"`;
+  if (before.date !== after.date) return `Moved "${after.title}" ${before.date ?? 'unscheduled'} → ${after.date ?? 'unscheduled'}`;
+  const fields = (Object.keys(after) as Array<keyof Task>)
+    .filter(k => !sameEntity(before[k], after[k]));
+  return `Updated "${before.title}" (${fields.join(', ')})`;
+};
+
+const describePersonChange = ({ before, after }: PersonSnapshotChange): string => {
+  if (!before && after) return `Added ${after.name} to the Kinship Ledger`;
+  if (before && !after) return `Removed ${before.name} from the Kinship Ledger`;
+  if (!before || !after) return '';
+  if (before.last_contact !== after.last_contact) return `Checked in with ${after.name} (${after.status})`;
+  return `Updated ${after.name} (${after.status})`;
+};
+
+/**
+ * Build a journal entry for one executed tool call, or null if it changed nothing
+ * (lookups that found no match, duplicates skipped by idempotency guards, etc.).
+ */
+export const createJournalEntry = (params: {
+  turnId: string;
+  date: string;
+  tool: string;
+  args: any;
+  result: string;
+  beforeInventory: LifeInventory;
+  afterInventory: LifeInventory;
+  beforeLedger: RelationshipLedger;
+  afterLedger: RelationshipLedger;
+}): ActionJournalEntry | null => {
+  const taskChanges = diffInventory(params.beforeInventory, params.afterInventory);
+  const personChanges = diffLedger(params.beforeLedger, params.afterLedger);
+  if (taskChanges.length === 0 && personChanges.length === 0) return null;
+
+  const summary = [...taskChanges.map(describeTaskChange), ...personChanges.map(describePersonChange)]
+    .filter(Boolean)
+    .join('; ');
+
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    turnId: params.turnId,
+    date: params.date,
+    tool: params.tool,
+    args: params.args,
+    result: params.result,
+    summary,
+    timestamp: new Date().toISOString(),
+    taskChanges,
+    personChanges,
+  };
+};
+
+export interface RevertResult {
+  inventory: LifeInventory;
+  ledger: RelationshipLedger;
+  /** Every requested entry when the undo applied, none when it was refused. */
+  revertedIds: string[];
+  /** Human-readable notes for items that changed after the AI touched them; non-empty means nothing was reverted. */
+  conflicts: string[];
+}
+
+/**
+ * Restore the "before" snapshots of the given entries, newest first. `entries` must be
+ * in journal order (oldest first, as appended): timestamps only have millisecond
+ * resolution, so two calls in one round can share one and cannot order them.
+ *
+ * Every item must still look exactly like its entry's "after" snapshot (once the
+ * newer entries being undone are reverted). If the user (or a later tool call that
+ * is not being undone) edited one since, the whole undo is refused: the original
+ * inventory and ledger come back unchanged, with the conflicts, so a turn is never
+ * left half undone and newer work is never overwritten. Entries already undone are
+ * ignored.
+ */
+export const revertJournalEntries = (
+  inventory: LifeInventory,
+  ledger: RelationshipLedger,
+  entries: ActionJournalEntry[]
+): RevertResult => {
+  let fixed = [...inventory.fixed];
+  let flexible = [...inventory.flexible];
+  const nextLedger: RelationshipLedger = { ...ledger };
+  const revertedIds: string[] = [];
+  const conflicts: string[] = [];
+
+  const ordered = entries.filter(e => !e.undoneAt).reverse();
+
+  for (const entry of ordered) {
+    for (const change of entry.taskChanges) {
+      const current = [...fixed, ...flexible].find(t => t.id === change.taskId) ?? null;
+      if (!sameEntity(current, change.after)) {
+        conflicts.push(`"${(change.after ?? change.before)?.title}" was changed again after this action`);
+        continue;
+      }
+      fixed = fixed.filter(t => t.id !== change.taskId);
+      flexible = flexible.filter(t => t.id !== change.taskId);
+      if (change.before) {
+        if (change.before.type === 'fixed') fixed.push(change.before);
+        else flexible.push(change.before);
+      }
+    }
+    for (const change of entry.personChanges) {
+      const current = (nextLedger[change.key] as Person | undefined) ?? null;
+      if (!sameEntity(current, change.after)) {
+        conflicts.push(`${(change.after ?? change.before)?.name} was changed again after this action`);
+        continue;
+      }
+      if (change.before) nextLedger[change.key] = change.before;
+      else delete nextLedger[change.key];
+    }
+    revertedIds.push(entry.id);
+  }
+
+  if (conflicts.length > 0) return { inventory, ledger, revertedIds: [], conflicts };
+  return { inventory: { fixed, flexible }, ledger: nextLedger, revertedIds, conflicts };
+};
+
+/** Dates whose schedules an entry touched (used to invalidate approved orchestrations). */
+export const affectedDates = (entries: ActionJournalEntry[]): string[] => {
+  const dates = new Set<string>();
+  entries.forEach(e => e.taskChanges.forEach(c => {
+    if (c.before?.date) dates.add(c.before.date);
+    if (c.after?.date) dates.add(c.after.date);
+  }));
+  return [...dates];
+};
@@ -0,0 +1,188 @@
+/**
+ * DESIGN DECISION: Changeset Previews for Review Mode
+ *
+ * When review mode is on, write tool calls are staged instead of executed (see
+ * App.tsx `staged`). This module turns a staged call into what the user sees on the
+ * changeset card: a one-line summary and diff-style preview lines.
+ *
+ * Previews are best-effort: they resolve task titles and contact names against the
+ * state at staging time using the same loose matching the executors use, so the
+ * preview names the item the executor will most likely touch. The executor itself
+ * still performs the authoritative match when the change is applied.
+ */
+
+import { LifeInventory, RelationshipLedger, Task, Person, Memory, PendingChange, Changeset } from "../types";
+import { findMemory } from "./memoryLifecycle";
+import { SCOPE_LABELS } from "./recurringOccurrences";
+
+/** Tools whose effects are staged in review mode. Reads always run immediately. */
+export const STAGED_TOOLS = [
+  'add_task',
+  'delete_task',
+  'move_tasks',
+  'update_task',
+  'complete_task',
+  'add_subtask',
+  'complete_subtask',
+  'log_checkin',
+  'update_relationship_status',
+  'delete_relationship_status',
+  'save_memory',
+  'update_memory',
+  'forget_memory',
+] as const;
+
+interface PreviewContext {
+  inventory: LifeInventory;
+  ledger: RelationshipLedger;
+  memories?: Memory[];
+  dateKey: string; // Currently viewed date (YYYY-MM-DD)
+}
+
+const normalize = (s: string) => (s || '').toLowerCase().trim();
+
+const findTask = (inv: LifeInventory, title: string, dateKey: string): Task | undefined => {
+  const all = [...inv.fixed, ...inv.flexible];
+  const target = normalize(title);
+  const matches = (t: Task) => normalize(t.title) === target || normalize(t.title).includes(target) || target.includes(normalize(t.title));
+  return all.find(t => t.date === dateKey && matches(t)) ?? all.find(matches);
+};
+
+const findPerson = (ledger: RelationshipLedger, name: string): Person | undefined => {
+  const target = normalize(name);
+  return Object.entries(ledger).find(([key, p]) =>
+    normalize(p.name) === target || normalize(key) === target || normalize(p.relation).includes(target) || target.includes(normalize(p.name))
+  )?.[1];
+};
+
+/** " (this occurrence)" etc. when the call touches a recurring series */
+const describeScope = (task: Task | undefined, scope?: string) =>
+  task?.recurrence && !task.date ? ` (${(SCOPE_LABELS[scope as keyof typeof SCOPE_LABELS] ?? SCOPE_LABELS.this).toLowerCase()})` : '';
+
+const describeTask = (t: Partial<Task>) =>
+  `"${t.title}"${t.date ? ` on ${t.date}` : ''}${t.time ? ` at ${t.time}` : ''}${t.duration ? ` (${t.duration})` : ''}`;
+
+export const previewChange = (tool: string, args: any, ctx: PreviewContext): { summary: string; diff: string[] } => {
+  switch (tool) {
+    case 'add_task': {
+      const date = args.recurrence ? undefined : (args.date || ctx.dateKey);
+      return {
+        summary: `Add ${describeTask({ ...args, date })}`,
+        diff: [`+ ${args.type || 'flexible'} task ${describeTask({ ...args, date })}${args.priority ? `, ${args.priority} priority` : ''}${args.due_date ? `, due ${args.due_date}` : ''}${args.depends_on?.length ? `, after ${args.depends_on.map((r: string) => `"${r}"`).join(', ')}` : ''}`],
+      };
+    }
+    case 'delete_task': {
+      const task = findTask(ctx.inventory, args.title, ctx.dateKey);
+      return {
+        summary: `Delete "${args.title}"`,
+        diff: [`- ${task ? describeTask(task) : `"${args.title}" (no exact match found yet)`}`],
+      };
+    }
+    case 'move_tasks': {
+      const ids: string[] = args.task_identifiers || [];
+      return {
+        summary: `Move ${ids.length} task${ids.length === 1 ? '' : 's'} to ${args.target_date}`,
+        diff: ids.map(id => {
+          const task = findTask(ctx.inventory, id, ctx.dateKey);
+          const from = task?.recurrence && !task.date ? args.from_date || ctx.dateKey : task?.date ?? 'unscheduled';
+          return `~ "${task?.title ?? id}"${describeScope(task, args.scope)}: ${from} → ${args.target_date}`;
+        }),
+      };
+    }
+    case 'update_task': {
+      const task = findTask(ctx.inventory, args.task_title, ctx.dateKey);
+      const fields: Array<[string, keyof Task]> = [
+        ['new_title', 'title'], ['time', 'time'], ['duration', 'duration'], ['priority', 'priority'],
+        ['category', 'category'], ['type', 'type'], ['date', 'date'], ['linkedContact', 'linkedContact'], ['description', 'description'],
+        ['due_date', 'dueDate'],
+      ];
+      const diff = fields
+        .filter(([argKey]) => args[argKey] !== undefined)
+        .map(([argKey, taskKey]) => `~ ${taskKey}: ${JSON.stringify(task?.[taskKey] ?? null)} → ${JSON.stringify(args[argKey])}`);
+      if (args.clear_due_date) diff.push(`~ dueDate: ${JSON.stringify(task?.dueDate ?? null)} → null`);
+      if (args.depends_on !== undefined) {
+        // Stored as ids; show the prerequisites by title like the model named them
+        const current = (task?.dependsOn ?? []).map(id => [...ctx.inventory.fixed, ...ctx.inventory.flexible].find(t => t.id === id)?.title ?? id);
+        diff.push(`~ dependsOn: ${JSON.stringify(current)} → ${JSON.stringify(args.depends_on)}`);
+      }
+      return { summary: `Update "${task?.title ?? args.task_title}"${describeScope(task, args.scope)}`, diff };
+    }
+    case 'complete_task': {
+      const task = findTask(ctx.inventory, args.task_title, ctx.dateKey);
+      return { summary: `Complete "${task?.title ?? args.task_title}"${describeScope(task, args.scope)}`, diff: [`~ completed: false → true`] };
+    }
+    case 'add_subtask': {
+      const task = findTask(ctx.inventory, args.task_title, ctx.dateKey);
+      return {
+        summary: `Add a step to "${task?.title ?? args.task_title}"`,
+        diff: [`+ step "${args.subtask_title}"${args.duration ? ` (${args.duration})` : ''}`],
+      };
+    }
+    case 'complete_subtask': {
+      const task = findTask(ctx.inventory, args.task_title, ctx.dateKey);
+      const done = args.completed !== false;
+      return {
+        summary: `${done ? 'Check off' : 'Uncheck'} "${args.subtask_title}" on "${task?.title ?? args.task_title}"`,
+        diff: [`~ step "${args.subtask_title}" completed: ${!done} → ${done}`],
+      };
+    }
+    case 'log_checkin': {
+      const person = findPerson(ctx.ledger, args.person_name);
+      const date = args.date_override || ctx.dateKey;
+      const diff = person
+        ? [`~ last_contact: ${person.last_contact} → ${date}`]
+        : [`+ New contact ${args.person_name}`];
+      if (args.notes) diff.push(`+ note: ${args.notes}`);
+      return { summary: `Check in with ${person?.name ?? args.person_name}`, diff };
+    }
+    case 'update_relationship_status': {
+      const person = findPerson(ctx.ledger, args.person_name);
+      const diff = person
+        ? [`~ status: ${person.status} → ${args.status_level}`, `~ notes → ${args.notes_update}`]
+        : [`+ New contact ${args.person_name} (${args.relation || 'New Contact'}, ${args.category || 'Network'})`];
+      return { summary: `Update ${person?.name ?? args.person_name}`, diff };
+    }
+    case 'delete_relationship_status': {
+      const person = findPerson(ctx.ledger, args.person_name);
+      return { summary: `Remove ${person?.name ?? args.person_name}`, diff: [`- ${person ? `${person.name} (${person.relation})` : args.person_name}`] };
+    }
+    case 'save_memory':
+      return { summary: `Remember (${args.type})`, diff: [`+ ${args.content}`] };
+    case 'update_memory': {
+      const memory = findMemory(ctx.memories || [], args);
+      const diff: string[] = [];
+      if (args.content !== undefined) diff.push(`- ${memory?.content ?? args.memory_id ?? args.match}`, `+ ${args.content}`);
+      if (args.type !== undefined) diff.push(`~ type: ${memory?.type ?? '?'} → ${args.type}`);
+      if (args.pinned !== undefined) diff.push(`~ pinned: ${!!memory?.pinned} → ${args.pinned}`);
+      return { summary: `Update memory${memory ? ` "${memory.content.slice(0, 40)}${memory.content.length > 40 ? '…' : ''}"` : ''}`, diff };
+    }
+    case 'forget_memory': {
+      const memory = findMemory(ctx.memories || [], args);
+      return { summary: 'Forget memory', diff: [`- ${memory?.content ?? `${args.memory_id ?? args.match} (no exact match found yet)`}`] };
+    }
+    default:
+      return { summary: tool, diff: [JSON.stringify(args)] };
+  }
+};
+
+export const createPendingChange = (tool: string, args: any, ctx: PreviewContext): PendingChange => ({
+  id: Math.random().toString(36).substr(2, 9),
+  tool,
+  args,
+  status: 'pending',
+  ...previewChange(tool, args, ctx),
+});
+
+export const createChangeset = (changes: PendingChange[]): Changeset => ({
+  id: Math.random().toString(36).substr(2, 9),
+  createdAt: new Date().toISOString(),
+  changes,
+  status: 'pending',
+});
+
+/** Derive the overall changeset status from its items once the user has decided. */
+export const settleChangesetStatus = (changes: PendingChange[]): Changeset['status'] => {
+  const applied = changes.filter(c => c.status === 'applied').length;
+  if (applied === 0) return 'rejected';
+  return applied === changes.length ? 'applied' : 'partially_applied';
+};
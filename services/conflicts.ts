@@ -0,0 +1,171 @@
+/**
+ * DESIGN DECISION: Conflict Detection Over the Expanded Day
+ *
+ * Two commitments at the same time are only noticed when someone reads the
+ * times closely; deduplicateTasks removes exact duplicates and nothing else.
+ * This module finds overlaps in a day's tasks as getTasksForDate expands them,
+ * so recurring occurrences (with their per-day overrides) are checked too.
+ *
+ * What counts as a conflict: two incomplete, timed tasks that overlap where
+ * both are fixed, or where either was imported from Google Calendar (`gcal_id`).
+ * Overlapping flexible tasks are a planning problem the schedulers and the
+ * orchestration validator already handle. A split task counts by its step
+ * blocks (services/subtasks.ts).
+ *
+ * Resolutions are suggestions for one side: move it after the other (same day),
+ * move it to the next day, shorten the earlier one so it ends in time, or
+ * decline it (remove it from the day). The side that gives way most easily
+ * (not imported, flexible, lower priority) is offered first. The UI applies
+ * them through the task update/delete handlers; get_conflicts hands them to the
+ * model as update_task / move_tasks / delete_task calls.
+ */
+
+import { LifeInventory, Task } from "../types";
+import { DEFAULT_SCHEDULER_OPTIONS, PRIORITY_RANK } from "./dayScheduler";
+import { subBlocks } from "./subtasks";
+import { formatMinutesAsDuration, formatMinutesAsTime, parseTimeToMinutes, taskDurationMinutes } from "./timeParsing";
+import { addDaysToKey } from "./dateKeys";
+
+/** Shortest length a shortened task may keep */
+const MIN_SHORTENED_MINUTES = 15;
+
+export interface TaskConflict {
+  date: string;
+  /** The side that starts first (or is listed first when both start together) */
+  first: Task;
+  second: Task;
+  overlapStart: number; // minutes since midnight
+  overlapMinutes: number;
+}
+
+export interface ConflictResolution {
+  action: 'move' | 'move_day' | 'shorten' | 'decline';
+  /** The side that gives way, as shown on the day */
+  task: Task;
+  /** Fields to change on it; empty for decline */
+  changes: Partial<Task>;
+  label: string;
+}
+
+type Span = [number, number];
+
+const isImported = (t: Task) => !!t.gcal_id;
+
+/** Busy spans of a task: its step blocks when split, else start to start + duration. */
+const spansOf = (task: Task): Span[] => {
+  const blocks = subBlocks(task);
+  if (blocks.length > 0) return blocks.map(b => [b.start, b.start + b.length]);
+  const start = parseTimeToMinutes(task.time);
+  const length = taskDurationMinutes(task);
+  return start === null || !length ? [] : [[start, start + length]];
+};
+
+const canConflict = (a: Task, b: Task) =>
+  (a.type === 'fixed' && b.type === 'fixed') || isImported(a) || isImported(b);
+
+/** Overlaps in one day's tasks (a getTasksForDate result), earliest first. */
+export const findConflicts = (dayTasks: LifeInventory, date: string): TaskConflict[] => {
+  const timed = [...dayTasks.fixed, ...dayTasks.flexible]
+    .filter(t => !t.completed)
+    .map(task => ({ task, spans: spansOf(task) }))
+    .filter(x => x.spans.length > 0);
+  const conflicts: TaskConflict[] = [];
+  timed.forEach((a, i) => timed.slice(i + 1).forEach(b => {
+    if (!canConflict(a.task, b.task)) return;
+    let overlapStart = Infinity;
+    let overlapMinutes = 0;
+    a.spans.forEach(([aStart, aEnd]) => b.spans.forEach(([bStart, bEnd]) => {
+      const start = Math.max(aStart, bStart);
+      const end = Math.min(aEnd, bEnd);
+      if (end > start) {
+        overlapStart = Math.min(overlapStart, start);
+        overlapMinutes += end - start;
+      }
+    }));
+    if (overlapMinutes === 0) return;
+    const aFirst = a.spans[0][0] <= b.spans[0][0];
+    conflicts.push({ date, first: aFirst ? a.task : b.task, second: aFirst ? b.task : a.task, overlapStart, overlapMinutes });
+  }));
+  return conflicts.sort((x, y) => x.overlapStart - y.overlapStart);
+};
+
+/** Conflicts that involve `task` (matched by id; a series has one occurrence per day). */
+export const conflictsFor = (conflicts: TaskConflict[], task: Task): TaskConflict[] =>
+  conflicts.filter(c => c.first.id === task.id || c.second.id === task.id);
+
+/** The other side of a conflict, seen from `task`. */
+export const otherSide = (conflict: TaskConflict, task: Task): Task =>
+  conflict.first.id === task.id ? conflict.second : conflict.first;
+
+const describeSpan = (task: Task) => {
+  const [start, end] = spansOf(task)[0];
+  return `${formatMinutesAsTime(start)}–${formatMinutesAsTime(end)}`;
+};
+
+/** `"Standup" (9:00 AM–9:30 AM) overlaps "Dentist" (9:15 AM–10:15 AM) by 15m` */
+export const formatConflict = (c: TaskConflict): string =>
+  `"${c.first.title}" (${describeSpan(c.first)}) overlaps "${c.second.title}" (${describeSpan(c.second)}) by ${formatMinutesAsDuration(c.overlapMinutes)}`;
+
+/** First start at or after `from` where `length` minutes fit between the day's other busy spans. */
+const nextFreeStart = (from: number, length: number, busy: Span[], dayEnd: number): number | null => {
+  let start = from;
+  for (const [bStart, bEnd] of [...busy].sort((a, b) => a[0] - b[0])) {
+    if (start + length <= bStart) break;
+    if (bEnd > start) start = bEnd;
+  }
+  return start + length <= dayEnd ? start : null;
+};
+
+/** Ways to resolve `conflict`, the more easily moved side first. */
+export const conflictResolutions = (
+  conflict: TaskConflict,
+  dayTasks: LifeInventory,
+  dayEndMinutes: number = DEFAULT_SCHEDULER_OPTIONS.dayEndMinutes,
+): ConflictResolution[] => {
+  const giveWay = (t: Task) => [Number(isImported(t)), Number(t.type === 'fixed'), -PRIORITY_RANK[t.priority]];
+  const sides = [conflict.first, conflict.second].sort((a, b) => {
+    const [x, y] = [giveWay(a), giveWay(b)];
+    return x[0] - y[0] || x[1] - y[1] || x[2] - y[2];
+  });
+  const all = [...dayTasks.fixed, ...dayTasks.flexible].filter(t => !t.completed);
+
+  return sides.flatMap(task => {
+    const other = otherSide(conflict, task);
+    const options: ConflictResolution[] = [];
+    const length = taskDurationMinutes(task);
+    const otherEnd = Math.max(...spansOf(other).map(([, end]) => end));
+    if (length && subBlocks(task).length === 0) {
+      const busy = all.filter(t => t.id !== task.id).flatMap(spansOf);
+      const start = nextFreeStart(otherEnd, length, busy, dayEndMinutes);
+      if (start !== null) {
+        options.push({ action: 'move', task, changes: { time: formatMinutesAsTime(start) }, label: `Move "${task.title}" to ${formatMinutesAsTime(start)}` });
+      }
+    }
+    const nextDay = addDaysToKey(conflict.date, 1);
+    options.push({ action: 'move_day', task, changes: { date: nextDay }, label: `Move "${task.title}" to ${nextDay}` });
+    // Only the side that starts first can end early enough
+    const start = parseTimeToMinutes(task.time);
+    const otherStart = parseTimeToMinutes(other.time);
+    if (task === conflict.first && start !== null && otherStart !== null && otherStart - start >= MIN_SHORTENED_MINUTES && subBlocks(task).length === 0) {
+      const duration = formatMinutesAsDuration(otherStart - start);
+      options.push({ action: 'shorten', task, changes: { duration }, label: `Shorten "${task.title}" to ${duration}` });
+    }
+    options.push({ action: 'decline', task, changes: {}, label: `Decline "${task.title}"` });
+    return options;
+  });
+};
+
+/** The tool call that carries out a resolution, or null when no tool can (declining one occurrence). */
+export const resolutionToolCall = (r: ConflictResolution, date: string): { tool: string; args: Record<string, unknown> } | null => {
+  const occurrence = r.task.occurrenceDate ? { occurrence_date: r.task.occurrenceDate } : {};
+  switch (r.action) {
+    case 'move':
+      return { tool: 'update_task', args: { task_title: r.task.title, time: r.changes.time, ...occurrence } };
+    case 'shorten':
+      return { tool: 'update_task', args: { task_title: r.task.title, duration: r.changes.duration, ...occurrence } };
+    case 'move_day':
+      return { tool: 'move_tasks', args: { task_identifiers: [r.task.title], target_date: r.changes.date, from_date: date } };
+    case 'decline':
+      return r.task.occurrenceDate ? null : { tool: 'delete_task', args: { title: r.task.title } };
+  }
+};
@@ -0,0 +1,227 @@
+/**
+ * DESIGN DECISION: Context Window Budgeting
+ *
+ * Every date's chat carries the system instruction, the session context (memory
+ * bank, past conversations, kinship roster) and the full turn history. Long days
+ * and large ledgers grow that without bound — cost and latency rise, and the
+ * details that matter for the next turn get diluted. This module keeps it bounded:
+ *
+ * 1. Session context: the memory / past-conversation / roster sections are built
+ *    from lines ranked most-relevant first. fitSectionsToBudget() drops lines from
+ *    the tail of the largest section until the whole block fits, leaving a
+ *    "(+N more ...)" note so the model knows to fetch the rest with a tool.
+ * 2. Turn history: once it exceeds HISTORY_BUDGET_TOKENS, GeminiService folds the
+ *    older turns into one synopsis message (see planHistoryCompaction) and restarts
+ *    the chat with synopsis + the most recent turns. Repeated compactions fold the
+ *    previous synopsis into the new one, so the summary rolls forward.
+ * 3. Reporting: measureContextSections() splits what the model receives into named
+ *    sections so the UI can show where the tokens go.
+ *
+ * Token counts are chars/4 estimates. They are synchronous and free, which matters
+ * because budgeting runs on every session start; the provider's exact countTokens is
+ * only used for the report's total.
+ */
+
+import { Content } from "@google/generative-ai";
+
+// Rough chars-per-token ratio for English prose (same as ScriptedProvider).
+const CHARS_PER_TOKEN = 4;
+
+/** Budget for the trimmable session-context sections (memories, past conversations, roster). */
+export const SESSION_CONTEXT_BUDGET_TOKENS = 3000;
+/** Turn history above this size is compacted into a synopsis. */
+export const HISTORY_BUDGET_TOKENS = 12000;
+/** Number of most recent user turns (with their tool rounds) kept verbatim on compaction. */
+export const KEEP_RECENT_TURNS = 4;
+
+export const SYNOPSIS_PREFIX = '[Conversation synopsis — earlier turns of this day, summarized to save context]';
+const SYNOPSIS_ACK = 'Understood. I will continue from this synopsis; the latest turns follow.';
+
+export const estimateTokens = (text: string): number => Math.ceil((text || '').length / CHARS_PER_TOKEN);
+
+/**
+ * A trimmable block of the session context. Lines are ordered most relevant first;
+ * the first `keep` lines are never dropped (e.g. pinned memories).
+ */
+export interface ContextSection {
+  id: string;
+  header: string;
+  lines: string[];
+  keep?: number;
+  /** Line appended when lines were dropped, telling the model how to get the rest. */
+  overflowNote?: (dropped: number) => string;
+}
+
+export interface ContextTrim {
+  sectionId: string;
+  dropped: number;
+  kept: number;
+}
+
+export interface ContextUsageSection {
+  id: string;
+  label: string;
+  tokens: number;
+}
+
+export interface ContextUsageReport {
+  sections: ContextUsageSection[];
+  /** Sum of the section estimates */
+  total: number;
+  /** Provider-measured token count of the whole assembled context, when available */
+  measuredTotal?: number;
+  sessionBudget: number;
+  historyBudget: number;
+  trimmed: ContextTrim[];
+  /** Turns folded into the synopsis so far in this session */
+  summarizedTurns: number;
+}
+
+const renderSection = (section: ContextSection, lineCount: number): string => {
+  if (section.lines.length === 0) return '';
+  const dropped = section.lines.length - lineCount;
+  const lines = section.lines.slice(0, lineCount);
+  if (dropped > 0 && section.overflowNote) lines.push(section.overflowNote(dropped));
+  return `\n\n${section.header}\n${lines.join('\n')}`;
+};
+
+/**
+ * Render the sections, dropping the least relevant lines (largest section first)
+ * until the rendered text fits `budgetTokens`. Sections that cannot shrink below
+ * their `keep` lines are left as they are, so the result may still exceed the budget.
+ */
+export const fitSectionsToBudget = (
+  sections: ContextSection[],
+  budgetTokens: number = SESSION_CONTEXT_BUDGET_TOKENS
+): { text: string; trimmed: ContextTrim[] } => {
+  const counts = sections.map(s => s.lines.length);
+  const render = () => sections.map((s, i) => renderSection(s, counts[i])).join('');
+
+  while (estimateTokens(render()) > budgetTokens) {
+    const candidates = sections
+      .map((s, i) => ({ i, tokens: estimateTokens(renderSection(s, counts[i])) }))
+      .filter(({ i }) => counts[i] > (sections[i].keep ?? 0));
+    if (candidates.length === 0) break;
+    const largest = candidates.reduce((a, b) => (b.tokens > a.tokens ? b : a));
+    counts[largest.i]--;
+  }
+
+  return {
+    text: render(),
+    trimmed: sections
+      .map((s, i) => ({ sectionId: s.id, dropped: s.lines.length - counts[i], kept: counts[i] }))
+      .filter(t => t.dropped > 0),
+  };
+};
+
+/**
+ * Split an assembled session context into its "== TITLE ==" sections. Text before
+ * the first header is reported as the session header (dates, mode, timezone).
+ */
+export const measureContextSections = (context: string): ContextUsageSection[] => {
+  const parts = context.split(/\n(?===\s[^=\n]+\s==)/);
+  return parts
+    .map((part, index) => {
+      const title = part.match(/^==\s([^=\n]+?)(?:\s\(.*\))?\s==/)?.[1];
+      return {
+        id: title ? `context:${title.toLowerCase().replace(/[^a-z]+/g, '-')}` : `context:header-${index}`,
+        label: title ? title.charAt(0) + title.slice(1).toLowerCase() : 'Session header',
+        tokens: estimateTokens(part),
+      };
+    })
+    .filter(s => s.tokens > 0);
+};
+
+const partText = (content: Content): string =>
+  content.parts
+    .map(p => {
+      if (p.text) return p.text;
+      if (p.functionCall) return `[called ${p.functionCall.name} ${JSON.stringify(p.functionCall.args ?? {})}]`;
+      if (p.functionResponse) return `[${p.functionResponse.name} → ${JSON.stringify(p.functionResponse.response ?? {})}]`;
+      if (p.inlineData) return '[image]';
+      return '';
+    })
+    .filter(Boolean)
+    .join(' ');
+
+export const historyTokens = (history: Content[]): number =>
+  history.reduce((sum, c) => sum + estimateTokens(partText(c)), 0);
+
+/** A user turn that starts an exchange: typed text, not function responses. */
+const isUserTextTurn = (content: Content) =>
+  content.role === 'user' && content.parts.some(p => p.text) && !content.parts.some(p => p.functionResponse);
+
+export const isSynopsisTurn = (content: Content) =>
+  content.role === 'user' && !!content.parts[0]?.text?.startsWith(SYNOPSIS_PREFIX);
+
+export interface HistoryCompactionPlan {
+  /** Turns to fold into the synopsis (includes a previous synopsis, if any) */
+  older: Content[];
+  /** Turns kept verbatim; always starts with a user text turn */
+  recent: Content[];
+  /** Number of user text turns being summarized (excluding a previous synopsis) */
+  summarizedTurns: number;
+}
+
+/**
+ * Decide whether history needs compacting and where to cut. The cut is only ever
+ * placed before a user text turn, so a functionCall is never separated from its
+ * functionResponse. Returns null when the history is within budget or too short.
+ */
+export const planHistoryCompaction = (
+  history: Content[],
+  budgetTokens: number = HISTORY_BUDGET_TOKENS,
+  keepRecentTurns: number = KEEP_RECENT_TURNS
+): HistoryCompactionPlan | null => {
+  if (historyTokens(history) <= budgetTokens) return null;
+  const turnStarts = history
+    .map((content, index) => ({ content, index }))
+    .filter(({ content }) => isUserTextTurn(content) && !isSynopsisTurn(content))
+    .map(({ index }) => index);
+  if (turnStarts.length <= keepRecentTurns) return null;
+
+  const cut = turnStarts[turnStarts.length - keepRecentTurns];
+  const older = history.slice(0, cut);
+  return {
+    older,
+    recent: history.slice(cut),
+    summarizedTurns: older.filter(c => isUserTextTurn(c) && !isSynopsisTurn(c)).length,
+  };
+};
+
+/** Plain-text transcript of turns, used as input to the synopsis prompt. */
+export const formatTranscript = (history: Content[]): string =>
+  history
+    .map(c => `${isSynopsisTurn(c) ? 'Earlier synopsis' : c.role === 'model' ? 'Assistant' : c.role === 'function' ? 'Tool results' : 'User'}: ${partText(c)}`)
+    .join('\n');
+
+/**
+ * Offline synopsis: what the user asked, which tools changed state and how the
+ * assistant last replied. Used by the scripted provider and when the summarizer
+ * call fails or times out.
+ */
+export const extractiveSynopsis = (history: Content[]): string => {
+  const lines: string[] = [];
+  history.forEach(c => {
+    if (isSynopsisTurn(c)) {
+      lines.push(partText(c).replace(SYNOPSIS_PREFIX, '').trim());
+    } else if (isUserTextTurn(c)) {
+      // Strip the per-message system note the agent loop appends.
+      const text = partText(c).replace(/\n*\[System Note:[^\]]*\]\s*$/, '').trim();
+      if (text) lines.push(`- User: ${text.length > 200 ? `${text.slice(0, 200)}…` : text}`);
+    } else if (c.role === 'model' && c.parts[0]?.text !== SYNOPSIS_ACK) {
+      const calls = c.parts.filter(p => p.functionCall).map(p => p.functionCall!.name);
+      if (calls.length > 0) lines.push(`  - Tools: ${calls.join(', ')}`);
+      const text = c.parts.map(p => p.text || '').join(' ').trim();
+      if (text) lines.push(`  - Assistant: ${text.length > 200 ? `${text.slice(0, 200)}…` : text}`);
+    }
+  });
+  return lines.join('\n');
+};
+
+/** History to restart the chat with: synopsis exchange followed by the recent turns. */
+export const buildCompactedHistory = (synopsis: string, recent: Content[]): Content[] => [
+  { role: 'user', parts: [{ text: `${SYNOPSIS_PREFIX}\n${synopsis}` }] },
+  { role: 'model', parts: [{ text: SYNOPSIS_ACK }] },
+  ...recent,
+];
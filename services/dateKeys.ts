@@ -0,0 +1,29 @@
+/**
+ * DESIGN DECISION: One Home for Date-Key Arithmetic
+ *
+ * Days are stored and compared as local YYYY-MM-DD keys everywhere (task dates,
+ * occurrence overrides, usage logs). The few helpers that step between keys live
+ * here so low-level modules (recurrence, deadlines, conflicts, usage) do not have
+ * to import a feature module such as the week planner to get them.
+ *
+ * Keys are turned into local Dates at midnight, so the arithmetic follows the
+ * user's timezone and DST like App's toDateString.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Local midnight of a YYYY-MM-DD key. */
+export const keyToDate = (dateKey: string): Date => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+/** YYYY-MM-DD of the day `offset` days after `dateKey` (local time, like toDateString in App). */
+export const addDaysToKey = (dateKey: string, offset: number): string => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(y, m - 1, d + offset).toLocaleDateString('en-CA');
+};
+
+/** Whole days from `fromKey` to `toKey` (negative when `toKey` is earlier). */
+export const daysBetweenKeys = (fromKey: string, toKey: string): number =>
+  Math.round((keyToDate(toKey).getTime() - keyToDate(fromKey).getTime()) / DAY_MS);
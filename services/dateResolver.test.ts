@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { normalizeDateKey, resolveDateExpression, resolveDateTimeExpression, resolveTimeExpression } from "./dateResolver";
+
+// Wednesday, March 11 2026
+const WED = '2026-03-11';
+
+describe('resolveDateExpression', () => {
+  describe('weekdays', () => {
+    it('resolves a bare weekday to the next occurrence, today included', () => {
+      expect(resolveDateExpression('friday', WED)).toBe('2026-03-13');
+      expect(resolveDateExpression('wednesday', WED)).toBe('2026-03-11');
+      expect(resolveDateExpression('fri', WED)).toBe('2026-03-13');
+    });
+
+    it('rolls a weekday already past this week into the next week', () => {
+      expect(resolveDateExpression('monday', WED)).toBe('2026-03-16');
+      expect(resolveDateExpression('tuesday', WED)).toBe('2026-03-17');
+    });
+
+    it('treats "this <weekday>" like the bare weekday', () => {
+      expect(resolveDateExpression('this friday', WED)).toBe('2026-03-13');
+      expect(resolveDateExpression('this monday', WED)).toBe('2026-03-16');
+    });
+
+    it('puts "next <weekday>" in the following Monday-start week', () => {
+      expect(resolveDateExpression('next friday', WED)).toBe('2026-03-20');
+      expect(resolveDateExpression('next wednesday', WED)).toBe('2026-03-18');
+      expect(resolveDateExpression('next monday', WED)).toBe('2026-03-16');
+    });
+
+    it('resolves "last <weekday>" strictly before the anchor', () => {
+      expect(resolveDateExpression('last wednesday', WED)).toBe('2026-03-04');
+      expect(resolveDateExpression('last tuesday', WED)).toBe('2026-03-10');
+    });
+  });
+
+  describe('month and year ends', () => {
+    it('crosses month boundaries with day offsets', () => {
+      expect(resolveDateExpression('tomorrow', '2026-02-28')).toBe('2026-03-01');
+      expect(resolveDateExpression('tomorrow', '2028-02-28')).toBe('2028-02-29');
+      expect(resolveDateExpression('yesterday', '2026-03-01')).toBe('2026-02-28');
+    });
+
+    it('clamps month offsets to the last day of the month', () => {
+      expect(resolveDateExpression('next month', '2026-01-31')).toBe('2026-02-28');
+      expect(resolveDateExpression('in 1 month', '2028-01-31')).toBe('2028-02-29');
+    });
+
+    it('finds the end of the month', () => {
+      expect(resolveDateExpression('end of the month', '2026-02-10')).toBe('2026-02-28');
+      expect(resolveDateExpression('end of month', '2026-12-01')).toBe('2026-12-31');
+    });
+
+    it('crosses year boundaries', () => {
+      expect(resolveDateExpression('tomorrow', '2026-12-31')).toBe('2027-01-01');
+      expect(resolveDateExpression('in two weeks', '2026-12-25')).toBe('2027-01-08');
+      expect(resolveDateExpression('next tuesday', '2026-12-31')).toBe('2027-01-05');
+    });
+
+    it('takes a month and day without a year as the next occurrence', () => {
+      expect(resolveDateExpression('january 5', '2026-12-31')).toBe('2027-01-05');
+      expect(resolveDateExpression('march 11', WED)).toBe('2026-03-11');
+      expect(resolveDateExpression('7th of march', WED)).toBe('2027-03-07');
+      expect(resolveDateExpression('the 15th', '2026-12-20')).toBe('2027-01-15');
+    });
+  });
+
+  it('normalizes explicit dates regardless of the anchor', () => {
+    expect(resolveDateExpression('2026-3-7', WED)).toBe('2026-03-07');
+    expect(resolveDateExpression('2026/03/07', WED)).toBe('2026-03-07');
+  });
+
+  it('rejects what it cannot resolve instead of guessing', () => {
+    expect(resolveDateExpression('someday', WED)).toBeNull();
+    expect(resolveDateExpression('in a few days', WED)).toBeNull();
+    expect(resolveDateExpression('next', WED)).toBeNull();
+    expect(resolveDateExpression('february 30', WED)).toBeNull();
+    expect(normalizeDateKey('2026-02-30')).toBeNull();
+  });
+});
+
+describe('resolveTimeExpression', () => {
+  it('reads clock times and named times of day', () => {
+    expect(resolveTimeExpression('5pm')).toBe('5:00 PM');
+    expect(resolveTimeExpression('17:30')).toBe('5:30 PM');
+    expect(resolveTimeExpression('this afternoon')).toBe('2:00 PM');
+    expect(resolveTimeExpression('5 in the afternoon')).toBe('5:00 PM');
+    expect(resolveTimeExpression('12 in the morning')).toBe('12:00 AM');
+  });
+
+  it('rejects a bare hour as ambiguous', () => {
+    expect(resolveTimeExpression('9')).toBeNull();
+    expect(resolveTimeExpression('at 9')).toBeNull();
+    expect(resolveTimeExpression('13 in the evening')).toBeNull();
+  });
+});
+
+describe('resolveDateTimeExpression', () => {
+  it('splits a date and a time in either order', () => {
+    expect(resolveDateTimeExpression('tomorrow evening', WED)).toEqual({ date: '2026-03-12', time: '6:00 PM' });
+    expect(resolveDateTimeExpression('next tuesday at 3pm', WED)).toEqual({ date: '2026-03-17', time: '3:00 PM' });
+    expect(resolveDateTimeExpression('3pm on friday', WED)).toEqual({ date: '2026-03-13', time: '3:00 PM' });
+  });
+
+  it('dates a time of day on its own to the anchor', () => {
+    expect(resolveDateTimeExpression('tonight', WED)).toEqual({ date: WED, time: '8:00 PM' });
+    expect(resolveDateTimeExpression('this evening', WED)).toEqual({ date: WED, time: '6:00 PM' });
+  });
+
+  it('leaves the date open for a plain clock time', () => {
+    expect(resolveDateTimeExpression('4:30 pm', WED)).toEqual({ date: null, time: '4:30 PM' });
+  });
+
+  it('rejects input it only partly understands', () => {
+    expect(resolveDateTimeExpression('tuesday at 9', WED)).toBeNull();
+    expect(resolveDateTimeExpression('sometime next week-ish', WED)).toBeNull();
+    expect(resolveDateTimeExpression('   ', WED)).toBeNull();
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * DESIGN DECISION: Local Natural-Language Date & Time Resolution
+ *
+ * People (and the model, quoting them) say "next Tuesday", "tomorrow evening" or
+ * "in two weeks", while tasks store YYYY-MM-DD dates and "5:00 PM" times. This
+ * module turns the common expressions into those formats locally — no model round
+ * trip, deterministic, and the same rules for tool calls (toolArgValidation.ts)
+ * and the manual task form.
+ *
+ * Anchoring: relative expressions resolve against the date being VIEWED, not the
+ * system clock, matching how the session context tells the model that "today"
+ * means the Target Date. Dates are computed with local-time Date arithmetic, so they
+ * follow the user's timezone (and DST) like every other date key in the app.
+ *
+ * Conventions (documented because people disagree about them):
+ * - A bare or "this" weekday is the next occurrence on or after the anchor (today
+ *   counts); "next <weekday>" is that day in the following Monday-start week;
+ *   "last <weekday>" is the most recent one strictly before the anchor.
+ * - A month and day without a year is the next occurrence on or after the anchor.
+ * - Times of day map to fixed clock times: morning 9:00 AM, noon/lunch 12:00 PM,
+ *   afternoon 2:00 PM, evening 6:00 PM, tonight/night 8:00 PM.
+ *
+ * Like timeParsing.ts, resolvers return null instead of guessing.
+ */
+
+import { formatMinutesAsTime, parseTimeToMinutes } from "./timeParsing";
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_ALIASES: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, tues: 2, wed: 3, weds: 3, thu: 4, thur: 4, thurs: 4, fri: 5, sat: 6,
+};
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+const TIME_OF_DAY: Record<string, number> = {
+  morning: 9 * 60,
+  noon: 12 * 60,
+  midday: 12 * 60,
+  lunch: 12 * 60,
+  lunchtime: 12 * 60,
+  afternoon: 14 * 60,
+  evening: 18 * 60,
+  tonight: 20 * 60,
+  night: 20 * 60,
+  midnight: 0,
+};
+
+/** Anchor as a local Date at midnight. Accepts a Date or a YYYY-MM-DD key. */
+const toAnchor = (anchor: Date | string): Date => {
+  if (typeof anchor === 'string') {
+    const [y, m, d] = anchor.split('-').map(Number);
+    return new Date(y, m - 1, d);
+  }
+  return new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+};
+
+const toKey = (date: Date) => date.toLocaleDateString('en-CA');
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** Same day-of-month `months` later, clamped to the last day (Jan 31 + 1 month → Feb 28/29). */
+const addMonths = (date: Date, months: number) => {
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+  return new Date(date.getFullYear(), date.getMonth() + months, Math.min(date.getDate(), lastDay));
+};
+
+const parseCount = (word: string): number | null => {
+  if (/^\d+$/.test(word)) return parseInt(word, 10);
+  return NUMBER_WORDS[word] ?? null;
+};
+
+const weekdayIndex = (word: string): number | null => {
+  const full = WEEKDAYS.indexOf(word);
+  if (full !== -1) return full;
+  return WEEKDAY_ALIASES[word] ?? null;
+};
+
+const monthIndex = (word: string): number | null => {
+  const full = MONTHS.indexOf(word);
+  if (full !== -1) return full;
+  if (word === 'sept') return 8;
+  const short = MONTHS.findIndex(m => m.slice(0, 3) === word);
+  return short === -1 ? null : short;
+};
+
+const clean = (text: string) =>
+  text.trim().toLowerCase().replace(/[.,!?]+$/, '').replace(/\s+/g, ' ').replace(/^(on|by|for|due) /, '');
+
+/** "2026-3-7", "2026/03/07" or an ISO timestamp → "2026-03-07"; null if not a real calendar date. */
+export const normalizeDateKey = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+  if (!match) return null;
+  const [y, m, d] = match.slice(1).map(Number);
+  const date = new Date(y, m - 1, d);
+  if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  return toKey(date);
+};
+
+/** Real calendar date for month/day (and optional year), or null (e.g. Feb 30). */
+const calendarDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+const nextMonthDay = (anchor: Date, month: number, day: number, year?: number): Date | null => {
+  if (year !== undefined) return calendarDate(year, month, day);
+  const thisYear = calendarDate(anchor.getFullYear(), month, day);
+  if (thisYear && thisYear >= anchor) return thisYear;
+  return calendarDate(anchor.getFullYear() + 1, month, day);
+};
+
+/**
+ * Resolve a date expression to YYYY-MM-DD.
+ *
+ * Handles explicit dates, today/tomorrow/yesterday, "in 3 days", "two weeks from
+ * now", "5 days ago", next week/month, (this|next|last) weekend, weekdays,
+ * "March 7", "7th of March 2027", "the 15th" and "end of the month".
+ */
+export const resolveDateExpression = (text: string, anchorDate: Date | string): string | null => {
+  if (!text) return null;
+  const explicit = normalizeDateKey(text);
+  if (explicit) return explicit;
+
+  const anchor = toAnchor(anchorDate);
+  const t = clean(text);
+  let match: RegExpMatchArray | null;
+
+  if (t === 'today' || t === 'tonight') return toKey(anchor);
+  if (['tomorrow', 'tmrw', 'tmr'].includes(t)) return toKey(addDays(anchor, 1));
+  if (t === 'yesterday') return toKey(addDays(anchor, -1));
+  if (t === 'day after tomorrow' || t === 'the day after tomorrow') return toKey(addDays(anchor, 2));
+  if (t === 'day before yesterday' || t === 'the day before yesterday') return toKey(addDays(anchor, -2));
+
+  const shift = (count: number, unit: string): Date =>
+    unit.startsWith('day') ? addDays(anchor, count)
+      : unit.startsWith('week') ? addDays(anchor, count * 7)
+      : unit.startsWith('month') ? addMonths(anchor, count)
+      : addMonths(anchor, count * 12);
+
+  if ((match = t.match(/^in (\S+) (days?|weeks?|months?|years?)$/)) || (match = t.match(/^(\S+) (days?|weeks?|months?|years?) (?:from now|from today|later)$/))) {
+    const count = parseCount(match[1]);
+    return count === null ? null : toKey(shift(count, match[2]));
+  }
+  if ((match = t.match(/^(\S+) (days?|weeks?|months?|years?) ago$/))) {
+    const count = parseCount(match[1]);
+    return count === null ? null : toKey(shift(-count, match[2]));
+  }
+  if (t === 'next week' || t === 'in a week') return toKey(addDays(anchor, 7));
+  if (t === 'next month') return toKey(addMonths(anchor, 1));
+  if (t === 'next year') return toKey(addMonths(anchor, 12));
+  if (t === 'end of the month' || t === 'end of month') return toKey(new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0));
+
+  // Monday of the anchor's week, for "next <weekday>" / "next weekend"
+  const weekStart = addDays(anchor, -((anchor.getDay() + 6) % 7));
+
+  if ((match = t.match(/^(this |next |last |coming |the )?weekend$/))) {
+    const qualifier = (match[1] || '').trim();
+    if (qualifier === 'next') return toKey(addDays(weekStart, 12));
+    if (qualifier === 'last') return toKey(addDays(weekStart, -2));
+    // Saturday on or after the anchor; on a Sunday the weekend is already under way
+    return toKey(anchor.getDay() === 0 ? anchor : addDays(anchor, 6 - anchor.getDay()));
+  }
+
+  if ((match = t.match(/^(this |next |last |coming )?([a-z]+)$/))) {
+    const day = weekdayIndex(match[2]);
+    if (day !== null) {
+      const qualifier = (match[1] || '').trim();
+      if (qualifier === 'next') return toKey(addDays(weekStart, 7 + ((day + 6) % 7)));
+      if (qualifier === 'last') return toKey(addDays(anchor, -(((anchor.getDay() - day + 7) % 7) || 7)));
+      return toKey(addDays(anchor, (day - anchor.getDay() + 7) % 7));
+    }
+  }
+
+  // "march 7", "mar 7th", "march 7, 2027"
+  if ((match = t.match(/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/)) && monthIndex(match[1]) !== null) {
+    const month = monthIndex(match[1])!;
+    const date = nextMonthDay(anchor, month, parseInt(match[2], 10), match[3] ? parseInt(match[3], 10) : undefined);
+    return date ? toKey(date) : null;
+  }
+  // "7 march", "7th of march", "7th march 2027"
+  if ((match = t.match(/^(\d{1,2})(?:st|nd|rd|th)?(?: of)? ([a-z]+)(?:,? (\d{4}))?$/)) && monthIndex(match[2]) !== null) {
+    const month = monthIndex(match[2])!;
+    const date = nextMonthDay(anchor, month, parseInt(match[1], 10), match[3] ? parseInt(match[3], 10) : undefined);
+    return date ? toKey(date) : null;
+  }
+  // "the 15th": this month if still ahead, otherwise next month
+  if ((match = t.match(/^the (\d{1,2})(?:st|nd|rd|th)$/))) {
+    const day = parseInt(match[1], 10);
+    const thisMonth = calendarDate(anchor.getFullYear(), anchor.getMonth(), day);
+    if (thisMonth && thisMonth >= anchor) return toKey(thisMonth);
+    const followingMonth = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 1);
+    const nextMonth = calendarDate(followingMonth.getFullYear(), followingMonth.getMonth(), day);
+    return nextMonth ? toKey(nextMonth) : null;
+  }
+
+  return null;
+};
+
+/**
+ * Resolve a time expression to "h:mm AM/PM": clock times ("5pm", "17:00", "at 9"
+ * is rejected as ambiguous), named times of day ("evening", "this afternoon",
+ * "in the morning") and "5 in the afternoon".
+ */
+export const resolveTimeExpression = (text: string): string | null => {
+  if (!text) return null;
+  const t = clean(text).replace(/^(at|around|about) /, '');
+
+  const clock = parseTimeToMinutes(t);
+  // A bare hour ("9") is only accepted in 24h form with minutes; "at 9" is ambiguous.
+  if (clock !== null && !/^\d{1,2}$/.test(t)) return formatMinutesAsTime(clock);
+
+  const named = t.replace(/^(this|in the|at|tomorrow|today) /, '');
+  if (TIME_OF_DAY[named] !== undefined) return formatMinutesAsTime(TIME_OF_DAY[named]);
+
+  const match = t.match(/^(\d{1,2})(?::(\d{2}))? (?:in the |at )?(morning|afternoon|evening|night)$/);
+  if (match) {
+    let hours = parseInt(match[1], 10);
+    const minutes = match[2] ? parseInt(match[2], 10) : 0;
+    if (hours < 1 || hours > 12 || minutes > 59) return null;
+    if (match[3] === 'morning') hours = hours === 12 ? 0 : hours;
+    else if (hours !== 12) hours += 12;
+    return formatMinutesAsTime(hours * 60 + minutes);
+  }
+  return null;
+};
+
+export interface ResolvedDateTime {
+  date: string | null;
+  time: string | null;
+}
+
+/**
+ * Resolve a combined expression such as "tomorrow evening", "next tuesday at 3pm",
+ * "3pm on friday" or "tonight". Either part may be absent; when only a time of day
+ * like "tonight" or "this evening" is given, the date is the anchor.
+ * Returns null when the text cannot be fully understood.
+ */
+export const resolveDateTimeExpression = (text: string, anchorDate: Date | string): ResolvedDateTime | null => {
+  if (!text || !text.trim()) return null;
+  const date = resolveDateExpression(text, anchorDate);
+  if (date) return { date, time: clean(text) === 'tonight' ? resolveTimeExpression('tonight') : null };
+
+  const tokens = clean(text).split(' ');
+  // Try the time at the end ("tomorrow at 3pm"), then at the start ("3pm on friday")
+  for (let size = Math.min(4, tokens.length); size >= 1; size--) {
+    const candidates: Array<[string[], string[]]> = [
+      [tokens.slice(0, tokens.length - size), tokens.slice(tokens.length - size)],
+      [tokens.slice(size), tokens.slice(0, size)],
+    ];
+    for (const [rest, timeTokens] of candidates) {
+      const time = resolveTimeExpression(timeTokens.join(' '));
+      if (!time) continue;
+      if (rest.length === 0) {
+        const relative = timeTokens[0] === 'tomorrow' ? 'tomorrow' : 'today';
+        return { date: /^(tonight|this|today|tomorrow)\b/.test(timeTokens[0]) ? resolveDateExpression(relative, anchorDate) : null, time };
+      }
+      const restDate = resolveDateExpression(rest.join(' ').replace(/ (at|on)$/, ''), anchorDate);
+      if (restDate) return { date: restDate, time };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,134 @@
+/**
+ * DESIGN DECISION: End-of-Day Reviews
+ *
+ * Reflection mode used to change only the model's tense; how a day went was lost
+ * once the conversation scrolled away. A DayReview keeps it in a form later
+ * sessions can use:
+ *
+ * 1. **Plan vs actual** (compareDayToPlan): the approved orchestration is the plan
+ *    when there is one, otherwise every task of the day. Each planned task is done
+ *    or missed by its `completed` flag; completed tasks outside the plan are listed
+ *    as unplanned. Break slots and tasks deleted since approval are skipped. A
+ *    planned task with some checklist steps ticked is partial and counts by the
+ *    share of its steps in `progressScore` (subtasks.ts).
+ * 2. **The user's side**: mood and energy (1-5), a short journal entry and one
+ *    takeaway, from the review form or the save_day_review tool.
+ * 3. **Feedback loop**: formatReviewLine() condenses a review to one context line;
+ *    the most recent ones go into every session context, so briefings can notice
+ *    patterns (low energy after overloaded days, tasks that keep slipping).
+ *
+ * The comparison is recomputed whenever the review is saved, so ticking off a
+ * task afterwards and saving again corrects the record.
+ */
+
+import { ApprovedOrchestration, DayReview, DayReviewItem, DayReviewLog, LifeInventory, Task } from "../types";
+import { completionShare, subtaskProgress } from "./subtasks";
+
+export interface DayReviewInput {
+  mood?: number;
+  energy?: number;
+  journal?: string;
+  takeaway?: string;
+}
+
+export interface DayComparison {
+  planSource: DayReview['planSource'];
+  items: DayReviewItem[];
+  plannedCount: number;
+  completedCount: number;
+  progressScore: number;
+}
+
+/** Reviews included in the session context */
+export const REVIEWS_IN_CONTEXT = 5;
+const JOURNAL_EXCERPT_CHARS = 160;
+
+export const MOOD_LABELS = ['Rough', 'Low', 'Okay', 'Good', 'Great'];
+export const ENERGY_LABELS = ['Drained', 'Tired', 'Steady', 'Energized', 'Peak'];
+
+const normalize = (s: string) => (s || '').trim().toLowerCase();
+
+/** Clamp a rating to 1-5; anything unusable becomes undefined. */
+export const clampRating = (value: unknown): number | undefined => {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) && n >= 1 ? Math.min(n, 5) : undefined;
+};
+
+/**
+ * Compare a day's plan with what was completed.
+ *
+ * @param dayTasks - getTasksForDate(inventory, date), with current completion flags
+ */
+export const compareDayToPlan = (dayTasks: LifeInventory, approved?: ApprovedOrchestration): DayComparison => {
+  const tasks = [...dayTasks.fixed, ...dayTasks.flexible];
+  const findTask = (item: Task) => tasks.find(t => t.id === item.id) ?? tasks.find(t => normalize(t.title) === normalize(item.title));
+
+  const planned: Task[] = [];
+  if (approved) {
+    approved.proposal.schedule.forEach(item => {
+      const task = findTask(item);
+      if (task && !planned.some(t => t.id === task.id)) planned.push({ ...task, time: item.time || task.time });
+    });
+  } else {
+    planned.push(...tasks);
+  }
+
+  const plannedIds = new Set(planned.map(t => t.id));
+  const toItem = (task: Task, status: DayReviewItem['status']): DayReviewItem => {
+    const steps = subtaskProgress(task);
+    return { title: task.title, time: task.time, category: task.category, status, ...(steps ? { steps } : {}) };
+  };
+  const items = [
+    ...planned.map(t => toItem(t, t.completed ? 'done' : completionShare(t) > 0 ? 'partial' : 'missed')),
+    ...tasks.filter(t => t.completed && !plannedIds.has(t.id)).map(t => toItem(t, 'unplanned')),
+  ];
+
+  return {
+    planSource: approved ? 'approved' : 'tasks',
+    items,
+    plannedCount: planned.length,
+    completedCount: items.filter(i => i.status === 'done').length,
+    progressScore: Math.round(planned.reduce((sum, t) => sum + completionShare(t), 0) * 10) / 10,
+  };
+};
+
+/** Create or update the review for `date`; fields missing from `input` keep their saved value. */
+export const buildDayReview = (date: string, comparison: DayComparison, input: DayReviewInput, existing?: DayReview): DayReview => {
+  const now = new Date().toISOString();
+  const journal = input.journal !== undefined ? input.journal.trim() : existing?.journal ?? '';
+  const takeaway = input.takeaway !== undefined ? input.takeaway.trim() || undefined : existing?.takeaway;
+  return {
+    date,
+    ...comparison,
+    mood: clampRating(input.mood) ?? existing?.mood,
+    energy: clampRating(input.energy) ?? existing?.energy,
+    journal,
+    takeaway,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+};
+
+/** Reviews on or before `dateKey`, newest first. */
+export const recentReviews = (log: DayReviewLog, dateKey: string, limit: number = REVIEWS_IN_CONTEXT): DayReview[] =>
+  Object.values(log)
+    .filter(r => r.date <= dateKey)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, limit);
+
+/** One line for the session context, e.g. "- [2026-03-06] 4/6 planned done, mood 2/5, energy 2/5. Missed: ..." */
+export const formatReviewLine = (review: DayReview): string => {
+  const partial = review.items.filter(i => i.status === 'partial').map(i => `${i.title} ${i.steps?.done}/${i.steps?.total} steps`);
+  const parts = [`${review.completedCount}/${review.plannedCount} planned done${review.planSource === 'approved' ? ' (approved plan)' : ''}`];
+  if (partial.length > 0) parts.push(`partly done: ${partial.join(', ')}`);
+  if (review.mood) parts.push(`mood ${review.mood}/5`);
+  if (review.energy) parts.push(`energy ${review.energy}/5`);
+  const missed = review.items.filter(i => i.status === 'missed').map(i => i.title);
+  const unplanned = review.items.filter(i => i.status === 'unplanned').map(i => i.title);
+  const journal = review.journal.length > JOURNAL_EXCERPT_CHARS ? `${review.journal.slice(0, JOURNAL_EXCERPT_CHARS)}…` : review.journal;
+  return `- [${review.date}] ${parts.join(', ')}.`
+    + (missed.length > 0 ? ` Missed: ${missed.join(', ')}.` : '')
+    + (unplanned.length > 0 ? ` Also done: ${unplanned.join(', ')}.` : '')
+    + (review.takeaway ? ` Takeaway: "${review.takeaway}".` : '')
+    + (journal ? ` Journal: "${journal}"` : '');
+};
@@ -0,0 +1,274 @@
+/**
+ * DESIGN DECISION: Deterministic Local Day Scheduler
+ *
+ * LLM orchestration is slow (up to ORCHESTRATION_STREAM_TIMEOUT), gives a different
+ * answer every run and needs the network. This scheduler produces a standard
+ * OrchestrationProposal from the day's tasks in milliseconds, offline, and always
+ * the same way for the same input. It serves two callers:
+ *
+ * 1. The "Quick Plan" button — a complete plan the user can accept directly.
+ * 2. The get_baseline_schedule tool — a starting point the model adjusts and
+ *    explains instead of packing the day from scratch.
+ *
+ * Algorithm (greedy, single pass):
+ * 1. Anchor fixed tasks with a time; each blocks its slot plus a buffer on both sides.
+ * 2. Order flexible (and untimed fixed) tasks by priority, then nearest dueDate,
+ *    then longest first, then move prerequisites ahead of their dependents
+ *    (taskDependencies.ts).
+ * 3. Place each in the earliest free slot inside its category's energy window
+ *    (the same windows SYSTEM_INSTRUCTION describes), then anywhere in the day —
+ *    never before a same-day prerequisite ends or after a fixed dependent starts.
+ *    Long flexible tasks with a checklist get one block per open step instead,
+ *    with a buffer between steps (subtasks.ts).
+ * 4. Tasks that fit nowhere stay unscheduled; if the total exceeds the overload
+ *    budget, the lowest-priority flexible tasks are suggested for moving.
+ *
+ * Greedy is deliberately simple: a day holds a handful of tasks, and a plan the
+ * user can predict matters more than a theoretically optimal packing.
+ */
+
+import { LifeInventory, OrchestrationProposal, Task } from "../types";
+import { parseTimeToMinutes, formatMinutesAsTime, formatMinutesAsDuration, taskDurationMinutes, withTimeFields, MINUTES_PER_DAY } from "./timeParsing";
+import { orderByDependencies } from "./taskDependencies";
+import { canSplit, stepsToPlace, subBlocks, withSubBlocks, withoutSubBlocks } from "./subtasks";
+import { keyToDate } from "./dateKeys";
+
+type Category = NonNullable<Task['category']>;
+type Window = [number, number]; // [start, end) in minutes since midnight
+
+export interface DaySchedulerOptions {
+  dayStartMinutes: number;
+  dayEndMinutes: number;
+  bufferMinutes: number;
+  /** Total planned hours above which the day is flagged as overloaded. */
+  overloadHours: number;
+  /** Preferred windows per category, tried in order before the rest of the day. */
+  energyWindows: Record<Category, Window[]>;
+  /** Days (0=Sunday) the Career windows apply on; elsewhere Career work goes wherever it fits. */
+  workDays: number[];
+  /** Flexible tasks at least this long with two or more open checklist steps are placed step by step. */
+  splitMinutes: number;
+}
+
+const HIGH_INTENSITY: Window = [9 * 60, 12 * 60];
+const MAINTENANCE: Window = [13 * 60, 15 * 60];
+const SOCIAL: Window = [16 * 60, 19 * 60];
+
+export const DEFAULT_SCHEDULER_OPTIONS: DaySchedulerOptions = {
+  dayStartMinutes: 8 * 60,
+  dayEndMinutes: 22 * 60,
+  bufferMinutes: 15,
+  overloadHours: 10,
+  energyWindows: {
+    Career: [HIGH_INTENSITY, MAINTENANCE],
+    Health: [MAINTENANCE, SOCIAL],
+    Life: [MAINTENANCE, SOCIAL],
+    Family: [SOCIAL, MAINTENANCE],
+  },
+  workDays: [0, 1, 2, 3, 4, 5, 6],
+  splitMinutes: 120,
+};
+
+/** Used when a task's duration string cannot be parsed (matches calendar export). */
+const DEFAULT_TASK_MINUTES = 60;
+const SLOT_GRANULARITY = 5;
+
+export const PRIORITY_RANK: Record<Task['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+export interface DaySchedulerResult {
+  proposal: OrchestrationProposal;
+  totalMinutes: number;
+  overloaded: boolean;
+  /** Titles of tasks that did not fit between day start and day end. */
+  unscheduled: string[];
+  /** Titles of low-priority flexible tasks worth moving to bring the day under budget. */
+  suggestedMoves: string[];
+}
+
+/** Planned minutes for a task; unparseable durations count as DEFAULT_TASK_MINUTES. */
+export const durationOf = (t: Task) => taskDurationMinutes(t) ?? DEFAULT_TASK_MINUTES;
+
+const roundUp = (minutes: number) => Math.ceil(minutes / SLOT_GRANULARITY) * SLOT_GRANULARITY;
+
+/** Earliest start in [from, to) where `length` minutes fit without touching a busy block. */
+const findSlot = (busy: Window[], length: number, [from, to]: Window): number | null => {
+  const candidates = [from, ...busy.map(([, end]) => end)]
+    .map(roundUp)
+    .filter(start => start >= from && start + length <= to)
+    .sort((a, b) => a - b);
+  return candidates.find(start => busy.every(([s, e]) => start + length <= s || start >= e)) ?? null;
+};
+
+/** Where a placed task ends: after its last step block when split. */
+const endOf = (task: Task, start: number) => {
+  const blocks = subBlocks(task);
+  return blocks.length > 0 ? Math.max(...blocks.map(b => b.start + b.length)) : start + durationOf(task);
+};
+
+const windowsFor = (task: Task, opts: DaySchedulerOptions, workDay: boolean): Window[] => {
+  // Relationship touchpoints go to the social window regardless of category.
+  const preferred = task.linkedContact ? [SOCIAL] : [];
+  const category = task.category ?? 'Life';
+  const byCategory = category === 'Career' && !workDay ? [] : opts.energyWindows[category] ?? [];
+  return [...preferred, ...byCategory, [opts.dayStartMinutes, opts.dayEndMinutes]];
+};
+
+/**
+ * Build a proposal for one day.
+ *
+ * @param tasks - getTasksForDate(inventory, date) for the day being planned
+ * @param dateKey - that date; without it every day counts as a work day
+ */
+export const scheduleDay = (tasks: LifeInventory, overrides: Partial<DaySchedulerOptions> = {}, dateKey?: string): DaySchedulerResult => {
+  const opts: DaySchedulerOptions = { ...DEFAULT_SCHEDULER_OPTIONS, ...overrides };
+  const workDay = !dateKey || opts.workDays.includes(keyToDate(dateKey).getDay());
+  const busy: Window[] = [];
+  const placed: Array<{ task: Task; start: number | null }> = [];
+  const unscheduled: string[] = [];
+  const afterPrerequisites: string[] = [];
+  const waiting: string[] = [];
+  const split: string[] = [];
+
+  const anchored = tasks.fixed.filter(t => parseTimeToMinutes(t.time) !== null);
+  const toPlace = [
+    ...tasks.fixed.filter(t => parseTimeToMinutes(t.time) === null),
+    ...tasks.flexible,
+  ];
+
+  anchored.forEach(t => {
+    const start = parseTimeToMinutes(t.time)!;
+    busy.push([start - opts.bufferMinutes, start + durationOf(t) + opts.bufferMinutes]);
+    placed.push({ task: t, start });
+  });
+
+  const byPriority = toPlace
+    .map((task, index) => ({ task, index }))
+    .sort((a, b) =>
+      PRIORITY_RANK[a.task.priority] - PRIORITY_RANK[b.task.priority]
+      || (a.task.dueDate ?? '9999-12-31').localeCompare(b.task.dueDate ?? '9999-12-31')
+      || durationOf(b.task) - durationOf(a.task)
+      || a.index - b.index)
+    .map(({ task }) => task);
+
+  orderByDependencies(byPriority).forEach(task => {
+    // Completed tasks are history; keep them in the plan without claiming time.
+    if (task.completed) {
+      placed.push({ task, start: parseTimeToMinutes(task.time) });
+      return;
+    }
+    // Prerequisites on the same day are already placed (or left out) thanks to the ordering above
+    const prerequisites = placed.filter(p => !p.task.completed && task.dependsOn?.includes(p.task.id));
+    if (prerequisites.some(p => p.start === null)) {
+      waiting.push(task.title);
+      unscheduled.push(task.title);
+      placed.push({ task: withTimeFields({ ...withoutSubBlocks(task), time: undefined }), start: null });
+      return;
+    }
+    const earliest = Math.max(0, ...prerequisites.map(p => endOf(p.task, p.start!)));
+    const latest = Math.min(MINUTES_PER_DAY, ...anchored
+      .filter(a => !a.completed && a.dependsOn?.includes(task.id))
+      .map(a => parseTimeToMinutes(a.time)!));
+    if (prerequisites.length > 0 || latest < MINUTES_PER_DAY) afterPrerequisites.push(task.title);
+
+    const findStart = (length: number, from: number): number | null => {
+      for (const [windowStart, windowEnd] of windowsFor(task, opts, workDay)) {
+        const start = findSlot(busy, length, [Math.max(windowStart, from), Math.min(windowEnd, latest)]);
+        if (start !== null) return start;
+      }
+      return null;
+    };
+
+    // One block per open step, each after the previous; all or nothing
+    if (canSplit(task, opts.splitMinutes)) {
+      const starts = new Map<string, number>();
+      let from = earliest;
+      for (const { subtask, length } of stepsToPlace(task)) {
+        const start = findStart(length, from);
+        if (start === null) break;
+        busy.push([start, start + length + opts.bufferMinutes]);
+        starts.set(subtask.id, start);
+        from = start + length;
+      }
+      if (starts.size === stepsToPlace(task).length) {
+        const first = Math.min(...starts.values());
+        const times = new Map([...starts].map(([id, start]) => [id, formatMinutesAsTime(start)]));
+        split.push(task.title);
+        placed.push({ task: withTimeFields({ ...withSubBlocks(task, times), time: formatMinutesAsTime(first) }), start: first });
+        return;
+      }
+      busy.splice(busy.length - starts.size, starts.size);
+    }
+
+    const whole = withoutSubBlocks(task);
+    const length = durationOf(task);
+    const start = findStart(length, earliest);
+    if (start === null) {
+      unscheduled.push(task.title);
+      placed.push({ task: withTimeFields({ ...whole, time: undefined }), start: null });
+      return;
+    }
+    busy.push([start, start + length + opts.bufferMinutes]);
+    placed.push({ task: withTimeFields({ ...whole, time: formatMinutesAsTime(start) }), start });
+  });
+
+  placed.sort((a, b) => (a.start ?? Infinity) - (b.start ?? Infinity));
+
+  const totalMinutes = placed.reduce((sum, p) => sum + durationOf(p.task), 0);
+  const budgetMinutes = opts.overloadHours * 60;
+  const overloaded = totalMinutes > budgetMinutes;
+
+  const suggestedMoves: string[] = [];
+  if (overloaded) {
+    let excess = totalMinutes - budgetMinutes;
+    tasks.flexible
+      .filter(t => !t.completed && t.priority !== 'high' && !t.linkedContact)
+      .sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || durationOf(b) - durationOf(a))
+      .forEach(t => {
+        if (excess <= 0) return;
+        suggestedMoves.push(t.title);
+        excess -= durationOf(t);
+      });
+  }
+
+  const slotLabel = (start: number | null, length: number) => (start === null
+    ? 'Unscheduled'
+    : `${formatMinutesAsTime(start)} - ${formatMinutesAsTime(start + length)}`).padEnd(19);
+  const timeline = placed
+    .flatMap(({ task, start }) => {
+      const blocks = subBlocks(task);
+      if (blocks.length > 0) {
+        return blocks.map(b => ({ start: b.start as number | null, line: `${slotLabel(b.start, b.length)}  ${task.title} › ${b.subtask.title} (${formatMinutesAsDuration(b.length)})` }));
+      }
+      return [{ start, line: `${slotLabel(start, durationOf(task))}  ${task.title} (${task.duration})${task.type === 'fixed' ? ' [fixed]' : ''}${task.completed ? ' ✓' : ''}` }];
+    })
+    .sort((a, b) => (a.start ?? Infinity) - (b.start ?? Infinity))
+    .map(row => row.line);
+  if (overloaded) {
+    timeline.push('', `⚠️ ${formatMinutesAsDuration(totalMinutes)} planned — over the ${opts.overloadHours}h budget.`);
+  }
+
+  const reasoning = [
+    `Anchored ${anchored.length} fixed event${anchored.length === 1 ? '' : 's'} at their set times with ${opts.bufferMinutes}-minute buffers.`,
+    `Placed flexible tasks by priority into energy windows: Career in the morning focus block, Health and Life in the early afternoon, Family and relationship tasks in the late afternoon.`,
+    split.length > 0 ? `Split ${split.map(t => `"${t}"`).join(', ')} into one block per checklist step with breaks in between.` : '',
+    afterPrerequisites.length > 0 ? `Kept ${afterPrerequisites.map(t => `"${t}"`).join(', ')} in order with ${afterPrerequisites.length === 1 ? 'its' : 'their'} same-day prerequisites and dependents.` : '',
+    waiting.length > 0 ? `Left ${waiting.map(t => `"${t}"`).join(', ')} unscheduled because a prerequisite did not fit.` : '',
+    unscheduled.length > waiting.length ? `Could not fit ${unscheduled.filter(t => !waiting.includes(t)).map(t => `"${t}"`).join(', ')} between ${formatMinutesAsTime(opts.dayStartMinutes)} and ${formatMinutesAsTime(opts.dayEndMinutes)}.` : '',
+    overloaded
+      ? `The day totals ${formatMinutesAsDuration(totalMinutes)}, above the ${opts.overloadHours}h budget.${suggestedMoves.length > 0 ? ` Consider moving ${suggestedMoves.map(t => `"${t}"`).join(', ')} to another day.` : ''}`
+      : `Total planned time is ${formatMinutesAsDuration(totalMinutes)}, within the ${opts.overloadHours}h budget.`,
+  ].filter(Boolean).join(' ');
+
+  return {
+    proposal: {
+      optimized_timeline: timeline.join('\n'),
+      reasoning,
+      schedule: placed.map(p => p.task),
+      source: 'local',
+    },
+    totalMinutes,
+    overloaded,
+    unscheduled,
+    suggestedMoves,
+  };
+};
@@ -1,7 +1,10 @@
 /**
  * DESIGN DECISION: IndexedDB Layer for Future Scalability
  * 
- * This database implementation is currently unused but prepared for future requirements:
+ * App state still lives in localStorage. Today this database serves as the vector
+ * index for semantic recall (see services/semanticMemory.ts): memories and chat
+ * messages are mirrored here with their embeddings. The remaining stores are
+ * prepared for future requirements:
  * 
  * Why IndexedDB alongside localStorage?
  * 1. **Vector embeddings**: For semantic search of memories and conversations
@@ -27,6 +30,15 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
 import { LifeInventory, RelationshipLedger, ChatMessage, Memory, UserProfile, Task, Person } from '../types';
 
+/** Vector stored alongside a memory or message once it has been embedded */
+interface EmbeddingFields {
+  embedding?: number[];
+  embeddingModel?: string; // Embedder that produced the vector; vectors from different models are not comparable
+}
+
+export type StoredMessage = ChatMessage & { userId: string } & EmbeddingFields;
+export type StoredMemory = Memory & { userId: string } & EmbeddingFields;
+
 /**
  * Schema Definition
  * DESIGN DECISION: Compound indexes for efficient querying
@@ -43,12 +55,12 @@ interface LifeSystemDB extends DBSchema {
   };
   conversations: {
     key: string;
-    value: ChatMessage & { userId: string; embedding?: number[] };
+    value: StoredMessage;
     indexes: { 'by-user': string; 'by-date': [string, string] }; // [userId, dateString]
   };
   memories: {
     key: string;
-    value: Memory & { userId: string; embedding?: number[] };
+    value: StoredMemory;
     indexes: { 'by-user': string; 'by-type': [string, string] };
   };
   inventory: {
@@ -140,8 +152,12 @@ export class LifeDatabase {
     return user.id;
   }
 
-  async addMessage(userId: string, message: ChatMessage, embedding?: number[]): Promise<void> {
-    await (await this.dbPromise).put('conversations', { ...message, userId, embedding });
+  async addMessage(userId: string, message: ChatMessage, embedding?: number[], embeddingModel?: string): Promise<void> {
+    await (await this.dbPromise).put('conversations', { ...message, userId, embedding, embeddingModel });
+  }
+
+  async deleteMessage(messageId: string): Promise<void> {
+    await (await this.dbPromise).delete('conversations', messageId);
   }
 
   async getMessagesForDate(userId: string, dateStr: string): Promise<ChatMessage[]> {
@@ -159,7 +175,7 @@ export class LifeDatabase {
     });
   }
   
-  async getAllMessages(userId: string): Promise<ChatMessage[]> {
+  async getAllMessages(userId: string): Promise<StoredMessage[]> {
       const db = await this.dbPromise;
       // Use the compound index [userId, timestamp] to get messages sorted by time
       // IDBKeyRange.bound works with arrays for compound indexes
@@ -167,11 +183,27 @@ export class LifeDatabase {
       return await db.getAllFromIndex('conversations', 'by-date', range);
   }
 
-  async saveMemory(userId: string, memory: Memory, embedding?: number[]): Promise<void> {
-    await (await this.dbPromise).put('memories', { ...memory, userId, embedding });
+  async saveMemory(userId: string, memory: Memory, embedding?: number[], embeddingModel?: string): Promise<void> {
+    await (await this.dbPromise).put('memories', { ...memory, userId, embedding, embeddingModel });
+  }
+
+  async deleteMemory(memoryId: string): Promise<void> {
+    await (await this.dbPromise).delete('memories', memoryId);
+  }
+
+  /** id → embedding model for every stored record that has a vector (used to find what still needs embedding). */
+  async getEmbeddedIds(userId: string): Promise<{ memories: Map<string, string>; messages: Map<string, string> }> {
+    const db = await this.dbPromise;
+    const [mems, msgs] = await Promise.all([
+      db.getAllFromIndex('memories', 'by-user', userId),
+      db.getAllFromIndex('conversations', 'by-user', userId),
+    ]);
+    const collect = (rows: Array<{ id: string } & EmbeddingFields>) =>
+      new Map(rows.filter(r => r.embedding?.length && r.embeddingModel).map(r => [r.id, r.embeddingModel!] as [string, string]));
+    return { memories: collect(mems), messages: collect(msgs) };
   }
 
-  async getMemories(userId: string): Promise<Memory[]> {
+  async getMemories(userId: string): Promise<StoredMemory[]> {
     return (await this.dbPromise).getAllFromIndex('memories', 'by-user', userId);
   }
 
@@ -202,7 +234,7 @@ export class LifeDatabase {
    * - Embeddings are small (~100 floats per text)
    * - Modern browsers handle vector math efficiently
    * 
-   * Note: Currently unimplemented, prepared for future feature.
+   * Embeddings are computed by services/embeddingService.ts; see findSimilarMemories below.
    */
   }
 
@@ -218,23 +250,29 @@ export class LifeDatabase {
   // --- Vector Search (Naive client-side) ---
   // In a real app with massive data, checking every embedding is slow. 
   // For <10k items, it's instant in JS.
-  async findSimilarMemories(userId: string, queryEmbedding: number[], limit = 5): Promise<Memory[]> {
+  // embeddingModel restricts the search to vectors produced by the same embedder as the
+  // query; vectors from different models are not comparable.
+  async findSimilarMemories(userId: string, queryEmbedding: number[], limit = 5, embeddingModel?: string, threshold = 0.6): Promise<Memory[]> {
     const memories = await this.getMemories(userId);
-    const withScores = memories.map(mem => ({
+    const withScores = memories
+      .filter(mem => !embeddingModel || mem.embeddingModel === embeddingModel)
+      .map(mem => ({
       item: mem,
-      score: this.cosineSimilarity(queryEmbedding, (mem as any).embedding || [])
-    })).filter(x => x.score > 0.6); // Threshold
+      score: this.cosineSimilarity(queryEmbedding, mem.embedding || [])
+    })).filter(x => x.score > threshold);
 
     withScores.sort((a, b) => b.score - a.score);
     return withScores.slice(0, limit).map(x => x.item);
   }
   
-  async findSimilarMessages(userId: string, queryEmbedding: number[], limit = 5): Promise<ChatMessage[]> {
+  async findSimilarMessages(userId: string, queryEmbedding: number[], limit = 5, embeddingModel?: string, threshold = 0.6): Promise<ChatMessage[]> {
     const msgs = await this.getAllMessages(userId);
-    const withScores = msgs.map(msg => ({
+    const withScores = msgs
+      .filter(msg => !embeddingModel || msg.embeddingModel === embeddingModel)
+      .map(msg => ({
       item: msg,
-      score: this.cosineSimilarity(queryEmbedding, (msg as any).embedding || [])
-    })).filter(x => x.score > 0.6); // Threshold for relevance
+      score: this.cosineSimilarity(queryEmbedding, msg.embedding || [])
+    })).filter(x => x.score > threshold);
 
     withScores.sort((a, b) => b.score - a.score);
     return withScores.slice(0, limit).map(x => x.item);
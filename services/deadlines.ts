@@ -0,0 +1,110 @@
+/**
+ * DESIGN DECISION: Deadlines Separate from the Planned Day
+ *
+ * `date` is when the user plans to work on a task; `dueDate` is when it has to be
+ * done. Keeping them apart lets the plan slip day to day without losing track of
+ * the commitment behind it.
+ *
+ * - Rollover: once per day, unfinished flexible tasks planned for an earlier day
+ *   move to today with `rolloverCount` bumped, instead of staying behind in the
+ *   past. Fixed tasks (appointments) and recurring occurrences stay where they
+ *   were; a missed meeting does not happen again tomorrow.
+ * - Escalation: the same job raises priority as a deadline nears (medium within
+ *   DEADLINE_HORIZON_DAYS, high from the day before). It never lowers a priority
+ *   the user set.
+ * - Overdue: an unfinished task whose dueDate has passed, whatever its type.
+ *
+ * Pure functions over the inventory; App decides when the job runs.
+ */
+
+import { LifeInventory, Task } from "../types";
+import { PRIORITY_RANK } from "./dayScheduler";
+import { withoutSubBlocks } from "./subtasks";
+import { addDaysToKey, daysBetweenKeys } from "./dateKeys";
+
+/** Deadlines this many days out (or fewer) count as approaching. */
+export const DEADLINE_HORIZON_DAYS = 3;
+
+const isSeries = (t: Task) => !!t.recurrence && !t.date;
+const allTasks = (inv: LifeInventory) => [...inv.fixed, ...inv.flexible];
+
+/** Days until the task is due (0 = today, negative = overdue), or null without a deadline. */
+export const daysUntilDue = (task: Task, todayKey: string): number | null =>
+  task.dueDate ? daysBetweenKeys(todayKey, task.dueDate) : null;
+
+export const isOverdue = (task: Task, todayKey: string): boolean =>
+  !task.completed && !!task.dueDate && task.dueDate < todayKey;
+
+/** The priority a task should have given how close its deadline is (never lower than now). */
+export const escalatedPriority = (task: Task, todayKey: string): Task['priority'] => {
+  const days = daysUntilDue(task, todayKey);
+  if (days === null || task.completed) return task.priority;
+  const floor: Task['priority'] = days <= 1 ? 'high' : days <= DEADLINE_HORIZON_DAYS ? 'medium' : 'low';
+  return PRIORITY_RANK[floor] < PRIORITY_RANK[task.priority] ? floor : task.priority;
+};
+
+/** "Due today", "Due in 3 days", "2 days overdue" */
+export const describeDue = (task: Task, todayKey: string): string | null => {
+  const days = daysUntilDue(task, todayKey);
+  if (days === null) return null;
+  if (days < 0) return `${-days} day${days === -1 ? '' : 's'} overdue`;
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  return `Due in ${days} days`;
+};
+
+export interface RolloverResult {
+  inventory: LifeInventory;
+  /** Tasks carried forward to today, as they are after the rollover. */
+  rolled: Task[];
+  /** Tasks whose priority was raised because their deadline is near. */
+  escalated: Task[];
+}
+
+/**
+ * The daily job: carry unfinished flexible tasks from earlier days to `todayKey`
+ * and escalate priorities by deadline. Returns the same inventory object when
+ * nothing changed.
+ */
+export const rolloverUnfinished = (inv: LifeInventory, todayKey: string): RolloverResult => {
+  const rolled: Task[] = [];
+  const escalated: Task[] = [];
+  const update = (task: Task): Task => {
+    if (isSeries(task) || task.completed) return task;
+    let next = task;
+    if (task.type === 'flexible' && task.date && task.date < todayKey) {
+      // Step block times were placed on the old day
+      next = { ...withoutSubBlocks(task), date: todayKey, rolloverCount: (task.rolloverCount ?? 0) + 1 };
+      rolled.push(next);
+    }
+    const priority = escalatedPriority(next, todayKey);
+    if (priority !== next.priority) {
+      next = { ...next, priority };
+      escalated.push(next);
+    }
+    return next;
+  };
+  const fixed = inv.fixed.map(update);
+  const flexible = inv.flexible.map(update);
+  return rolled.length + escalated.length > 0 ? { inventory: { fixed, flexible }, rolled, escalated } : { inventory: inv, rolled, escalated };
+};
+
+/** Unfinished stored tasks past their deadline, most overdue first. */
+export const overdueTasks = (inv: LifeInventory, todayKey: string): Task[] =>
+  allTasks(inv)
+    .filter(t => !isSeries(t) && isOverdue(t, todayKey))
+    .sort((a, b) => a.dueDate!.localeCompare(b.dueDate!));
+
+/** Unfinished stored tasks due within DEADLINE_HORIZON_DAYS, overdue ones included, soonest first. */
+export const approachingDeadlines = (inv: LifeInventory, todayKey: string): Task[] => {
+  const horizon = addDaysToKey(todayKey, DEADLINE_HORIZON_DAYS);
+  return allTasks(inv)
+    .filter(t => !isSeries(t) && !t.completed && !!t.dueDate && t.dueDate <= horizon)
+    .sort((a, b) => a.dueDate!.localeCompare(b.dueDate!));
+};
+
+/** One context line per approaching deadline, e.g. `- "Tax filing" due 2026-04-15 (Due tomorrow), planned for 2026-04-14, high priority, rolled over 2×`. */
+export const formatDeadlineLine = (task: Task, todayKey: string): string =>
+  `- "${task.title}" due ${task.dueDate} (${describeDue(task, todayKey)})`
+  + `${task.date ? `, planned for ${task.date}` : ''}, ${task.priority} priority`
+  + `${task.rolloverCount ? `, rolled over ${task.rolloverCount}×` : ''}`;
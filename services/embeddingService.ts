@@ -0,0 +1,127 @@
+/**
+ * DESIGN DECISION: Pluggable Text Embedders
+ *
+ * Semantic recall (services/semanticMemory.ts) needs text → vector, and there are
+ * two situations with different constraints:
+ *
+ * - GeminiEmbedder: high-quality embeddings (text-embedding-004) through the same
+ *   /api/gemini proxy the chat uses, so the API key stays server-side.
+ * - HashingEmbedder: a dependency-free local embedder (feature hashing of word
+ *   unigrams + bigrams with sublinear term frequency). Works offline, in demo
+ *   mode and when the embedding endpoint fails. Quality is "shared vocabulary",
+ *   not meaning — good enough to rank a few hundred memories.
+ *
+ * Every embedder has an `id`. Vectors from different embedders live in different
+ * spaces, so stored vectors are tagged with the id that produced them and only
+ * compared against queries embedded by the same embedder.
+ */
+
+import { GoogleGenerativeAI, TaskType } from "@google/generative-ai";
+
+export interface Embedder {
+  readonly id: string;
+  readonly requiresNetwork: boolean;
+  /** Embed a batch of texts. Rejects on failure; callers decide how to degrade. */
+  embed(texts: string[], purpose: 'document' | 'query'): Promise<number[][]>;
+}
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (!a.length || !b.length || a.length !== b.length) return 0;
+  let dot = 0;
+  let magA = 0;
+  let magB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    magA += a[i] * a[i];
+    magB += b[i] * b[i];
+  }
+  return magA && magB ? dot / (Math.sqrt(magA) * Math.sqrt(magB)) : 0;
+};
+
+// Function words carry no topical signal and would make every text look alike.
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'is', 'are', 'was', 'were',
+  'be', 'been', 'it', 'its', 'this', 'that', 'i', 'me', 'my', 'you', 'your', 'we', 'our', 'they', 'he', 'she',
+  'his', 'her', 'their', 'them', 'as', 'by', 'from', 'so', 'if', 'do', 'does', 'did', 'have', 'has', 'had',
+  'not', 'no', 'can', 'will', 'would', 'should', 'could', 'just', 'about', 'up', 'out', 'into', 'than', 'then',
+]);
+
+export const tokenize = (text: string): string[] =>
+  (text || '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length > 1 && !STOP_WORDS.has(w))
+    // Cheap stemming so "workout"/"workouts" and "prefer"/"prefers" share a bucket.
+    .map(w => (w.length > 4 ? w.replace(/s$/, '').replace(/(ing|ed)$/, '') : w));
+
+// FNV-1a: fast, stable across sessions, and well distributed for short strings.
+const hash = (s: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export class HashingEmbedder implements Embedder {
+  readonly id: string;
+  readonly requiresNetwork = false;
+
+  constructor(private dimensions: number = 512) {
+    this.id = `local-hash-${dimensions}`;
+  }
+
+  /** Synchronous variant used where awaiting is not possible (session context assembly). */
+  embedSync(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const words = tokenize(text);
+    const features = [...words, ...words.slice(1).map((w, i) => `${words[i]}_${w}`)];
+    const counts = new Map<string, number>();
+    features.forEach(f => counts.set(f, (counts.get(f) || 0) + 1));
+    counts.forEach((count, feature) => {
+      const h = hash(feature);
+      // Signed hashing keeps collisions from only ever adding similarity.
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % this.dimensions] += sign * (1 + Math.log(count));
+    });
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm ? vector.map(v => v / norm) : vector;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(t => this.embedSync(t));
+  }
+}
+
+export class GeminiEmbedder implements Embedder {
+  readonly id: string;
+  readonly requiresNetwork = true;
+  private genAI: GoogleGenerativeAI;
+
+  // Same proxy as GeminiProvider: the placeholder key is swapped for the real one server-side.
+  private static readonly PROXY_BASE = `${typeof window !== 'undefined' ? window.location.origin : ''}/api/gemini`;
+  // batchEmbedContents accepts at most 100 requests per call.
+  private static readonly BATCH_SIZE = 100;
+
+  constructor(private modelName: string = 'text-embedding-004') {
+    this.id = `gemini:${modelName}`;
+    this.genAI = new GoogleGenerativeAI('server-proxy');
+  }
+
+  async embed(texts: string[], purpose: 'document' | 'query'): Promise<number[][]> {
+    const model = this.genAI.getGenerativeModel({ model: this.modelName }, { baseUrl: GeminiEmbedder.PROXY_BASE });
+    const taskType = purpose === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT;
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += GeminiEmbedder.BATCH_SIZE) {
+      const batch = texts.slice(i, i + GeminiEmbedder.BATCH_SIZE);
+      const response = await model.batchEmbedContents({
+        requests: batch.map(text => ({ content: { role: 'user', parts: [{ text }] }, taskType })),
+      });
+      vectors.push(...response.embeddings.map(e => e.values));
+    }
+    return vectors;
+  }
+}
+
+export const localEmbedder = new HashingEmbedder();
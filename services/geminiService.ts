@@ -8,6 +8,8 @@
  * 1. **Function Calling (Tool Use)**:
  *    The AI doesn't just generate text—it invokes structured functions to modify state.
  *    Tool definitions specify JSON schemas that Gemini uses to generate valid function calls.
+ *    Arguments are checked and normalized against those schemas before any executor
+ *    runs (toolArgValidation.ts); invalid calls are answered with the exact problems.
  * 
  * 2. **Temporal Mode Awareness**:
  *    The AI's system instruction changes based on whether the user is viewing:
@@ -17,7 +19,8 @@
  * 
  * 3. **Streaming Responses**:
  *    Text streams token-by-token for responsive UX. Function calls stream last
- *    (Gemini outputs reasoning, then tools).
+ *    (Gemini outputs reasoning, then tools). Callers receive typed AgentStreamEvents
+ *    (text deltas, tool calls starting/finishing, round boundaries, errors, done).
  * 
  * 4. **Session State Management**:
  *    The chat session persists across messages for context continuity.
@@ -27,20 +30,42 @@
  *    Users can cancel long-running AI requests. This prevents wasted API calls
  *    and allows quick correction when the AI goes off-track.
  * 
+ * 6. **Bounded Context**:
+ *    Before each turn, a history over budget is folded into a synopsis and the
+ *    chat restarted with synopsis + recent turns (see contextBudget.ts).
+ *    getContextUsage() reports what the model is actually receiving, per section.
+ * 
  * The tool definitions translate TypeScript interfaces into Gemini's schema format,
  * enabling type-safe AI function calling.
  */
 
 import { 
-  GoogleGenerativeAI, 
-  GenerativeModel,
-  ChatSession,
   Part,
   FunctionDeclaration,
+  ObjectSchema,
+  Schema,
   SchemaType
 } from "@google/generative-ai";
-import { SYSTEM_INSTRUCTION, REFLECTION_MODE_INSTRUCTION, ACTIVE_MODE_INSTRUCTION, PLANNING_MODE_INSTRUCTION } from "../constants";
-import { LifeInventory, RelationshipLedger, OrchestrationProposal, UpdateRelationshipArgs, LogCheckinArgs, Task } from "../types";
+import { compileProfileInstructions } from "./promptProfile";
+import { SYSTEM_INSTRUCTION, REFLECTION_MODE_INSTRUCTION, ACTIVE_MODE_INSTRUCTION, PLANNING_MODE_INSTRUCTION, CONVERSATION_SYNOPSIS_INSTRUCTION, RETROSPECTIVE_NARRATIVE_INSTRUCTION } from "../constants";
+import { LifeInventory, RelationshipLedger, OrchestrationProposal, UpdateRelationshipArgs, LogCheckinArgs, Task, UsageCall, UsageKind, UsageTotals, PromptProfile, OccurrenceScope } from "../types";
+import { LLMProvider, LLMChatSession, GeminiProvider, LLMUsageMetadata } from "./llmProvider";
+import { WeekToolArgs } from "./weekPlanner";
+import { ToolArgValidationResult, formatToolArgErrors, validateToolArgs } from "./toolArgValidation";
+import {
+  ContextTrim,
+  ContextUsageReport,
+  HISTORY_BUDGET_TOKENS,
+  SESSION_CONTEXT_BUDGET_TOKENS,
+  buildCompactedHistory,
+  estimateTokens,
+  extractiveSynopsis,
+  formatTranscript,
+  historyTokens,
+  isSynopsisTurn,
+  measureContextSections,
+  planHistoryCompaction
+} from "./contextBudget";
 
 /**
  * Timeout Utility - Wraps promises with timeout protection
@@ -59,6 +84,111 @@ const STREAM_TIMEOUT = 30000; // 30 seconds for stream completion
 const CHUNK_TIMEOUT = 30000; // 30 seconds between chunks
 const ORCHESTRATION_STREAM_TIMEOUT = 60000; // 60 seconds for orchestration streams
 const ORCHESTRATION_CHUNK_TIMEOUT = 45000; // 45 seconds between chunks during orchestration
+const SYNOPSIS_TIMEOUT = 15000; // 15 seconds for the history summarizer before falling back to an extractive synopsis
+const RETROSPECTIVE_TIMEOUT = 30000; // 30 seconds for the retrospective narrative before the report uses its local summary
+
+/**
+ * Agent Loop Budget
+ * DESIGN DECISION: Bounded multi-round tool loop
+ *
+ * A single user turn can require several dependent tool rounds
+ * (read context → move tasks → read the target day → propose). Instead of
+ * hard-coding two or three rounds, the loop keeps feeding function results back
+ * until the model answers with text only, bounded by a step budget so a model
+ * that keeps calling tools can never spin forever or burn unbounded quota.
+ *
+ * One "step" = one model round that requested tools and had them executed.
+ */
+const DEFAULT_MAX_AGENT_STEPS = 6;
+const ORCHESTRATION_MAX_AGENT_STEPS = 8;
+
+// Result for calls the loop refuses because the budget is spent
+const STEP_BUDGET_NOT_EXECUTED = 'not_executed: step budget for this turn is exhausted. Summarize what has been done and ask the user before continuing.';
+const notExecutedResponse = (call: { name: string }): Part => ({
+  functionResponse: { name: call.name, response: { result: { status: STEP_BUDGET_NOT_EXECUTED } } },
+});
+
+const ORCHESTRATION_NUDGE = '[SYSTEM OVERRIDE: You acknowledged the orchestration request but did not call propose_orchestration. You MUST call propose_orchestration RIGHT NOW with a complete schedule for this day. This is mandatory — do not output any more text, just call propose_orchestration immediately.]';
+const WEEK_ORCHESTRATION_NUDGE = '[SYSTEM OVERRIDE: You acknowledged the week planning request but did not call propose_week_orchestration. You MUST call propose_week_orchestration RIGHT NOW with the per-day schedules and moves. Do not output any more text.]';
+
+// Proposal tools that only run when the user explicitly asked to orchestrate
+const ORCHESTRATION_TOOLS = new Set(['propose_orchestration', 'propose_week_orchestration']);
+
+/**
+ * AgentLoopOptions: Per-call overrides for the tool loop
+ * All fields are optional; defaults depend on whether the turn is an orchestration.
+ */
+export interface AgentLoopOptions {
+  maxSteps?: number;        // Maximum number of tool-execution rounds for this turn
+  roundTimeoutMs?: number;  // Timeout for opening a round and for its final aggregated response
+  chunkTimeoutMs?: number;  // Maximum silence between streamed chunks within a round
+  orchestrationScope?: 'day' | 'week'; // Which proposal the rescue nudge asks for (default 'day')
+  usageKind?: UsageKind;    // How this turn's token usage is tagged (default 'orchestration' or 'chat')
+}
+
+/**
+ * AgentTrace: Structured record of what happened during one user turn
+ * DESIGN DECISION: Return the trace instead of only logging it
+ *
+ * Console logs are lost once the tab closes and are hard to assert against.
+ * Returning the rounds lets callers (debug UI, regression tooling) inspect exactly
+ * which tools ran, which were skipped as duplicates or blocked, and why the loop stopped.
+ */
+export type AgentToolCallStatus = 'executed' | 'duplicate' | 'blocked' | 'budget_exhausted' | 'invalid_args' | 'error';
+
+export interface AgentToolCallTrace {
+  name: string;
+  args: any;
+  status: AgentToolCallStatus;
+  result: any;
+  durationMs: number;
+}
+
+export interface AgentRoundTrace {
+  round: number;
+  kind: 'message' | 'tool_results' | 'nudge';
+  text: string;
+  toolCalls: AgentToolCallTrace[];
+  durationMs: number;
+  timedOut: boolean;
+}
+
+export type AgentStopReason = 'completed' | 'step_budget_exhausted' | 'timeout' | 'error';
+
+export interface AgentTrace {
+  rounds: AgentRoundTrace[];
+  steps: number;
+  maxSteps: number;
+  stopReason: AgentStopReason;
+  totalDurationMs: number;
+}
+
+/**
+ * AgentStreamEvent: What a caller of sendMessageStream observes, in order
+ * DESIGN DECISION: Typed events instead of a single text callback
+ *
+ * The UI used to receive text only once the whole turn had finished, leaving the
+ * user watching a placeholder for up to a minute of tool rounds. Events let it show
+ * text as it streams and each tool call as it runs. Per round the order is:
+ * text-delta* → (tool-call-started → tool-call-finished)* → round-complete.
+ * Exactly one 'done' ends every turn, including failed ones (after 'error').
+ *
+ * text-delta carries the round's text so far as well as the delta: a new round
+ * starts from empty text, and only the last round's text is the final answer.
+ */
+export type AgentStreamEvent =
+  | { type: 'text-delta'; round: number; delta: string; text: string }
+  | { type: 'tool-call-started'; round: number; callId: string; name: string; args: any }
+  | { type: 'tool-call-finished'; round: number; callId: string; call: AgentToolCallTrace }
+  | { type: 'round-complete'; round: AgentRoundTrace }
+  | { type: 'error'; message: string; recoverable: boolean }
+  | { type: 'done'; text: string; thought: string; trace: AgentTrace };
+
+/**
+ * Status prefix returned by executors when review mode staged a write instead of
+ * applying it. The loop uses it so fallback messages never claim a staged change is done.
+ */
+export const PENDING_APPROVAL_PREFIX = '⏸️ Pending user approval';
 
 /**
  * Generate fallback message when LLM response is missing after function calls
@@ -155,9 +285,60 @@ const getLifeContextTool: FunctionDeclaration = {
   },
 };
 
+/** A RecurrenceRule (RRULE subset); shared by scheduled tasks and add_task. */
+const recurrenceSchema: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    frequency: { type: SchemaType.STRING, enum: ['daily', 'weekly', 'monthly', 'yearly'], format: 'enum' },
+    interval: { type: SchemaType.INTEGER, description: 'Every N periods, e.g. 2 with weekly = every other week. Defaults to 1.' },
+    weekDays: { type: SchemaType.ARRAY, items: { type: SchemaType.NUMBER }, description: '0=Sunday..6=Saturday. Monthly/yearly: which weekday, combined with setPositions.' },
+    dayOfMonth: { type: SchemaType.NUMBER, description: '1-31, or -1 for the last day of the month.' },
+    months: { type: SchemaType.ARRAY, items: { type: SchemaType.NUMBER }, description: 'Yearly: months 1-12.' },
+    setPositions: { type: SchemaType.ARRAY, items: { type: SchemaType.NUMBER }, description: 'Which matching weekday of the month: [2] = 2nd, [-1] = last. E.g. "2nd Tuesday" = monthly, weekDays [2], setPositions [2].' },
+    until: { type: SchemaType.STRING, description: 'Last date (YYYY-MM-DD), if the series ends.' },
+    count: { type: SchemaType.INTEGER, description: 'Total number of occurrences, if the series ends after N times.' }
+  },
+  required: ['frequency']
+};
+
+/** One task in a proposed schedule (shared by day and week orchestration). */
+const scheduledTaskSchema: ObjectSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    id: { type: SchemaType.STRING },
+    gcal_id: { type: SchemaType.STRING },
+    title: { type: SchemaType.STRING },
+    type: { type: SchemaType.STRING, enum: ['fixed', 'flexible'], format: 'enum' },
+    time: { type: SchemaType.STRING },
+    duration: { type: SchemaType.STRING },
+    priority: { type: SchemaType.STRING, enum: ['high', 'medium', 'low'], format: 'enum' },
+    category: { type: SchemaType.STRING, enum: ['Career', 'Life', 'Health', 'Family'], format: 'enum' },
+    recurrence: recurrenceSchema,
+    linkedContact: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: 'Kinship Ledger contact key(s) linked to this task. Pass these through UNCHANGED from get_life_context — do NOT drop or alter them. Completing this task auto-logs a check-in for every contact listed.'
+    },
+    subtasks: {
+      type: SchemaType.ARRAY,
+      description: 'The task\'s checklist from get_life_context. To split a long flexible task into one block per open step, give each step a "time"; the task\'s own time is then its first block. Steps cannot be added or renamed here.',
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          id: { type: SchemaType.STRING },
+          title: { type: SchemaType.STRING },
+          time: { type: SchemaType.STRING, description: 'Start of this step\'s block, e.g. "2:00 PM".' }
+        },
+        required: ['title']
+      }
+    }
+  },
+  required: ['title', 'type', 'duration', 'priority', 'category']
+};
+
 const proposeOrchestrationTool: FunctionDeclaration = {
   name: 'propose_orchestration',
-  description: 'Submits a restructured day plan using ONLY the tasks returned by get_life_context. CRITICAL ANTI-HALLUCINATION RULES: (1) Every item in the schedule array MUST correspond to an actual task from get_life_context. (2) Do NOT invent, rename, or substitute tasks. (3) Fixed tasks with a set time MUST keep that time. (4) Flexible tasks may be reordered within optimal windows. (5) You may add brief unlisted break slots (e.g., 15-min buffer) but NEVER fabricate full work blocks. If >10 hours total, recommend moving low-priority tasks to future days using move_tasks.',
+  description: 'Submits a restructured day plan using ONLY the tasks returned by get_life_context. CRITICAL ANTI-HALLUCINATION RULES: (1) Every item in the schedule array MUST correspond to an actual task from get_life_context. (2) Do NOT invent, rename, or substitute tasks. (3) Fixed tasks with a set time MUST keep that time. (4) Flexible tasks may be reordered within optimal windows. (5) You may add brief unlisted break slots (e.g., 15-min buffer) but NEVER fabricate full work blocks. If >10 hours total, recommend moving low-priority tasks to future days using move_tasks. (6) A long flexible task with a checklist may be split into one block per open step via subtasks[].time.',
   parameters: {
     type: SchemaType.OBJECT,
     properties: {
@@ -166,36 +347,85 @@ const proposeOrchestrationTool: FunctionDeclaration = {
       schedule: {
         type: SchemaType.ARRAY,
         description: 'The complete list of tasks.',
+        items: scheduledTaskSchema,
+      }
+    },
+    required: ['optimized_timeline', 'reasoning', 'schedule'],
+  },
+};
+
+const getWeekContextTool: FunctionDeclaration = {
+  name: 'get_week_context',
+  description: 'Returns the tasks for each day of a 7-day window starting at start_date, each day\'s planned hours and overload flag, which tasks may move between days, and a balanced baseline week plan from the local planner (in propose_week_orchestration argument shape). Read-only. Call this first when the user asks to orchestrate or plan their week.',
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      start_date: { type: SchemaType.STRING, description: 'First day of the window (YYYY-MM-DD). Pass the Target Date from the Session Context unless the user named another start.' },
+    },
+  },
+};
+
+const getConflictsTool: FunctionDeclaration = {
+  name: 'get_conflicts',
+  description: 'Finds overlapping commitments: fixed events that overlap each other, and imported Google Calendar events that overlap any timed task. For each conflict it returns ready-made resolutions (move one side later, move it to the next day, shorten the earlier one, or decline one) with the update_task / move_tasks / delete_task call that applies it. Read-only. Call it in briefings, after calendar imports, and before adding a fixed event at a busy time; present the options and apply only the one the user picks.',
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      date: { type: SchemaType.STRING, description: 'First day to check (YYYY-MM-DD). Defaults to the Target Date.' },
+      days: { type: SchemaType.INTEGER, description: 'Number of days to check from date (1-31). Defaults to 1.' },
+    },
+  },
+};
+
+const proposeWeekOrchestrationTool: FunctionDeclaration = {
+  name: 'propose_week_orchestration',
+  description: 'Submits a multi-day plan built ONLY from tasks returned by get_week_context. Balance load and categories across days with explicit moves; each day\'s schedule must contain exactly that day\'s tasks after the moves (same anti-hallucination rules as propose_orchestration). Only tasks marked movable may move. Days you leave out keep their tasks unchanged. The user accepts the plan per day or as a whole.',
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      start_date: { type: SchemaType.STRING, description: 'First day of the window (YYYY-MM-DD), as passed to get_week_context.' },
+      reasoning: { type: SchemaType.STRING, description: 'How the week was balanced and why.' },
+      days: {
+        type: SchemaType.ARRAY,
+        description: 'One entry per day you are re-orchestrating.',
         items: {
           type: SchemaType.OBJECT,
           properties: {
-            id: { type: SchemaType.STRING },
-            gcal_id: { type: SchemaType.STRING },
-            title: { type: SchemaType.STRING },
-            type: { type: SchemaType.STRING, enum: ['fixed', 'flexible'], format: 'enum' },
-            time: { type: SchemaType.STRING },
-            duration: { type: SchemaType.STRING },
-            priority: { type: SchemaType.STRING, enum: ['high', 'medium', 'low'], format: 'enum' },
-            category: { type: SchemaType.STRING, enum: ['Career', 'Life', 'Health', 'Family'], format: 'enum' },
-            recurrence: {
-              type: SchemaType.OBJECT,
-              properties: {
-                frequency: { type: SchemaType.STRING, enum: ['daily', 'weekly', 'monthly'], format: 'enum' },
-                weekDays: { type: SchemaType.ARRAY, items: { type: SchemaType.NUMBER } },
-                dayOfMonth: { type: SchemaType.NUMBER }
-              }
-            },
-            linkedContact: {
-              type: SchemaType.ARRAY,
-              items: { type: SchemaType.STRING },
-              description: 'Kinship Ledger contact key(s) linked to this task. Pass these through UNCHANGED from get_life_context — do NOT drop or alter them. Completing this task auto-logs a check-in for every contact listed.'
-            }
+            date: { type: SchemaType.STRING, description: 'YYYY-MM-DD' },
+            optimized_timeline: { type: SchemaType.STRING, description: 'The hourly breakdown text for this day.' },
+            schedule: { type: SchemaType.ARRAY, description: 'The complete list of tasks for this day after moves.', items: scheduledTaskSchema },
           },
-          required: ['title', 'type', 'duration', 'priority', 'category']
-        }
-      }
+          required: ['date', 'optimized_timeline', 'schedule'],
+        },
+      },
+      moves: {
+        type: SchemaType.ARRAY,
+        description: 'Tasks moving from one day of the window to another.',
+        items: {
+          type: SchemaType.OBJECT,
+          properties: {
+            task_id: { type: SchemaType.STRING },
+            task_title: { type: SchemaType.STRING },
+            from_date: { type: SchemaType.STRING, description: 'YYYY-MM-DD' },
+            to_date: { type: SchemaType.STRING, description: 'YYYY-MM-DD' },
+            reason: { type: SchemaType.STRING },
+          },
+          required: ['task_title', 'from_date', 'to_date'],
+        },
+      },
+    },
+    required: ['start_date', 'reasoning', 'days'],
+  },
+};
+
+const getBaselineScheduleTool: FunctionDeclaration = {
+  name: 'get_baseline_schedule',
+  description: 'Runs the deterministic local scheduler on the tasks for a date and returns a baseline plan: fixed events anchored at their times, flexible tasks packed by priority into energy windows with buffers, plus overload and unscheduled-task flags. Read-only. During orchestration, call this after get_life_context, then adjust the baseline where you have better context (preferences, relationships) and submit it with propose_orchestration, explaining any changes.',
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: {
+      date: { type: SchemaType.STRING, description: 'The date to plan (YYYY-MM-DD). ALWAYS pass the exact Target Date from the Session Context.' },
     },
-    required: ['optimized_timeline', 'reasoning', 'schedule'],
   },
 };
 
@@ -216,6 +446,16 @@ const updateRelationshipStatusTool: FunctionDeclaration = {
   },
 };
 
+const DUE_DATE_DESCRIPTION = 'Deadline in YYYY-MM-DD format, when the task has one ("the report is due Friday"). Separate from `date`, the day it is planned for: unfinished flexible tasks roll over to the next day and gain priority as the deadline nears.';
+
+const DEPENDS_ON_DESCRIPTION = 'Titles (or ids) of existing tasks that must be done before this one. It then shows as blocked until they are completed, cannot be moved to a day before them, and is scheduled after them on the same day.';
+
+const dependsOnSchema: Schema = {
+  type: SchemaType.ARRAY,
+  items: { type: SchemaType.STRING },
+  description: DEPENDS_ON_DESCRIPTION,
+};
+
 const addTaskTool: FunctionDeclaration = {
     name: 'add_task',
     description: 'Adds a new task or event to the Life Inventory.',
@@ -228,21 +468,16 @@ const addTaskTool: FunctionDeclaration = {
         priority: { type: SchemaType.STRING, enum: ['high', 'medium', 'low'], format: 'enum' },
         category: { type: SchemaType.STRING, enum: ['Career', 'Life', 'Health', 'Family'], format: 'enum' },
         time: { type: SchemaType.STRING },
-        date: { type: SchemaType.STRING, description: 'Date in YYYY-MM-DD format. Defaults to today if omitted.' },
-        recurrence: {
-            type: SchemaType.OBJECT,
-            properties: {
-                frequency: { type: SchemaType.STRING, enum: ['daily', 'weekly', 'monthly'], format: 'enum' },
-                weekDays: { type: SchemaType.ARRAY, items: { type: SchemaType.NUMBER } },
-                dayOfMonth: { type: SchemaType.NUMBER }
-            }
-        },
+        date: { type: SchemaType.STRING, description: 'Date in YYYY-MM-DD format (relative expressions like "next tuesday" are resolved against the Target Date). Defaults to today if omitted.' },
+        recurrence: recurrenceSchema,
         linkedContact: {
           type: SchemaType.ARRAY,
           items: { type: SchemaType.STRING },
           description: "List of contact lowercase name/key(s) from the Kinship Ledger Roster for people involved in this task. Use a single-element array for one contact (e.g. ['sarah']), or multiple elements for tasks involving several people (e.g. ['mom', 'grandma'] for a family dinner). Completing the task auto-logs a check-in for EVERY contact in this list. REQUIRED for any task that involves calling, visiting, or meeting Kinship Ledger contacts."
         },
         completed: { type: SchemaType.BOOLEAN, description: 'Optional. Whether the task has been completed. Defaults to false.' },
+        depends_on: dependsOnSchema,
+        due_date: { type: SchemaType.STRING, description: DUE_DATE_DESCRIPTION },
       },
       required: ['title', 'type', 'duration', 'priority', 'category'],
     },
@@ -285,9 +520,44 @@ const saveMemoryTool: FunctionDeclaration = {
     }
 };
 
+const updateMemoryTool: FunctionDeclaration = {
+    name: 'update_memory',
+    description: 'Edits an existing long-term memory when a preference, decision or fact has changed (e.g. user switched from morning to evening workouts). Prefer this over saving a second, contradicting memory. Identify the memory by its id from the Memory Bank in the session context, or by a distinctive snippet of its content.',
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            memory_id: { type: SchemaType.STRING, description: 'The id shown in the Memory Bank (preferred).' },
+            match: { type: SchemaType.STRING, description: 'A snippet of the memory content, used when the id is unknown.' },
+            content: { type: SchemaType.STRING, description: 'The full replacement text.' },
+            type: { type: SchemaType.STRING, enum: ['preference', 'decision', 'fact'], format: 'enum' },
+            pinned: { type: SchemaType.BOOLEAN, description: 'Pin (true) to keep the memory permanently and always in context; unpin (false) to let it age out.' }
+        }
+    }
+};
+
+const forgetMemoryTool: FunctionDeclaration = {
+    name: 'forget_memory',
+    description: 'Deletes a long-term memory that is wrong or no longer true. Use when the user says to forget something or a memory is clearly obsolete. Identify it by id or by a distinctive snippet of its content.',
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            memory_id: { type: SchemaType.STRING, description: 'The id shown in the Memory Bank (preferred).' },
+            match: { type: SchemaType.STRING, description: 'A snippet of the memory content, used when the id is unknown.' }
+        }
+    }
+};
+
+/** Which occurrences of a recurring task update_task, complete_task and move_tasks change */
+const occurrenceScopeProperty: Schema = {
+    type: SchemaType.STRING,
+    enum: ['this', 'following', 'all'],
+    format: 'enum',
+    description: 'Recurring tasks only: "this" (default) changes just the one occurrence, "following" that occurrence and every later one, "all" the whole series. Use "this" unless the user clearly means the habit itself ("from now on", "every week").'
+};
+
 const moveTasksTool: FunctionDeclaration = {
     name: 'move_tasks',
-    description: 'Moves specific tasks to a new date. Use when detecting overload or user requests rescheduling.',
+    description: 'Moves specific tasks to a new date. Use when detecting overload or user requests rescheduling. A recurring task moves one occurrence by default (the one on from_date); see scope.',
     parameters: {
       type: SchemaType.OBJECT,
       properties: {
@@ -298,13 +568,33 @@ const moveTasksTool: FunctionDeclaration = {
         },
         target_date: { 
           type: SchemaType.STRING,
-          description: 'Target date in YYYY-MM-DD format'
-        }
+          description: 'Target date in YYYY-MM-DD format (relative expressions like "tomorrow" or "in two weeks" are resolved against the Target Date)'
+        },
+        from_date: {
+          type: SchemaType.STRING,
+          description: 'Recurring tasks only: date of the occurrence to move (YYYY-MM-DD). Defaults to the Target Date.'
+        },
+        scope: occurrenceScopeProperty
       },
       required: ['task_identifiers', 'target_date']
     }
 };
 
+const saveDayReviewTool: FunctionDeclaration = {
+    name: 'save_day_review',
+    description: 'Saves the end-of-day review for today or a past day: the user\'s mood and energy (1-5), a short journal entry in their own words and one takeaway. Planned vs completed tasks are compared automatically from the approved orchestration, so do not restate them. Call it once the user has answered the review questions; calling it again for the same day updates the review.',
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            date: { type: SchemaType.STRING, description: 'Day being reviewed (YYYY-MM-DD). Defaults to the Target Date.' },
+            mood: { type: SchemaType.INTEGER, description: '1 (rough) to 5 (great), as the user rated it.' },
+            energy: { type: SchemaType.INTEGER, description: '1 (drained) to 5 (peak), as the user rated it.' },
+            journal: { type: SchemaType.STRING, description: 'The user\'s journal entry, 1-3 sentences, close to their own words.' },
+            takeaway: { type: SchemaType.STRING, description: 'One lesson or adjustment to carry into the next days.' }
+        }
+    }
+};
+
 const logCheckinTool: FunctionDeclaration = {
     name: 'log_checkin',
     description: 'Records that the user contacted, spoke to, called, texted, or met with someone. Stamps last_contact to the current viewing date and auto-computes the new relationship status from the kinship debt formula. Use this (NOT update_relationship_status) whenever the user says they talked to, called, saw, or checked in with someone. For contacts not in the ledger, omit confirmed (or set false) to show a proposal card, or set confirmed: true only if the user explicitly asked to add them.',
@@ -339,6 +629,15 @@ const updateTaskTool: FunctionDeclaration = {
               description: 'Updated list of linked contact name/key(s). Replaces existing linkedContact array entirely.'
             },
             description: { type: SchemaType.STRING },
+            depends_on: {
+              type: SchemaType.ARRAY,
+              items: { type: SchemaType.STRING },
+              description: `${DEPENDS_ON_DESCRIPTION} Replaces the existing prerequisites; pass an empty array to remove them all.`
+            },
+            due_date: { type: SchemaType.STRING, description: `${DUE_DATE_DESCRIPTION} Omit to keep existing.` },
+            clear_due_date: { type: SchemaType.BOOLEAN, description: 'Set true to remove the deadline.' },
+            occurrence_date: { type: SchemaType.STRING, description: 'Recurring tasks only: date of the occurrence to change (YYYY-MM-DD). Defaults to the Target Date. With "date", the occurrence is rescheduled there.' },
+            scope: occurrenceScopeProperty,
         },
         required: ['task_title']
     }
@@ -350,12 +649,44 @@ const completeTaskTool: FunctionDeclaration = {
     parameters: {
         type: SchemaType.OBJECT,
         properties: {
-            task_title: { type: SchemaType.STRING, description: 'The title or partial title of the task to mark complete. Used for fuzzy matching against the task inventory.' }
+            task_title: { type: SchemaType.STRING, description: 'The title or partial title of the task to mark complete. Used for fuzzy matching against the task inventory.' },
+            occurrence_date: { type: SchemaType.STRING, description: 'Recurring tasks only: date of the occurrence that was done (YYYY-MM-DD). Defaults to the Target Date.' },
+            scope: occurrenceScopeProperty
         },
         required: ['task_title']
     }
 };
 
+const addSubtaskTool: FunctionDeclaration = {
+    name: 'add_subtask',
+    description: 'Adds a step to a task\'s checklist (e.g. "Gather W-2s" on "Tax prep"). Use it when the user breaks a task into steps; call it once per step, in order. On a recurring task the step is added to every occurrence.',
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            task_title: { type: SchemaType.STRING, description: 'The title (or partial match) of the task.' },
+            subtask_title: { type: SchemaType.STRING, description: 'The step to add.' },
+            duration: { type: SchemaType.STRING, description: 'Optional estimate for the step (e.g. "30m"). Steps without one share the rest of the task\'s duration.' },
+            occurrence_date: { type: SchemaType.STRING, description: 'Date the task is on (YYYY-MM-DD). Defaults to the Target Date.' },
+        },
+        required: ['task_title', 'subtask_title']
+    }
+};
+
+const completeSubtaskTool: FunctionDeclaration = {
+    name: 'complete_subtask',
+    description: 'Checks off one step of a task\'s checklist when the user reports finishing it ("got the W-2s together"). The task itself stays open; call complete_task when the whole task is done. Pass completed=false to uncheck a step.',
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            task_title: { type: SchemaType.STRING, description: 'The title (or partial match) of the task.' },
+            subtask_title: { type: SchemaType.STRING, description: 'The title (or partial match) of the step.' },
+            completed: { type: SchemaType.BOOLEAN, description: 'Defaults to true.' },
+            occurrence_date: { type: SchemaType.STRING, description: 'Recurring tasks only: date of the occurrence (YYYY-MM-DD). Defaults to the Target Date.' },
+        },
+        required: ['task_title', 'subtask_title']
+    }
+};
+
 /**
  * ToolExecutors Interface
  * DESIGN DECISION: Type-safe executor contract
@@ -370,15 +701,24 @@ interface ToolExecutors {
   getRelationshipStatus: () => Promise<RelationshipLedger>;
   getLifeContext: (args?: { date?: string }) => Promise<LifeInventory>;
   proposeOrchestration: (proposal: OrchestrationProposal) => Promise<string>;
+  getBaselineSchedule: (args?: { date?: string }) => Promise<any>;
+  getWeekContext: (args?: { start_date?: string }) => Promise<any>;
+  getConflicts: (args?: { date?: string; days?: number }) => Promise<any>;
+  proposeWeekOrchestration: (args: WeekToolArgs) => Promise<string>;
   updateRelationshipStatus: (args: UpdateRelationshipArgs) => Promise<string>;
   logCheckin: (args: LogCheckinArgs) => Promise<string>;
-  completeTask: (args: { task_title: string }) => Promise<string>;
+  completeTask: (args: { task_title: string; occurrence_date?: string; scope?: OccurrenceScope }) => Promise<string>;
   updateTask: (args: { task_title: string; [key: string]: any }) => Promise<string>;
-  addTask: (task: Omit<Task, 'id'>) => Promise<string>;
+  addTask: (task: Omit<Task, 'id'> & { depends_on?: string[]; due_date?: string }) => Promise<string>;
   deleteTask: (title: string) => Promise<string>;
   deleteRelationshipStatus: (name: string) => Promise<string>;
   saveMemory: (content: string, type: 'preference' | 'decision' | 'fact') => Promise<string>;
-  moveTasks: (taskIdentifiers: string[], targetDate: string) => Promise<string>;
+  updateMemory: (args: { memory_id?: string; match?: string; content?: string; type?: 'preference' | 'decision' | 'fact'; pinned?: boolean }) => Promise<string>;
+  forgetMemory: (args: { memory_id?: string; match?: string }) => Promise<string>;
+  moveTasks: (taskIdentifiers: string[], targetDate: string, fromDate?: string, scope?: OccurrenceScope) => Promise<string>;
+  saveDayReview: (args: { date?: string; mood?: number; energy?: number; journal?: string; takeaway?: string }) => Promise<string>;
+  addSubtask: (args: { task_title: string; subtask_title: string; duration?: string; occurrence_date?: string }) => Promise<string>;
+  completeSubtask: (args: { task_title: string; subtask_title: string; completed?: boolean; occurrence_date?: string }) => Promise<string>;
 }
 
 /**
@@ -386,10 +726,12 @@ interface ToolExecutors {
  * DESIGN DECISION: Stateful service with session management
  * 
  * The service maintains:
- * - model: Configured GenerativeModel instance
- * - chat: Current ChatSession (maintains context across messages)
+ * - provider: The LLM backend (Gemini in production, scripted fixtures offline)
+ * - chat: Current chat session (maintains context across messages)
  * - currentTemporalMode: Used to inject mode-specific instructions
  * - abortController: Enables request cancellation
+ * - sessionUsage: Tokens spent since startNewSession, reported per call to the usage listener
+ * - profileInstructions: The user's compiled prompt profile, applied at the next startNewSession
  * 
  * State is necessary here because:
  * 1. Chat sessions maintain conversation history in Gemini's memory
@@ -397,12 +739,23 @@ interface ToolExecutors {
  * 3. Abort controllers must be accessible across async boundaries
  */
 export class GeminiService {
-  private genAI: GoogleGenerativeAI;
-  private model: GenerativeModel;
-  chat: ChatSession | null = null; // Made public for session validation
+  private provider: LLMProvider;
+  chat: LLMChatSession | null = null; // Made public for session validation
   private tools: FunctionDeclaration[];
   private currentTemporalMode: 'reflection' | 'active' | 'planning' = 'active';
   private abortController: AbortController | null = null;
+  // What the current chat was opened with, for compaction restarts and the usage report
+  private sessionContext = '';
+  private contextTrims: ContextTrim[] = [];
+  private summarizedTurns = 0;
+  // The session's Target Date (YYYY-MM-DD); relative dates in tool arguments resolve against it
+  private anchorDate = new Date().toLocaleDateString('en-CA');
+  // Token usage: every response is reported to the listener and summed per session
+  private usageListener: ((call: UsageCall) => void) | null = null;
+  private sessionId = '';
+  private sessionUsage: UsageTotals = { calls: 0, promptTokens: 0, candidateTokens: 0, totalTokens: 0 };
+  // USER PROFILE block from the active prompt profile ('' for the defaults)
+  private profileInstructions = '';
 
   /**
    * Reset the chat session - used when switching dates to prevent context bleed
@@ -418,14 +771,8 @@ export class GeminiService {
     console.log('[GeminiService] Session reset - will reinitialize on next message');
   }
 
-  // Proxy base URL: all Gemini requests go through our server so the real API key
-  // never reaches the browser bundle. In production the Express server injects the key;
-  // in development Vite's proxy does the same from .env.local.
-  private static readonly PROXY_BASE = `${typeof window !== 'undefined' ? window.location.origin : ''}/api/gemini`;
-
-  constructor() {
-    // 'server-proxy' is a placeholder — the proxy strips it and injects the real key.
-    this.genAI = new GoogleGenerativeAI('server-proxy');
+  constructor(provider: LLMProvider = new GeminiProvider()) {
+    this.provider = provider;
     
     /**
      * Tool Registration
@@ -442,6 +789,10 @@ export class GeminiService {
       getRelationshipStatusTool, 
       getLifeContextTool, 
       proposeOrchestrationTool,
+      getBaselineScheduleTool,
+      getWeekContextTool,
+      proposeWeekOrchestrationTool,
+      getConflictsTool,
       updateRelationshipStatusTool,
       logCheckinTool,
       completeTaskTool,
@@ -450,15 +801,72 @@ export class GeminiService {
       deleteTaskTool,
       deleteRelationshipStatusTool,
       saveMemoryTool,
-      moveTasksTool
+      updateMemoryTool,
+      forgetMemoryTool,
+      moveTasksTool,
+      saveDayReviewTool,
+      addSubtaskTool,
+      completeSubtaskTool
     ];
-    
-    // Initialize a default model to avoid undefined errors if used before session start,
-    // though startNewSession should always be called.
-    this.model = this.genAI.getGenerativeModel(
-      { model: "gemini-2.5-pro" },
-      { baseUrl: GeminiService.PROXY_BASE }
-    );
+  }
+
+  /**
+   * Swap the LLM backend (e.g. scripted fixtures for offline demo mode).
+   * The current session belongs to the old provider, so it is dropped; the next
+   * startNewSession() opens a chat on the new one.
+   */
+  setProvider(provider: LLMProvider) {
+    if (provider === this.provider) return;
+    this.resetSession();
+    this.provider = provider;
+    console.log(`[GeminiService] LLM provider set to ${provider.id}`);
+  }
+
+  /**
+   * Use a prompt profile for sessions started from now on. The open chat keeps the
+   * instructions it was started with; callers reset the session to apply a change.
+   */
+  setPromptProfile(profile: PromptProfile) {
+    this.profileInstructions = compileProfileInstructions(profile);
+  }
+
+  get providerId(): string {
+    return this.provider.id;
+  }
+
+  /** Receive one UsageCall per model response (App persists them; see usageTracker.ts). */
+  setUsageListener(listener: ((call: UsageCall) => void) | null) {
+    this.usageListener = listener;
+  }
+
+  /** Tokens spent since the current session was started. */
+  getSessionUsage(): UsageTotals {
+    return { ...this.sessionUsage };
+  }
+
+  /**
+   * Account for one response. Providers that report nothing (or a failed call)
+   * record nothing; the calendar day is the real one, not the viewed date.
+   */
+  private recordUsage(kind: UsageKind, usage: LLMUsageMetadata | undefined) {
+    if (!usage) return;
+    const promptTokens = usage.promptTokenCount ?? 0;
+    const candidateTokens = usage.candidatesTokenCount ?? 0;
+    const call: UsageCall = {
+      kind,
+      sessionId: this.sessionId,
+      date: new Date().toLocaleDateString('en-CA'),
+      promptTokens,
+      candidateTokens,
+      totalTokens: usage.totalTokenCount ?? promptTokens + candidateTokens,
+    };
+    this.sessionUsage = {
+      calls: this.sessionUsage.calls + 1,
+      promptTokens: this.sessionUsage.promptTokens + call.promptTokens,
+      candidateTokens: this.sessionUsage.candidateTokens + call.candidateTokens,
+      totalTokens: this.sessionUsage.totalTokens + call.totalTokens,
+    };
+    try { this.usageListener?.(call); } catch (e) { console.error('Usage listener failed:', e); }
   }
 
   private detectTemporalMode(context: string): 'reflection' | 'active' | 'planning' {
@@ -518,7 +926,13 @@ export class GeminiService {
     }
   }
 
-  startNewSession(initialTimeContext?: string) {
+  /**
+   * @param trimmed Lines the caller dropped from the session context to fit its budget
+   *                (reported by getContextUsage)
+   * @param anchorDate The Target Date as YYYY-MM-DD; relative dates in tool arguments
+   *                   resolve against it (defaults to the real today)
+   */
+  startNewSession(initialTimeContext?: string, trimmed: ContextTrim[] = [], anchorDate: string = new Date().toLocaleDateString('en-CA')) {
     const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
     let context = initialTimeContext || "";
     
@@ -552,21 +966,129 @@ User Timezone: ${timezone}`;
     
     console.log(`[Temporal Mode Detection] Mode: ${this.currentTemporalMode.toUpperCase()}`);
 
-    // Initialize model HERE with the dynamic system instruction. 
-    // Passing systemInstruction to getGenerativeModel allows the SDK to format it correctly as Content.
-    const finalSystemInstruction = SYSTEM_INSTRUCTION + temporalInstruction + "\n\n" + context;
-    console.log("Initializing Gemini Session with System Instruction:", finalSystemInstruction);
-    
-    this.model = this.genAI.getGenerativeModel(
-      {
-        model: "gemini-2.5-pro",
-        systemInstruction: finalSystemInstruction,
-        tools: [{ functionDeclarations: this.tools }],
-      },
-      { baseUrl: GeminiService.PROXY_BASE }
-    );
+    // Open the chat HERE with the dynamic system instruction.
+    const finalSystemInstruction = SYSTEM_INSTRUCTION + temporalInstruction + this.profileInstructions + "\n\n" + context;
+    console.log(`Initializing ${this.provider.id} Session with System Instruction:`, finalSystemInstruction);
 
-    this.chat = this.model.startChat({});
+    this.sessionContext = context;
+    this.anchorDate = anchorDate;
+    this.contextTrims = trimmed;
+    this.summarizedTurns = 0;
+    this.sessionId = `session-${Date.now()}`;
+    this.sessionUsage = { calls: 0, promptTokens: 0, candidateTokens: 0, totalTokens: 0 };
+    this.chat = this.provider.startChat({
+      systemInstruction: finalSystemInstruction,
+      tools: this.tools,
+    });
+  }
+
+  private get systemInstruction(): string {
+    return SYSTEM_INSTRUCTION + this.getTemporalModeInstruction(this.currentTemporalMode) + this.profileInstructions + "\n\n" + this.sessionContext;
+  }
+
+  /**
+   * Rolling Summarization
+   * DESIGN DECISION: Compact between turns, never inside one
+   *
+   * Runs before a new user turn is sent. When the history exceeds its budget, the
+   * older turns are summarized by a tool-less one-off chat (extractively when the
+   * provider is offline or the call fails) and the session is restarted with the
+   * synopsis plus the most recent turns. Compacting mid-turn could separate a
+   * functionCall from its functionResponse, which the API rejects.
+   */
+  private async compactHistoryIfNeeded() {
+    const chat = this.chat;
+    if (!chat) return;
+    const history = await chat.getHistory();
+    const plan = planHistoryCompaction(history);
+    if (!plan) return;
+
+    let synopsis = '';
+    if (this.provider.requiresNetwork) {
+      try {
+        const summarizer = this.provider.startChat({ systemInstruction: CONVERSATION_SYNOPSIS_INSTRUCTION, tools: [] });
+        const result = await withTimeout(
+          summarizer.sendMessage(formatTranscript(plan.older)),
+          SYNOPSIS_TIMEOUT,
+          `Synopsis timeout after ${SYNOPSIS_TIMEOUT / 1000} seconds`
+        );
+        this.recordUsage('synopsis', result.response.usageMetadata);
+        synopsis = result.response.text().trim();
+      } catch (e) {
+        console.warn('📝 Synopsis generation failed, using extractive synopsis:', e);
+      }
+    }
+    if (!synopsis) synopsis = extractiveSynopsis(plan.older);
+
+    // The session may have been reset (date change) while the summarizer ran.
+    if (this.chat !== chat) return;
+    this.chat = this.provider.startChat({
+      systemInstruction: this.systemInstruction,
+      tools: this.tools,
+      history: buildCompactedHistory(synopsis, plan.recent),
+    });
+    this.summarizedTurns += plan.summarizedTurns;
+    console.log(`📝 Compacted history: ${plan.summarizedTurns} turn(s) → synopsis (~${estimateTokens(synopsis)} tokens), kept ${plan.recent.length} recent entries`);
+  }
+
+  /**
+   * Narrative for a weekly/monthly retrospective, written by a tool-less one-off chat
+   * from the locally computed statistics. Independent of the day's session. Returns
+   * null when the provider is offline or the call fails; the report then uses its
+   * own summary.
+   */
+  async generateRetrospectiveNarrative(statistics: string): Promise<string | null> {
+    if (!this.provider.requiresNetwork) return null;
+    try {
+      const writer = this.provider.startChat({ systemInstruction: RETROSPECTIVE_NARRATIVE_INSTRUCTION, tools: [] });
+      const result = await withTimeout(
+        writer.sendMessage(statistics),
+        RETROSPECTIVE_TIMEOUT,
+        `Retrospective timeout after ${RETROSPECTIVE_TIMEOUT / 1000} seconds`
+      );
+      this.recordUsage('retrospective', result.response.usageMetadata);
+      return result.response.text().trim() || null;
+    } catch (e) {
+      console.warn('📊 Retrospective narrative failed, using local summary:', e);
+      return null;
+    }
+  }
+
+  /**
+   * Per-section token usage of what the model receives on the next turn.
+   * Sections are chars/4 estimates; measuredTotal is the provider's count when it answers.
+   */
+  async getContextUsage(): Promise<ContextUsageReport> {
+    const history = this.chat ? await this.chat.getHistory() : [];
+    const synopsisTurns = history.filter(isSynopsisTurn);
+    const sections = [
+      { id: 'system', label: 'Core instructions', tokens: estimateTokens(SYSTEM_INSTRUCTION) },
+      { id: 'temporal', label: `Temporal mode (${this.currentTemporalMode})`, tokens: estimateTokens(this.getTemporalModeInstruction(this.currentTemporalMode)) },
+      { id: 'profile', label: 'User profile', tokens: estimateTokens(this.profileInstructions) },
+      ...measureContextSections(this.sessionContext),
+      { id: 'tools', label: 'Tool declarations', tokens: estimateTokens(JSON.stringify(this.tools)) },
+      { id: 'synopsis', label: 'Conversation synopsis', tokens: historyTokens(synopsisTurns) },
+      { id: 'history', label: 'Conversation history', tokens: historyTokens(history.filter(c => !isSynopsisTurn(c))) },
+    ].filter(s => s.tokens > 0);
+
+    let measuredTotal: number | undefined;
+    if (this.chat) {
+      try {
+        measuredTotal = await this.provider.countTokens(`${this.systemInstruction}\n${JSON.stringify(this.tools)}\n${formatTranscript(history)}`);
+      } catch (e) {
+        console.warn('Context usage count failed', e);
+      }
+    }
+
+    return {
+      sections,
+      total: sections.reduce((sum, s) => sum + s.tokens, 0),
+      measuredTotal,
+      sessionBudget: SESSION_CONTEXT_BUDGET_TOKENS,
+      historyBudget: HISTORY_BUDGET_TOKENS,
+      trimmed: this.contextTrims,
+      summarizedTurns: this.summarizedTurns,
+    };
   }
 
   // Reuse retry logic
@@ -589,20 +1111,174 @@ User Timezone: ${timezone}`;
     }
   }
 
+  /**
+   * Tool Dispatch
+   * DESIGN DECISION: One dispatcher for every round
+   *
+   * Maps a Gemini function call onto the matching executor. Both the streaming
+   * loop and the non-streaming sendMessage route through here, so adding a tool
+   * means touching exactly one switch instead of one if/else chain per round.
+   */
+  /** Check a call's arguments against its declaration (see toolArgValidation.ts). */
+  private validateToolCall(name: string, args: any): ToolArgValidationResult {
+    const declaration = this.tools.find(t => t.name === name);
+    return declaration ? validateToolArgs(declaration, args, this.anchorDate) : { ok: true, args, errors: [], normalized: [] };
+  }
+
+  private async dispatchToolCall(name: string, args: any, executors: ToolExecutors): Promise<any> {
+    switch (name) {
+      case 'get_relationship_status': return await executors.getRelationshipStatus();
+      case 'get_life_context': return await executors.getLifeContext(args);
+      case 'propose_orchestration': return { status: await executors.proposeOrchestration(args) };
+      case 'get_baseline_schedule': return await executors.getBaselineSchedule(args);
+      case 'get_week_context': return await executors.getWeekContext(args);
+      case 'get_conflicts': return await executors.getConflicts(args);
+      case 'propose_week_orchestration': return { status: await executors.proposeWeekOrchestration(args) };
+      case 'update_relationship_status': return { status: await executors.updateRelationshipStatus(args) };
+      case 'log_checkin': return { status: await executors.logCheckin(args) };
+      case 'complete_task': return { status: await executors.completeTask(args) };
+      case 'update_task': return { status: await executors.updateTask(args) };
+      case 'add_task': return { status: await executors.addTask(args) };
+      case 'delete_task': return { status: await executors.deleteTask(args.title) };
+      case 'delete_relationship_status': return { status: await executors.deleteRelationshipStatus(args.person_name) };
+      case 'save_memory': return { status: await executors.saveMemory(args.content, args.type) };
+      case 'update_memory': return { status: await executors.updateMemory(args) };
+      case 'forget_memory': return { status: await executors.forgetMemory(args) };
+      case 'move_tasks': return { status: await executors.moveTasks(args.task_identifiers, args.target_date, args.from_date, args.scope) };
+      case 'save_day_review': return { status: await executors.saveDayReview(args) };
+      case 'add_subtask': return { status: await executors.addSubtask(args) };
+      case 'complete_subtask': return { status: await executors.completeSubtask(args) };
+      default: return { error: `Unknown tool: ${name}` };
+    }
+  }
+
+  /**
+   * Stream a single model round with timeout protection.
+   * Every await on the network (opening the stream, each chunk, the aggregated
+   * response) is bounded, so a stalled connection fails this round instead of
+   * hanging the whole turn.
+   */
+  private async streamRound(
+    payload: Array<string | Part>,
+    roundTimeout: number,
+    chunkTimeout: number,
+    usageKind: UsageKind,
+    onDelta: (delta: string, text: string) => void
+  ): Promise<{ text: string; calls: Array<{ name: string; args: any }>; timedOut: boolean }> {
+    const result = await withTimeout(
+      this.chat!.sendMessageStream(payload),
+      roundTimeout,
+      `Stream timeout: no response after ${roundTimeout / 1000} seconds`
+    );
+
+    let text = "";
+    let timedOut = false;
+    const iterator = result.stream[Symbol.asyncIterator]();
+    while (true) {
+      let next: IteratorResult<any>;
+      try {
+        next = await withTimeout(
+          iterator.next(),
+          chunkTimeout,
+          `Stream timeout: No chunks received for ${chunkTimeout / 1000} seconds`
+        );
+      } catch (e) {
+        // A silent stream after some text is recoverable: keep what arrived and stop the round.
+        if (text) {
+          console.warn(`⏰ Chunk timeout after partial text (waited ${chunkTimeout / 1000}s)`);
+          return { text, calls: [], timedOut: true };
+        }
+        throw e;
+      }
+      if (next.done) break;
+      const chunkText = next.value.text();
+      if (chunkText) {
+        text += chunkText;
+        onDelta(chunkText, text);
+      }
+    }
+
+    const response = await withTimeout(
+      result.response,
+      roundTimeout,
+      `Timed out waiting for complete response after ${roundTimeout / 1000} seconds`
+    );
+    this.recordUsage(usageKind, response.usageMetadata);
+    const calls = (response.functionCalls() || []).map(c => ({ name: c.name, args: c.args as any }));
+    return { text, calls, timedOut };
+  }
+
+  /**
+   * Send the not-executed results for calls the loop will not run. The API rejects
+   * the next message while the history ends on a functionCall without its
+   * functionResponse. The model gets this one reply; if it calls tools yet again
+   * (or the send fails), that dangling turn is replaced with a text note so the
+   * history stays valid. Returns the reply's text ('' when there is none).
+   */
+  private async settleUnansweredCalls(responses: Part[], usageKind: UsageKind): Promise<string> {
+    const chat = this.chat;
+    if (!chat || responses.length === 0) return '';
+    try {
+      const result = await withTimeout(
+        chat.sendMessage(responses),
+        STREAM_TIMEOUT,
+        `Timed out answering unexecuted tool calls after ${STREAM_TIMEOUT / 1000} seconds`
+      );
+      this.recordUsage(usageKind, result.response.usageMetadata);
+      if (!result.response.functionCalls()?.length) return result.response.text();
+      console.warn('🛑 Model called tools again after the step budget was exhausted - dropping those calls from the history');
+    } catch (e) {
+      console.warn('🛑 Failed to answer unexecuted tool calls - dropping them from the history:', e);
+    }
+    // The session may have been reset (date change) while the reply was pending.
+    if (this.chat !== chat) return '';
+    const history = await chat.getHistory();
+    const last = history[history.length - 1];
+    if (last?.role !== 'model' || !last.parts.some(p => p.functionCall)) return '';
+    const text = last.parts.map(p => p.text ?? '').join('').trim();
+    this.chat = this.provider.startChat({
+      systemInstruction: this.systemInstruction,
+      tools: this.tools,
+      history: [...history.slice(0, -1), { role: 'model', parts: [{ text: text || '(Stopped: the step budget for this turn was exhausted.)' }] }],
+    });
+    return text;
+  }
+
+  /**
+   * Multi-Round Agent Loop
+   * DESIGN DECISION: Keep going until the model stops calling tools
+   *
+   * Each round streams the model's answer; if it requested tools, they are executed
+   * and their results fed back as the next round. The loop ends when:
+   * - the model answers with text only ('completed'),
+   * - the step budget is spent ('step_budget_exhausted'),
+   * - a later round stalls ('timeout').
+   *
+   * Cross-round guarantees preserved from the original fixed-round flow:
+   * - Identical calls (order-insensitive args) execute at most once per turn
+   * - propose_orchestration is blocked unless the user asked to orchestrate
+   * - If an orchestration turn ends without a proposal, one rescue nudge is sent
+   * - A fallback summary is shown when the model goes quiet after writes
+   *
+   * Progress is reported through onEvent as it happens (see AgentStreamEvent);
+   * the final round's text is the answer, and the full per-round trace is both
+   * sent with 'done' and returned to the caller.
+   */
   async sendMessageStream(
     message: string, 
     media: string | null, 
     executors: ToolExecutors,
-    onUpdate: (text: string, thought: string) => void,
+    onEvent: (event: AgentStreamEvent) => void,
     currentTimeString?: string,
     isOrchestration: boolean = false,
-    onComplete?: (text: string, thought: string) => void
-  ): Promise<{ text: string, thought: string }> {
+    options: AgentLoopOptions = {}
+  ): Promise<{ text: string, thought: string, trace: AgentTrace }> {
     // Ensure session exists - if not, throw error as session should be initialized by caller
     if (!this.chat) {
       console.error('[GeminiService] No active chat session when sendMessageStream called');
       throw new Error('Chat session not initialized. Please call startNewSession() first with proper context.');
     }
+    await this.compactHistoryIfNeeded();
 
     const parts: Array<string | Part> = [];
     if (media) {
@@ -621,14 +1297,18 @@ User Timezone: ${timezone}`;
       console.log('🎼 ORCHESTRATION MODE: Using extended timeout (60s stream, 45s chunks)');
     }
     
-    // Use extended timeouts for orchestration
-    const streamTimeout = isOrchestration ? ORCHESTRATION_STREAM_TIMEOUT : STREAM_TIMEOUT;
-    const chunkTimeout = isOrchestration ? ORCHESTRATION_CHUNK_TIMEOUT : CHUNK_TIMEOUT;
+    // Use extended timeouts and budget for orchestration unless the caller overrides them
+    const roundTimeout = options.roundTimeoutMs ?? (isOrchestration ? ORCHESTRATION_STREAM_TIMEOUT : STREAM_TIMEOUT);
+    const chunkTimeout = options.chunkTimeoutMs ?? (isOrchestration ? ORCHESTRATION_CHUNK_TIMEOUT : CHUNK_TIMEOUT);
+    const maxSteps = Math.max(1, options.maxSteps ?? (isOrchestration ? ORCHESTRATION_MAX_AGENT_STEPS : DEFAULT_MAX_AGENT_STEPS));
+    const usageKind = options.usageKind ?? (isOrchestration ? 'orchestration' : 'chat');
     
     let accumulatedText = "";
     let accumulatedThought = "";
     let proposedOrchestration = false; // Track if propose_orchestration was successfully called
     const executedFingerprints = new Set<string>(); // Dedup guard: prevent identical tool calls from running twice in one turn
+    const executedCalls: Array<{ name: string; args: any }> = []; // All executed calls this turn, for fallback messages
+    let stagedCount = 0; // Write calls held for user approval (review mode)
     // Produce a stable fingerprint regardless of key insertion order (Gemini can return identical
     // args with different key orderings across stream rounds, defeating naive JSON.stringify dedup)
     const stableFingerprint = (name: string, args: any): string => {
@@ -637,334 +1317,203 @@ User Timezone: ${timezone}`;
         return `${name}:${JSON.stringify(sorted)}`;
     };
 
+    const turnStart = Date.now();
+    const trace: AgentTrace = { rounds: [], steps: 0, maxSteps, stopReason: 'completed', totalDurationMs: 0 };
+    // A throwing listener must not abort the turn (tools may already have run)
+    const emit = (event: AgentStreamEvent) => {
+        try { onEvent(event); } catch (e) { console.error('Stream event listener failed:', e); }
+    };
+    const completeRound = (roundTrace: AgentRoundTrace, roundStart: number) => {
+        roundTrace.durationMs = Date.now() - roundStart;
+        emit({ type: 'round-complete', round: roundTrace });
+    };
+
     try {
-        const result = await this.chat!.sendMessageStream(parts);
-        
-        let functionCallParts: any[] = []; // Store function calls to execute
-        let lastChunkTime = Date.now();
-
-        for await (const chunk of result.stream) {
-            // Check for chunk timeout
-            if (Date.now() - lastChunkTime > chunkTimeout) {
-                console.error(`⎰ Stream timeout: No chunks received for ${chunkTimeout/1000} seconds`);
-                throw new Error(`Stream timeout: No chunks received for ${chunkTimeout/1000} seconds`);
-            }
-            lastChunkTime = Date.now();
-            
-            // Check for thoughts (if model supports it via specific output, otherwise assume standard text)
-            // Note: Standard Gemini doesn't separate "thought" in the API response like the preview SDK might have simulated.
-            // We'll treat all text as text for now, unless we prompt for explicit thought blocks.
-            // However, existing logic parsed 'thought'. We will adapt.
-            
-            const chunkText = chunk.text();
-            if (chunkText) {
-                accumulatedText += chunkText;
-                // onUpdate suppressed — instantaneous mode: text surfaces once at end via finally
-            }
-            
-            // Check for function calls in the chunk (aggregated at end usually, but inspecting)
-            const calls = chunk.functionCalls();
-            if (calls && calls.length > 0) {
-                 functionCallParts.push(...calls);
-            }
-        }
-        
-        // Wait for full response to properly handle function calls (with timeout)
-        console.log('✅ Text streaming complete. Checking for function calls...');
-        const finalResponse = await withTimeout(
-            result.response,
-            streamTimeout,
-            `Timed out waiting for complete response after ${streamTimeout/1000} seconds`
-        );
-        const finalCalls = finalResponse.functionCalls();
+        let payload: Array<string | Part> = parts;
+        let kind: AgentRoundTrace['kind'] = 'message';
+        let nudged = false;
 
-        if (finalCalls && finalCalls.length > 0) {
-            console.log(`📞 AI called ${finalCalls.length} function(s):`, finalCalls.map(c => c.name).join(', '));
-            
-            const functionResponses = [];
-            const executedCalls: any[] = []; // Track executed calls for fallback
-            
-            for (const call of finalCalls) {
-                 let res: any = {};
-                 try {
-                     const args = call.args as any;
-                     const _fp = stableFingerprint(call.name, args);
-                     if (executedFingerprints.has(_fp)) {
-                         console.log(`⏭️ Skipping duplicate tool call: ${call.name}`);
-                         res = { status: 'already_executed_this_turn' };
-                     } else {
-                     executedFingerprints.add(_fp);
-                     executedCalls.push({ name: call.name, args }); // Track this call
-                     
-                     if (call.name === 'get_relationship_status') res = await executors.getRelationshipStatus();
-                     else if (call.name === 'get_life_context') res = await executors.getLifeContext(args);
-                     else if (call.name === 'propose_orchestration') {
-                         if (!isOrchestration) {
-                             // Block auto-orchestration — only allowed on explicit user request
-                             console.warn('🚫 Blocked propose_orchestration during non-orchestration interaction');
-                             res = { status: 'not_executed: orchestration is only allowed when the user explicitly requests it. Recommend clicking Orchestrate Day instead.' };
-                         } else {
-                             res = { status: await executors.proposeOrchestration(args) };
-                             proposedOrchestration = true;
-                         }
-                     }
-                     else if (call.name === 'update_relationship_status') res = { status: await executors.updateRelationshipStatus(args) };
-                     else if (call.name === 'log_checkin') res = { status: await executors.logCheckin(args) };
-                     else if (call.name === 'complete_task') res = { status: await executors.completeTask(args) };
-                     else if (call.name === 'update_task') res = { status: await executors.updateTask(args) };
-                     else if (call.name === 'add_task') res = { status: await executors.addTask(args) };
-                     else if (call.name === 'delete_task') res = { status: await executors.deleteTask(args.title) };
-                     else if (call.name === 'delete_relationship_status') res = { status: await executors.deleteRelationshipStatus(args.person_name) };
-                     else if (call.name === 'save_memory') res = { status: await executors.saveMemory(args.content, args.type) };
-                     else if (call.name === 'move_tasks') res = { status: await executors.moveTasks(args.task_identifiers, args.target_date) };
-                     } // end dedup guard
-                 } catch(e) { res = { error: "Failed" }; }
-                 
-                 // Standard SDK expects specific response format
-                 functionResponses.push({
-                    functionResponse: {
-                        name: call.name,
-                        response: { result: res }
-                    }
-                 });
+        while (true) {
+            const roundStart = Date.now();
+            const roundNumber = trace.rounds.length + 1;
+            let roundResult;
+            try {
+                roundResult = await this.streamRound(payload, roundTimeout, chunkTimeout, usageKind, (delta, text) =>
+                    emit({ type: 'text-delta', round: roundNumber, delta, text })
+                );
+            } catch (e) {
+                // First round failures propagate (nothing to show); later rounds degrade to the fallback summary
+                if (roundNumber === 1 || !(e instanceof Error && e.message.toLowerCase().includes('timeout'))) throw e;
+                console.warn(`⏰ Round ${roundNumber} timed out - using what we have`);
+                const timedOutRound: AgentRoundTrace = { round: roundNumber, kind, text: '', toolCalls: [], durationMs: 0, timedOut: true };
+                trace.rounds.push(timedOutRound);
+                emit({ type: 'error', message: e.message, recoverable: true });
+                completeRound(timedOutRound, roundStart);
+                trace.stopReason = 'timeout';
+                accumulatedText = "";
+                break;
             }
-            
-            // Functions executed — UI update deferred to finally block (instantaneous mode)
-            console.log('✅ All functions executed. Continuing to next stream round...');
-            
-            // Send function responses (with timeout protection)
-            console.log('🔄 Sending function results back to AI for next action...');
-            const functionResult = await this.chat!.sendMessageStream(functionResponses);
-            
-            lastChunkTime = Date.now();
-            let secondStreamHadContent = false;
-            
-            // Reset accumulation: only show the final round's text (instantaneous mode)
-            accumulatedText = "";
+
+            // Reset accumulation: only the final round's text is the answer
+            accumulatedText = roundResult.text;
             accumulatedThought = "";
-            
-            for await (const chunk of functionResult.stream) {
-                // Check for chunk timeout in second stream
-                const timeout = isOrchestration ? chunkTimeout : CHUNK_TIMEOUT;
-                if (Date.now() - lastChunkTime > timeout) {
-                    console.warn(`Second stream timeout - using fallback message (waited ${timeout/1000}s)`);
-                    break; // Exit gracefully
-                }
-                lastChunkTime = Date.now();
-                
-                const chunkText = chunk.text();
-                if (chunkText) {
-                    accumulatedText += chunkText;
-                    // onUpdate suppressed — instantaneous mode
-                    secondStreamHadContent = true;
-                }
-            }
-            
-            // CRITICAL: Check if second stream ALSO has function calls (e.g., propose_orchestration after reading context)
-            const secondResponse = await withTimeout(
-                functionResult.response,
-                streamTimeout,
-                `Second stream timed out after ${streamTimeout/1000}s`
-            );
-            const secondCalls = secondResponse.functionCalls();
-            
-            if (secondCalls && secondCalls.length > 0) {
-                console.log(`🔁 Second stream has ${secondCalls.length} MORE function call(s):`, secondCalls.map(c => c.name).join(', '));
-                
-                const secondFunctionResponses = [];
-                const secondExecutedCalls: any[] = [];
-                
-                for (const call of secondCalls) {
-                    let res: any = {};
-                    try {
-                        const args = call.args as any;
-                        const _fp2 = stableFingerprint(call.name, args);
-                        if (executedFingerprints.has(_fp2)) {
-                            console.log(`⏭️ Skipping duplicate tool call: ${call.name}`);
-                            res = { status: 'already_executed_this_turn' };
-                        } else {
-                        executedFingerprints.add(_fp2);
-                        secondExecutedCalls.push({ name: call.name, args });
-                        
-                        if (call.name === 'get_relationship_status') res = await executors.getRelationshipStatus();
-                        else if (call.name === 'get_life_context') res = await executors.getLifeContext(args);
-                        else if (call.name === 'propose_orchestration') {
-                            if (!isOrchestration) {
-                                // Block auto-orchestration — only allowed on explicit user request
-                                console.warn('🚫 Blocked propose_orchestration during non-orchestration interaction (second batch)');
-                                res = { status: 'not_executed: orchestration is only allowed when the user explicitly requests it. Recommend clicking Orchestrate Day instead.' };
-                            } else {
-                                res = { status: await executors.proposeOrchestration(args) };
-                                proposedOrchestration = true;
-                            }
-                        }
-                        else if (call.name === 'update_relationship_status') res = { status: await executors.updateRelationshipStatus(args) };
-                        else if (call.name === 'log_checkin') res = { status: await executors.logCheckin(args) };
-                        else if (call.name === 'complete_task') res = { status: await executors.completeTask(args) };
-                        else if (call.name === 'update_task') res = { status: await executors.updateTask(args) };
-                        else if (call.name === 'add_task') res = { status: await executors.addTask(args) };
-                        else if (call.name === 'delete_task') res = { status: await executors.deleteTask(args.title) };
-                        else if (call.name === 'delete_relationship_status') res = { status: await executors.deleteRelationshipStatus(args.person_name) };
-                        else if (call.name === 'save_memory') res = { status: await executors.saveMemory(args.content, args.type) };
-                        else if (call.name === 'move_tasks') res = { status: await executors.moveTasks(args.task_identifiers, args.target_date) };
-                        } // end dedup guard
-                    } catch(e) { res = { error: "Failed" }; }
-                    
-                    secondFunctionResponses.push({
-                        functionResponse: {
-                            name: call.name,
-                            response: { result: res }
-                        }
-                    });
+            const roundTrace: AgentRoundTrace = {
+                round: roundNumber,
+                kind,
+                text: roundResult.text,
+                toolCalls: [],
+                durationMs: 0,
+                timedOut: roundResult.timedOut
+            };
+            trace.rounds.push(roundTrace);
+
+            if (roundResult.calls.length === 0) {
+                completeRound(roundTrace, roundStart);
+                if (roundResult.timedOut) {
+                    trace.stopReason = 'timeout';
+                    break;
                 }
-                
-                // Functions executed — UI update deferred to finally block (instantaneous mode)
-                console.log('✅ Second function batch executed. Continuing to final stream round...');
-                
-                // Send second batch of function responses
-                console.log('🔄 Sending second batch of function results back to AI...');
-                const thirdResult = await this.chat!.sendMessageStream(secondFunctionResponses);
-                
-                lastChunkTime = Date.now();
-                // Reset accumulation before round 3: only the final round's text is shown
-                accumulatedText = "";
-                accumulatedThought = "";
-                
-                for await (const chunk of thirdResult.stream) {
-                    const timeout = isOrchestration ? chunkTimeout : CHUNK_TIMEOUT;
-                    if (Date.now() - lastChunkTime > timeout) {
-                        console.warn(`Third stream timeout (waited ${timeout/1000}s)`);
-                        break;
-                    }
-                    lastChunkTime = Date.now();
-                    
-                    const chunkText = chunk.text();
-                    if (chunkText) {
-                        accumulatedText += chunkText;
-                        // onUpdate suppressed — instantaneous mode
-                        secondStreamHadContent = true;
-                    }
+
+                // ORCHESTRATION RESCUE: If orchestration was requested but propose_orchestration was
+                // never called (AI acknowledged but forgot to propose), forcefully nudge it once.
+                if (isOrchestration && !proposedOrchestration && !nudged && trace.steps < maxSteps) {
+                    console.warn('⚠️ ORCHESTRATION RESCUE: propose_orchestration was never called. Sending forced nudge...');
+                    nudged = true;
+                    payload = [options.orchestrationScope === 'week' ? WEEK_ORCHESTRATION_NUDGE : ORCHESTRATION_NUDGE];
+                    kind = 'nudge';
+                    continue;
                 }
-                
-                // If still no content after second function batch, generate fallback
-                if (!secondStreamHadContent || accumulatedText.trim().length < 10) {
-                    const fallbackMsg = generateFallbackMessage(secondExecutedCalls);
-                    if (fallbackMsg) {
-                        console.log('Generating fallback after second function batch:', fallbackMsg);
-                        accumulatedText = fallbackMsg;
-                        onUpdate(accumulatedText, accumulatedThought);
-                    }
+                if (nudged && !proposedOrchestration) {
+                    console.warn('⚠️ ORCHESTRATION RESCUE: AI still did not call propose_orchestration after nudge.');
                 }
-            } else if (!secondStreamHadContent || accumulatedText.trim().length < 10) {
-                // No second function calls, check if we need fallback for first batch
-                const fallbackMsg = generateFallbackMessage(executedCalls);
-                if (fallbackMsg) {
-                    console.log('Generating fallback message:', fallbackMsg);
-                    accumulatedText = fallbackMsg;
-                    onUpdate(accumulatedText, accumulatedThought);
+                if (trace.steps === 0) {
+                    console.log('ℹ️ No function calls detected in response. AI provided text only.');
                 }
+                // A text answer after the budget ran out still ended the turn early.
+                if (trace.stopReason !== 'step_budget_exhausted') trace.stopReason = 'completed';
+                break;
             }
 
-            // ORCHESTRATION RESCUE: If orchestration was requested but propose_orchestration was
-            // never called (AI acknowledged but forgot to propose), forcefully nudge it.
-            if (isOrchestration && !proposedOrchestration) {
-                console.warn('⚠️ ORCHESTRATION RESCUE: propose_orchestration was never called. Sending forced nudge...');
-                const nudgeResult = await this.chat!.sendMessageStream(
-                    ['[SYSTEM OVERRIDE: You acknowledged the orchestration request but did not call propose_orchestration. You MUST call propose_orchestration RIGHT NOW with a complete schedule for this day. This is mandatory — do not output any more text, just call propose_orchestration immediately.]']
-                );
+            // Budget check happens before executing: calls beyond the budget are answered
+            // as not executed so the model can still wrap up in words.
+            const overBudget = trace.steps >= maxSteps;
+            console.log(`📞 Round ${roundNumber}: AI called ${roundResult.calls.length} function(s):`, roundResult.calls.map(c => c.name).join(', '));
 
-                // Reset accumulation before nudge stream
-                accumulatedText = "";
-                accumulatedThought = "";
-                
-                for await (const chunk of nudgeResult.stream) {
-                    if (Date.now() - lastChunkTime > chunkTimeout) break;
-                    lastChunkTime = Date.now();
-                    const chunkText = chunk.text();
-                    if (chunkText) { accumulatedText += chunkText; /* onUpdate suppressed — instantaneous mode */ }
+            const functionResponses: Part[] = [];
+            for (const [callIndex, call] of roundResult.calls.entries()) {
+                const callStart = Date.now();
+                const callId = `${roundNumber}-${callIndex}`;
+                emit({ type: 'tool-call-started', round: roundNumber, callId, name: call.name, args: call.args });
+                let res: any = {};
+                let status: AgentToolCallStatus = 'executed';
+                try {
+                    // Fingerprint the normalized arguments so "2h" and "2 hours" count as the same call
+                    const validation = this.validateToolCall(call.name, call.args);
+                    const args = validation.ok ? validation.args : call.args;
+                    const _fp = stableFingerprint(call.name, args);
+                    if (overBudget) {
+                        status = 'budget_exhausted';
+                        res = { status: STEP_BUDGET_NOT_EXECUTED };
+                    } else if (!validation.ok) {
+                        status = 'invalid_args';
+                        res = { error: formatToolArgErrors(call.name, validation.errors) };
+                    } else if (executedFingerprints.has(_fp)) {
+                        console.log(`⏭️ Skipping duplicate tool call: ${call.name}`);
+                        status = 'duplicate';
+                        res = { status: 'already_executed_this_turn' };
+                    } else if (ORCHESTRATION_TOOLS.has(call.name) && !isOrchestration) {
+                        // Block auto-orchestration — only allowed on explicit user request
+                        console.warn('🚫 Blocked propose_orchestration during non-orchestration interaction');
+                        status = 'blocked';
+                        res = { status: 'not_executed: orchestration is only allowed when the user explicitly requests it. Recommend clicking Orchestrate Day instead.' };
+                    } else {
+                        executedFingerprints.add(_fp);
+                        res = await this.dispatchToolCall(call.name, args, executors);
+                        if (typeof res?.status === 'string' && res.status.startsWith(PENDING_APPROVAL_PREFIX)) stagedCount++;
+                        else executedCalls.push({ name: call.name, args });
+                        if (ORCHESTRATION_TOOLS.has(call.name)) proposedOrchestration = true;
+                    }
+                } catch (e) {
+                    status = 'error';
+                    res = { error: "Failed" };
                 }
 
-                const nudgeResponse = await withTimeout(
-                    nudgeResult.response,
-                    ORCHESTRATION_STREAM_TIMEOUT,
-                    'Orchestration rescue nudge timed out'
-                );
-                const nudgeCalls = nudgeResponse.functionCalls();
-
-                if (nudgeCalls && nudgeCalls.length > 0) {
-                    console.log(`🚨 ORCHESTRATION RESCUE: Got ${nudgeCalls.length} call(s):`, nudgeCalls.map(c => c.name).join(', '));
-                    const nudgeResponses = [];
-
-                    for (const call of nudgeCalls) {
-                        let res: any = {};
-                        try {
-                            const args = call.args as any;
-                            const _fpN = stableFingerprint(call.name, args);
-                            if (executedFingerprints.has(_fpN)) {
-                                console.log(`⏭️ Skipping duplicate tool call: ${call.name}`);
-                                res = { status: 'already_executed_this_turn' };
-                            } else {
-                            executedFingerprints.add(_fpN);
-                            if (call.name === 'get_relationship_status') res = await executors.getRelationshipStatus();
-                            else if (call.name === 'get_life_context') res = await executors.getLifeContext(args);
-                            else if (call.name === 'propose_orchestration') { res = { status: await executors.proposeOrchestration(args) }; proposedOrchestration = true; }
-                            else if (call.name === 'update_relationship_status') res = { status: await executors.updateRelationshipStatus(args) };
-                            else if (call.name === 'log_checkin') res = { status: await executors.logCheckin(args) };
-                            else if (call.name === 'complete_task') res = { status: await executors.completeTask(args) };
-                            else if (call.name === 'update_task') res = { status: await executors.updateTask(args) };
-                            else if (call.name === 'add_task') res = { status: await executors.addTask(args) };
-                            else if (call.name === 'delete_task') res = { status: await executors.deleteTask(args.title) };
-                            else if (call.name === 'move_tasks') res = { status: await executors.moveTasks(args.task_identifiers, args.target_date) };
-                            else if (call.name === 'save_memory') res = { status: await executors.saveMemory(args.content, args.type) };
-                            } // end dedup guard
-                        } catch(e) { res = { error: 'Failed' }; }
-                        nudgeResponses.push({ functionResponse: { name: call.name, response: { result: res } } });
+                const callTrace: AgentToolCallTrace = { name: call.name, args: call.args, status, result: res, durationMs: Date.now() - callStart };
+                roundTrace.toolCalls.push(callTrace);
+                emit({ type: 'tool-call-finished', round: roundNumber, callId, call: callTrace });
+                // Standard SDK expects specific response format
+                functionResponses.push({
+                    functionResponse: {
+                        name: call.name,
+                        response: { result: res }
                     }
+                });
+            }
+            completeRound(roundTrace, roundStart);
 
-                    // Functions executed — UI update deferred to finally block (instantaneous mode)
-                    // Reset accumulation before nudge final stream
-                    accumulatedText = "";
-                    accumulatedThought = "";
-                    const nudgeFinal = await this.chat!.sendMessageStream(nudgeResponses);
-                    for await (const chunk of nudgeFinal.stream) {
-                        const chunkText = chunk.text();
-                        if (chunkText) { accumulatedText += chunkText; /* onUpdate suppressed — instantaneous mode */ }
-                    }
-                } else {
-                    console.warn('⚠️ ORCHESTRATION RESCUE: AI still did not call propose_orchestration after nudge.');
+            if (overBudget) {
+                // One last wrap-up round is allowed so the model can explain. Calls it makes after
+                // that are answered as not executed, so the history never ends on an unanswered call.
+                if (trace.stopReason === 'step_budget_exhausted') {
+                    const closingText = await this.settleUnansweredCalls(functionResponses, usageKind);
+                    if (closingText.trim()) accumulatedText = closingText;
+                    break;
                 }
+                console.warn(`🛑 Step budget (${maxSteps}) exhausted - asking the model to wrap up`);
+                trace.stopReason = 'step_budget_exhausted';
+            } else {
+                trace.steps++;
+            }
+
+            console.log('🔄 Sending function results back to AI for next action...');
+            payload = functionResponses;
+            kind = 'tool_results';
+        }
+
+        // If the model went quiet after doing work, summarize the writes ourselves
+        if ((executedCalls.length > 0 || stagedCount > 0) && accumulatedText.trim().length < 10) {
+            const fallbackMsg = [
+                generateFallbackMessage(executedCalls),
+                stagedCount > 0 ? `I've staged ${stagedCount} change${stagedCount === 1 ? '' : 's'} for your review.` : ''
+            ].filter(Boolean).join(' ');
+            if (fallbackMsg) {
+                console.log('Generating fallback message:', fallbackMsg);
+                accumulatedText = fallbackMsg;
             }
-        } else {
-            console.log('ℹ️ No function calls detected in response. AI provided text only.');
         }
-        
     } catch(e) {
         console.error("🚨 Stream error:", e);
-        // If it's a timeout during second stream and we have accumulated text, that's acceptable
-        if (e instanceof Error && e.message.includes('timeout') && accumulatedText) {
+        trace.stopReason = 'error';
+        const partial = e instanceof Error && e.message.toLowerCase().includes('timeout') && !!accumulatedText;
+        emit({ type: 'error', message: e instanceof Error ? e.message : String(e), recoverable: partial });
+        // If a round timed out and we have accumulated text, that's acceptable
+        if (partial) {
             console.warn('⚠️ Stream timed out but returning partial content:', accumulatedText.substring(0, 100) + '...');
-            return { text: accumulatedText, thought: accumulatedThought };
+            trace.stopReason = 'timeout';
+            trace.totalDurationMs = Date.now() - turnStart;
+            return { text: accumulatedText, thought: accumulatedThought, trace };
         }
         throw e;
     } finally {
-        // Commit the final text to UI exactly once (instantaneous mode — no per-chunk updates).
-        // onComplete fires immediately after to flush pending proposals/contacts in the same React batch.
-        onUpdate(accumulatedText, accumulatedThought);
-        if (onComplete) {
-            onComplete(accumulatedText, accumulatedThought);
-        }
+        trace.totalDurationMs = Date.now() - turnStart;
+        console.log(`🧭 Agent turn finished: ${trace.stopReason} after ${trace.rounds.length} round(s), ${trace.steps}/${maxSteps} tool step(s)`);
+        // Always the last event: carries the final text (possibly a fallback summary) so the
+        // caller can commit it and flush pending proposals/contacts in the same React batch.
+        emit({ type: 'done', text: accumulatedText, thought: accumulatedThought, trace });
     }
 
-    return { text: accumulatedText, thought: accumulatedThought };
+    return { text: accumulatedText, thought: accumulatedThought, trace };
   }
 
   async sendMessage(
     message: string, 
     media: string | null, 
     executors: ToolExecutors,
-    currentTimeString?: string
+    currentTimeString?: string,
+    options: AgentLoopOptions = {}
   ): Promise<{ text: string, thought: string }> {
     if (!this.chat) this.startNewSession();
+    await this.compactHistoryIfNeeded();
 
     const parts: Array<string | Part> = [];
     if (media) {
@@ -979,34 +1528,31 @@ User Timezone: ${timezone}`;
     parts.push(message + `\n\n[System Note: Current Local Time is ${timeStr}. ${modeReminder}]`);
 
     let accumulatedThought = "";
+    const maxSteps = Math.max(1, options.maxSteps ?? DEFAULT_MAX_AGENT_STEPS);
     
     try {
+        const usageKind = options.usageKind ?? 'chat';
         let result = await this.retry(() => this.chat!.sendMessage(parts));
         let response = await result.response;
+        this.recordUsage(usageKind, response.usageMetadata);
         
         let functionCalls = response.functionCalls();
         const executedCalls: any[] = []; // Track executed calls for fallback
+        let steps = 0;
         
-        while (functionCalls && functionCalls.length > 0) {
+        while (functionCalls && functionCalls.length > 0 && steps < maxSteps) {
+            steps++;
             const functionResponses = [];
             for (const call of functionCalls) {
                 let res: any = {};
                 try {
-                     const args = call.args as any;
-                     executedCalls.push({ name: call.name, args }); // Track this call
-                     
-                     if (call.name === 'get_relationship_status') res = await executors.getRelationshipStatus();
-                     else if (call.name === 'get_life_context') res = await executors.getLifeContext(args);
-                     else if (call.name === 'propose_orchestration') res = { status: await executors.proposeOrchestration(args) };
-                     else if (call.name === 'update_relationship_status') res = { status: await executors.updateRelationshipStatus(args) };
-                     else if (call.name === 'log_checkin') res = { status: await executors.logCheckin(args) };
-                     else if (call.name === 'complete_task') res = { status: await executors.completeTask(args) };
-                     else if (call.name === 'update_task') res = { status: await executors.updateTask(args) };
-                     else if (call.name === 'add_task') res = { status: await executors.addTask(args) };
-                     else if (call.name === 'delete_task') res = { status: await executors.deleteTask(args.title) };
-                     else if (call.name === 'delete_relationship_status') res = { status: await executors.deleteRelationshipStatus(args.person_name) };
-                     else if (call.name === 'save_memory') res = { status: await executors.saveMemory(args.content, args.type) };
-                     else if (call.name === 'move_tasks') res = { status: await executors.moveTasks(args.task_identifiers, args.target_date) };
+                     const validation = this.validateToolCall(call.name, call.args);
+                     if (!validation.ok) {
+                         res = { error: formatToolArgErrors(call.name, validation.errors) };
+                     } else {
+                         executedCalls.push({ name: call.name, args: validation.args }); // Track this call
+                         res = await this.dispatchToolCall(call.name, validation.args, executors);
+                     }
                 } catch (e) { res = { error: "Failed to execute tool" }; }
                 
                 functionResponses.push({
@@ -1018,10 +1564,16 @@ User Timezone: ${timezone}`;
             }
             result = await this.retry(() => this.chat!.sendMessage(functionResponses));
             response = await result.response;
+            this.recordUsage(usageKind, response.usageMetadata);
             functionCalls = response.functionCalls();
         }
 
         let responseText = response.text();
+        if (functionCalls && functionCalls.length > 0) {
+            console.warn(`🛑 Step budget (${maxSteps}) exhausted in sendMessage - answering further tool calls as not executed`);
+            const closingText = await this.settleUnansweredCalls(functionCalls.map(notExecutedResponse), usageKind);
+            if (closingText.trim()) responseText = closingText;
+        }
         
         // If response is empty after function calls, generate fallback
         if (executedCalls.length > 0 && (!responseText || responseText.trim().length < 10)) {
@@ -1042,8 +1594,7 @@ User Timezone: ${timezone}`;
 
   async countTokens(text: string): Promise<number> {
     try {
-        const response = await this.model.countTokens(text);
-        return response.totalTokens;
+        return await this.provider.countTokens(text);
     } catch (e) {
         console.warn("Count tokens failed", e);
         return 0;
@@ -20,8 +20,10 @@
  *    technical errors into actionable user instructions.
  * 
  * 4. **Recurrence Mapping**:
- *    Maps Google Calendar's RRULE format to our simplified RecurrenceRule format.
- *    Supports daily, weekly, and monthly patterns.
+ *    Maps Google Calendar's RRULE/EXDATE lines to RecurrenceRule and back via
+ *    services/recurrence.ts (interval, until, count, "2nd Tuesday", yearly, exceptions).
+ *    listEvents expands instances (singleEvents), so each series' master event is
+ *    fetched once for its rule; an imported recurring event becomes one series task.
  * 
  * 5. **CSRF Protection**:
  *    Generates random state tokens to prevent cross-site request forgery attacks
@@ -34,10 +36,15 @@
  * Both libraries are loaded dynamically to avoid blocking initial page load.
  */
 
-import { Task, RecurrenceRule, GoogleCalendarEvent, EventAttendee, ConferenceData, ConferenceEntryPoint, EventOrganizer } from "../types";
+import { Task, GoogleCalendarEvent, EventAttendee, ConferenceData, ConferenceEntryPoint, EventOrganizer } from "../types";
+
+import { describeRecurrence, nextOccurrence, parseRRule, toRRule } from "./recurrence";
+import { clockMinutes, formatDurationBetween, formatMinutesAsDuration, formatMinutesAsTime, taskDurationMinutes, taskStartMinutes, withTimeFields } from "./timeParsing";
 
 const DISCOVERY_DOC = 'https://www.googleapis.com/discovery/v1/apis/calendar/v3/rest';
 const SCOPES = 'https://www.googleapis.com/auth/calendar.events';
+const DEFAULT_EXPORT_START = 9 * 60; // 9:00 AM for tasks without a time
+const DEFAULT_EXPORT_MINUTES = 60;
 
 export class GoogleCalendarService {
   private tokenClient: any = null;
@@ -258,6 +265,8 @@ export class GoogleCalendarService {
         orderBy: 'startTime',
       });
 
+      const masters = await this.fetchRecurringMasters(response.result.items || []);
+
       return (response.result.items || []).map((event: any): GoogleCalendarEvent => ({
         id: event.id,
         summary: event.summary || 'Untitled',
@@ -297,7 +306,8 @@ export class GoogleCalendarService {
           self: event.organizer.self,
         } : undefined,
         recurringEventId: event.recurringEventId,
-        recurrence: event.recurrence,
+        recurrence: event.recurrence || masters.get(event.recurringEventId)?.recurrence,
+        seriesStart: event.recurringEventId ? this.toDateKey(masters.get(event.recurringEventId)?.start) : undefined,
         colorId: event.colorId,
         status: event.status,
       }));
@@ -306,9 +316,36 @@ export class GoogleCalendarService {
     }
   }
 
+  /**
+   * Fetch the master event of every recurring series among `items`, keyed by id.
+   * Instances from singleEvents=true carry no RRULE; a failed lookup just leaves
+   * that series without one (it then imports as single events).
+   */
+  private async fetchRecurringMasters(items: any[]): Promise<Map<string, any>> {
+    const ids = [...new Set(items.map(e => e.recurringEventId).filter((id: string | undefined) => !!id))] as string[];
+    const masters = new Map<string, any>();
+    for (const eventId of ids) {
+      try {
+        const response = await window.gapi.client.calendar.events.get({ calendarId: 'primary', eventId });
+        masters.set(eventId, response.result);
+      } catch (err) {
+        console.warn(`Could not load recurring event ${eventId}`, err);
+      }
+    }
+    return masters;
+  }
+
+  /** Local YYYY-MM-DD of a Google start/end value */
+  private toDateKey(value?: { dateTime?: string; date?: string }): string | undefined {
+    if (value?.date) return value.date;
+    return value?.dateTime ? new Date(value.dateTime).toLocaleDateString('en-CA') : undefined;
+  }
+
   /**
    * Convert GoogleCalendarEvent to Task for import
-   * Simplifies the rich event data into our task structure
+   * Simplifies the rich event data into our task structure. An event with a
+   * supported RRULE becomes one recurring series task (id = the series' id), so
+   * selecting several of its instances imports it once.
    */
   public convertEventToTask(event: GoogleCalendarEvent): Task {
     const start = event.start.dateTime || event.start.date;
@@ -316,19 +353,23 @@ export class GoogleCalendarService {
     const end = event.end.dateTime || event.end.date;
     const endDateObj = new Date(end!);
     
-    const duration = this.calculateDuration(startDateObj, endDateObj);
+    const duration = formatDurationBetween(startDateObj, endDateObj) ?? '0m';
     const time = event.start.dateTime 
-      ? startDateObj.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      ? formatMinutesAsTime(clockMinutes(startDateObj))
       : undefined;
-
-    return {
-      id: event.id,
-      gcal_id: event.id,
-      gcal_recurring_id: event.recurringEventId,
+    const date = this.toDateKey(event.start)!;
+    const recurrence = event.recurrence ? parseRRule(event.recurrence, event.seriesStart || date) : null;
+    const seriesId = event.recurringEventId || event.id;
+
+    return withTimeFields({
+      id: recurrence ? seriesId : event.id,
+      gcal_id: recurrence ? seriesId : event.id,
+      gcal_recurring_id: recurrence ? seriesId : event.recurringEventId,
       title: event.summary,
       type: 'fixed',
       time,
-      date: startDateObj.toISOString().split('T')[0],
+      date: recurrence ? undefined : date,
+      recurrence: recurrence || undefined,
       duration,
       priority: 'medium',
       category: 'Life',
@@ -337,50 +378,14 @@ export class GoogleCalendarService {
       attendees: event.attendees,
       conferenceData: event.conferenceData,
       organizer: event.organizer,
-    };
-  }
-
-  /**
-   * Calculate human-readable duration from start and end dates
-   */
-  private calculateDuration(start: Date, end: Date): string {
-    const diffMs = end.getTime() - start.getTime();
-    const hrs = Math.floor(diffMs / 3600000);
-    const mins = Math.round((diffMs % 3600000) / 60000);
-    
-    if (hrs > 0 && mins > 0) return `${hrs}h ${mins}m`;
-    if (hrs > 0) return `${hrs}h`;
-    return `${mins}m`;
+    });
   }
 
   /**
    * Get human-readable recurrence pattern from RRULE
    */
   public getRecurrencePattern(recurrence?: string[]): string | null {
-    if (!recurrence || recurrence.length === 0) return null;
-    
-    const rrule = recurrence[0];
-    if (rrule.includes('FREQ=DAILY')) return 'Daily';
-    if (rrule.includes('FREQ=WEEKLY')) return 'Weekly';
-    if (rrule.includes('FREQ=MONTHLY')) return 'Monthly';
-    if (rrule.includes('FREQ=YEARLY')) return 'Yearly';
-    
-    return 'Recurring';
-  }
-
-  private mapRecurrenceToRRule(rule: RecurrenceRule): string {
-    const freq = rule.frequency.toUpperCase();
-    let rrule = `RRULE:FREQ=${freq}`;
-    
-    if (rule.frequency === 'weekly' && rule.weekDays) {
-      const days = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
-      const byDay = rule.weekDays.map(d => days[d]).join(',');
-      rrule += `;BYDAY=${byDay}`;
-    } else if (rule.frequency === 'monthly' && rule.dayOfMonth) {
-      rrule += `;BYMONTHDAY=${rule.dayOfMonth}`;
-    }
-    
-    return rrule;
+    return describeRecurrence(recurrence);
   }
 
   public async exportTasks(tasks: Task[], date: Date): Promise<Task[]> {
@@ -394,9 +399,17 @@ export class GoogleCalendarService {
         continue;
       }
 
-      const [h, m] = this.parseTimeString(task.time || "09:00 AM");
-      const start = new Date(`${dateStr}T${h}:${m}:00`);
-      const end = new Date(start.getTime() + this.parseDurationToMs(task.duration));
+      // Tasks without a time go in at 9:00 AM; unreadable strings are reported, not guessed silently
+      const startMinutes = taskStartMinutes(task);
+      const lengthMinutes = taskDurationMinutes(task);
+      if (startMinutes === null && task.time) console.warn(`Export: unreadable time "${task.time}" for "${task.title}", using ${formatMinutesAsTime(DEFAULT_EXPORT_START)}`);
+      if (lengthMinutes === null) console.warn(`Export: unreadable duration "${task.duration}" for "${task.title}", using ${formatMinutesAsDuration(DEFAULT_EXPORT_MINUTES)}`);
+      const clock = startMinutes ?? DEFAULT_EXPORT_START;
+      const [h, m] = [Math.floor(clock / 60), clock % 60].map(n => n.toString().padStart(2, '0'));
+      // A series starts at its first occurrence, so INTERVAL and COUNT line up with ours
+      const startKey = task.recurrence?.start ? nextOccurrence(task.recurrence, task.recurrence.start) || dateStr : dateStr;
+      const start = new Date(`${startKey}T${h}:${m}:00`);
+      const end = new Date(start.getTime() + (lengthMinutes ?? DEFAULT_EXPORT_MINUTES) * 60000);
 
       const resource: any = {
         summary: task.title,
@@ -406,7 +419,7 @@ export class GoogleCalendarService {
       };
 
       if (task.recurrence) {
-        resource.recurrence = [this.mapRecurrenceToRRule(task.recurrence)];
+        resource.recurrence = toRRule(task.recurrence, { time: `${h}${m}00`, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone });
       }
 
       try {
@@ -432,24 +445,4 @@ export class GoogleCalendarService {
     
     return updatedTasks;
   }
-
-  private parseTimeString(time: string): [string, string] {
-    const match = time.match(/(\d+):(\d+)\s*(AM|PM)?/i);
-    if (!match) return ['09', '00'];
-    let h = parseInt(match[1]);
-    const m = match[2];
-    const ampm = match[3]?.toUpperCase();
-    if (ampm === 'PM' && h < 12) h += 12;
-    if (ampm === 'AM' && h === 12) h = 0;
-    return [h.toString().padStart(2, '0'), m.padStart(2, '0')];
-  }
-
-  private parseDurationToMs(duration: string): number {
-    const h = duration.match(/(\d+)h/);
-    const m = duration.match(/(\d+)m/);
-    let ms = 0;
-    if (h) ms += parseInt(h[1]) * 3600000;
-    if (m) ms += parseInt(m[1]) * 60000;
-    return ms || 3600000;
-  }
 }
@@ -0,0 +1,82 @@
+/**
+ * DESIGN DECISION: Versioned Inventory Migrations
+ *
+ * `life_inventory` has no version field of its own (LifeInventory is used as-is
+ * everywhere), so its schema version is stored next to it under
+ * INVENTORY_VERSION_KEY. Data without one is version 1, the original format.
+ *
+ * On load, every migration newer than the stored version runs in order. Each step
+ * is a pure function over the inventory that also fills a report, so the app can
+ * tell the user what it could not convert instead of silently guessing:
+ *
+ * - v2: canonical `startMinutes`/`durationMinutes` next to the time and duration
+ *   strings (see timeParsing.ts). Strings that cannot be parsed are kept, listed
+ *   in the report, and the task simply has no number for them.
+ *
+ * syncTimeFields() is the same derivation for every later write; App and the
+ * replay host run it on each inventory commit.
+ */
+
+import { LifeInventory, Task } from "../types";
+import { withTimeFields } from "./timeParsing";
+
+export const INVENTORY_SCHEMA_VERSION = 2;
+export const INVENTORY_VERSION_KEY = 'life_inventory_version';
+
+export interface UnparsedTaskField {
+  id: string;
+  title: string;
+  field: 'time' | 'duration';
+  value: string;
+}
+
+export interface InventoryMigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  updatedTasks: number;
+  unparsed: UnparsedTaskField[];
+}
+
+type Migration = (inv: LifeInventory, report: InventoryMigrationReport) => LifeInventory;
+
+const mapTasks = (inv: LifeInventory, fn: (task: Task) => Task): LifeInventory => {
+  const fixed = inv.fixed.map(fn);
+  const flexible = inv.flexible.map(fn);
+  const changed = fixed.some((t, i) => t !== inv.fixed[i]) || flexible.some((t, i) => t !== inv.flexible[i]);
+  return changed ? { fixed, flexible } : inv;
+};
+
+/** Migrations keyed by the version they produce */
+const MIGRATIONS: Record<number, Migration> = {
+  2: (inv, report) => mapTasks(inv, task => {
+    const next = withTimeFields(task);
+    if (next !== task) report.updatedTasks++;
+    if (task.time?.trim() && next.startMinutes === undefined) report.unparsed.push({ id: task.id, title: task.title, field: 'time', value: task.time });
+    if (next.durationMinutes === undefined) report.unparsed.push({ id: task.id, title: task.title, field: 'duration', value: task.duration ?? '' });
+    return next;
+  }),
+};
+
+/** Bring an inventory stored at `fromVersion` up to INVENTORY_SCHEMA_VERSION. */
+export const migrateInventory = (inv: LifeInventory, fromVersion: number): { inventory: LifeInventory; report: InventoryMigrationReport } => {
+  const report: InventoryMigrationReport = { fromVersion, toVersion: INVENTORY_SCHEMA_VERSION, updatedTasks: 0, unparsed: [] };
+  let inventory = inv;
+  for (let version = fromVersion + 1; version <= INVENTORY_SCHEMA_VERSION; version++) {
+    inventory = MIGRATIONS[version]?.(inventory, report) ?? inventory;
+  }
+  return { inventory, report };
+};
+
+/** Stored schema version; inventories saved before versioning are version 1. */
+export const readInventoryVersion = (storage: Pick<Storage, 'getItem'>): number =>
+  parseInt(storage.getItem(INVENTORY_VERSION_KEY) || '1', 10) || 1;
+
+/** Re-derive the minute fields of changed tasks; returns `inv` itself when nothing changed. */
+export const syncTimeFields = (inv: LifeInventory): LifeInventory => mapTasks(inv, withTimeFields);
+
+/** One toast message, e.g. 'Could not read 2 task times/durations: "Gym" duration "a while", ...' */
+export const formatUnparsedFields = (unparsed: UnparsedTaskField[], limit: number = 3): string => {
+  const listed = unparsed.slice(0, limit).map(u => `"${u.title}" ${u.field} "${u.value}"`).join(', ');
+  const more = unparsed.length > limit ? ` and ${unparsed.length - limit} more` : '';
+  return `Could not read ${unparsed.length} task times/durations: ${listed}${more}. Edit them to a time like "5pm" or a duration like "1h 30m".`;
+};
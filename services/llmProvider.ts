@@ -0,0 +1,108 @@
+/**
+ * DESIGN DECISION: Pluggable LLM Provider Layer
+ *
+ * GeminiService owns the *conversation logic* (temporal modes, the agent loop,
+ * tool dispatch, dedup, orchestration gating). It should not also own *how bytes
+ * reach a model*. This module defines the narrow surface GeminiService actually
+ * uses — start a chat, stream a turn, send a turn, count tokens — so the backing
+ * model can be swapped:
+ *
+ * - GeminiProvider: the production path (gemini-2.5-pro through the /api/gemini proxy)
+ * - ScriptedProvider (see scriptedProvider.ts): deterministic JSON-fixture replay,
+ *   used for offline development and for demo mode without an API key
+ *
+ * Why mirror the Gemini SDK shapes instead of inventing neutral ones?
+ * The SDK's ChatSession already satisfies these interfaces structurally, so the
+ * production provider is a thin pass-through and the agent loop code is unchanged.
+ * Part, Content and FunctionDeclaration are plain JSON types, which makes them
+ * equally easy to produce from a fixture file.
+ */
+
+import { GoogleGenerativeAI, Part, Content, FunctionDeclaration } from "@google/generative-ai";
+
+export interface LLMFunctionCall {
+  name: string;
+  args: any;
+}
+
+/** Token accounting reported by the provider for a single response (Gemini's usageMetadata shape). */
+export interface LLMUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export interface LLMResponse {
+  text(): string;
+  functionCalls(): LLMFunctionCall[] | undefined;
+  usageMetadata?: LLMUsageMetadata;
+}
+
+export interface LLMStreamResult {
+  stream: AsyncIterable<LLMResponse>;
+  response: Promise<LLMResponse>;
+}
+
+export interface LLMChatSession {
+  sendMessageStream(request: string | Array<string | Part>): Promise<LLMStreamResult>;
+  sendMessage(request: string | Array<string | Part>): Promise<{ response: LLMResponse }>;
+  getHistory(): Promise<Content[]>;
+}
+
+export interface LLMSessionConfig {
+  systemInstruction: string;
+  tools: FunctionDeclaration[];
+  history?: Content[];
+}
+
+export interface LLMProvider {
+  /** Stable identifier, surfaced in logs and the UI (e.g. "gemini", "scripted:demo"). */
+  readonly id: string;
+  /** True when the provider needs the network / an API key to answer. */
+  readonly requiresNetwork: boolean;
+  startChat(config: LLMSessionConfig): LLMChatSession;
+  countTokens(text: string): Promise<number>;
+}
+
+/**
+ * GeminiProvider: Production provider
+ * All requests go through our proxy so the real API key never reaches the browser bundle.
+ * In production the Express server injects the key; in development Vite's proxy does the same.
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini';
+  readonly requiresNetwork = true;
+  private genAI: GoogleGenerativeAI;
+  private modelName: string;
+
+  private static readonly PROXY_BASE = `${typeof window !== 'undefined' ? window.location.origin : ''}/api/gemini`;
+
+  constructor(modelName: string = "gemini-2.5-pro") {
+    // 'server-proxy' is a placeholder — the proxy strips it and injects the real key.
+    this.genAI = new GoogleGenerativeAI('server-proxy');
+    this.modelName = modelName;
+  }
+
+  startChat(config: LLMSessionConfig): LLMChatSession {
+    // Passing systemInstruction to getGenerativeModel allows the SDK to format it correctly as Content.
+    const model = this.genAI.getGenerativeModel(
+      {
+        model: this.modelName,
+        systemInstruction: config.systemInstruction,
+        // A tool-less chat (e.g. the history summarizer) must not send an empty declaration list.
+        tools: config.tools.length > 0 ? [{ functionDeclarations: config.tools }] : undefined,
+      },
+      { baseUrl: GeminiProvider.PROXY_BASE }
+    );
+    return model.startChat({ history: config.history });
+  }
+
+  async countTokens(text: string): Promise<number> {
+    const model = this.genAI.getGenerativeModel(
+      { model: this.modelName },
+      { baseUrl: GeminiProvider.PROXY_BASE }
+    );
+    const response = await model.countTokens(text);
+    return response.totalTokens;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * DESIGN DECISION: Memory Lifecycle Rules
+ *
+ * save_memory used to append unconditionally, so the bank filled with restatements
+ * ("prefers morning workouts" ×3) and stale facts that contradicted newer ones.
+ * These pure helpers decide what happens to an incoming memory:
+ *
+ * 1. Near-duplicate of an existing memory → refresh the existing one instead.
+ * 2. Same topic but opposite polarity or a different time of day → contradiction;
+ *    App asks the user which to keep (see MemoryConflict).
+ * 3. Otherwise → append, subject to the FIFO limit (pinned memories never expire).
+ *
+ * Similarity uses the local hashing embedder so the check is synchronous, offline
+ * and free. It compares wording, not meaning, so thresholds are conservative: a
+ * missed duplicate costs one extra line in the bank, a false "contradiction" costs
+ * the user a question.
+ */
+
+import { Memory } from "../types";
+import { cosineSimilarity, localEmbedder, tokenize } from "./embeddingService";
+
+export const MAX_MEMORIES = 100;
+
+const DUPLICATE_THRESHOLD = 0.8;
+const SAME_TOPIC_THRESHOLD = 0.3;
+
+// Words nearly every memory contains ("User prefers...", "now", "anymore") say nothing about its topic.
+const MEMORY_FILLER = new Set(['user', 'now', 'anymore', 'usually', 'really', 'also', 'like', 'prefer']);
+
+const NEGATION_PATTERN = /\b(not|never|no longer|don't|doesn't|didn't|won't|can't|cannot|stopped|avoid|avoids|dislikes?|hates?|quit)\b/i;
+const TIME_OF_DAY_PATTERN = /\b(morning|afternoon|evening|night|midday|noon|weekend|weekday|(?:[01]?\d)(?::\d{2})?\s?(?:am|pm))\b/gi;
+
+const timesOfDay = (text: string) => new Set((text.match(TIME_OF_DAY_PATTERN) || []).map(t => t.toLowerCase().replace(/\s/g, '')));
+
+const similarity = (a: string, b: string) => cosineSimilarity(localEmbedder.embedSync(a), localEmbedder.embedSync(b));
+
+const sameWords = (a: string, b: string) => tokenize(a).join(' ') === tokenize(b).join(' ');
+
+/**
+ * Share of the shorter memory's topic words found in the other one. Unlike cosine it
+ * does not penalise a short correction ("now prefers evening workouts") for being
+ * much shorter than the detailed memory it corrects.
+ */
+const topicOverlap = (a: string, b: string) => {
+  const ta = new Set(tokenize(a).filter(w => !MEMORY_FILLER.has(w)));
+  const tb = new Set(tokenize(b).filter(w => !MEMORY_FILLER.has(w)));
+  if (ta.size === 0 || tb.size === 0) return 0;
+  return [...ta].filter(w => tb.has(w)).length / Math.min(ta.size, tb.size);
+};
+
+/** An existing memory that says essentially the same thing, if any. */
+export const findNearDuplicate = (content: string, memories: Memory[], excludeId?: string): Memory | undefined =>
+  memories
+    .filter(m => m.id !== excludeId)
+    .map(m => ({ memory: m, score: sameWords(m.content, content) ? 1 : similarity(m.content, content) }))
+    .filter(x => x.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)[0]?.memory;
+
+/**
+ * An existing memory on the same topic that the new one appears to contradict:
+ * one is negated and the other is not, or they name different times of day.
+ */
+export const findContradiction = (content: string, memories: Memory[], excludeId?: string): Memory | undefined => {
+  const incomingNegated = NEGATION_PATTERN.test(content);
+  const incomingTimes = timesOfDay(content);
+  return memories
+    .filter(m => m.id !== excludeId)
+    .map(m => ({ memory: m, score: topicOverlap(m.content, content) }))
+    .filter(({ memory, score }) => {
+      if (score < SAME_TOPIC_THRESHOLD || similarity(memory.content, content) >= DUPLICATE_THRESHOLD) return false;
+      if (NEGATION_PATTERN.test(memory.content) !== incomingNegated) return true;
+      const existingTimes = timesOfDay(memory.content);
+      return incomingTimes.size > 0 && existingTimes.size > 0 && ![...incomingTimes].some(t => existingTimes.has(t));
+    })
+    .sort((a, b) => b.score - a.score)[0]?.memory;
+};
+
+/** Keep at most MAX_MEMORIES, dropping the oldest unpinned ones first. */
+export const enforceMemoryLimit = (memories: Memory[]): Memory[] => {
+  if (memories.length <= MAX_MEMORIES) return memories;
+  let excess = memories.length - MAX_MEMORIES;
+  return memories.filter(m => {
+    if (excess > 0 && !m.pinned) {
+      excess--;
+      return false;
+    }
+    return true;
+  });
+};
+
+/**
+ * Resolve a memory reference from a tool call: exact id first, then the memory whose
+ * content best contains / matches the given text.
+ */
+export const findMemory = (memories: Memory[], reference: { memory_id?: string; match?: string }): Memory | undefined => {
+  if (reference.memory_id) {
+    const byId = memories.find(m => m.id === reference.memory_id);
+    if (byId) return byId;
+  }
+  const text = (reference.match || reference.memory_id || '').toLowerCase().trim();
+  if (!text) return undefined;
+  return memories.find(m => m.content.toLowerCase().includes(text))
+    ?? memories
+      .map(m => ({ memory: m, score: similarity(m.content, text) }))
+      .filter(x => x.score >= SAME_TOPIC_THRESHOLD)
+      .sort((a, b) => b.score - a.score)[0]?.memory;
+};
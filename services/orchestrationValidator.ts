@@ -0,0 +1,248 @@
+/**
+ * DESIGN DECISION: Enforce the Orchestration Anti-Hallucination Rules in Code
+ *
+ * The propose_orchestration tool description asks the model not to invent tasks,
+ * not to move fixed events and to pass linkedContact through unchanged. Prose rules
+ * are followed most of the time; this validator makes them hold every time by
+ * comparing the proposed schedule against the tasks getTasksForDate() returns for
+ * the same date (i.e. exactly what get_life_context showed the model).
+ *
+ * Each schedule item is matched to a source task by id, then gcal_id, then exact
+ * title, then by fuzzy title similarity (a rename). What happens next depends on
+ * whether the intent is unambiguous:
+ *
+ * - Repaired silently (warning): renamed titles, moved fixed times, dropped
+ *   linkedContacts, duplicated items, and source tasks missing from the schedule.
+ *   Matched items are rebuilt on top of the source task so fields the model never
+ *   sees the value of (gcal ids, attendees, description) also survive.
+ * - Rejected (error): invented work blocks, overlapping slots, >24h of tasks and
+ *   a dependent task starting before its prerequisite (taskDependencies.ts) ends.
+ *   There is no safe automatic fix, so the findings go back to the model as the
+ *   tool result and it retries within the same agent loop.
+ *
+ * A flexible task may be split into one block per checklist step (subtasks.ts):
+ * the steps are restored from the source with only the model's block times kept,
+ * and each block is checked for overlaps like a slot of its own.
+ *
+ * Short unlisted break slots are allowed, as the tool description promises.
+ */
+
+import { LifeInventory, OrchestrationProposal, OrchestrationFinding, Task } from "../types";
+import { parseTimeToMinutes, parseDurationToMinutes, formatMinutesAsTime, MINUTES_PER_DAY } from "./timeParsing";
+import { findSubtask, subBlocks, withSubBlocks } from "./subtasks";
+
+/** Unlisted slots up to this length whose title reads like a break are allowed. */
+const MAX_BREAK_MINUTES = 30;
+const BREAK_TITLE_PATTERN = /\b(break|buffer|rest|transition|commute|lunch|snack|stretch)\b/i;
+
+/** Minimum title similarity (0..1) for an unmatched item to count as a renamed source task. */
+const RENAME_SIMILARITY_THRESHOLD = 0.5;
+
+export interface OrchestrationValidationResult {
+  /** False when at least one finding has severity 'error'. */
+  ok: boolean;
+  /** The repaired proposal, with `validation` set to the findings. */
+  proposal: OrchestrationProposal;
+  findings: OrchestrationFinding[];
+}
+
+const normalize = (s: string | undefined) => (s || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const titleTokens = (title: string) =>
+  new Set(normalize(title).replace(/\[planned\]/g, '').split(/[^a-z0-9]+/).filter(w => w.length > 1));
+
+const titleSimilarity = (a: string, b: string): number => {
+  const na = normalize(a);
+  const nb = normalize(b);
+  if (!na || !nb) return 0;
+  if (na.includes(nb) || nb.includes(na)) return 1;
+  const ta = titleTokens(a);
+  const tb = titleTokens(b);
+  const shared = [...ta].filter(w => tb.has(w)).length;
+  const union = new Set([...ta, ...tb]).size;
+  return union === 0 ? 0 : shared / union;
+};
+
+const asContactList = (link: Task['linkedContact']): string[] =>
+  link === undefined ? [] : Array.isArray(link) ? link : [link];
+
+const isBreakSlot = (item: Task) => {
+  const minutes = parseDurationToMinutes(item.duration);
+  return BREAK_TITLE_PATTERN.test(item.title || '') && minutes !== null && minutes <= MAX_BREAK_MINUTES;
+};
+
+/**
+ * Validate a proposal against the tasks that exist for its date and repair what can
+ * be repaired deterministically.
+ *
+ * @param source - getTasksForDate(inventory, date) for the proposal's date
+ */
+export const validateOrchestration = (proposal: OrchestrationProposal, source: LifeInventory): OrchestrationValidationResult => {
+  const findings: OrchestrationFinding[] = [];
+  const sourceTasks = [...source.fixed, ...source.flexible];
+  const claimed = new Set<string>();
+  const schedule: Task[] = [];
+  const unmatched: Task[] = [];
+
+  // Pass 1: exact matches (id, gcal_id, title). Exact matches are resolved before
+  // fuzzy ones so a rename never steals a task that another item names exactly.
+  (proposal.schedule || []).forEach(item => {
+    const match = sourceTasks.find(t => item.id && t.id === item.id)
+      ?? sourceTasks.find(t => item.gcal_id && t.gcal_id === item.gcal_id)
+      ?? sourceTasks.find(t => normalize(t.title) === normalize(item.title));
+
+    if (!match) {
+      unmatched.push(item);
+      return;
+    }
+    if (claimed.has(match.id)) {
+      findings.push({ code: 'duplicate_task', severity: 'warning', repaired: true, taskTitle: match.title, message: `"${match.title}" appeared more than once; kept the first slot.` });
+      return;
+    }
+    claimed.add(match.id);
+    schedule.push(reconcile(item, match, findings));
+  });
+
+  // Pass 2: fuzzy matches for renamed tasks; anything left is a break slot or invented.
+  unmatched.forEach(item => {
+    const candidate = sourceTasks
+      .filter(t => !claimed.has(t.id))
+      .map(t => ({ task: t, score: titleSimilarity(t.title, item.title) }))
+      .sort((a, b) => b.score - a.score)[0];
+
+    if (candidate && candidate.score >= RENAME_SIMILARITY_THRESHOLD) {
+      claimed.add(candidate.task.id);
+      findings.push({ code: 'renamed_task', severity: 'warning', repaired: true, taskTitle: candidate.task.title, message: `"${item.title}" was renamed; restored the original title "${candidate.task.title}".` });
+      schedule.push(reconcile(item, candidate.task, findings));
+    } else if (isBreakSlot(item)) {
+      schedule.push(item);
+    } else {
+      findings.push({ code: 'invented_task', severity: 'error', taskTitle: item.title, message: `"${item.title}" does not exist in get_life_context for this date. Remove it or use an existing task.` });
+    }
+  });
+
+  // Source tasks the model left out would be deleted on accept — keep them instead.
+  sourceTasks.filter(t => !claimed.has(t.id)).forEach(t => {
+    findings.push({ code: 'missing_task', severity: 'warning', repaired: true, taskTitle: t.title, message: `"${t.title}" was missing from the schedule; kept it${t.time ? ` at ${t.time}` : ''}.` });
+    schedule.push(t);
+  });
+
+  checkTimeline(schedule, source, findings);
+
+  const ok = !findings.some(f => f.severity === 'error');
+  return { ok, findings, proposal: { ...proposal, schedule, validation: findings } };
+};
+
+/**
+ * Rebuild a schedule item on top of its source task, restoring the fields the
+ * model is not allowed to change.
+ */
+const reconcile = (item: Task, source: Task, findings: OrchestrationFinding[]): Task => {
+  const repaired: Task = { ...source, ...item, id: source.id, title: source.title };
+
+  const sourceStart = parseTimeToMinutes(source.time);
+  if (source.type === 'fixed' && sourceStart !== null) {
+    if (parseTimeToMinutes(item.time) !== sourceStart || item.type !== 'fixed') {
+      findings.push({ code: 'moved_fixed_task', severity: 'warning', repaired: true, taskTitle: source.title, message: `Fixed event "${source.title}" was moved to ${item.time || 'no time'}; restored to ${source.time}.` });
+    }
+    repaired.type = 'fixed';
+    repaired.time = source.time;
+    repaired.duration = source.duration;
+  }
+
+  const sourceLinks = asContactList(source.linkedContact);
+  const itemLinks = asContactList(item.linkedContact);
+  const dropped = sourceLinks.filter(key => !itemLinks.includes(key));
+  if (dropped.length > 0) {
+    findings.push({ code: 'dropped_linked_contact', severity: 'warning', repaired: true, taskTitle: source.title, message: `Restored linked contact${dropped.length > 1 ? 's' : ''} ${dropped.join(', ')} on "${source.title}".` });
+    repaired.linkedContact = [...new Set([...itemLinks, ...sourceLinks])];
+  }
+
+  // Dependencies are the user's; the model orders around them but does not edit them
+  if (source.dependsOn) repaired.dependsOn = source.dependsOn;
+  else delete repaired.dependsOn;
+
+  // Likewise the checklist; only the block times of a split flexible task are the model's
+  if (source.subtasks) {
+    const times = new Map<string, string>();
+    if (repaired.type === 'flexible') {
+      (item.subtasks ?? []).forEach(step => {
+        const match = findSubtask(source, step.id) ?? findSubtask(source, step.title);
+        if (match && !match.completed && step.time) times.set(match.id, step.time);
+      });
+    }
+    repaired.subtasks = withSubBlocks(source, times).subtasks;
+    const blocks = subBlocks(repaired);
+    if (blocks.length > 0) repaired.time = formatMinutesAsTime(blocks[0].start);
+  } else {
+    delete repaired.subtasks;
+  }
+
+  return repaired;
+};
+
+const checkTimeline = (schedule: Task[], source: LifeInventory, findings: OrchestrationFinding[]) => {
+  const totalMinutes = schedule.reduce((sum, t) => sum + (parseDurationToMinutes(t.duration) ?? 0), 0);
+  if (totalMinutes > MINUTES_PER_DAY) {
+    findings.push({ code: 'over_24h', severity: 'error', message: `Scheduled tasks add up to ${(totalMinutes / 60).toFixed(1)}h, more than a day holds. Move lower-priority tasks to another day with move_tasks first.` });
+  }
+
+  const anchoredIds = new Set(source.fixed.filter(t => parseTimeToMinutes(t.time) !== null).map(t => t.id));
+  // A split task occupies its step blocks instead of one slot
+  const slots = schedule
+    .flatMap(t => {
+      const blocks = subBlocks(t);
+      if (blocks.length > 0) return blocks.map(b => ({ task: t, label: `${t.title} › ${b.subtask.title}`, time: b.subtask.time, start: b.start, length: b.length }));
+      return [{ task: t, label: t.title, time: t.time, start: parseTimeToMinutes(t.time), length: parseDurationToMinutes(t.duration) }];
+    })
+    .filter((s): s is { task: Task; label: string; time: string | undefined; start: number; length: number } => s.start !== null && s.length !== null)
+    .sort((a, b) => a.start - b.start);
+
+  for (let i = 0; i < slots.length; i++) {
+    const end = slots[i].start + slots[i].length;
+    for (let j = i + 1; j < slots.length && slots[j].start < end; j++) {
+      const a = slots[i];
+      const b = slots[j];
+      // Two fixed events that already clashed in the user's own calendar are not the model's doing.
+      const preExisting = anchoredIds.has(a.task.id) && anchoredIds.has(b.task.id);
+      findings.push({
+        code: 'overlap',
+        severity: preExisting ? 'warning' : 'error',
+        taskTitle: b.task.title,
+        message: preExisting
+          ? `Fixed events "${a.label}" and "${b.label}" overlap in your calendar.`
+          : `"${b.label}" at ${b.time} overlaps "${a.label}" at ${a.time}. Give it a free slot.`,
+      });
+    }
+  }
+
+  // Each task's span from its first slot's start to its last slot's end
+  const spans = new Map<string, { task: Task; start: number; end: number }>();
+  slots.forEach(({ task, start, length }) => {
+    const span = spans.get(task.id);
+    spans.set(task.id, { task, start: Math.min(span?.start ?? start, start), end: Math.max(span?.end ?? 0, start + length) });
+  });
+  [...spans.values()].filter(s => s.task.dependsOn?.length && !s.task.completed).forEach(dependent => {
+    [...spans.values()]
+      .filter(p => !p.task.completed && p.task.id !== dependent.task.id && dependent.task.dependsOn!.includes(p.task.id))
+      .filter(p => dependent.start < p.end)
+      .forEach(prerequisite => {
+        const preExisting = anchoredIds.has(dependent.task.id) && anchoredIds.has(prerequisite.task.id);
+        findings.push({
+          code: 'dependency_order',
+          severity: preExisting ? 'warning' : 'error',
+          taskTitle: dependent.task.title,
+          message: preExisting
+            ? `Fixed event "${dependent.task.title}" starts before its prerequisite "${prerequisite.task.title}" ends.`
+            : `"${dependent.task.title}" at ${dependent.task.time} depends on "${prerequisite.task.title}" (${prerequisite.task.time}); schedule it after that ends.`,
+        });
+      });
+  });
+};
+
+/** Compact, model-readable description of blocking findings for the tool result. */
+export const formatValidationErrors = (findings: OrchestrationFinding[]): string =>
+  findings
+    .filter(f => f.severity === 'error')
+    .map(f => `- [${f.code}] ${f.message}`)
+    .join('\n');
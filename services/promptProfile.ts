@@ -0,0 +1,245 @@
+/**
+ * DESIGN DECISION: Prompt Profiles
+ *
+ * SYSTEM_INSTRUCTION and the temporal mode instructions are written for one
+ * assumed user: a 9-to-5 weekday, English, a 10-hour overload line and the
+ * "Executive Logic Engine" voice. A profile records where a user differs, and
+ * this module turns it into what each consumer needs:
+ *
+ * 1. **Prompt**: compileProfileInstructions() emits a USER PROFILE block that
+ *    GeminiService places after the core and temporal instructions and that
+ *    explicitly overrides them. Only settings that differ from DEFAULT_PROFILE are
+ *    listed, so the default profile leaves the prompt exactly as it was.
+ * 2. **Local planners**: schedulerOptionsFromProfile() maps working hours, work days
+ *    and the overload threshold onto DaySchedulerOptions, so Quick Plan, the baseline
+ *    schedule and week planning agree with what the model was told.
+ * 3. **Sharing**: profiles export as a small versioned JSON envelope. Imports are
+ *    migrated to the current schema and validated field by field; anything missing
+ *    or malformed falls back to the default rather than rejecting the file.
+ */
+
+import { AssistantTone, PromptProfile, PromptProfileSettings } from "../types";
+import { DaySchedulerOptions, DEFAULT_SCHEDULER_OPTIONS } from "./dayScheduler";
+import { parseTimeToMinutes, formatMinutesAsTime, MINUTES_PER_DAY } from "./timeParsing";
+
+export const PROMPT_PROFILE_VERSION = 1;
+const EXPORT_FORMAT = 'life-orchestrator-prompt-profile';
+
+export const MAX_STANDING_INSTRUCTIONS = 10;
+const MAX_INSTRUCTION_LENGTH = 300;
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const DEFAULT_PROFILE: PromptProfile = {
+  id: DEFAULT_PROFILE_ID,
+  version: PROMPT_PROFILE_VERSION,
+  revision: 1,
+  name: 'Default',
+  workingHours: { start: '09:00', end: '17:00' },
+  workDays: [1, 2, 3, 4, 5],
+  overloadHours: 10,
+  tone: 'executive',
+  languages: ['English'],
+  standingInstructions: [],
+  updatedAt: new Date(0).toISOString(),
+};
+
+export const DEFAULT_PROFILE_SETTINGS: PromptProfileSettings = {
+  activeId: DEFAULT_PROFILE_ID,
+  profiles: [DEFAULT_PROFILE],
+};
+
+export const TONE_LABELS: Record<AssistantTone, string> = {
+  executive: 'Executive (direct, analytical)',
+  supportive: 'Supportive (warm, encouraging)',
+  concise: 'Concise (short, no preamble)',
+  coach: 'Coach (asks, explains trade-offs)',
+};
+
+// What replaces the "Executive Logic Engine" voice; 'executive' is the core prompt's own.
+const TONE_INSTRUCTIONS: Record<Exclude<AssistantTone, 'executive'>, string> = {
+  supportive: 'Warm and encouraging. Acknowledge effort and strain before recommending changes; keep the same logic, soften the delivery.',
+  concise: 'Minimal. Short bulleted answers with no preamble or recap; numbers over adjectives.',
+  coach: 'Coaching. When a trade-off is the user\'s call, ask one focused question instead of deciding; explain the reasoning behind each recommendation.',
+};
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Length of the high-intensity window at the start of the working day, and the break after it
+const FOCUS_BLOCK_MINUTES = 3 * 60;
+const BREAK_MINUTES = 60;
+
+const sameList = <T>(a: T[], b: T[]) => a.length === b.length && a.every((x, i) => x === b[i]);
+
+const workingMinutes = (profile: PromptProfile): [number, number] => [
+  parseTimeToMinutes(profile.workingHours.start) ?? 9 * 60,
+  parseTimeToMinutes(profile.workingHours.end) ?? 17 * 60,
+];
+
+const hasDefaultHours = (profile: PromptProfile) =>
+  profile.workingHours.start === DEFAULT_PROFILE.workingHours.start && profile.workingHours.end === DEFAULT_PROFILE.workingHours.end;
+
+const formatDays = (days: number[]) => days.length === 0 ? 'none' : days.map(d => DAY_NAMES[d]).join(', ');
+
+/**
+ * The USER PROFILE block for the system instruction, or '' when the profile
+ * matches the defaults the core instructions already assume.
+ */
+export const compileProfileInstructions = (profile: PromptProfile): string => {
+  const lines: string[] = [];
+
+  if (!hasDefaultHours(profile) || !sameList(profile.workDays, DEFAULT_PROFILE.workDays)) {
+    const [start, end] = workingMinutes(profile);
+    const focusEnd = Math.min(start + FOCUS_BLOCK_MINUTES, end);
+    lines.push(`- Working hours: ${formatMinutesAsTime(start)} - ${formatMinutesAsTime(end)} on ${formatDays(profile.workDays)}. Schedule Career work inside them; the High-Intensity window is ${formatMinutesAsTime(start)} - ${formatMinutesAsTime(focusEnd)} instead of 9 AM - 12 PM. Treat other days as non-work days unless the user says otherwise.`);
+  }
+  if (profile.overloadHours !== DEFAULT_PROFILE.overloadHours) {
+    lines.push(`- Overload threshold: ${profile.overloadHours} hours of planned tasks per day. Use it wherever the instructions say 10 hours (warn above it, treat ${profile.overloadHours + 2}+ hours as severe).`);
+  }
+  if (profile.tone !== 'executive') {
+    lines.push(`- Tone: ${TONE_INSTRUCTIONS[profile.tone]}`);
+  }
+  if (!sameList(profile.languages, DEFAULT_PROFILE.languages) && profile.languages.length > 0) {
+    const [reply, ...others] = profile.languages;
+    lines.push(`- Language: reply in ${reply}.${others.length > 0 ? ` The user may also write in ${others.join(', ')}; understand it, but keep replying in ${reply}.` : ''} Tool arguments (dates, times, enum values) stay in the formats the tools require.`);
+  }
+  if (profile.standingInstructions.length > 0) {
+    lines.push('- Standing instructions from the user:');
+    profile.standingInstructions.forEach(instruction => lines.push(`  - ${instruction}`));
+  }
+
+  if (lines.length === 0) return '';
+  return `\n\n== USER PROFILE ("${profile.name}", r${profile.revision}) ==\nThese preferences were set by the user and OVERRIDE the defaults above wherever they conflict.\n${lines.join('\n')}`;
+};
+
+/**
+ * Scheduler overrides for the profile. Career work moves into the working hours
+ * (a focus block at the start, the rest after a break) on work days only, and the
+ * planning day is widened to include them; other categories keep their default
+ * windows. Like the prompt, the default hours and days leave every day alike.
+ */
+export const schedulerOptionsFromProfile = (profile: PromptProfile): Partial<DaySchedulerOptions> => {
+  const overrides: Partial<DaySchedulerOptions> = {};
+  if (profile.overloadHours !== DEFAULT_PROFILE.overloadHours) overrides.overloadHours = profile.overloadHours;
+  if (hasDefaultHours(profile) && sameList(profile.workDays, DEFAULT_PROFILE.workDays)) return overrides;
+  overrides.workDays = [...profile.workDays];
+  if (hasDefaultHours(profile)) return overrides;
+
+  const [start, end] = workingMinutes(profile);
+  const focusEnd = Math.min(start + FOCUS_BLOCK_MINUTES, end);
+  const afterBreak = Math.min(focusEnd + BREAK_MINUTES, end);
+  return {
+    ...overrides,
+    dayStartMinutes: Math.min(DEFAULT_SCHEDULER_OPTIONS.dayStartMinutes, start),
+    dayEndMinutes: Math.max(DEFAULT_SCHEDULER_OPTIONS.dayEndMinutes, end),
+    energyWindows: {
+      ...DEFAULT_SCHEDULER_OPTIONS.energyWindows,
+      Career: afterBreak < end ? [[start, focusEnd], [afterBreak, end]] : [[start, focusEnd]],
+    },
+  };
+};
+
+const isTime = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{2}:\d{2}$/.test(value) && parseTimeToMinutes(value) !== null;
+
+const cleanStrings = (value: unknown, maxItems: number): string[] =>
+  Array.isArray(value)
+    ? value.filter((s): s is string => typeof s === 'string').map(s => s.trim().slice(0, MAX_INSTRUCTION_LENGTH)).filter(Boolean).slice(0, maxItems)
+    : [];
+
+/**
+ * Bring a stored or imported profile up to PROMPT_PROFILE_VERSION and validate it.
+ * Profiles written before versioning (no `version`) are read as version 1.
+ */
+export const normalizeProfile = (raw: any): PromptProfile => {
+  if (!raw || typeof raw !== 'object') throw new Error('Profile is not an object');
+  const version = typeof raw.version === 'number' ? raw.version : 1;
+  if (version > PROMPT_PROFILE_VERSION) {
+    throw new Error(`Profile was created by a newer version of the app (schema v${version})`);
+  }
+
+  const start = isTime(raw.workingHours?.start) ? raw.workingHours.start : DEFAULT_PROFILE.workingHours.start;
+  const end = isTime(raw.workingHours?.end) ? raw.workingHours.end : DEFAULT_PROFILE.workingHours.end;
+  const validHours = (parseTimeToMinutes(end) ?? 0) > (parseTimeToMinutes(start) ?? MINUTES_PER_DAY);
+  const overload = Number(raw.overloadHours);
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `profile-${Date.now().toString(36)}`,
+    version: PROMPT_PROFILE_VERSION,
+    revision: Number.isInteger(raw.revision) && raw.revision > 0 ? raw.revision : 1,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim().slice(0, 60) : 'Untitled profile',
+    workingHours: validHours ? { start, end } : { ...DEFAULT_PROFILE.workingHours },
+    workDays: Array.isArray(raw.workDays)
+      ? [...new Set<number>(raw.workDays.filter((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6))].sort((a, b) => a - b)
+      : [...DEFAULT_PROFILE.workDays],
+    overloadHours: Number.isFinite(overload) && overload >= 1 && overload <= 18 ? overload : DEFAULT_PROFILE.overloadHours,
+    tone: Object.keys(TONE_LABELS).includes(raw.tone) ? raw.tone : DEFAULT_PROFILE.tone,
+    languages: cleanStrings(raw.languages, 5).length > 0 ? cleanStrings(raw.languages, 5) : [...DEFAULT_PROFILE.languages],
+    standingInstructions: cleanStrings(raw.standingInstructions, MAX_STANDING_INSTRUCTIONS),
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date().toISOString(),
+  };
+};
+
+/** Parse persisted settings; unreadable entries are dropped and the default profile is always present. */
+export const loadProfileSettings = (saved: string | null): PromptProfileSettings => {
+  if (!saved) return DEFAULT_PROFILE_SETTINGS;
+  try {
+    const parsed = JSON.parse(saved);
+    const profiles: PromptProfile[] = (Array.isArray(parsed.profiles) ? parsed.profiles : []).flatMap((p: any) => {
+      try { return [normalizeProfile(p)]; } catch { return []; }
+    });
+    if (!profiles.some(p => p.id === DEFAULT_PROFILE_ID)) profiles.unshift(DEFAULT_PROFILE);
+    const activeId = profiles.some(p => p.id === parsed.activeId) ? parsed.activeId : DEFAULT_PROFILE_ID;
+    return { activeId, profiles };
+  } catch (e) {
+    console.warn('Failed to load prompt profiles, using defaults', e);
+    return DEFAULT_PROFILE_SETTINGS;
+  }
+};
+
+export const getActiveProfile = (settings: PromptProfileSettings): PromptProfile =>
+  settings.profiles.find(p => p.id === settings.activeId) ?? DEFAULT_PROFILE;
+
+/** Store an edited profile as its next revision. */
+export const saveProfile = (settings: PromptProfileSettings, profile: PromptProfile): PromptProfileSettings => {
+  const previous = settings.profiles.find(p => p.id === profile.id);
+  const saved = { ...normalizeProfile(profile), revision: (previous?.revision ?? 0) + 1, updatedAt: new Date().toISOString() };
+  return {
+    ...settings,
+    profiles: previous ? settings.profiles.map(p => (p.id === saved.id ? saved : p)) : [...settings.profiles, saved],
+  };
+};
+
+export const exportProfile = (profile: PromptProfile): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: PROMPT_PROFILE_VERSION, exportedAt: new Date().toISOString(), profile }, null, 2);
+
+/**
+ * Add a profile from an exported file. A profile with the same id (a teammate's
+ * updated copy) replaces the local one unless the local revision is newer.
+ */
+export const importProfile = (settings: PromptProfileSettings, json: string): { settings: PromptProfileSettings; profile: PromptProfile } => {
+  let envelope: any;
+  try {
+    envelope = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (envelope?.format !== EXPORT_FORMAT) throw new Error('File is not an exported prompt profile');
+  if (typeof envelope.version === 'number' && envelope.version > PROMPT_PROFILE_VERSION) {
+    throw new Error(`Profile was exported by a newer version of the app (schema v${envelope.version})`);
+  }
+
+  const profile = normalizeProfile(envelope.profile);
+  if (profile.id === DEFAULT_PROFILE_ID) profile.id = `profile-${Date.now().toString(36)}`;
+  const existing = settings.profiles.find(p => p.id === profile.id);
+  if (existing && existing.revision > profile.revision) {
+    throw new Error(`Your copy of "${existing.name}" (r${existing.revision}) is newer than the imported one (r${profile.revision})`);
+  }
+  return {
+    profile,
+    settings: {
+      ...settings,
+      profiles: existing ? settings.profiles.map(p => (p.id === profile.id ? profile : p)) : [...settings.profiles, profile],
+    },
+  };
+};
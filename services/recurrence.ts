@@ -0,0 +1,312 @@
+/**
+ * DESIGN DECISION: Recurrence Engine (RFC 5545 essentials)
+ *
+ * RecurrenceRule is a JSON-friendly subset of an iCalendar RRULE: FREQ (daily,
+ * weekly, monthly, yearly), INTERVAL, BYDAY, BYMONTHDAY, BYMONTH, BYSETPOS, UNTIL,
+ * COUNT and EXDATE. Everything recurring goes through this module: occursOn() for
+ * getTasksForDate and the calendar, parseRRule()/toRRule() for Google Calendar
+ * import and export, describeRule() for labels.
+ *
+ * Rules are evaluated per date instead of generating instance lists, because every
+ * caller asks "does it happen on this day?". Only COUNT needs a walk from the
+ * start; the date of the last counted occurrence is cached per rule object.
+ *
+ * INTERVAL and COUNT count from `start` (DTSTART) and are ignored without one;
+ * anchorRule() adds it when a rule is created. Weeks start on Monday (WKST=MO).
+ * Not covered: sub-daily frequencies, BYWEEKNO/BYYEARDAY, RDATE, and BYDAY lists
+ * mixing ordinals across weekdays ("1MO,3TU"), which become positions over both days.
+ */
+
+import { RecurrenceRule } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** How far ahead a COUNT or next-occurrence search walks before giving up */
+const MAX_SCAN_DAYS = 366 * 30;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const FREQUENCY_LABELS: Record<RecurrenceRule['frequency'], [string, string]> = {
+  daily: ['Daily', 'day'],
+  weekly: ['Weekly', 'week'],
+  monthly: ['Monthly', 'month'],
+  yearly: ['Yearly', 'year'],
+};
+
+const parseKey = (dateKey: string) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+const toKey = (date: Date) => date.toLocaleDateString('en-CA');
+const daysBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / DAY_MS);
+const mondayOf = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+const daysInMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+
+/** "1st", "2nd", "last", "2nd to last" */
+export const ordinal = (n: number): string => {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinal(-n)} to last`;
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+/** The day-of-month part: BYDAY (+BYSETPOS) or BYMONTHDAY, defaulting to the start's day. */
+const matchesDayInMonth = (rule: RecurrenceRule, date: Date, start?: Date): boolean => {
+  if (rule.weekDays?.length) {
+    if (!rule.weekDays.includes(date.getDay())) return false;
+    if (!rule.setPositions?.length) return true;
+    const candidates: number[] = [];
+    for (let day = 1; day <= daysInMonth(date); day++) {
+      if (rule.weekDays.includes(new Date(date.getFullYear(), date.getMonth(), day).getDay())) candidates.push(day);
+    }
+    const index = candidates.indexOf(date.getDate());
+    return rule.setPositions.some(pos => (pos > 0 ? pos - 1 : candidates.length + pos) === index);
+  }
+  const dayOfMonth = rule.dayOfMonth ?? start?.getDate();
+  if (dayOfMonth === undefined) return false;
+  return date.getDate() === (dayOfMonth > 0 ? dayOfMonth : daysInMonth(date) + dayOfMonth + 1);
+};
+
+/** Whether `date` fits the rule's pattern, ignoring start/until/count/exceptions. */
+const matchesPattern = (rule: RecurrenceRule, date: Date, start?: Date): boolean => {
+  const interval = Math.max(1, Math.floor(rule.interval ?? 1));
+  if (rule.months?.length && rule.frequency !== 'yearly' && !rule.months.includes(date.getMonth() + 1)) return false;
+
+  switch (rule.frequency) {
+    case 'daily':
+      if (start && daysBetween(start, date) % interval !== 0) return false;
+      return !rule.weekDays?.length || rule.weekDays.includes(date.getDay());
+    case 'weekly': {
+      if (start && (daysBetween(mondayOf(start), mondayOf(date)) / 7) % interval !== 0) return false;
+      const weekDays = rule.weekDays?.length ? rule.weekDays : start ? [start.getDay()] : [];
+      return weekDays.includes(date.getDay());
+    }
+    case 'monthly': {
+      const months = start ? (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth() : 0;
+      return months % interval === 0 && matchesDayInMonth(rule, date, start);
+    }
+    case 'yearly': {
+      if (start && (date.getFullYear() - start.getFullYear()) % interval !== 0) return false;
+      const months = rule.months?.length ? rule.months : start ? [start.getMonth() + 1] : [];
+      return months.includes(date.getMonth() + 1) && matchesDayInMonth(rule, date, start);
+    }
+    default:
+      return false;
+  }
+};
+
+// COUNT needs a walk from the start; rules are immutable state objects, so cache per object.
+const countEndCache = new WeakMap<RecurrenceRule, string | null>();
+
+/** Date of the COUNT-th occurrence (EXDATEs still count, per RFC 5545), or null if unbounded or too far. */
+const countEnd = (rule: RecurrenceRule): string | null => {
+  if (!rule.count || !rule.start) return null;
+  const cached = countEndCache.get(rule);
+  if (cached !== undefined) return cached;
+  const start = parseKey(rule.start);
+  let found = 0;
+  let result: string | null = null;
+  for (let i = 0; i < MAX_SCAN_DAYS; i++) {
+    const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+    if (rule.until && toKey(date) > rule.until) break;
+    if (matchesPattern(rule, date, start) && ++found === rule.count) {
+      result = toKey(date);
+      break;
+    }
+  }
+  countEndCache.set(rule, result);
+  return result;
+};
+
+/** Whether `rule` produces an occurrence on `dateKey` (YYYY-MM-DD). */
+export const occursOn = (rule: RecurrenceRule, dateKey: string): boolean => {
+  if (rule.start && dateKey < rule.start) return false;
+  if (rule.until && dateKey > rule.until) return false;
+  if (rule.exceptions?.includes(dateKey)) return false;
+  const start = rule.start ? parseKey(rule.start) : undefined;
+  if (!matchesPattern(rule, parseKey(dateKey), start)) return false;
+  const end = countEnd(rule);
+  return end === null || dateKey <= end;
+};
+
+/** The first occurrence on or after `fromKey`, or null within the scan window. */
+export const nextOccurrence = (rule: RecurrenceRule, fromKey: string): string | null => {
+  const from = parseKey(rule.start && rule.start > fromKey ? rule.start : fromKey);
+  for (let i = 0; i < MAX_SCAN_DAYS; i++) {
+    const key = toKey(new Date(from.getFullYear(), from.getMonth(), from.getDate() + i));
+    if (rule.until && key > rule.until) return null;
+    if (occursOn(rule, key)) return key;
+  }
+  return null;
+};
+
+/** The rule with COUNT turned into an UNTIL date, so it can be split or re-anchored safely. */
+export const withCountAsUntil = (rule: RecurrenceRule): RecurrenceRule => {
+  if (!rule.count) return rule;
+  const { count, ...rest } = rule;
+  const end = countEnd(rule);
+  return end ? { ...rest, until: rule.until && rule.until < end ? rule.until : end } : rest;
+};
+
+/**
+ * Give a new rule the start it needs: INTERVAL and COUNT count from it, and a rule
+ * without a day selector (weekly without days, monthly without a day) repeats the start's.
+ */
+export const anchorRule = (rule: RecurrenceRule, dateKey: string): RecurrenceRule => {
+  if (rule.start) return rule;
+  const needsStart = (rule.interval ?? 1) > 1 || !!rule.count
+    || (rule.frequency === 'weekly' && !rule.weekDays?.length)
+    || ((rule.frequency === 'monthly' || rule.frequency === 'yearly') && !rule.weekDays?.length && rule.dayOfMonth === undefined)
+    || (rule.frequency === 'yearly' && !rule.months?.length);
+  return needsStart ? { ...rule, start: dateKey } : rule;
+};
+
+const compactDate = (dateKey: string) => dateKey.replace(/-/g, '');
+
+/** Local 23:59:59 on `dateKey` as a UTC date-time ("20270101T075959Z" for 2026-12-31 in UTC-8), so UNTIL keeps the last local occurrence. */
+const endOfDayUtc = (dateKey: string) => {
+  const end = parseKey(dateKey);
+  end.setHours(23, 59, 59);
+  return end.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/** "20261231" or "20261231T235959Z" → "2026-12-31" (UTC date-times become local dates). */
+const parseICalDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  if (utc) return toKey(new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss)));
+  return `${y}-${m}-${d}`;
+};
+
+/**
+ * Parse Google Calendar / iCalendar recurrence lines (RRULE plus EXDATE) into a rule.
+ * `startKey` is the series' first date (DTSTART); day selectors missing from the
+ * RRULE are filled in from it. Returns null for frequencies the engine does not support.
+ */
+export const parseRRule = (lines: string[], startKey?: string): RecurrenceRule | null => {
+  const rruleLine = lines.find(line => line.toUpperCase().startsWith('RRULE:'));
+  if (!rruleLine) return null;
+  const parts: Record<string, string> = {};
+  rruleLine.slice('RRULE:'.length).split(';').forEach(part => {
+    const [key, value = ''] = part.split('=');
+    parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  });
+
+  const frequency = ({ DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly', YEARLY: 'yearly' } as const)[parts.FREQ as 'DAILY'];
+  if (!frequency) return null;
+  const rule: RecurrenceRule = { frequency };
+  if (startKey) rule.start = startKey;
+
+  const interval = parseInt(parts.INTERVAL, 10);
+  if (interval > 1) rule.interval = interval;
+
+  if (parts.BYDAY) {
+    const weekDays = new Set<number>();
+    const positions = new Set<number>();
+    parts.BYDAY.split(',').forEach(token => {
+      const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) return;
+      weekDays.add(WEEKDAY_CODES.indexOf(match[2]));
+      if (match[1]) positions.add(parseInt(match[1], 10));
+    });
+    if (weekDays.size > 0) rule.weekDays = [...weekDays].sort((a, b) => a - b);
+    if (positions.size > 0) rule.setPositions = [...positions];
+  }
+  if (parts.BYSETPOS) {
+    const positions = parts.BYSETPOS.split(',').map(Number).filter(n => Number.isInteger(n) && n !== 0);
+    if (positions.length > 0) rule.setPositions = [...new Set([...(rule.setPositions ?? []), ...positions])];
+  }
+  const dayOfMonth = parseInt(parts.BYMONTHDAY, 10);
+  if (dayOfMonth && Math.abs(dayOfMonth) <= 31) rule.dayOfMonth = dayOfMonth;
+  if (parts.BYMONTH) {
+    const months = parts.BYMONTH.split(',').map(Number).filter(n => n >= 1 && n <= 12);
+    if (months.length > 0) rule.months = months;
+  }
+  const until = parts.UNTIL ? parseICalDate(parts.UNTIL) : null;
+  if (until) rule.until = until;
+  const count = parseInt(parts.COUNT, 10);
+  if (count > 0) rule.count = count;
+
+  const exceptions = lines
+    .filter(line => line.toUpperCase().startsWith('EXDATE'))
+    .flatMap(line => line.slice(line.lastIndexOf(':') + 1).split(','))
+    .map(value => parseICalDate(value.trim()))
+    .filter((key): key is string => !!key);
+  if (exceptions.length > 0) rule.exceptions = [...new Set(exceptions)].sort();
+
+  return startKey ? anchorDefaults(rule, parseKey(startKey)) : rule;
+};
+
+/** Spell out the day selectors an RRULE leaves implicit (they default to DTSTART's). */
+const anchorDefaults = (rule: RecurrenceRule, start: Date): RecurrenceRule => {
+  if (rule.frequency === 'weekly' && !rule.weekDays?.length) return { ...rule, weekDays: [start.getDay()] };
+  if (rule.frequency === 'monthly' || rule.frequency === 'yearly') {
+    const next = { ...rule };
+    if (!next.weekDays?.length && next.dayOfMonth === undefined) next.dayOfMonth = start.getDate();
+    if (next.frequency === 'yearly' && !next.months?.length) next.months = [start.getMonth() + 1];
+    return next;
+  }
+  return rule;
+};
+
+/**
+ * Serialize a rule as Google Calendar recurrence lines. For timed events pass the
+ * start time (HHMMSS) and time zone so UNTIL and EXDATE are date-times, as RFC 5545
+ * requires when DTSTART has a time. The time zone must be the local one: UNTIL is the
+ * end of the until date in local time. `extraExceptions` adds EXDATEs (e.g. skipped occurrences).
+ */
+export const toRRule = (rule: RecurrenceRule, options: { time?: string; timeZone?: string; extraExceptions?: string[] } = {}): string[] => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if ((rule.interval ?? 1) > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.weekDays?.length) parts.push(`BYDAY=${rule.weekDays.map(d => WEEKDAY_CODES[d]).join(',')}`);
+  else if (rule.dayOfMonth !== undefined && rule.frequency !== 'daily' && rule.frequency !== 'weekly') parts.push(`BYMONTHDAY=${rule.dayOfMonth}`);
+  if (rule.months?.length) parts.push(`BYMONTH=${rule.months.join(',')}`);
+  if (rule.weekDays?.length && rule.setPositions?.length && rule.frequency !== 'daily' && rule.frequency !== 'weekly') parts.push(`BYSETPOS=${rule.setPositions.join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${options.time ? endOfDayUtc(rule.until) : compactDate(rule.until)}`);
+  else if (rule.count) parts.push(`COUNT=${rule.count}`);
+
+  const lines = [`RRULE:${parts.join(';')}`];
+  const exceptions = [...new Set([...(rule.exceptions ?? []), ...(options.extraExceptions ?? [])])].sort();
+  if (exceptions.length > 0) {
+    lines.push(options.time && options.timeZone
+      ? `EXDATE;TZID=${options.timeZone}:${exceptions.map(key => `${compactDate(key)}T${options.time}`).join(',')}`
+      : `EXDATE;VALUE=DATE:${exceptions.map(compactDate).join(',')}`);
+  }
+  return lines;
+};
+
+const formatKey = (dateKey: string) => parseKey(dateKey).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const describeWeekDays = (weekDays: number[]) =>
+  weekDays.length === 5 && [1, 2, 3, 4, 5].every(d => weekDays.includes(d)) ? 'weekdays'
+    : weekDays.length === 2 && weekDays.includes(0) && weekDays.includes(6) ? 'weekends'
+    : weekDays.map(d => WEEKDAY_NAMES[d]).join(', ');
+
+/** Human-readable rule, e.g. "Every 2 weeks on Mon, Wed, until Dec 31, 2026" or "Monthly on the 2nd Tue". */
+export const describeRule = (rule: RecurrenceRule): string => {
+  const interval = rule.interval ?? 1;
+  const [label, unit] = FREQUENCY_LABELS[rule.frequency] ?? ['Repeats', 'time'];
+  let text = interval > 1 ? `Every ${interval} ${unit}s` : label;
+
+  if (rule.frequency === 'yearly' && rule.months?.length) text += ` in ${rule.months.map(m => MONTH_NAMES[m - 1]).join(', ')}`;
+  if (rule.weekDays?.length) {
+    const days = describeWeekDays(rule.weekDays);
+    text += rule.setPositions?.length && rule.frequency !== 'daily' && rule.frequency !== 'weekly'
+      ? ` on the ${rule.setPositions.map(ordinal).join(' and ')} ${days === 'weekdays' ? 'weekday' : days}`
+      : ` on ${days}`;
+  } else if (rule.dayOfMonth !== undefined && (rule.frequency === 'monthly' || rule.frequency === 'yearly')) {
+    text += rule.dayOfMonth === -1 ? ' on the last day' : ` on the ${ordinal(rule.dayOfMonth)}`;
+  }
+
+  if (rule.count) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${formatKey(rule.until)}`;
+  return text;
+};
+
+/** Label for raw Google Calendar recurrence lines; "Recurring" when they cannot be parsed. */
+export const describeRecurrence = (lines?: string[]): string | null => {
+  if (!lines || lines.length === 0) return null;
+  const rule = parseRRule(lines);
+  return rule ? describeRule(rule) : 'Recurring';
+};
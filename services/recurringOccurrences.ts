@@ -0,0 +1,153 @@
+/**
+ * DESIGN DECISION: Editing Recurring Tasks by Occurrence
+ *
+ * A recurring task is one stored series expanded per day (taskQueries.ts), so a
+ * plain edit of "Gym" used to change, complete or move every Gym ever. Edits of a
+ * series now name an occurrence (its original date) and a scope, like a calendar:
+ *
+ * - 'this': stored as an override on that date only. Moving sets `movedTo`,
+ *   deleting sets `skipped`.
+ * - 'following': the series is split. The original ends the day before (`until`);
+ *   a copy carrying the change starts at the occurrence (`start`) and takes the
+ *   overrides from that date on. Splitting at the first occurrence equals 'all'.
+ * - 'all': the series itself changes. Overrides of single days are kept.
+ *
+ * Moving a whole series shifts its rule: weekdays (also "2nd Tuesday" rules) move
+ * by the same number of days, a day of month or year becomes the target's.
+ *
+ * Pure functions over LifeInventory, shared by the UI handlers and the tool executors.
+ */
+
+import { LifeInventory, OccurrenceOverride, OccurrenceScope, RecurrenceRule, Task } from "../types";
+import { withCountAsUntil } from "./recurrence";
+import { generateUniqueTaskId } from "./taskQueries";
+import { addDaysToKey } from "./dateKeys";
+
+/** Fields a single occurrence can override; everything else belongs to the series */
+const OVERRIDE_FIELDS = ['title', 'time', 'duration', 'priority', 'category', 'description', 'completed', 'subtasks'] as const;
+
+export const SCOPE_LABELS: Record<OccurrenceScope, string> = {
+  this: 'This occurrence',
+  following: 'This and following',
+  all: 'All occurrences',
+};
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const parseKey = (dateKey: string) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+/** Fields of `edited` that differ from `original`, e.g. a form edit of an expanded instance. */
+export const taskChanges = (original: Task, edited: Task): Partial<Task> => {
+  const changes: Record<string, unknown> = {};
+  (Object.keys({ ...original, ...edited }) as (keyof Task)[])
+    .filter(key => key !== 'id' && key !== 'occurrenceDate' && key !== 'occurrences' && !isSameValue(original[key], edited[key]))
+    .forEach(key => { changes[key] = edited[key]; });
+  return changes as Partial<Task>;
+};
+
+/** Whether every change can be stored on one occurrence (type, contacts and the rule cannot). */
+export const canApplyToOccurrence = (changes: Partial<Task>): boolean =>
+  Object.keys(changes).every(key => key === 'date' || (OVERRIDE_FIELDS as readonly string[]).includes(key));
+
+/** The stored series with this id, if it is a recurring task. */
+export const findSeries = (inv: LifeInventory, seriesId: string): Task | undefined =>
+  [...inv.fixed, ...inv.flexible].find(t => t.id === seriesId && !!t.recurrence && !t.date);
+
+const replaceTask = (inv: LifeInventory, id: string, replacements: Task[]): LifeInventory => {
+  const fixed = inv.fixed.filter(t => t.id !== id);
+  const flexible = inv.flexible.filter(t => t.id !== id);
+  replacements.forEach(t => (t.type === 'fixed' ? fixed : flexible).push(t));
+  return { fixed, flexible };
+};
+
+const isFirstOccurrence = (series: Task, occurrenceDate: string) =>
+  !!series.recurrence?.start && series.recurrence.start >= occurrenceDate;
+
+/** The rule after its occurrence on `from` is moved to `to`. A daily rule has nothing to shift. */
+const shiftRule = (rule: RecurrenceRule, from: string, to: string): RecurrenceRule => {
+  const target = parseKey(to);
+  const start = rule.start && to < rule.start ? to : rule.start;
+  if (rule.frequency === 'daily') return rule;
+  if (rule.frequency === 'weekly' || rule.weekDays?.length) {
+    const offset = (target.getDay() - parseKey(from).getDay() + 7) % 7;
+    const weekDays = [...new Set((rule.weekDays ?? []).map(day => (day + offset) % 7))].sort((a, b) => a - b);
+    return { ...rule, start, weekDays };
+  }
+  const months = rule.frequency === 'yearly' ? [target.getMonth() + 1] : rule.months;
+  return { ...rule, start, months, dayOfMonth: target.getDate() };
+};
+
+/** The series with `changes` applied to every occurrence; a `date` moves the rule. */
+const applyToSeries = (series: Task, occurrenceDate: string, changes: Partial<Task>): Task => {
+  const { id, date, occurrences, occurrenceDate: _, ...fields } = changes;
+  const next: Task = { ...series, ...fields };
+  if (date && date !== occurrenceDate) next.recurrence = shiftRule(next.recurrence!, occurrenceDate, date);
+  return next;
+};
+
+/** Merge `changes` into the override for one date, dropping fields that no longer differ. */
+const mergeOverride = (existing: OccurrenceOverride | undefined, changes: Partial<Task>, occurrenceDate: string): OccurrenceOverride => {
+  const merged: Record<string, unknown> = { ...existing };
+  OVERRIDE_FIELDS.forEach(key => { if (changes[key] !== undefined) merged[key] = changes[key]; });
+  if (changes.date !== undefined) merged.movedTo = changes.date === occurrenceDate ? undefined : changes.date;
+  Object.keys(merged).forEach(key => { if (merged[key] === undefined) delete merged[key]; });
+  return merged as OccurrenceOverride;
+};
+
+/**
+ * Split `series` at `occurrenceDate`: the part before keeps the id and the earlier
+ * overrides, the part from that date on gets a new id and the later ones.
+ */
+const splitSeries = (inv: LifeInventory, series: Task, occurrenceDate: string): [Task, Task] => {
+  // A COUNT would restart on the new half, so both halves get the series' end date instead
+  const rule = withCountAsUntil(series.recurrence!);
+  const entries = Object.entries(series.occurrences ?? {});
+  const pick = (keep: (key: string) => boolean) => {
+    const picked = entries.filter(([key]) => keep(key));
+    return picked.length > 0 ? Object.fromEntries(picked) : undefined;
+  };
+  const existingIds = new Set([...inv.fixed, ...inv.flexible].map(t => t.id));
+  return [
+    { ...series, recurrence: { ...rule, until: addDaysToKey(occurrenceDate, -1) }, occurrences: pick(key => key < occurrenceDate) },
+    { ...series, id: generateUniqueTaskId(existingIds), recurrence: { ...rule, start: occurrenceDate }, occurrences: pick(key => key >= occurrenceDate) },
+  ];
+};
+
+/**
+ * Apply `changes` to the occurrence of `seriesId` originally on `occurrenceDate`,
+ * to it and every later one, or to the whole series. A `date` in `changes`
+ * reschedules. With scope 'this', fields a single day cannot override are ignored
+ * (check canApplyToOccurrence first).
+ */
+export const updateRecurring = (inv: LifeInventory, seriesId: string, occurrenceDate: string, scope: OccurrenceScope, changes: Partial<Task>): LifeInventory => {
+  const series = findSeries(inv, seriesId);
+  if (!series) return inv;
+
+  if (scope === 'this') {
+    const override = mergeOverride(series.occurrences?.[occurrenceDate], changes, occurrenceDate);
+    const { [occurrenceDate]: _, ...others } = series.occurrences ?? {};
+    const occurrences = Object.keys(override).length > 0 ? { ...others, [occurrenceDate]: override } : others;
+    return replaceTask(inv, seriesId, [{ ...series, occurrences }]);
+  }
+  if (scope === 'all' || isFirstOccurrence(series, occurrenceDate)) {
+    return replaceTask(inv, seriesId, [applyToSeries(series, occurrenceDate, changes)]);
+  }
+  const [before, after] = splitSeries(inv, series, occurrenceDate);
+  return replaceTask(inv, seriesId, [before, applyToSeries(after, occurrenceDate, changes)]);
+};
+
+/** Skip one occurrence, end the series before it, or delete the series. */
+export const deleteRecurring = (inv: LifeInventory, seriesId: string, occurrenceDate: string, scope: OccurrenceScope): LifeInventory => {
+  const series = findSeries(inv, seriesId);
+  if (!series) return inv;
+
+  if (scope === 'this') {
+    const occurrences = { ...series.occurrences, [occurrenceDate]: { ...series.occurrences?.[occurrenceDate], skipped: true } };
+    return replaceTask(inv, seriesId, [{ ...series, occurrences }]);
+  }
+  if (scope === 'all' || isFirstOccurrence(series, occurrenceDate)) return replaceTask(inv, seriesId, []);
+  return replaceTask(inv, seriesId, [splitSeries(inv, series, occurrenceDate)[0]]);
+};
@@ -0,0 +1,302 @@
+/**
+ * DESIGN DECISION: Weekly and Monthly Retrospectives
+ *
+ * Everything else in the app is viewed one day at a time. A retrospective folds a
+ * week (Monday-Sunday) or a calendar month into one report, cut off at today:
+ *
+ * 1. **Numbers are local**: completion and hours by category come from
+ *    getTasksForDate for every day (so recurring tasks count on each day they
+ *    occur), accepted orchestrations from approvedOrchestrations, check-ins from
+ *    the action journal plus the ledger's last_contact dates, slipped contacts from
+ *    calculateRelationshipStatus at the start and end of the period, mood and
+ *    energy from the day reviews.
+ * 2. **Narrative is the model's**: GeminiService.generateRetrospectiveNarrative
+ *    interprets formatStatisticsForPrompt(); offline or on failure the report uses
+ *    localNarrative(), so a report can always be produced.
+ * 3. **Shareable output**: the same report renders to Markdown (for notes, chat,
+ *    issue trackers) and to a self-contained HTML page with inline styles.
+ *
+ * Completion is read from each task's `completed` flag; the report therefore shows
+ * the state of the inventory now, not a historical log.
+ */
+
+import { ActionJournalEntry, ApprovedOrchestration, DayReviewLog, LifeInventory, RelationshipLedger, Task, calculateRelationshipStatus } from "../types";
+import { DEFAULT_SCHEDULER_OPTIONS, durationOf } from "./dayScheduler";
+import { addDaysToKey, keyToDate } from "./dateKeys";
+import { getTasksForDate } from "./taskQueries";
+import { formatMinutesAsDuration } from "./timeParsing";
+
+export type RetrospectivePeriod = 'week' | 'month';
+
+type Category = NonNullable<Task['category']>;
+const CATEGORIES: Category[] = ['Career', 'Health', 'Life', 'Family'];
+
+export interface CompletionStats {
+  planned: number;
+  completed: number;
+  plannedMinutes: number;
+  completedMinutes: number;
+}
+
+export interface RetrospectiveSources {
+  inventory: LifeInventory;
+  ledger: RelationshipLedger;
+  approvedOrchestrations: Record<string, ApprovedOrchestration>;
+  actionJournal: ActionJournalEntry[];
+  dayReviews: DayReviewLog;
+}
+
+export interface RetrospectiveStats {
+  period: RetrospectivePeriod;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD, never after today
+  days: number;
+  totals: CompletionStats;
+  byCategory: Record<Category, CompletionStats>;
+  overloadHours: number;
+  overloadedDays: string[];
+  busiestDay: { date: string; minutes: number } | null;
+  orchestratedDays: string[];
+  checkins: { count: number; people: string[] };
+  slippedToOverdue: string[];
+  reviews: { count: number; averageMood: number | null; averageEnergy: number | null };
+}
+
+export interface RetrospectiveReport {
+  stats: RetrospectiveStats;
+  narrative: string;
+  narrativeSource: 'model' | 'local';
+  generatedAt: string; // ISO timestamp
+}
+
+const emptyStats = (): CompletionStats => ({ planned: 0, completed: 0, plannedMinutes: 0, completedMinutes: 0 });
+
+// last_contact is written as YYYY-MM-DD by the executors but may be a full ISO string from older data
+const contactDateKey = (lastContact: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(lastContact) ? lastContact : new Date(lastContact).toLocaleDateString('en-CA');
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—');
+
+const average = (values: number[]) => (values.length > 0 ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10 : null);
+
+const formatKey = (dateKey: string, options: Intl.DateTimeFormatOptions) => keyToDate(dateKey).toLocaleDateString('en-US', options);
+
+/** First and last day of the week (Monday-Sunday) or month containing `anchorKey`, ending no later than today. */
+export const periodRange = (period: RetrospectivePeriod, anchorKey: string, todayKey: string): { startDate: string; endDate: string } => {
+  const anchor = anchorKey > todayKey ? todayKey : anchorKey;
+  const date = keyToDate(anchor);
+  let startDate: string;
+  let endDate: string;
+  if (period === 'week') {
+    startDate = addDaysToKey(anchor, -((date.getDay() + 6) % 7));
+    endDate = addDaysToKey(startDate, 6);
+  } else {
+    startDate = new Date(date.getFullYear(), date.getMonth(), 1).toLocaleDateString('en-CA');
+    endDate = new Date(date.getFullYear(), date.getMonth() + 1, 0).toLocaleDateString('en-CA');
+  }
+  return { startDate, endDate: endDate > todayKey ? todayKey : endDate };
+};
+
+export const periodTitle = (stats: Pick<RetrospectiveStats, 'period' | 'startDate' | 'endDate'>): string =>
+  stats.period === 'week'
+    ? `Weekly Retrospective: ${formatKey(stats.startDate, { month: 'short', day: 'numeric' })} – ${formatKey(stats.endDate, { month: 'short', day: 'numeric', year: 'numeric' })}`
+    : `Monthly Retrospective: ${formatKey(stats.startDate, { month: 'long', year: 'numeric' })}`;
+
+export const computeRetrospective = (
+  period: RetrospectivePeriod,
+  anchorKey: string,
+  todayKey: string,
+  sources: RetrospectiveSources,
+  overloadHours: number = DEFAULT_SCHEDULER_OPTIONS.overloadHours,
+): RetrospectiveStats => {
+  const { startDate, endDate } = periodRange(period, anchorKey, todayKey);
+  const dates: string[] = [];
+  for (let d = startDate; d <= endDate; d = addDaysToKey(d, 1)) dates.push(d);
+  const inPeriod = (dateKey: string) => dateKey >= startDate && dateKey <= endDate;
+
+  const totals = emptyStats();
+  const byCategory = Object.fromEntries(CATEGORIES.map(c => [c, emptyStats()])) as Record<Category, CompletionStats>;
+  const overloadedDays: string[] = [];
+  let busiestDay: RetrospectiveStats['busiestDay'] = null;
+
+  dates.forEach(date => {
+    const dayTasks = getTasksForDate(sources.inventory, date);
+    let dayMinutes = 0;
+    [...dayTasks.fixed, ...dayTasks.flexible].forEach(task => {
+      const minutes = durationOf(task);
+      dayMinutes += minutes;
+      [totals, byCategory[task.category ?? 'Life']].forEach(stats => {
+        stats.planned++;
+        stats.plannedMinutes += minutes;
+        if (task.completed) {
+          stats.completed++;
+          stats.completedMinutes += minutes;
+        }
+      });
+    });
+    if (dayMinutes > overloadHours * 60) overloadedDays.push(date);
+    if (dayMinutes > 0 && (!busiestDay || dayMinutes > busiestDay.minutes)) busiestDay = { date, minutes: dayMinutes };
+  });
+
+  // A check-in is one person on one day, whichever way it was recorded
+  const checkins = new Map<string, string>(); // "key|date" → name
+  sources.actionJournal.filter(e => !e.undoneAt).forEach(entry => {
+    entry.personChanges.forEach(change => {
+      const after = change.after?.last_contact;
+      if (!after || after === change.before?.last_contact) return;
+      const date = contactDateKey(after);
+      if (inPeriod(date)) checkins.set(`${change.key}|${date}`, change.after!.name);
+    });
+  });
+  Object.entries(sources.ledger).forEach(([key, person]) => {
+    const date = contactDateKey(person.last_contact);
+    if (inPeriod(date)) checkins.set(`${key}|${date}`, person.name);
+  });
+
+  // Contacted after the period: their status at its end is unknown, so they are left out
+  const slippedToOverdue = Object.values(sources.ledger)
+    .filter(p => contactDateKey(p.last_contact) <= endDate)
+    .filter(p => calculateRelationshipStatus(p.priority, p.last_contact, keyToDate(endDate)) === 'Overdue'
+      && calculateRelationshipStatus(p.priority, p.last_contact, keyToDate(startDate)) !== 'Overdue')
+    .map(p => p.name);
+
+  const reviews = Object.values(sources.dayReviews).filter(r => inPeriod(r.date));
+
+  return {
+    period,
+    startDate,
+    endDate,
+    days: dates.length,
+    totals,
+    byCategory,
+    overloadHours,
+    overloadedDays,
+    busiestDay,
+    orchestratedDays: dates.filter(d => sources.approvedOrchestrations[d]),
+    checkins: { count: checkins.size, people: [...new Set(checkins.values())] },
+    slippedToOverdue,
+    reviews: {
+      count: reviews.length,
+      averageMood: average(reviews.flatMap(r => (r.mood ? [r.mood] : []))),
+      averageEnergy: average(reviews.flatMap(r => (r.energy ? [r.energy] : []))),
+    },
+  };
+};
+
+interface Table {
+  head: string[];
+  rows: string[][];
+}
+
+// One structure behind both renderers (and the model prompt), so they never disagree
+const glanceTable = (s: RetrospectiveStats): Table => ({
+  head: ['', 'Planned', 'Completed', 'Rate'],
+  rows: [
+    ['Tasks', String(s.totals.planned), String(s.totals.completed), percent(s.totals.completed, s.totals.planned)],
+    ['Hours', formatMinutesAsDuration(s.totals.plannedMinutes), formatMinutesAsDuration(s.totals.completedMinutes), percent(s.totals.completedMinutes, s.totals.plannedMinutes)],
+  ],
+});
+
+const categoryTable = (s: RetrospectiveStats): Table => ({
+  head: ['Category', 'Tasks done', 'Hours done', 'Rate'],
+  rows: CATEGORIES.filter(c => s.byCategory[c].planned > 0).map(c => {
+    const stats = s.byCategory[c];
+    return [c, `${stats.completed}/${stats.planned}`, `${formatMinutesAsDuration(stats.completedMinutes)} of ${formatMinutesAsDuration(stats.plannedMinutes)}`, percent(stats.completed, stats.planned)];
+  }),
+});
+
+const highlightLines = (s: RetrospectiveStats): string[] => {
+  const day = (d: string) => formatKey(d, { weekday: 'short', month: 'short', day: 'numeric' });
+  const lines = [
+    `Orchestrations accepted: ${s.orchestratedDays.length} of ${s.days} days`,
+    `Check-ins logged: ${s.checkins.count}${s.checkins.people.length > 0 ? ` (${s.checkins.people.join(', ')})` : ''}`,
+    `Slipped to Overdue: ${s.slippedToOverdue.length > 0 ? s.slippedToOverdue.join(', ') : 'nobody'}`,
+    `Overloaded days (over ${s.overloadHours}h planned): ${s.overloadedDays.length > 0 ? s.overloadedDays.map(day).join(', ') : 'none'}`,
+  ];
+  if (s.busiestDay) lines.push(`Busiest day: ${day(s.busiestDay.date)} with ${formatMinutesAsDuration(s.busiestDay.minutes)} planned`);
+  if (s.reviews.count > 0) {
+    lines.push(`Day reviews: ${s.reviews.count}${s.reviews.averageMood !== null ? ` · average mood ${s.reviews.averageMood}/5` : ''}${s.reviews.averageEnergy !== null ? ` · average energy ${s.reviews.averageEnergy}/5` : ''}`);
+  }
+  return lines;
+};
+
+const markdownTable = ({ head, rows }: Table) =>
+  [`| ${head.join(' | ')} |`, `|${head.map(() => ' --- ').join('|')}|`, ...rows.map(r => `| ${r.join(' | ')} |`)].join('\n');
+
+/** The statistics as the model receives them (the report body without narrative). */
+export const formatStatisticsForPrompt = (s: RetrospectiveStats): string =>
+  [
+    `${periodTitle(s)} (${s.startDate} to ${s.endDate}, ${s.days} days)`,
+    markdownTable(glanceTable(s)),
+    markdownTable(categoryTable(s)),
+    ...highlightLines(s).map(l => `- ${l}`),
+  ].join('\n\n');
+
+/** Plain summary used when the model narrative is unavailable. */
+export const localNarrative = (s: RetrospectiveStats): string => {
+  if (s.totals.planned === 0) return `No tasks were planned between ${s.startDate} and ${s.endDate}.`;
+  const rated = CATEGORIES.filter(c => s.byCategory[c].planned > 0)
+    .map(c => ({ c, rate: s.byCategory[c].completed / s.byCategory[c].planned }))
+    .sort((a, b) => b.rate - a.rate);
+  const parts = [
+    `You completed ${s.totals.completed} of ${s.totals.planned} planned tasks (${percent(s.totals.completed, s.totals.planned)}), ${formatMinutesAsDuration(s.totals.completedMinutes)} of ${formatMinutesAsDuration(s.totals.plannedMinutes)} planned.`,
+  ];
+  if (rated.length > 1) parts.push(`${rated[0].c} went best (${Math.round(rated[0].rate * 100)}%), ${rated[rated.length - 1].c} least well (${Math.round(rated[rated.length - 1].rate * 100)}%).`);
+  if (s.overloadedDays.length > 0) parts.push(`${s.overloadedDays.length} day${s.overloadedDays.length === 1 ? ' was' : 's were'} planned over ${s.overloadHours}h.`);
+  if (s.slippedToOverdue.length > 0) parts.push(`Reach out to ${s.slippedToOverdue.join(', ')}, who slipped to Overdue.`);
+  return parts.join(' ');
+};
+
+export const renderRetrospectiveMarkdown = ({ stats, narrative, generatedAt }: RetrospectiveReport): string =>
+  [
+    `# ${periodTitle(stats)}`,
+    `_${stats.startDate} to ${stats.endDate} · generated ${new Date(generatedAt).toLocaleString()}_`,
+    '## Summary',
+    narrative,
+    '## At a glance',
+    markdownTable(glanceTable(stats)),
+    highlightLines(stats).map(l => `- ${l}`).join('\n'),
+    '## By category',
+    categoryTable(stats).rows.length > 0 ? markdownTable(categoryTable(stats)) : '_No tasks in this period._',
+  ].join('\n\n') + '\n';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlTable = ({ head, rows }: Table) =>
+  `<table><thead><tr>${head.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>${rows.map(r => `<tr>${r.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+/** A standalone HTML page (inline styles, no external assets) for sharing or printing. */
+export const renderRetrospectiveHtml = ({ stats, narrative, generatedAt }: RetrospectiveReport): string => {
+  const title = escapeHtml(periodTitle(stats));
+  const categories = categoryTable(stats);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #1e293b; max-width: 720px; margin: 40px auto; padding: 0 20px; line-height: 1.5; }
+h1 { font-size: 24px; margin-bottom: 4px; }
+h2 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.08em; color: #64748b; margin-top: 32px; }
+.meta { color: #94a3b8; font-size: 13px; }
+table { border-collapse: collapse; width: 100%; font-size: 14px; margin: 12px 0; }
+th, td { text-align: left; padding: 6px 10px; border-bottom: 1px solid #e2e8f0; }
+th { color: #64748b; font-weight: 600; }
+li { margin: 4px 0; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">${escapeHtml(`${stats.startDate} to ${stats.endDate} · generated ${new Date(generatedAt).toLocaleString()}`)}</p>
+<h2>Summary</h2>
+${narrative.split(/\n\s*\n/).map(p => `<p>${escapeHtml(p.trim())}</p>`).join('\n')}
+<h2>At a glance</h2>
+${htmlTable(glanceTable(stats))}
+<ul>${highlightLines(stats).map(l => `<li>${escapeHtml(l)}</li>`).join('')}</ul>
+<h2>By category</h2>
+${categories.rows.length > 0 ? htmlTable(categories) : '<p>No tasks in this period.</p>'}
+</body>
+</html>
+`;
+};
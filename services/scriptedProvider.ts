@@ -0,0 +1,202 @@
+/**
+ * DESIGN DECISION: Deterministic Scripted Provider
+ *
+ * Replays canned model output from a JSON fixture instead of calling Gemini.
+ * It speaks the same LLMProvider contract as the real model, so everything
+ * downstream — the agent loop, tool dispatch, the ToolExecutors in App.tsx,
+ * proposal cards — runs unmodified and fully offline.
+ *
+ * Fixture model:
+ * - A fixture is a list of scripted conversations. Each user message selects the
+ *   first conversation whose `match` regex hits the message text (or the fallback).
+ * - A conversation is a list of rounds. Round 0 answers the user message; every
+ *   batch of function responses the agent loop sends back advances to the next round.
+ *   A round can emit text, function calls, or both — exactly like a model turn.
+ *
+ * Templating keeps fixtures date-independent:
+ * - "{{date}}" / "{{weekday}}" expand from the session's "Target Date" context line
+ * - A string value that is exactly "{{response.<tool>.<path>}}" is replaced by the
+ *   value at <path> in the most recent response from <tool>. Paths may join arrays
+ *   with "+", e.g. "{{response.get_life_context.fixed+flexible}}" yields every task.
+ *
+ * Why not random or LLM-generated variety?
+ * Determinism is the point: the same fixture and the same app state always produce
+ * the same tool calls, which makes executor bugs reproducible without network access.
+ */
+
+import { Part, Content } from "@google/generative-ai";
+import { LLMProvider, LLMChatSession, LLMResponse, LLMStreamResult, LLMSessionConfig, LLMFunctionCall } from "./llmProvider";
+
+export interface ScriptedRound {
+  text?: string;
+  functionCalls?: LLMFunctionCall[];
+}
+
+export interface ScriptedConversation {
+  id: string;
+  match?: string; // Case-insensitive regex tested against the user message
+  rounds: ScriptedRound[];
+}
+
+export interface ScriptedFixture {
+  name: string;
+  description?: string;
+  conversations: ScriptedConversation[];
+  fallback?: ScriptedConversation;
+}
+
+// Rough chars-per-token ratio for English prose; good enough for offline budgeting.
+const CHARS_PER_TOKEN = 4;
+const STREAM_CHUNK_WORDS = 6;
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const makeResponse = (text: string, calls: LLMFunctionCall[] | undefined, promptTokens: number): LLMResponse => ({
+  text: () => text,
+  functionCalls: () => (calls && calls.length > 0 ? calls : undefined),
+  usageMetadata: {
+    promptTokenCount: promptTokens,
+    candidatesTokenCount: estimateTokens(text + (calls ? JSON.stringify(calls) : '')),
+    totalTokenCount: promptTokens + estimateTokens(text + (calls ? JSON.stringify(calls) : '')),
+  },
+});
+
+/**
+ * Resolve "a.b+c" against an object. Each "+"-separated path is read independently;
+ * when more than one path is given the (array) results are concatenated.
+ */
+const readPath = (source: any, expression: string): any => {
+  const values = expression.split('+').map(path =>
+    path.split('.').filter(Boolean).reduce((acc: any, key) => (acc == null ? undefined : acc[key]), source)
+  );
+  if (values.length === 1) return values[0];
+  return values.flatMap(v => (Array.isArray(v) ? v : v == null ? [] : [v]));
+};
+
+class ScriptedChatSession implements LLMChatSession {
+  private history: Content[];
+  private conversation: ScriptedConversation | null = null;
+  private roundIndex = 0;
+  private lastResponses: Record<string, any> = {};
+  private templateVars: Record<string, string>;
+
+  constructor(private fixture: ScriptedFixture, private config: LLMSessionConfig) {
+    this.history = [...(config.history || [])];
+    this.templateVars = ScriptedChatSession.extractTemplateVars(config.systemInstruction);
+  }
+
+  private static extractTemplateVars(systemInstruction: string): Record<string, string> {
+    const isoMatch = systemInstruction.match(/Format for add_task:\s*(\d{4}-\d{2}-\d{2})/);
+    const date = isoMatch ? isoMatch[1] : new Date().toLocaleDateString('en-CA');
+    const weekday = new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long' });
+    return { date, weekday };
+  }
+
+  private expandTemplates(value: any): any {
+    if (typeof value === 'string') {
+      const whole = value.match(/^\{\{response\.([a-z_]+)\.([^}]+)\}\}$/);
+      if (whole) return readPath(this.lastResponses[whole[1]], whole[2]);
+      return value.replace(/\{\{(\w+)\}\}/g, (m, key) => this.templateVars[key] ?? m);
+    }
+    if (Array.isArray(value)) return value.map(v => this.expandTemplates(v));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.expandTemplates(v)]));
+    }
+    return value;
+  }
+
+  /**
+   * Advance the script for one request. A request carrying function responses
+   * continues the current conversation; anything else starts a new one.
+   */
+  private nextRound(request: string | Array<string | Part>): { text: string; calls?: LLMFunctionCall[] } {
+    const parts: Array<string | Part> = Array.isArray(request) ? request : [request];
+    const functionResponses = parts.filter((p): p is Part => typeof p !== 'string' && !!p.functionResponse);
+
+    if (functionResponses.length > 0) {
+      for (const part of functionResponses) {
+        const fr = part.functionResponse!;
+        // The agent loop wraps each tool result as { result }
+        this.lastResponses[fr.name] = 'result' in fr.response ? fr.response.result : fr.response;
+      }
+      this.roundIndex++;
+    } else {
+      const messageText = parts.map(p => (typeof p === 'string' ? p : p.text || '')).join('\n');
+      this.conversation = this.fixture.conversations.find(c => {
+        if (!c.match) return false;
+        try { return new RegExp(c.match, 'i').test(messageText); } catch { return false; }
+      }) || this.fixture.fallback || null;
+      this.roundIndex = 0;
+      this.lastResponses = {};
+      console.log(`🎞️ [ScriptedProvider] "${this.fixture.name}" → conversation: ${this.conversation?.id ?? '(none)'}`);
+    }
+
+    const round = this.conversation?.rounds[this.roundIndex];
+    if (!round) return { text: '' };
+    return {
+      text: this.expandTemplates(round.text || ''),
+      calls: round.functionCalls?.map(c => ({ name: c.name, args: this.expandTemplates(c.args || {}) })),
+    };
+  }
+
+  private record(request: string | Array<string | Part>, text: string, calls?: LLMFunctionCall[]) {
+    const parts: Array<string | Part> = Array.isArray(request) ? request : [request];
+    this.history.push({ role: parts.some(p => typeof p !== 'string' && p.functionResponse) ? 'function' : 'user', parts: parts.map(p => (typeof p === 'string' ? { text: p } : p)) });
+    const modelParts: Part[] = [];
+    if (text) modelParts.push({ text });
+    (calls || []).forEach(c => modelParts.push({ functionCall: { name: c.name, args: c.args } }));
+    this.history.push({ role: 'model', parts: modelParts.length > 0 ? modelParts : [{ text: '' }] });
+  }
+
+  private promptTokens(): number {
+    return estimateTokens(this.config.systemInstruction + JSON.stringify(this.history));
+  }
+
+  async sendMessage(request: string | Array<string | Part>): Promise<{ response: LLMResponse }> {
+    const { text, calls } = this.nextRound(request);
+    const promptTokens = this.promptTokens();
+    this.record(request, text, calls);
+    return { response: makeResponse(text, calls, promptTokens) };
+  }
+
+  async sendMessageStream(request: string | Array<string | Part>): Promise<LLMStreamResult> {
+    const { text, calls } = this.nextRound(request);
+    const promptTokens = this.promptTokens();
+    this.record(request, text, calls);
+
+    // Split into word groups so consumers exercise the same multi-chunk path as a real stream.
+    const words = text.split(/(?<=\s)/);
+    const chunks: string[] = [];
+    for (let i = 0; i < words.length; i += STREAM_CHUNK_WORDS) {
+      chunks.push(words.slice(i, i + STREAM_CHUNK_WORDS).join(''));
+    }
+
+    async function* stream(): AsyncGenerator<LLMResponse> {
+      for (const chunk of chunks) yield makeResponse(chunk, undefined, 0);
+      if (calls && calls.length > 0) yield makeResponse('', calls, 0);
+    }
+
+    return { stream: stream(), response: Promise.resolve(makeResponse(text, calls, promptTokens)) };
+  }
+
+  async getHistory(): Promise<Content[]> {
+    return [...this.history];
+  }
+}
+
+export class ScriptedProvider implements LLMProvider {
+  readonly id: string;
+  readonly requiresNetwork = false;
+
+  constructor(private fixture: ScriptedFixture) {
+    this.id = `scripted:${fixture.name}`;
+  }
+
+  startChat(config: LLMSessionConfig): LLMChatSession {
+    return new ScriptedChatSession(this.fixture, config);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+}
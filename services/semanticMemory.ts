@@ -0,0 +1,209 @@
+/**
+ * DESIGN DECISION: Semantic Recall for Session Context
+ *
+ * The session context used to include every memory ever saved. That grows without
+ * bound and buries the two memories that matter for today under fifty that do not.
+ * This service keeps a vector index of memories and past chat messages and returns
+ * only the top-k most relevant to a query (the target date's tasks and recent talk).
+ *
+ * Data flow:
+ * - index(): called whenever memories or messages change (and once on load, which
+ *   doubles as the backfill). Embeds whatever is not yet indexed with the current
+ *   embedder and mirrors it into LifeDatabase (IndexedDB); removes records that no
+ *   longer exist in app state.
+ * - recall(): embeds the query and uses LifeDatabase.findSimilarMemories /
+ *   findSimilarMessages. Any failure (offline, quota, empty index) falls back to
+ *   recallLocally().
+ * - recallLocally(): synchronous ranking with the local hashing embedder over the
+ *   live app state. Used in demo mode (which must never persist) and as fallback.
+ *
+ * localStorage remains the source of truth; the index only ever returns ids that
+ * still exist in the state passed by the caller.
+ */
+
+import { ChatHistory, ChatMessage, Memory } from "../types";
+import { db } from "./db";
+import { Embedder, GeminiEmbedder, cosineSimilarity, localEmbedder } from "./embeddingService";
+
+export const DEFAULT_RECALL_MEMORIES = 8;
+export const DEFAULT_RECALL_MESSAGES = 5;
+/** Below this many memories, recall returns all of them — ranking a tiny bank only hides things. */
+export const RECALL_ALL_MEMORIES_BELOW = 10;
+
+// Similarity floors per embedder family. Hashed bag-of-words scores run much lower
+// than neural embeddings for the same degree of relatedness.
+const NEURAL_THRESHOLD = 0.45;
+const LOCAL_THRESHOLD = 0.12;
+
+// Long messages are truncated before embedding; the opening carries the topic.
+const MAX_EMBED_CHARS = 1500;
+
+const USER_ID = 'local-user';
+
+export interface RecalledMessage {
+  date: string;
+  role: ChatMessage['role'];
+  text: string;
+}
+
+export interface RecallResult {
+  memories: Memory[];
+  messages: RecalledMessage[];
+  /** 'vector' = LifeDatabase search, 'local' = on-the-fly hashing fallback, 'all' = bank below threshold */
+  source: 'vector' | 'local' | 'all';
+}
+
+export interface RecallOptions {
+  memories: Memory[];
+  allMessages: ChatHistory;
+  /** Messages from this date are already in the chat history, so they are not recalled. */
+  excludeDate?: string;
+  memoryLimit?: number;
+  messageLimit?: number;
+}
+
+/** Chat messages worth indexing: real user/model text, not placeholders or action cards. */
+const indexableMessages = (allMessages: ChatHistory): Array<ChatMessage & { date: string }> =>
+  Object.entries(allMessages).flatMap(([date, msgs]) =>
+    msgs
+      .filter(m => !m.isThinking && !m.isAction && m.text && m.text.trim().length > 20 && !m.text.startsWith('[System'))
+      .map(m => ({ ...m, date }))
+  );
+
+const embedText = (text: string) => text.slice(0, MAX_EMBED_CHARS);
+
+class SemanticMemoryService {
+  private embedder: Embedder = new GeminiEmbedder();
+  private persist = true;
+  private indexing: Promise<void> | null = null;
+  private pendingIndex: { memories: Memory[]; allMessages: ChatHistory } | null = null;
+
+  /** Demo mode uses the local embedder and never touches IndexedDB. */
+  configure(options: { embedder: Embedder; persist: boolean }) {
+    this.embedder = options.embedder;
+    this.persist = options.persist;
+  }
+
+  get embedderId() {
+    return this.embedder.id;
+  }
+
+  /**
+   * Bring the index in line with app state. Concurrent calls are coalesced: while one
+   * run is in flight, only the most recent state is queued for the next run.
+   */
+  index(memories: Memory[], allMessages: ChatHistory): Promise<void> {
+    if (!this.persist) return Promise.resolve();
+    this.pendingIndex = { memories, allMessages };
+    if (!this.indexing) {
+      this.indexing = this.drainIndexQueue().finally(() => { this.indexing = null; });
+    }
+    return this.indexing;
+  }
+
+  private async drainIndexQueue() {
+    while (this.pendingIndex) {
+      const { memories, allMessages } = this.pendingIndex;
+      this.pendingIndex = null;
+      try {
+        await this.syncIndex(memories, allMessages);
+      } catch (error) {
+        // Leave unembedded items for the next run; recall degrades to local ranking meanwhile.
+        console.warn('🧠 Semantic index sync failed:', error);
+      }
+    }
+  }
+
+  private async syncIndex(memories: Memory[], allMessages: ChatHistory) {
+    const model = this.embedder.id;
+    const stored = await db.getEmbeddedIds(USER_ID);
+    const messages = indexableMessages(allMessages);
+
+    // Prune records that were deleted from app state.
+    const liveMemoryIds = new Set(memories.map(m => m.id));
+    const liveMessageIds = new Set(messages.map(m => m.id));
+    await Promise.all([
+      ...[...stored.memories.keys()].filter(id => !liveMemoryIds.has(id)).map(id => db.deleteMemory(id)),
+      ...[...stored.messages.keys()].filter(id => !liveMessageIds.has(id)).map(id => db.deleteMessage(id)),
+    ]);
+
+    // Memories are editable, so re-embed when the stored copy's content differs.
+    const storedMemories = new Map((await db.getMemories(USER_ID)).map(m => [m.id, m.content]));
+    const memoriesToEmbed = memories.filter(m => stored.memories.get(m.id) !== model || storedMemories.get(m.id) !== m.content);
+    const messagesToEmbed = messages.filter(m => stored.messages.get(m.id) !== model);
+    if (memoriesToEmbed.length === 0 && messagesToEmbed.length === 0) return;
+
+    console.log(`🧠 Embedding ${memoriesToEmbed.length} memories and ${messagesToEmbed.length} messages with ${model}`);
+    const vectors = await this.embedder.embed(
+      [...memoriesToEmbed.map(m => embedText(m.content)), ...messagesToEmbed.map(m => embedText(m.text))],
+      'document'
+    );
+    await Promise.all([
+      ...memoriesToEmbed.map((m, i) => db.saveMemory(USER_ID, m, vectors[i], model)),
+      ...messagesToEmbed.map((m, i) => {
+        const { date, ...message } = m;
+        return db.addMessage(USER_ID, message, vectors[memoriesToEmbed.length + i], model);
+      }),
+    ]);
+  }
+
+  /** Top-k memories and past messages relevant to `query`, via the persisted vector index. */
+  async recall(query: string, options: RecallOptions): Promise<RecallResult> {
+    if (!this.persist) return this.recallLocally(query, options);
+    const memoryLimit = options.memoryLimit ?? DEFAULT_RECALL_MEMORIES;
+    const messageLimit = options.messageLimit ?? DEFAULT_RECALL_MESSAGES;
+    try {
+      const [queryVector] = await this.embedder.embed([embedText(query)], 'query');
+      const threshold = this.embedder.requiresNetwork ? NEURAL_THRESHOLD : LOCAL_THRESHOLD;
+      const [similarMemories, similarMessages] = await Promise.all([
+        db.findSimilarMemories(USER_ID, queryVector, memoryLimit, this.embedder.id, threshold),
+        // Over-fetch: some hits are from the excluded date or were deleted since indexing.
+        db.findSimilarMessages(USER_ID, queryVector, messageLimit * 3, this.embedder.id, threshold),
+      ]);
+
+      const liveMemories = new Map(options.memories.map(m => [m.id, m]));
+      const liveMessages = new Map(indexableMessages(options.allMessages).map(m => [m.id, m]));
+      const result: RecallResult = {
+        memories: options.memories.length < RECALL_ALL_MEMORIES_BELOW
+          ? options.memories
+          : similarMemories.map(m => liveMemories.get(m.id)).filter((m): m is Memory => !!m),
+        messages: similarMessages
+          .map(m => liveMessages.get(m.id))
+          .filter((m): m is ChatMessage & { date: string } => !!m && m.date !== options.excludeDate)
+          .slice(0, messageLimit)
+          .map(m => ({ date: m.date, role: m.role, text: m.text })),
+        source: options.memories.length < RECALL_ALL_MEMORIES_BELOW ? 'all' : 'vector',
+      };
+      // An index that has not been backfilled yet returns nothing; local ranking is better than nothing.
+      if (result.memories.length === 0 && options.memories.length > 0) return this.recallLocally(query, options);
+      return result;
+    } catch (error) {
+      console.warn('🧠 Vector recall failed, using local ranking:', error);
+      return this.recallLocally(query, options);
+    }
+  }
+
+  /** Synchronous recall with the local hashing embedder over the given state. */
+  recallLocally(query: string, options: RecallOptions): RecallResult {
+    const memoryLimit = options.memoryLimit ?? DEFAULT_RECALL_MEMORIES;
+    const messageLimit = options.messageLimit ?? DEFAULT_RECALL_MESSAGES;
+    const queryVector = localEmbedder.embedSync(query);
+    const rank = <T>(items: T[], text: (item: T) => string, limit: number) =>
+      items
+        .map(item => ({ item, score: cosineSimilarity(queryVector, localEmbedder.embedSync(embedText(text(item)))) }))
+        .filter(x => x.score > LOCAL_THRESHOLD)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(x => x.item);
+
+    const recallAll = options.memories.length < RECALL_ALL_MEMORIES_BELOW;
+    return {
+      memories: recallAll ? options.memories : rank(options.memories, m => m.content, memoryLimit),
+      messages: rank(indexableMessages(options.allMessages).filter(m => m.date !== options.excludeDate), m => m.text, messageLimit)
+        .map(m => ({ date: m.date, role: m.role, text: m.text })),
+      source: recallAll ? 'all' : 'local',
+    };
+  }
+}
+
+export const semanticMemory = new SemanticMemoryService();
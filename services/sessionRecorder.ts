@@ -0,0 +1,151 @@
+/**
+ * DESIGN DECISION: Session Recordings for Executor Regression Replay
+ *
+ * A recording captures what the tool executors did during real use, turn by turn,
+ * in a form sessionReplay.ts can run again without the model or the UI:
+ *
+ * 1. **Turns are self-contained**: each turn stores the inventory, ledger and memories
+ *    before its first executor call and after the turn ended. The user also edits
+ *    state by hand between turns; starting every turn from its own snapshot keeps
+ *    those edits out of the replay.
+ * 2. **Executor-level calls**: calls are captured at the executor boundary (name,
+ *    positional arguments, result), after argument validation and before review-mode
+ *    staging, so the replay feeds the matching logic exactly what it received.
+ *    The model's own tool calls are kept alongside for context.
+ * 3. **Implicit turns**: an executor call outside a chat turn (applying a staged
+ *    change, ticking off a task) is recorded as a one-call turn with `message: null`,
+ *    so manual edits made around it never end up in its snapshots.
+ *
+ * Recording is opt-in and in-memory only; the user downloads the JSON when they stop.
+ */
+
+import { LifeInventory, RelationshipLedger, Memory } from "../types";
+import { DaySchedulerOptions } from "./dayScheduler";
+
+export interface ReplayState {
+  inventory: LifeInventory;
+  ledger: RelationshipLedger;
+  memories: Memory[];
+}
+
+export interface RecordedExecutorCall {
+  executor: string;
+  args: any[];
+  result?: any;
+  /** Set instead of result when the executor threw */
+  error?: string;
+}
+
+export interface RecordedModelCall {
+  name: string;
+  args: any;
+  status: string;
+}
+
+export interface RecordedTurn {
+  /** Message that started the turn (hidden system prompts included); null for UI actions */
+  message: string | null;
+  viewDate: string;  // YYYY-MM-DD being viewed
+  today: string;     // YYYY-MM-DD when the turn ran
+  /** Scheduler overrides from the prompt profile active during the turn (absent = defaults) */
+  schedulerOptions?: Partial<DaySchedulerOptions>;
+  before: ReplayState;
+  after: ReplayState;
+  calls: RecordedExecutorCall[];
+  modelCalls: RecordedModelCall[];
+}
+
+export interface SessionRecording {
+  format: 'life-orchestrator-session';
+  version: 1;
+  recordedAt: string;
+  provider: string;
+  turns: RecordedTurn[];
+}
+
+type OpenTurn = Omit<RecordedTurn, 'after'>;
+
+// Recordings are exported as JSON anyway; a JSON round-trip also detaches them from live state.
+const snapshot = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+export class SessionRecorder {
+  private recording: SessionRecording | null = null;
+  private openTurn: OpenTurn | null = null;
+
+  constructor(
+    private getState: () => ReplayState,
+    private getSchedulerOptions: () => Partial<DaySchedulerOptions> = () => ({}),
+  ) {}
+
+  get isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  start(provider: string) {
+    this.recording = { format: 'life-orchestrator-session', version: 1, recordedAt: new Date().toISOString(), provider, turns: [] };
+    this.openTurn = null;
+    console.log('⏺️ Session recording started');
+  }
+
+  /** Stop recording and return it (turns without executor calls are dropped). */
+  stop(): SessionRecording | null {
+    this.endTurn();
+    const recording = this.recording;
+    this.recording = null;
+    if (recording) console.log(`⏹️ Session recording stopped: ${recording.turns.length} turn(s)`);
+    return recording;
+  }
+
+  beginTurn(message: string | null, viewDate: string) {
+    if (!this.recording) return;
+    this.endTurn();
+    this.openTurn = {
+      message,
+      viewDate,
+      today: new Date().toLocaleDateString('en-CA'),
+      schedulerOptions: snapshot(this.getSchedulerOptions()),
+      before: snapshot(this.getState()),
+      calls: [],
+      modelCalls: [],
+    };
+  }
+
+  endTurn() {
+    const turn = this.openTurn;
+    this.openTurn = null;
+    if (!this.recording || !turn || turn.calls.length === 0) return;
+    this.recording.turns.push({ ...turn, after: snapshot(this.getState()) });
+  }
+
+  noteModelCall(call: RecordedModelCall) {
+    this.openTurn?.modelCalls.push(snapshot(call));
+  }
+
+  /**
+   * Wrap every executor so its calls are captured while recording. Passes straight
+   * through otherwise. A call outside a turn is recorded as its own implicit turn.
+   */
+  wrap<T extends Record<string, (...args: any[]) => Promise<any>>>(executors: T, viewDate: () => string): T {
+    const wrapped = {} as Record<string, (...args: any[]) => Promise<any>>;
+    Object.entries(executors).forEach(([name, run]) => {
+      wrapped[name] = async (...args: any[]) => {
+        if (!this.recording) return run(...args);
+        const implicit = !this.openTurn;
+        if (implicit) this.beginTurn(null, viewDate());
+        const call: RecordedExecutorCall = { executor: name, args: snapshot(args) };
+        this.openTurn!.calls.push(call);
+        try {
+          const result = await run(...args);
+          call.result = snapshot(result);
+          return result;
+        } catch (e) {
+          call.error = e instanceof Error ? e.message : String(e);
+          throw e;
+        } finally {
+          if (implicit) this.endTurn();
+        }
+      };
+    });
+    return wrapped as T;
+  }
+}
@@ -0,0 +1,27 @@
+import fs from "fs";
+import { fileURLToPath } from "url";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { formatReplayReport, replaySession } from "./sessionReplay";
+import { SessionRecording } from "./sessionRecorder";
+
+// The committed recordings, replayed on every test run (`npm run replay` does the same with a report)
+const RECORDINGS_DIR = fileURLToPath(new URL('./fixtures/recordings/', import.meta.url));
+const recordings = fs.readdirSync(RECORDINGS_DIR).filter(f => f.endsWith('.json')).sort();
+
+describe('session recordings', () => {
+  beforeAll(() => {
+    // The executors log every call
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('has recordings to replay', () => {
+    expect(recordings.length).toBeGreaterThan(0);
+  });
+
+  it.each(recordings)('replays %s unchanged', async file => {
+    const recording: SessionRecording = JSON.parse(fs.readFileSync(`${RECORDINGS_DIR}${file}`, 'utf-8'));
+    const report = await replaySession(recording);
+    expect(report.failedTurns, formatReplayReport(file, report)).toBe(0);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * DESIGN DECISION: Headless Replay of Recorded Sessions
+ *
+ * Each recorded turn is replayed in isolation: its `before` state is loaded into an
+ * in-memory host, the recorded executor calls are fed to createToolExecutors() in
+ * order, and the outcome is compared with what happened when it was recorded.
+ * A difference means the matching logic now behaves differently for a real input.
+ *
+ * What is compared:
+ * 1. **Results**: each call's return value (or thrown error). For proposal tools
+ *    only accepted vs rejected is compared; whether the card replaced an older one
+ *    depends on chat state that is not part of a recording.
+ * 2. **State**: inventory, ledger and memories after the last call, ignoring values
+ *    that are generated rather than decided by the executors: task and memory ids
+ *    and memory timestamps.
+ *
+ * Dates and scheduler options come from the recording (viewed date, the day it ran,
+ * the prompt profile's hours and threshold), so past/future rules, relationship
+ * statuses and baseline schedules come out exactly as they did then.
+ */
+
+import { LifeInventory, RelationshipLedger, Memory, Task } from "../types";
+import { createToolExecutors, ExecutorHost } from "./toolExecutors";
+import { RecordedTurn, ReplayState, SessionRecording } from "./sessionRecorder";
+import { syncTimeFields } from "./inventoryMigration";
+
+export interface TurnReplayResult {
+  turn: number; // 1-based
+  message: string | null;
+  calls: number;
+  mismatches: string[];
+}
+
+export interface ReplayReport {
+  turns: TurnReplayResult[];
+  failedTurns: number;
+}
+
+const PROPOSAL_EXECUTORS = new Set(['proposeOrchestration', 'proposeWeekOrchestration']);
+
+// Key-order-independent JSON, so a recording re-read from disk compares equal to live objects
+const stableJson = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableJson(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const createReplayHost = (state: ReplayState, turn: RecordedTurn): ExecutorHost => {
+  const commit = <K extends keyof ReplayState>(key: K) => (next: ReplayState[K] | ((prev: ReplayState[K]) => ReplayState[K])) => {
+    state[key] = typeof next === 'function' ? (next as (prev: ReplayState[K]) => ReplayState[K])(state[key]) : next;
+  };
+  return {
+    getInventory: () => state.inventory,
+    // Same derivation as App's commitInventory, so replayed states match recorded ones
+    commitInventory: next => commit('inventory')(prev => syncTimeFields(typeof next === 'function' ? next(prev) : next)),
+    getLedger: () => state.ledger,
+    commitLedger: commit('ledger'),
+    getMemories: () => state.memories,
+    commitMemories: commit('memories'),
+    viewDateKey: () => turn.viewDate,
+    todayKey: () => turn.today,
+    schedulerOptions: () => turn.schedulerOptions ?? {},
+    getTurnId: () => 'replay',
+    addPerson: async person => { state.ledger = { ...state.ledger, [person.name.toLowerCase()]: person }; },
+    proposeContact: () => {},
+    raiseMemoryConflict: () => {},
+    presentDayProposal: () => 'presented',
+    presentWeekProposal: () => 'presented',
+    onJournalEntry: () => {},
+    onTasksModified: () => {},
+    invalidateApprovedOrchestration: () => {},
+    saveDayReview: () => {},
+  };
+};
+
+const comparableTask = ({ id, ...task }: Task) => stableJson(task);
+const comparableMemory = ({ id, date, updatedAt, ...memory }: Memory) => stableJson(memory);
+
+/** Items present on one side only, as "missing"/"unexpected" lines. */
+const diffLists = (label: string, expected: string[], actual: string[]): string[] => {
+  const remaining = [...actual];
+  const missing: string[] = [];
+  expected.forEach(item => {
+    const i = remaining.indexOf(item);
+    if (i >= 0) remaining.splice(i, 1);
+    else missing.push(item);
+  });
+  return [
+    ...missing.map(item => `${label}: missing ${item}`),
+    ...remaining.map(item => `${label}: unexpected ${item}`),
+  ];
+};
+
+const diffState = (expected: ReplayState, actual: ReplayState): string[] => {
+  const tasks = (inv: LifeInventory, list: keyof LifeInventory) => inv[list].map(comparableTask);
+  const people = (ledger: RelationshipLedger) => Object.entries(ledger).map(([key, p]) => `${key} → ${stableJson(p)}`);
+  return [
+    ...diffLists('inventory.fixed', tasks(expected.inventory, 'fixed'), tasks(actual.inventory, 'fixed')),
+    ...diffLists('inventory.flexible', tasks(expected.inventory, 'flexible'), tasks(actual.inventory, 'flexible')),
+    ...diffLists('ledger', people(expected.ledger), people(actual.ledger)),
+    ...diffLists('memories', expected.memories.map(comparableMemory), actual.memories.map(comparableMemory)),
+  ];
+};
+
+const isRejection = (result: any) => typeof result === 'string' && result.startsWith('❌');
+
+const replayTurn = async (turn: RecordedTurn, index: number): Promise<TurnReplayResult> => {
+  const state = clone(turn.before);
+  const executors = createToolExecutors(createReplayHost(state, turn)) as Record<string, (...args: any[]) => Promise<any>>;
+  const mismatches: string[] = [];
+
+  for (const [i, call] of turn.calls.entries()) {
+    const label = `call ${i + 1} (${call.executor})`;
+    const run = executors[call.executor];
+    if (!run) {
+      mismatches.push(`${label}: executor no longer exists`);
+      continue;
+    }
+    let result: any;
+    let error: string | undefined;
+    try {
+      result = await run(...clone(call.args));
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    if (call.error !== undefined || error !== undefined) {
+      if (call.error !== error) mismatches.push(`${label}: expected ${call.error !== undefined ? `error "${call.error}"` : 'success'}, got ${error !== undefined ? `error "${error}"` : 'success'}`);
+    } else if (PROPOSAL_EXECUTORS.has(call.executor)) {
+      if (isRejection(call.result) !== isRejection(result)) mismatches.push(`${label}: expected ${stableJson(call.result)}, got ${stableJson(result)}`);
+    } else if (stableJson(call.result) !== stableJson(result)) {
+      mismatches.push(`${label}: expected ${stableJson(call.result)}, got ${stableJson(result)}`);
+    }
+  }
+
+  mismatches.push(...diffState(turn.after, state));
+  return { turn: index + 1, message: turn.message, calls: turn.calls.length, mismatches };
+};
+
+export const replaySession = async (recording: SessionRecording): Promise<ReplayReport> => {
+  if (recording.format !== 'life-orchestrator-session' || recording.version !== 1) {
+    throw new Error(`Unsupported recording format: ${recording.format} v${recording.version}`);
+  }
+  const turns: TurnReplayResult[] = [];
+  for (const [i, turn] of recording.turns.entries()) {
+    turns.push(await replayTurn(turn, i));
+  }
+  return { turns, failedTurns: turns.filter(t => t.mismatches.length > 0).length };
+};
+
+export const formatReplayReport = (name: string, report: ReplayReport): string => {
+  const lines = [`${report.failedTurns === 0 ? '✅' : '❌'} ${name}: ${report.turns.length - report.failedTurns}/${report.turns.length} turn(s) match`];
+  report.turns.filter(t => t.mismatches.length > 0).forEach(t => {
+    lines.push(`  Turn ${t.turn}${t.message ? ` "${t.message.length > 60 ? `${t.message.slice(0, 60)}…` : t.message}"` : ' (UI action)'}:`);
+    t.mismatches.forEach(m => lines.push(`    - ${m}`));
+  });
+  return lines.join('\n');
+};
@@ -33,7 +33,7 @@ export const storageService = {
    * 
    * The function calculates:
    * - Total usage across all keys
-   * - Per-category breakdown (messages, ledger, inventory, memories)
+   * - Per-category breakdown (messages, ledger, inventory, memories, token usage log)
    * - Per-date message sizes for granular cleanup
    * 
    * The 5MB quota is a soft limit (actual varies by browser), but 5MB is conservative.
@@ -47,11 +47,13 @@ export const storageService = {
         const inventoryStr = localStorage.getItem('life_inventory') || '{"fixed":[],"flexible":[]}';
         const messagesStr = localStorage.getItem('life_messages') || '{}';
         const memoriesStr = localStorage.getItem('life_memories') || '[]';
+        const usageStr = localStorage.getItem('life_token_usage') || '';
         
         const ledgerSize = new Blob([ledgerStr]).size;
         const inventorySize = new Blob([inventoryStr]).size;
         const messagesSize = new Blob([messagesStr]).size;
         const memoriesSize = new Blob([memoriesStr]).size;
+        const usageSize = new Blob([usageStr]).size;
         
         // Calculate total localStorage usage including all items (tutorial flags, tokens, etc.)
         let totalUsed = 0;
@@ -78,7 +80,8 @@ export const storageService = {
             messages: messagesSize,
             ledger: ledgerSize,
             memories: memoriesSize,
-            inventory: inventorySize
+            inventory: inventorySize,
+            usage: usageSize
           },
           messagesByDate
         };
@@ -88,7 +91,7 @@ export const storageService = {
             usedBytes: 0,
             totalQuota: 5 * 1024 * 1024,
             percentage: 0,
-            breakdown: { messages: 0, ledger: 0, memories: 0, inventory: 0 },
+            breakdown: { messages: 0, ledger: 0, memories: 0, inventory: 0, usage: 0 },
             messagesByDate: {}
         };
     }
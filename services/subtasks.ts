@@ -0,0 +1,111 @@
+/**
+ * DESIGN DECISION: Subtasks as a Checklist Inside the Task
+ *
+ * Multi-step work ("Tax prep": gather W-2s, download statements, file) stays one
+ * Task with an ordered `subtasks` checklist instead of several tasks, so moves,
+ * dependencies, calendar export and the day's task count still see one item.
+ *
+ * - Progress: ticking steps does not complete the task (that stays a deliberate
+ *   complete_task with its check-in cascade). Cards show done/total and the day
+ *   review credits a planned task by the share of its steps done.
+ * - Recurring series: the checklist belongs to the series; an occurrence whose
+ *   steps are ticked keeps its own copy in the occurrence override.
+ * - Sub-blocks: a long flexible task with two or more open steps may be scheduled
+ *   as one block per step. Each step gets its own `time` and the task's `time` is
+ *   the first block's, so accepting, moving and validating still deal with one
+ *   task. Quick Plan splits at `splitMinutes`; the model may do the same.
+ *
+ * A step lasts its own duration, or else an even share of what the task's
+ * duration leaves after the steps that have one.
+ */
+
+import { Subtask, Task } from "../types";
+import { parseDurationToMinutes, parseTimeToMinutes, taskDurationMinutes } from "./timeParsing";
+
+/** Shortest step block a split may produce */
+const MIN_STEP_MINUTES = 15;
+
+const normalize = (s: string) => (s || '').toLowerCase().trim();
+
+const openSteps = (task: Task) => (task.subtasks ?? []).filter(s => !s.completed);
+
+/** "2/5" style progress, or null for tasks without a checklist. */
+export const subtaskProgress = (task: Task): { done: number; total: number } | null => {
+  const total = task.subtasks?.length ?? 0;
+  return total > 0 ? { done: task.subtasks!.filter(s => s.completed).length, total } : null;
+};
+
+/** How much of a task is done: 1 when completed, else the share of ticked steps. */
+export const completionShare = (task: Task): number => {
+  if (task.completed) return 1;
+  const progress = subtaskProgress(task);
+  return progress ? progress.done / progress.total : 0;
+};
+
+/** Minutes per step id (see the header for how steps without a duration are sized). */
+export const stepMinutes = (task: Task): Map<string, number> => {
+  const steps = task.subtasks ?? [];
+  const own = new Map(steps.map(s => [s.id, parseDurationToMinutes(s.duration)]));
+  const unsized = steps.filter(s => own.get(s.id) === null);
+  const sized = steps.reduce((sum, s) => sum + (own.get(s.id) ?? 0), 0);
+  const share = unsized.length > 0
+    ? Math.max(MIN_STEP_MINUTES, Math.round(((taskDurationMinutes(task) ?? 0) - sized) / unsized.length))
+    : 0;
+  return new Map(steps.map(s => [s.id, own.get(s.id) ?? share]));
+};
+
+/** The scheduled blocks of a split task, in time order; empty when the task is not split. */
+export const subBlocks = (task: Task): Array<{ subtask: Subtask; start: number; length: number }> => {
+  const minutes = stepMinutes(task);
+  return openSteps(task)
+    .map(subtask => ({ subtask, start: parseTimeToMinutes(subtask.time), length: minutes.get(subtask.id)! }))
+    .filter((b): b is { subtask: Subtask; start: number; length: number } => b.start !== null)
+    .sort((a, b) => a.start - b.start);
+};
+
+/** Whether a scheduler may place `task` as one block per open step. */
+export const canSplit = (task: Task, splitMinutes: number): boolean =>
+  task.type === 'flexible' && !task.completed && (taskDurationMinutes(task) ?? 0) >= splitMinutes && openSteps(task).length >= 2;
+
+/** The open steps to place, in checklist order, with their lengths. */
+export const stepsToPlace = (task: Task): Array<{ subtask: Subtask; length: number }> => {
+  const minutes = stepMinutes(task);
+  return openSteps(task).map(subtask => ({ subtask, length: minutes.get(subtask.id)! }));
+};
+
+/** `task` with its step block times dropped (placed whole, moved or retimed). Same object if none. */
+export const withoutSubBlocks = (task: Task): Task =>
+  task.subtasks?.some(s => s.time)
+    ? { ...task, subtasks: task.subtasks.map(({ time, ...step }) => step) }
+    : task;
+
+/** `task` with step `id` started at the given times (others lose theirs). */
+export const withSubBlocks = (task: Task, times: Map<string, string>): Task => ({
+  ...task,
+  subtasks: (task.subtasks ?? []).map(({ time, ...step }) => (times.has(step.id) ? { ...step, time: times.get(step.id) } : step)),
+});
+
+/** Find a step by id, exact title, then partial title (open steps first). */
+export const findSubtask = (task: Task, ref: string): Subtask | undefined => {
+  const steps = task.subtasks ?? [];
+  const target = normalize(ref);
+  return steps.find(s => s.id === ref)
+    ?? steps.find(s => normalize(s.title) === target)
+    ?? steps.find(s => !s.completed && (normalize(s.title).includes(target) || target.includes(normalize(s.title))))
+    ?? steps.find(s => normalize(s.title).includes(target));
+};
+
+/** `task` with a new step appended; ids are unique within the task. */
+export const appendSubtask = (task: Task, title: string, duration?: string): Task => {
+  const steps = task.subtasks ?? [];
+  const ids = new Set(steps.map(s => s.id));
+  let n = steps.length + 1;
+  while (ids.has(`${task.id}-s${n}`)) n++;
+  return { ...task, subtasks: [...steps, { id: `${task.id}-s${n}`, title: title.trim(), ...(duration ? { duration } : {}) }] };
+};
+
+/** `task` with step `subtaskId` ticked or unticked. */
+export const setSubtaskDone = (task: Task, subtaskId: string, completed: boolean): Task => ({
+  ...task,
+  subtasks: (task.subtasks ?? []).map(s => (s.id === subtaskId ? { ...s, completed } : s)),
+});
@@ -0,0 +1,129 @@
+/**
+ * DESIGN DECISION: Task Dependencies
+ *
+ * `dependsOn` lists the ids of tasks that have to be done first ("draft slides"
+ * before "team review", "buy gift" before "birthday dinner"). Only the dependent
+ * stores the relation; dependents are found by scanning, which is cheap at
+ * inventory size and leaves nothing to keep in sync when tasks are deleted.
+ *
+ * What it affects:
+ * - Blocked state: a task is blocked while any prerequisite is incomplete. A
+ *   recurring prerequisite counts by its occurrence on the same day and does not
+ *   block on days it has none.
+ * - Dates: a dated task cannot move before an incomplete dated prerequisite, nor
+ *   after an incomplete dated dependent (move_tasks, update_task, week planning).
+ *   Recurring tasks are only ordered within a day.
+ * - Within a day: the local scheduler places prerequisites first and starts
+ *   dependents after they end; the orchestration validator rejects model plans
+ *   that put a dependent first.
+ *
+ * Completed prerequisites impose nothing; ids of deleted tasks are ignored.
+ */
+
+import { LifeInventory, Task } from "../types";
+import { expandSeries } from "./taskQueries";
+
+const allTasks = (inv: LifeInventory) => [...inv.fixed, ...inv.flexible];
+const isSeries = (t: Task) => !!t.recurrence && !t.date;
+const normalize = (s: string) => s.toLowerCase().trim();
+
+/** Prerequisites of `task` as they stand on `dateKey`; a recurring one as that day's occurrence. */
+export const prerequisitesOn = (task: Task, inv: LifeInventory, dateKey?: string): Task[] => {
+  const tasks = allTasks(inv);
+  return (task.dependsOn ?? []).flatMap(id => {
+    const prerequisite = tasks.find(t => t.id === id);
+    if (!prerequisite) return [];
+    if (!isSeries(prerequisite)) return [prerequisite];
+    return dateKey ? expandSeries(prerequisite, dateKey).slice(0, 1) : [];
+  });
+};
+
+/** Incomplete prerequisites of `task` (an expanded instance is judged on its own day). */
+export const blockingPrerequisites = (task: Task, inv: LifeInventory, dateKey?: string): Task[] =>
+  prerequisitesOn(task, inv, dateKey ?? task.occurrenceDate ?? task.date).filter(t => !t.completed);
+
+/** Stored tasks that list `taskId` as a prerequisite. */
+export const dependentsOf = (taskId: string, inv: LifeInventory): Task[] =>
+  allTasks(inv).filter(t => t.dependsOn?.includes(taskId));
+
+/**
+ * Why dated task `taskId` cannot stay on its date in `inv`, or null if it can.
+ * Phrased for the model to follow "it ...": names the other task, its date and the fix.
+ */
+export const dateOrderProblem = (inv: LifeInventory, taskId: string): string | null => {
+  const tasks = allTasks(inv);
+  const task = tasks.find(t => t.id === taskId);
+  if (!task?.date || task.completed) return null;
+  const laterPrerequisite = (task.dependsOn ?? [])
+    .map(id => tasks.find(t => t.id === id))
+    .find(p => p?.date && !p.completed && p.date > task.date!);
+  if (laterPrerequisite) {
+    return `depends on "${laterPrerequisite.title}", scheduled for ${laterPrerequisite.date}; move "${laterPrerequisite.title}" earlier first, or move both together`;
+  }
+  const earlierDependent = dependentsOf(taskId, inv).find(d => d.date && !d.completed && d.date < task.date!);
+  if (earlierDependent) {
+    return `must come before "${earlierDependent.title}", scheduled for ${earlierDependent.date}, which depends on it; move "${earlierDependent.title}" later first, or move both together`;
+  }
+  return null;
+};
+
+/**
+ * Earliest and latest date `task` may be on, given incomplete prerequisites and
+ * dependents among `tasks` and their (possibly planned) dates.
+ */
+export const dateBounds = (task: Task, tasks: Task[], dateOf: (t: Task) => string | undefined): { earliest?: string; latest?: string } => {
+  const pending = tasks.filter(t => !t.completed && !isSeries(t) && dateOf(t));
+  const earliest = pending.filter(t => task.dependsOn?.includes(t.id)).map(dateOf).sort().pop();
+  const latest = pending.filter(t => t.dependsOn?.includes(task.id)).map(dateOf).sort()[0];
+  return { earliest, latest };
+};
+
+/** Whether making `taskId` depend on `prerequisiteIds` would close a loop. */
+export const createsCycle = (inv: LifeInventory, taskId: string, prerequisiteIds: string[]): boolean => {
+  const byId = new Map(allTasks(inv).map(t => [t.id, t]));
+  const seen = new Set<string>();
+  const stack = [...prerequisiteIds];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(byId.get(id)?.dependsOn ?? []));
+  }
+  return false;
+};
+
+/** `tasks` reordered so each comes after its prerequisites among them; otherwise the order is kept. */
+export const orderByDependencies = <T extends Task>(tasks: T[]): T[] => {
+  const ids = new Set(tasks.map(t => t.id));
+  const placed = new Set<string>();
+  const remaining = [...tasks];
+  const ordered: T[] = [];
+  while (remaining.length > 0) {
+    const index = remaining.findIndex(t => (t.dependsOn ?? []).every(id => id === t.id || !ids.has(id) || placed.has(id)));
+    // A cycle (which createsCycle keeps out of stored data) falls back to the given order
+    const [next] = remaining.splice(Math.max(index, 0), 1);
+    placed.add(next.id);
+    ordered.push(next);
+  }
+  return ordered;
+};
+
+/**
+ * Resolve prerequisite references from a tool call (ids or titles, exact title
+ * first, then partial) to stored task ids.
+ */
+export const resolveTaskRefs = (inv: LifeInventory, refs: string[]): { ids: string[]; unknown: string[] } => {
+  const tasks = allTasks(inv);
+  const ids: string[] = [];
+  const unknown: string[] = [];
+  refs.forEach(ref => {
+    const target = normalize(ref);
+    const match = tasks.find(t => t.id === ref)
+      ?? tasks.find(t => normalize(t.title) === target)
+      ?? tasks.find(t => !t.completed && normalize(t.title).includes(target));
+    if (!match) unknown.push(ref);
+    else if (!ids.includes(match.id)) ids.push(match.id);
+  });
+  return { ids, unknown };
+};
@@ -0,0 +1,77 @@
+/**
+ * DESIGN DECISION: Inventory Queries Outside the Component
+ *
+ * These helpers used to live at the top of App.tsx. The tool executors and the
+ * session replay harness need exactly the same recurrence expansion and id
+ * generation as the UI, so they live here and everything imports them.
+ */
+
+import { LifeInventory, Task } from "../types";
+import { occursOn } from "./recurrence";
+import { withTimeFields } from "./timeParsing";
+
+/**
+ * Generate a unique ID that doesn't collide with existing task IDs.
+ * Uses retry logic to ensure uniqueness (max 10 attempts, then falls back to timestamp-based ID)
+ */
+export const generateUniqueTaskId = (existingIds: Set<string>): string => {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const id = Math.random().toString(36).substr(2, 9);
+    if (!existingIds.has(id)) {
+      return id;
+    }
+  }
+  // Fallback: Use timestamp + random to guarantee uniqueness
+  return `${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 4)}`;
+};
+
+/**
+ * The occurrence of `series` that originally falls on `occurrenceDate`, with its
+ * override applied. Ignores skipped/movedTo: callers decide where it shows up.
+ */
+export const materializeOccurrence = (series: Task, occurrenceDate: string): Task => {
+    const { occurrences, ...base } = series;
+    const { completed, skipped, movedTo, ...edits } = occurrences?.[occurrenceDate] ?? {};
+    // Overridden time/duration strings need their minute fields re-derived
+    return withTimeFields({ ...base, ...edits, completed: completed ?? base.completed, occurrenceDate });
+};
+
+/**
+ * Instances of a recurring series shown on `dateKey`: its own occurrence unless that
+ * was skipped or moved away, plus any occurrences rescheduled onto this day.
+ */
+export const expandSeries = (series: Task, dateKey: string): Task[] => {
+    const rule = series.recurrence;
+    if (!rule || series.date) return [];
+    const overrides = series.occurrences ?? {};
+    const own = occursOn(rule, dateKey) ? [dateKey] : [];
+    const movedIn = Object.keys(overrides).filter(key => key !== dateKey && overrides[key].movedTo === dateKey && occursOn(rule, key));
+    return [...own, ...movedIn]
+        .filter(key => !overrides[key]?.skipped && (!overrides[key]?.movedTo || overrides[key].movedTo === dateKey))
+        .map(key => materializeOccurrence(series, key));
+};
+
+/**
+ * getTasksForDate: Task filtering with recurrence expansion
+ * DESIGN DECISION: Client-side recurrence calculation
+ *
+ * Rather than storing every instance of recurring tasks, we store the rule
+ * and expand it on-demand. This saves storage and enables easy rule modifications.
+ *
+ * Recurrence logic:
+ * - Tasks with date field: Return if exact match
+ * - Tasks with recurrence but no date: Expand based on rule (see occursOn in recurrence.ts)
+ *   - Daily/weekly/monthly/yearly with interval, "2nd Tuesday"-style positions,
+ *     until, count and exception dates
+ *   - Per-occurrence overrides (completed, skipped, moved, edited) are applied,
+ *     and each instance carries its `occurrenceDate`
+ */
+export const getTasksForDate = (inv: LifeInventory, targetDateStr: string): LifeInventory => {
+    const expand = (tasks: Task[]) => tasks.flatMap(t =>
+        t.date === targetDateStr ? [t] : expandSeries(t, targetDateStr));
+
+    return {
+        fixed: expand(inv.fixed),
+        flexible: expand(inv.flexible)
+    };
+};
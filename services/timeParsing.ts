@@ -0,0 +1,128 @@
+/**
+ * DESIGN DECISION: Lenient Time & Duration Parsing
+ *
+ * Task times and durations are free-form strings because they come from three
+ * sources with different habits: the AI ("9:00 AM", "1.5h"), the manual task form
+ * ("14:00"), and Google Calendar imports ("1h 30m"). Anything that needs to reason
+ * about a schedule numerically (validation, local scheduling) converts through
+ * these helpers to minutes-since-midnight / minutes-long.
+ *
+ * Parsers return null instead of guessing when a value is unreadable, so callers
+ * can decide whether that is an error or should fall back to a default.
+ *
+ * Tasks also carry the parsed values (`startMinutes`, `durationMinutes`). The
+ * strings stay what people and the model edit; withTimeFields() derives the
+ * numbers from them and rewrites parseable strings into one display format
+ * ("9:00 AM", "1h 30m"). App and the replay host apply it on every inventory
+ * commit (inventoryMigration.ts), so stored tasks never disagree with themselves.
+ */
+
+import { Task } from "../types";
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parse "9:00 AM", "9am", "12:30 pm", "14:00" or "14" into minutes since midnight.
+ */
+export const parseTimeToMinutes = (time: string | undefined | null): number | null => {
+  if (!time) return null;
+  const match = time.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*([ap])\.?\s*m?\.?$/i) ?? time.trim().match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const period = match[3]?.toLowerCase();
+  if (minutes > 59) return null;
+
+  if (period) {
+    if (hours < 1 || hours > 12) return null;
+    if (period === 'p' && hours !== 12) hours += 12;
+    if (period === 'a' && hours === 12) hours = 0;
+  } else if (hours > 23) {
+    return null;
+  }
+  return hours * 60 + minutes;
+};
+
+/**
+ * Parse "1h", "1.5h", "1h 30m", "45m", "45 min", "2 hours" or a bare "90" (minutes)
+ * into a number of minutes.
+ */
+export const parseDurationToMinutes = (duration: string | undefined | null): number | null => {
+  if (!duration) return null;
+  const text = duration.trim().toLowerCase();
+  if (/^\d+$/.test(text)) return parseInt(text, 10);
+
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?\b/);
+  const minutes = text.match(/(\d+)\s*m(?:in(?:ute)?s?)?\b/);
+  if (!hours && !minutes) return null;
+
+  return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0));
+};
+
+/** 570 → "9:30 AM". Values past midnight wrap around. */
+export const formatMinutesAsTime = (totalMinutes: number): string => {
+  const normalized = ((Math.round(totalMinutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  const minutes = normalized % 60;
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const hours12 = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
+  return `${hours12}:${minutes.toString().padStart(2, '0')} ${period}`;
+};
+
+/** 90 → "1h 30m", 60 → "1h", 45 → "45m". */
+export const formatMinutesAsDuration = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = Math.round(totalMinutes % 60);
+  if (hours && minutes) return `${hours}h ${minutes}m`;
+  return hours ? `${hours}h` : `${minutes}m`;
+};
+
+/** Whole minutes from `start` to `end`; negative when `end` is earlier. */
+export const minutesBetween = (start: Date, end: Date): number => Math.round((end.getTime() - start.getTime()) / 60000);
+
+/** "1h 30m" between two instants, or null when the span is empty or negative. */
+export const formatDurationBetween = (start: Date, end: Date): string | null => {
+  const minutes = minutesBetween(start, end);
+  return minutes > 0 ? formatMinutesAsDuration(minutes) : null;
+};
+
+/** Minutes since midnight of a Date's local clock time. */
+export const clockMinutes = (date: Date): number => date.getHours() * 60 + date.getMinutes();
+
+/** A stored time string in display format ("17:00" → "5:00 PM"); unreadable values are shown as-is. */
+export const formatTimeForDisplay = (time: string | undefined): string => {
+  const minutes = parseTimeToMinutes(time);
+  return minutes !== null ? formatMinutesAsTime(minutes) : time ?? '';
+};
+
+/** A task's start in minutes since midnight, or null if it has no readable time. */
+export const taskStartMinutes = (task: Pick<Task, 'time' | 'startMinutes'>): number | null =>
+  task.startMinutes ?? parseTimeToMinutes(task.time);
+
+/** A task's length in minutes, or null if its duration is unreadable. */
+export const taskDurationMinutes = (task: Pick<Task, 'duration' | 'durationMinutes'>): number | null =>
+  task.durationMinutes ?? parseDurationToMinutes(task.duration);
+
+/**
+ * The task with `startMinutes`/`durationMinutes` derived from its strings and those
+ * strings in display format. Unreadable strings are kept and their number dropped.
+ * Returns the same object when nothing changes.
+ */
+export const withTimeFields = (task: Task): Task => {
+  const start = parseTimeToMinutes(task.time);
+  const length = parseDurationToMinutes(task.duration);
+  const time = start !== null ? formatMinutesAsTime(start) : task.time;
+  const duration = length !== null ? formatMinutesAsDuration(length) : task.duration;
+  if (time === task.time && duration === task.duration && (start ?? undefined) === task.startMinutes && (length ?? undefined) === task.durationMinutes) {
+    return task;
+  }
+  const { startMinutes, durationMinutes, ...rest } = task;
+  return {
+    ...rest,
+    time,
+    duration,
+    ...(start !== null ? { startMinutes: start } : {}),
+    ...(length !== null ? { durationMinutes: length } : {}),
+  };
+};
@@ -0,0 +1,192 @@
+/**
+ * DESIGN DECISION: Schema-Driven Tool Argument Validation
+ *
+ * Gemini's function calls usually follow the declared schemas, but not always:
+ * dates arrive as "2026/3/7", durations as "ninety minutes", times as "5pm-ish",
+ * enums in the wrong case. Executors used to receive those values as-is and some
+ * ended up persisted in Task objects, where they broke scheduling later.
+ *
+ * Every call is now checked against its own FunctionDeclaration before dispatch:
+ *
+ * 1. Structure: required properties, primitive types (numeric strings become
+ *    numbers, a lone value where an array is expected becomes a one-element array),
+ *    enums matched case-insensitively and rewritten to their declared spelling.
+ *    Properties the schema does not declare are dropped.
+ * 2. Well-known fields, by property name: `date` / `*_date` / `until` → YYYY-MM-DD,
+ *    `time` → "9:00 AM", `duration` → "1h 30m" (via timeParsing.ts), so every
+ *    stored task uses one format regardless of how the model phrased it. Relative
+ *    expressions ("next tuesday", "tomorrow evening") are resolved by
+ *    dateResolver.ts against the session's Target Date.
+ * 3. Failure: nothing is executed. The functionResponse lists each problem with its
+ *    argument path and the expected format, so the model can correct the call in
+ *    the next round. Failures are logged to the console and kept in a short
+ *    in-memory log (getToolArgFailureLog) for debugging.
+ *
+ * Normalization is deliberately conservative: a value is rewritten only when its
+ * meaning is unambiguous; anything else is rejected rather than guessed.
+ */
+
+import { FunctionDeclaration, Schema, SchemaType } from "@google/generative-ai";
+import { formatMinutesAsDuration, parseDurationToMinutes } from "./timeParsing";
+import { resolveDateTimeExpression, resolveTimeExpression } from "./dateResolver";
+
+export interface ToolArgValidationResult {
+  ok: boolean;
+  /** Normalized arguments (only meaningful when ok) */
+  args: any;
+  errors: string[];
+  /** What was rewritten, e.g. 'duration: "90" → "1h 30m"' */
+  normalized: string[];
+}
+
+export interface ToolArgFailure {
+  tool: string;
+  args: any;
+  errors: string[];
+  at: string;
+}
+
+const MAX_FAILURE_LOG = 50;
+const failureLog: ToolArgFailure[] = [];
+
+/** Most recent validation failures, oldest first. */
+export const getToolArgFailureLog = (): ToolArgFailure[] => [...failureLog];
+
+const isDateField = (key: string) => key === 'date' || key.endsWith('_date') || key === 'until';
+
+interface FieldRule {
+  normalize: (value: string) => string | null;
+  expected: string;
+}
+
+const fieldRuleFor = (key: string, anchorDate: string): FieldRule | null => {
+  if (isDateField(key)) {
+    return {
+      normalize: value => resolveDateTimeExpression(value, anchorDate)?.date ?? null,
+      expected: 'a calendar date in YYYY-MM-DD format, e.g. "2026-03-07"',
+    };
+  }
+  if (key === 'time') return { normalize: resolveTimeExpression, expected: 'a single clock time such as "5:00 PM" or "17:00"' };
+  if (key === 'duration') {
+    return {
+      normalize: value => {
+        const minutes = parseDurationToMinutes(value);
+        return minutes === null || minutes <= 0 ? null : formatMinutesAsDuration(minutes);
+      },
+      expected: 'a positive duration in digits such as "45m", "1.5h" or "1h 30m"',
+    };
+  }
+  return null;
+};
+
+const describe = (value: any) => (typeof value === 'string' ? `"${value}"` : JSON.stringify(value));
+
+interface WalkContext {
+  anchorDate: string;
+  errors: string[];
+  normalized: string[];
+}
+
+const walk = (schema: Schema, value: any, path: string, key: string, ctx: WalkContext): any => {
+  switch (schema.type) {
+    case SchemaType.OBJECT: {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        ctx.errors.push(`${path || 'arguments'}: expected an object, got ${describe(value)}.`);
+        return value;
+      }
+      const result: Record<string, any> = {};
+      Object.entries(value).forEach(([prop, propValue]) => {
+        const propSchema = schema.properties[prop];
+        const propPath = path ? `${path}.${prop}` : prop;
+        if (!propSchema) {
+          ctx.normalized.push(`${propPath}: dropped (not a declared argument)`);
+          return;
+        }
+        // null and "" mean "not provided" for optional arguments
+        if (propValue === null || propValue === undefined || (typeof propValue === 'string' && propValue.trim() === '')) return;
+        result[prop] = walk(propSchema, propValue, propPath, prop, ctx);
+      });
+      (schema.required || []).forEach(prop => {
+        if (result[prop] === undefined) ctx.errors.push(`${path ? `${path}.${prop}` : prop}: required argument is missing.`);
+      });
+      return result;
+    }
+    case SchemaType.ARRAY: {
+      const items = Array.isArray(value) ? value : [value];
+      if (!Array.isArray(value)) ctx.normalized.push(`${path}: wrapped single value in an array`);
+      return items.map((item, i) => walk(schema.items, item, `${path}[${i}]`, key, ctx));
+    }
+    case SchemaType.NUMBER:
+    case SchemaType.INTEGER: {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !isFinite(number) || (schema.type === SchemaType.INTEGER && !Number.isInteger(number))) {
+        ctx.errors.push(`${path}: expected ${schema.type === SchemaType.INTEGER ? 'an integer' : 'a number'}, got ${describe(value)}.`);
+        return value;
+      }
+      return number;
+    }
+    case SchemaType.BOOLEAN: {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      ctx.errors.push(`${path}: expected true or false, got ${describe(value)}.`);
+      return value;
+    }
+    case SchemaType.STRING: {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        ctx.errors.push(`${path}: expected a string, got ${describe(value)}.`);
+        return value;
+      }
+      const text = String(value).trim();
+      if (schema.format === 'enum') {
+        const match = schema.enum.find(option => option.toLowerCase() === text.toLowerCase());
+        if (!match) {
+          ctx.errors.push(`${path}: ${describe(text)} is not one of ${schema.enum.map(o => `"${o}"`).join(', ')}.`);
+          return text;
+        }
+        if (match !== text) ctx.normalized.push(`${path}: "${text}" → "${match}"`);
+        return match;
+      }
+      const rule = fieldRuleFor(key, ctx.anchorDate);
+      if (!rule) return text;
+      const normalized = rule.normalize(text);
+      if (normalized === null) {
+        ctx.errors.push(`${path}: ${describe(text)} is not valid — expected ${rule.expected}.`);
+        return text;
+      }
+      if (normalized !== text) ctx.normalized.push(`${path}: "${text}" → "${normalized}"`);
+      return normalized;
+    }
+    default:
+      return value;
+  }
+};
+
+/**
+ * Validate and normalize a function call's arguments against its declaration.
+ * Tools without declared parameters accept any (ignored) arguments.
+ *
+ * @param anchorDate - YYYY-MM-DD that relative dates resolve against (the viewed date)
+ */
+export const validateToolArgs = (
+  declaration: FunctionDeclaration,
+  rawArgs: any,
+  anchorDate: string = new Date().toLocaleDateString('en-CA')
+): ToolArgValidationResult => {
+  if (!declaration.parameters) return { ok: true, args: rawArgs ?? {}, errors: [], normalized: [] };
+
+  const ctx: WalkContext = { anchorDate, errors: [], normalized: [] };
+  const schema = { ...declaration.parameters, type: SchemaType.OBJECT } as Schema;
+  const args = walk(schema, rawArgs ?? {}, '', '', ctx);
+
+  if (ctx.errors.length > 0) {
+    console.warn(`🧩 Invalid arguments for ${declaration.name}:`, ctx.errors, rawArgs);
+    failureLog.push({ tool: declaration.name, args: rawArgs, errors: ctx.errors, at: new Date().toISOString() });
+    if (failureLog.length > MAX_FAILURE_LOG) failureLog.splice(0, failureLog.length - MAX_FAILURE_LOG);
+    return { ok: false, args, errors: ctx.errors, normalized: ctx.normalized };
+  }
+  return { ok: true, args, errors: [], normalized: ctx.normalized };
+};
+
+/** functionResponse error text for a rejected call. */
+export const formatToolArgErrors = (toolName: string, errors: string[]): string =>
+  `not_executed: invalid arguments for ${toolName}. Fix these and call ${toolName} again:\n${errors.map(e => `- ${e}`).join('\n')}`;
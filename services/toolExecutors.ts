@@ -0,0 +1,939 @@
+/**
+ * DESIGN DECISION: Tool Executors as a Host-Driven Factory
+ *
+ * The executors are the functions the AI invokes through Gemini function calling
+ * (see GeminiService.dispatchToolCall). Their matching rules are the most delicate
+ * logic in the app: fuzzy task titles preferring the viewed date, linkedContact
+ * normalization, the completion → check-in cascade, duplicate guards. They used to
+ * be closures inside App.tsx, which made them impossible to run without React.
+ *
+ * createToolExecutors() takes everything they touch through an ExecutorHost:
+ *
+ * 1. **State**: getters plus synchronous commit functions for inventory, ledger and
+ *    memories, so back-to-back calls in one turn see each other's writes.
+ * 2. **Dates and preferences**: the viewed date and today as YYYY-MM-DD keys, plus
+ *    the scheduler options of the user's prompt profile. Past/future checks compare
+ *    keys, so a replay on another day behaves like the recorded session.
+ * 3. **UI side effects**: proposal cards, contact proposals, memory conflicts, the
+ *    action journal and orchestration invalidation are reported to the host and
+ *    the host decides what they mean (App renders them; the replay harness just
+ *    collects them).
+ *
+ * App wraps the result with review-mode staging; sessionReplay.ts runs it headless
+ * against recorded sessions. Both therefore exercise exactly this code.
+ */
+
+import { LifeInventory, RelationshipLedger, OrchestrationProposal, UpdateRelationshipArgs, LogCheckinArgs, calculateRelationshipStatus, Person, Task, Memory, MemoryConflict, ActionJournalEntry, WeekOrchestrationProposal, OccurrenceScope } from "../types";
+import { PENDING_APPROVAL_PREFIX } from "./geminiService";
+import { createJournalEntry } from "./actionJournal";
+import { validateOrchestration, formatValidationErrors } from "./orchestrationValidator";
+import { scheduleDay, DaySchedulerOptions } from "./dayScheduler";
+import { WeekDayInput, WeekToolArgs, weekDates, planWeek, summarizeWeek, toWeekToolArgs, validateWeekOrchestration } from "./weekPlanner";
+import { findNearDuplicate, findContradiction, enforceMemoryLimit, findMemory } from "./memoryLifecycle";
+import { expandSeries, generateUniqueTaskId, getTasksForDate } from "./taskQueries";
+import { canApplyToOccurrence, updateRecurring } from "./recurringOccurrences";
+import { anchorRule, describeRule } from "./recurrence";
+import { DayReviewInput, clampRating } from "./dayReview";
+import { createsCycle, dateBounds, dateOrderProblem, resolveTaskRefs } from "./taskDependencies";
+import { appendSubtask, findSubtask, setSubtaskDone, subtaskProgress, withoutSubBlocks } from "./subtasks";
+import { conflictResolutions, findConflicts, formatConflict, resolutionToolCall } from "./conflicts";
+
+type Commit<T> = (next: T | ((prev: T) => T)) => void;
+
+/** Whether a new proposal card was shown, replaced an older one, or was refused as too soon after the last. */
+export type ProposalPresentation = 'presented' | 'replaced' | 'throttled';
+
+export interface ExecutorHost {
+  getInventory: () => LifeInventory;
+  commitInventory: Commit<LifeInventory>;
+  getLedger: () => RelationshipLedger;
+  commitLedger: Commit<RelationshipLedger>;
+  getMemories: () => Memory[];
+  commitMemories: Commit<Memory[]>;
+  /** YYYY-MM-DD of the date being viewed */
+  viewDateKey: () => string;
+  /** YYYY-MM-DD of the real current day */
+  todayKey: () => string;
+  /** Scheduler overrides from the user's prompt profile (working hours, overload threshold) */
+  schedulerOptions: () => Partial<DaySchedulerOptions>;
+  /** Id of the AI turn in progress, for journal entries */
+  getTurnId: () => string;
+  addPerson: (person: Person) => Promise<void>;
+  proposeContact: (person: Person) => void;
+  raiseMemoryConflict: (conflict: MemoryConflict) => void;
+  presentDayProposal: (proposal: OrchestrationProposal) => ProposalPresentation;
+  presentWeekProposal: (proposal: WeekOrchestrationProposal) => Exclude<ProposalPresentation, 'throttled'>;
+  onJournalEntry: (entry: ActionJournalEntry) => void;
+  /** A task was added, deleted or moved (background orchestration counts these) */
+  onTasksModified: () => void;
+  invalidateApprovedOrchestration: (dateKey: string) => void;
+  /** Store the end-of-day review for a date (the host adds the plan-vs-actual comparison) */
+  saveDayReview: (dateKey: string, input: DayReviewInput) => void;
+}
+
+export const createToolExecutors = (host: ExecutorHost) => {
+  /**
+   * DESIGN DECISION: Journaled executors
+   *
+   * Wraps a mutating executor so that every call is recorded in the action journal
+   * with before/after snapshots of the tasks and people it changed. Snapshots come
+   * from the synchronously-committed host state, so the diff reflects exactly this
+   * call even when several tools run back-to-back in one turn.
+   */
+  const journaled = <A extends any[]>(tool: string, run: (...args: A) => Promise<string>) =>
+    async (...args: A): Promise<string> => {
+      const beforeInventory = host.getInventory();
+      const beforeLedger = host.getLedger();
+      const result = await run(...args);
+      const entry = createJournalEntry({
+        turnId: host.getTurnId(),
+        date: host.viewDateKey(),
+        tool,
+        args: args.length === 1 ? args[0] : args,
+        result,
+        beforeInventory,
+        afterInventory: host.getInventory(),
+        beforeLedger,
+        afterLedger: host.getLedger(),
+      });
+      if (entry) {
+        console.log(`📓 Journaled ${tool}: ${entry.summary}`);
+        host.onJournalEntry(entry);
+      }
+      return result;
+    };
+
+  // Local midnight of the host's today; relationship status is computed against it
+  const todayDate = () => {
+    const [y, m, d] = host.todayKey().split('-').map(Number);
+    return new Date(y, m - 1, d);
+  };
+
+  /** Replace a task by id (moving it between lists if its type changed). */
+  const saveTask = (task: Task) => {
+    host.commitInventory(prev => {
+      const fixed = prev.fixed.filter(t => t.id !== task.id);
+      const flexible = prev.flexible.filter(t => t.id !== task.id);
+      if (task.type === 'fixed') return { fixed: [...fixed, task], flexible };
+      else return { fixed, flexible: [...flexible, task] };
+    });
+
+    // Invalidate approved orchestration since task has been modified
+    if (task.date) {
+      host.invalidateApprovedOrchestration(task.date);
+    }
+  };
+
+  const isSeries = (task: Task) => !!task.recurrence && !task.date;
+
+  /**
+   * Prerequisite ids for `depends_on` references (titles or ids) given to task `taskId`,
+   * or an error message when one is unknown, the task itself, or would close a loop.
+   */
+  const resolvePrerequisites = (refs: string[], taskId: string, title: string): { ids: string[] } | { error: string } => {
+    const inv = host.getInventory();
+    const { ids, unknown } = resolveTaskRefs(inv, refs);
+    if (unknown.length > 0) return { error: `❌ No task matching ${unknown.map(r => `"${r}"`).join(', ')} found for depends_on. Use exact titles from get_life_context.` };
+    if (ids.includes(taskId)) return { error: `❌ "${title}" cannot depend on itself.` };
+    if (createsCycle(inv, taskId, ids)) return { error: `❌ That would make "${title}" (indirectly) a prerequisite of itself. Remove the loop first.` };
+    return { ids };
+  };
+
+  /** A series whose last occurrence is before `dateKey`, e.g. the earlier half of a split */
+  const hasEnded = (task: Task, dateKey: string) => isSeries(task) && !!task.recurrence!.until && task.recurrence!.until < dateKey;
+
+  /**
+   * The task a call names by (partial) title: preferably one shown on `dateKey`, then
+   * one that has not ended before it, then any.
+   */
+  const findTaskByTitle = (title: string, dateKey: string): Task | undefined => {
+    const allTasks = [...host.getInventory().fixed, ...host.getInventory().flexible];
+    const normalize = (s: string) => s.toLowerCase().trim();
+    const searchTitle = normalize(title);
+    const matches = (t: Task) =>
+      normalize(t.title) === searchTitle || normalize(t.title).includes(searchTitle) || searchTitle.includes(normalize(t.title));
+    return allTasks.find(t => (t.date === dateKey || expandSeries(t, dateKey).length > 0) && matches(t))
+      ?? allTasks.find(t => !hasEnded(t, dateKey) && matches(t))
+      ?? allTasks.find(matches);
+  };
+
+  /**
+   * The occurrence a call about a recurring series means: the one shown on
+   * `dateKey` (its own, or one rescheduled onto that day). Null when there is none.
+   */
+  const occurrenceShownOn = (series: Task, dateKey: string): string | null =>
+    expandSeries(series, dateKey)[0]?.occurrenceDate ?? null;
+
+  /** " on 2026-03-04 only" / " from 2026-03-04 on" / " (every occurrence)" for result messages */
+  const describeScope = (scope: OccurrenceScope, dateKey: string) =>
+    scope === 'this' ? ` on ${dateKey} only` : scope === 'following' ? ` from ${dateKey} on` : ' (every occurrence)';
+
+  /**
+   * The window of days a week orchestration covers, starting at `startDate`, the
+   * viewed date, or today when the viewed date is in the past. Built from
+   * getTasksForDate so recurring tasks appear on every day they occur.
+   */
+  const getWeekWindow = (startDate?: string): WeekDayInput[] => {
+    const todayKey = host.todayKey();
+    const requested = startDate && /^\d{4}-\d{2}-\d{2}$/.test(startDate) ? startDate : host.viewDateKey();
+    const start = requested < todayKey ? todayKey : requested;
+    return weekDates(start).map(date => ({ date, tasks: getTasksForDate(host.getInventory(), date) }));
+  };
+
+  return {
+    getRelationshipStatus: async () => host.getLedger(),
+    getLifeContext: async (args?: { date?: string }) => getTasksForDate(host.getInventory(), args?.date || host.viewDateKey()),
+    getBaselineSchedule: async (args?: { date?: string }) => {
+      const date = args?.date || host.viewDateKey();
+      const result = scheduleDay(getTasksForDate(host.getInventory(), date), host.schedulerOptions(), date);
+      console.log(`🧮 Baseline schedule: ${result.proposal.schedule.length} tasks, ${result.totalMinutes}m${result.overloaded ? ' (overloaded)' : ''}`);
+      return result;
+    },
+    getConflicts: async (args?: { date?: string; days?: number }) => {
+        const start = args?.date || host.viewDateKey();
+        const days = Math.min(Math.max(Math.round(args?.days ?? 1), 1), 31);
+        const dayEnd = host.schedulerOptions().dayEndMinutes;
+        const conflicts = weekDates(start, days).flatMap(date => {
+            const dayTasks = getTasksForDate(host.getInventory(), date);
+            return findConflicts(dayTasks, date).map(c => ({
+                date,
+                conflict: formatConflict(c),
+                options: conflictResolutions(c, dayTasks, dayEnd)
+                    .map(r => ({ option: r.label, call: resolutionToolCall(r, date) }))
+                    .filter(o => o.call !== null),
+            }));
+        });
+        console.log(`⚔️ get_conflicts ${start} +${days}d: ${conflicts.length} conflict(s)`);
+        return { start_date: start, days, conflicts };
+    },
+    getWeekContext: async (args?: { start_date?: string }) => {
+      const window = getWeekWindow(args?.start_date);
+      const opts = host.schedulerOptions();
+      return { start_date: window[0].date, days: summarizeWeek(window, opts), baseline: toWeekToolArgs(planWeek(window, opts)) };
+    },
+    proposeWeekOrchestration: async (args: WeekToolArgs) => {
+      console.log('🗓️ proposeWeekOrchestration CALLED by AI:', args);
+      if (args.start_date && args.start_date < host.todayKey()) {
+        return "❌ Cannot orchestrate past dates. The week plan must start today or later.";
+      }
+
+      const validation = validateWeekOrchestration(args, getWeekWindow(args.start_date), host.schedulerOptions());
+      if (!validation.ok) {
+        console.warn('🚫 Week proposal rejected by validator:', validation.errors);
+        return `❌ Week proposal rejected — it does not match get_week_context. Fix these issues and call propose_week_orchestration again:\n${validation.errors.join('\n')}`;
+      }
+
+      const outcome = host.presentWeekProposal(validation.proposal);
+      const repairNote = validation.repairs.length > 0
+        ? ` The validator auto-corrected ${validation.repairs.length} issue${validation.repairs.length === 1 ? '' : 's'}: ${validation.repairs.join(' ')}`
+        : '';
+      return (outcome === 'replaced'
+        ? `✅ New week plan generated (${validation.proposal.days.length} days, ${validation.proposal.moves.length} moves). Previous plan has been replaced.`
+        : `✅ Week plan generated (${validation.proposal.days.length} days, ${validation.proposal.moves.length} moves).`) + repairNote;
+    },
+    proposeOrchestration: async (newProposal: OrchestrationProposal) => {
+      console.log('🎯 proposeOrchestration CALLED by AI with proposal:', newProposal);
+      
+      // Tool permission validation: prevent orchestrating past dates
+      if (host.viewDateKey() < host.todayKey()) {
+        return "❌ Cannot orchestrate past dates. Past dates are for reflection only. Please navigate to today or a future date to create new orchestrations.";
+      }
+
+      // Validate against what get_life_context returned for this date. Runs before the
+      // debounce so a rejected proposal can be corrected and resubmitted immediately.
+      const validation = validateOrchestration(newProposal, getTasksForDate(host.getInventory(), host.viewDateKey()));
+      if (!validation.ok) {
+        console.warn('🚫 Orchestration proposal rejected by validator:', validation.findings);
+        return `❌ Proposal rejected — it does not match get_life_context. Fix these issues and call propose_orchestration again:\n${formatValidationErrors(validation.findings)}`;
+      }
+      
+      // Debounce, replacing an older card and resetting the modification counter are the host's job
+      const outcome = host.presentDayProposal(validation.proposal);
+      if (outcome === 'throttled') {
+        return "⏳ Please wait a moment before requesting another orchestration. The previous proposal is still being processed.";
+      }
+
+      const repairs = validation.findings.filter(f => f.repaired);
+      const repairNote = repairs.length > 0
+        ? ` The validator auto-corrected ${repairs.length} issue${repairs.length === 1 ? '' : 's'}: ${repairs.map(f => f.message).join(' ')}`
+        : '';
+      return (outcome === 'replaced'
+        ? "✅ New proposal generated. Previous proposal has been replaced." 
+        : "✅ Proposal generated.") + repairNote;
+    },
+    updateRelationshipStatus: journaled('update_relationship_status', async (args: UpdateRelationshipArgs) => {
+        const currentLedger = host.getLedger();
+        const normalize = (s: string) => s.toLowerCase().trim();
+        const targetName = normalize(args.person_name);
+        const matchedKey = Object.keys(currentLedger).find(k => {
+            const p = currentLedger[k] as Person;
+            return normalize(p.name) === targetName
+                || normalize(k) === targetName
+                || normalize(p.relation) === targetName
+                || normalize(p.relation).includes(targetName)
+                || targetName.includes(normalize(p.name));
+        });
+
+        // Use the current viewing date for last_contact, not system time
+        const contactDate = host.viewDateKey();
+
+        if (!matchedKey) {
+            const newPerson: Person = {
+                name: args.person_name, relation: args.relation || "New Contact", category: args.category || 'Network',
+                priority: 3, notes: args.notes_update, status: args.status_level, last_contact: contactDate,
+                image: `https://ui-avatars.com/api/?name=${args.person_name}&background=random`
+            };
+            if (args.confirmed) {
+                // User explicitly asked to add — skip the proposal card and add directly
+                await host.addPerson(newPerson);
+                return `Added ${args.person_name} to the Kinship Ledger.`;
+            } else {
+                host.proposeContact(newPerson);
+                return `Proposal to add ${args.person_name} prepared.`;
+            }
+        } else {
+            host.commitLedger(prev => ({ ...prev, [matchedKey]: { ...(prev[matchedKey] as Person), notes: args.notes_update, status: args.status_level, last_contact: contactDate } }));
+            return `Updated ${args.person_name}'s ledger.`;
+        }
+    }),
+    logCheckin: journaled('log_checkin', async (args: LogCheckinArgs) => {
+        const currentLedger = host.getLedger();
+        const normalize = (s: string) => s.toLowerCase().trim();
+        const targetName = normalize(args.person_name);
+        const matchedKey = Object.keys(currentLedger).find(k => {
+            const p = currentLedger[k] as Person;
+            return normalize(p.name) === targetName
+                || normalize(k) === targetName
+                || normalize(p.relation) === targetName
+                || normalize(p.relation).includes(targetName)
+                || targetName.includes(normalize(p.name));
+        });
+
+        // Use date_override if provided (e.g. retroactive check-in via task checkmark),
+        // otherwise fall back to the current viewing date (respects temporal mode).
+        const contactDate = args.date_override ?? host.viewDateKey();
+
+        if (matchedKey) {
+            const existing = currentLedger[matchedKey] as Person;
+            const newStatus = calculateRelationshipStatus(existing.priority, new Date(contactDate), todayDate());
+            const updatedNotes = args.notes
+                ? `${existing.notes ? existing.notes + '\n' : ''}[${contactDate}] ${args.notes}`.trim()
+                : existing.notes;
+            host.commitLedger(prev => ({
+                ...prev,
+                [matchedKey]: { ...existing, last_contact: contactDate, status: newStatus, notes: updatedNotes }
+            }));
+            return `Logged check-in with ${existing.name}. Status is now ${newStatus}.`;
+        } else {
+            const newPerson: Person = {
+                name: args.person_name,
+                relation: 'New Contact',
+                category: 'Network',
+                priority: 3,
+                notes: args.notes ? `[${contactDate}] ${args.notes}` : '',
+                status: 'Stable', // Just contacted — freshly stable
+                last_contact: contactDate,
+                image: `https://ui-avatars.com/api/?name=${args.person_name}&background=random`
+            };
+            if (args.confirmed) {
+                await host.addPerson(newPerson);
+                return `Added ${args.person_name} to the Kinship Ledger and logged today's check-in.`;
+            } else {
+                host.proposeContact(newPerson);
+                return `${args.person_name} isn't in your Kinship Ledger yet. Proposal card shown — confirm to add them.`;
+            }
+        }
+    }),
+    updateTask: journaled('update_task', async (args: { task_title: string; new_title?: string; time?: string; duration?: string; priority?: string; category?: string; type?: string; date?: string; linkedContact?: string[]; description?: string; depends_on?: string[]; due_date?: string; clear_due_date?: boolean; occurrence_date?: string; scope?: OccurrenceScope }) => {
+        const allTasks = [...host.getInventory().fixed, ...host.getInventory().flexible];
+        const normalize = (s: string) => s.toLowerCase().trim();
+        const searchTitle = normalize(args.task_title);
+        const dateStr = args.occurrence_date || host.viewDateKey();
+
+        // Prefer task on the currently viewed date (or the named occurrence's date); fall back to any date,
+        // skipping series that ended before it (the earlier half of a split)
+        const matchedTask =
+            allTasks.find(t => (t.date === dateStr || expandSeries(t, dateStr).length > 0) && (
+                normalize(t.title) === searchTitle ||
+                normalize(t.title).includes(searchTitle) ||
+                searchTitle.includes(normalize(t.title))
+            )) ??
+            allTasks.find(t => !hasEnded(t, dateStr) && (
+                normalize(t.title) === searchTitle ||
+                normalize(t.title).includes(searchTitle) ||
+                searchTitle.includes(normalize(t.title))
+            )) ??
+            allTasks.find(t =>
+                normalize(t.title) === searchTitle ||
+                normalize(t.title).includes(searchTitle) ||
+                searchTitle.includes(normalize(t.title))
+            );
+
+        if (!matchedTask) {
+            const similar = allTasks
+                .filter(t => normalize(t.title).includes(searchTitle.slice(0, 5)))
+                .map(t => `"${t.title}"`).join(', ');
+            return `No task matching "${args.task_title}" found.${similar ? ` Did you mean: ${similar}?` : ' Check the task title in your inventory.'}`;
+        }
+
+        // Collect only the fields that were provided
+        const fields: Partial<Task> = {};
+        if (args.new_title !== undefined) fields.title = args.new_title;
+        if (args.time !== undefined) fields.time = args.time;
+        if (args.duration !== undefined) fields.duration = args.duration;
+        if (args.priority !== undefined) fields.priority = args.priority as Task['priority'];
+        if (args.category !== undefined) fields.category = args.category as Task['category'];
+        if (args.type !== undefined) fields.type = args.type as Task['type'];
+        if (args.date !== undefined) fields.date = args.date;
+        if (args.linkedContact !== undefined) fields.linkedContact = args.linkedContact;
+        if (args.description !== undefined) fields.description = args.description;
+        if (args.due_date !== undefined) fields.dueDate = args.due_date;
+        if (args.clear_due_date) fields.dueDate = undefined;
+        if (args.depends_on !== undefined) {
+            const prerequisites = resolvePrerequisites(args.depends_on, matchedTask.id, matchedTask.title);
+            if ('error' in prerequisites) return prerequisites.error;
+            fields.dependsOn = prerequisites.ids;
+        }
+
+        // Recurring series change per occurrence (see recurringOccurrences.ts); `date` reschedules
+        let scopeNote = '';
+        if (isSeries(matchedTask)) {
+            const scope = args.scope ?? 'this';
+            const occurrenceDate = occurrenceShownOn(matchedTask, dateStr);
+            if (!occurrenceDate && (scope !== 'all' || args.date !== undefined)) {
+                return `❌ "${matchedTask.title}" is recurring and has no occurrence on ${dateStr}. Pass occurrence_date (YYYY-MM-DD) of the occurrence to change, or scope "all" to edit the whole series.`;
+            }
+            if (scope === 'this' && !canApplyToOccurrence(fields)) {
+                return `❌ A single occurrence of "${matchedTask.title}" can only change its title, time, duration, priority, category, description or date. Use scope "following" or "all" to change its type, linked contacts or prerequisites.`;
+            }
+            if (args.date !== undefined && scope !== 'this' && matchedTask.recurrence!.frequency === 'daily') {
+                return `❌ "${matchedTask.title}" repeats daily, so only a single occurrence can be moved. Use scope "this".`;
+            }
+            host.commitInventory(prev => updateRecurring(prev, matchedTask.id, occurrenceDate ?? dateStr, scope, fields));
+            host.invalidateApprovedOrchestration(dateStr);
+            if (args.date) host.invalidateApprovedOrchestration(args.date);
+            scopeNote = describeScope(scope, occurrenceDate ?? dateStr);
+        } else {
+            // A new day or time leaves the step blocks of a split task behind
+            const retimed = fields.date !== undefined || fields.time !== undefined || fields.duration !== undefined;
+            const updated = { ...(retimed ? withoutSubBlocks(matchedTask) : matchedTask), ...fields };
+            if (fields.date !== undefined || fields.dependsOn !== undefined) {
+                const inv = host.getInventory();
+                const replace = (t: Task) => t.id === updated.id ? updated : t;
+                const problem = dateOrderProblem({ fixed: inv.fixed.map(replace), flexible: inv.flexible.map(replace) }, updated.id);
+                if (problem) return `❌ Cannot ${fields.date !== undefined ? `move "${matchedTask.title}" to ${fields.date}` : `update "${matchedTask.title}"`}: it ${problem}.`;
+            }
+            saveTask(updated);
+        }
+
+        const changes: string[] = [];
+        if (args.new_title) changes.push(`title → "${args.new_title}"`);
+        if (args.time) changes.push(`time → ${args.time}`);
+        if (args.duration) changes.push(`duration → ${args.duration}`);
+        if (args.linkedContact) changes.push(`linkedContact → [${args.linkedContact.join(', ')}]`);
+        if (args.priority) changes.push(`priority → ${args.priority}`);
+        if (args.category) changes.push(`category → ${args.category}`);
+        if (args.date) changes.push(`date → ${args.date}`);
+        if (args.due_date) changes.push(`due → ${args.due_date}`);
+        else if (args.clear_due_date) changes.push('no deadline');
+        if (fields.dependsOn) changes.push(fields.dependsOn.length > 0 ? `depends on → ${args.depends_on!.map(r => `"${r}"`).join(', ')}` : 'no prerequisites');
+
+        return `✅ Updated "${matchedTask.title}"${scopeNote}${changes.length > 0 ? ': ' + changes.join(', ') : ''}.`;
+    }),
+    completeTask: journaled('complete_task', async (args: { task_title: string; occurrence_date?: string; scope?: OccurrenceScope }) => {
+        const allTasks = [...host.getInventory().fixed, ...host.getInventory().flexible];
+        const normalize = (s: string) => s.toLowerCase().trim();
+        const normalizeContacts = (lc: string | string[] | undefined): string[] =>
+            !lc ? [] : Array.isArray(lc) ? lc : [lc];
+        const searchTitle = normalize(args.task_title);
+        const dateStr = args.occurrence_date || host.viewDateKey();
+        const scope = args.scope ?? 'this';
+        const isShownOn = (t: Task) => t.date === dateStr || expandSeries(t, dateStr).length > 0;
+
+        /**
+         * Mark a task done. A recurring series is completed per occurrence (the one
+         * shown on dateStr, widened by scope); returns an error message when it has none.
+         */
+        const markComplete = (task: Task): string | null => {
+            if (!isSeries(task)) {
+                saveTask({ ...task, completed: true });
+                return null;
+            }
+            const occurrenceDate = occurrenceShownOn(task, dateStr);
+            if (!occurrenceDate) {
+                return `❌ "${task.title}" is recurring and has no occurrence on ${dateStr}. Pass occurrence_date (YYYY-MM-DD) of the occurrence that was done.`;
+            }
+            host.commitInventory(prev => updateRecurring(prev, task.id, occurrenceDate, scope, { completed: true }));
+            host.invalidateApprovedOrchestration(dateStr);
+            return null;
+        };
+
+        // Prefer task on the currently viewed date; fall back to any date, skipping ended series
+        const matchedTask =
+            allTasks.find(t => isShownOn(t) && (
+                normalize(t.title) === searchTitle ||
+                normalize(t.title).includes(searchTitle) ||
+                searchTitle.includes(normalize(t.title))
+            )) ??
+            allTasks.find(t => !hasEnded(t, dateStr) && (
+                normalize(t.title) === searchTitle ||
+                normalize(t.title).includes(searchTitle) ||
+                searchTitle.includes(normalize(t.title))
+            )) ??
+            allTasks.find(t =>
+                normalize(t.title) === searchTitle ||
+                normalize(t.title).includes(searchTitle) ||
+                searchTitle.includes(normalize(t.title))
+            );
+
+        if (!matchedTask) {
+            // Secondary fallback: AI may have passed a social phrase like "met with Alex"
+            // instead of the task title. Extract any ledger contact names from the search
+            // string and find a task for them (all matching contacts).
+            const currentLedgerFB = host.getLedger();
+            const normFB = (s: string) => s.toLowerCase().trim();
+            const matchedContactKeys = Object.keys(currentLedgerFB).filter(k => {
+                const p = currentLedgerFB[k] as Person;
+                return searchTitle.includes(normFB(p.name)) || searchTitle.includes(normFB(k));
+            });
+            if (matchedContactKeys.length > 0) {
+                // Try to find a task for any of the matched contacts
+                const firstPerson = currentLedgerFB[matchedContactKeys[0]] as Person;
+                const personLower = normFB(firstPerson.name);
+                const taskForPerson =
+                    allTasks.find(t => isShownOn(t) && normalize(t.title).includes(personLower)) ??
+                    allTasks.find(t => normalize(t.title).includes(personLower));
+                if (taskForPerson) {
+                    const error = markComplete(taskForPerson);
+                    if (error) return error;
+                    const checkinDate = taskForPerson.date ?? dateStr;
+                    const names: string[] = [];
+                    host.commitLedger(prev => {
+                        const next = { ...prev };
+                        for (const key of matchedContactKeys) {
+                            const person = prev[key] as Person;
+                            const newStatus = calculateRelationshipStatus(person.priority, new Date(checkinDate), todayDate());
+                            const noteEntry = `[${checkinDate}] Checked in via task: "${taskForPerson.title}"`;
+                            next[key] = { ...person, last_contact: checkinDate, status: newStatus, notes: person.notes ? `${person.notes}\n${noteEntry}` : noteEntry };
+                            names.push(`${person.name} (${newStatus})`);
+                        }
+                        return next;
+                    });
+                    return `Marked "${taskForPerson.title}" as complete. Check-ins logged for: ${names.join(', ')}.`;
+                } else {
+                    const names: string[] = [];
+                    host.commitLedger(prev => {
+                        const next = { ...prev };
+                        for (const key of matchedContactKeys) {
+                            const person = prev[key] as Person;
+                            const newStatus = calculateRelationshipStatus(person.priority, new Date(dateStr), todayDate());
+                            const noteEntry = `[${dateStr}] Checked in (from: "${args.task_title}")`;
+                            next[key] = { ...person, last_contact: dateStr, status: newStatus, notes: person.notes ? `${person.notes}\n${noteEntry}` : noteEntry };
+                            names.push(`${person.name} (${newStatus})`);
+                        }
+                        return next;
+                    });
+                    return `No task found for "${args.task_title}", but logged check-ins for: ${names.join(', ')}.`;
+                }
+            }
+            const similar = allTasks
+                .filter(t => normalize(t.title).includes(searchTitle.slice(0, 5)))
+                .map(t => `"${t.title}"`).join(', ');
+            return `No task matching "${args.task_title}" found.${similar ? ` Did you mean: ${similar}?` : ' Check the task title in your inventory.'}`;
+        }
+
+        // Mark the task as completed
+        const error = markComplete(matchedTask);
+        if (error) return error;
+
+        const currentLedger = host.getLedger();
+        const contactNormalize = (s: string) => s.toLowerCase().trim();
+        const checkinDate = matchedTask.date ?? dateStr;
+
+        // Collect all linked contact keys: start from explicit linkedContact array,
+        // then fall back to title scanning for any additional / missing contacts.
+        const explicitContacts = normalizeContacts(matchedTask.linkedContact);
+        let linkedKeys: string[] = [];
+
+        if (explicitContacts.length > 0) {
+            for (const contact of explicitContacts) {
+                const target = contactNormalize(contact);
+                const key = Object.keys(currentLedger).find(k => {
+                    const p = currentLedger[k] as Person;
+                    return contactNormalize(p.name) === target
+                        || contactNormalize(k) === target
+                        || contactNormalize(p.relation) === target;
+                });
+                if (key && !linkedKeys.includes(key)) linkedKeys.push(key);
+            }
+        }
+
+        if (linkedKeys.length === 0) {
+            // Fallback: scan task title for ALL ledger contacts whose name appears
+            const titleLower = contactNormalize(matchedTask.title);
+            linkedKeys = Object.keys(currentLedger).filter(k => {
+                const p = currentLedger[k] as Person;
+                return titleLower.includes(contactNormalize(p.name))
+                    || titleLower.includes(contactNormalize(k));
+            });
+        }
+
+        let linkedMsg = '';
+        if (linkedKeys.length > 0) {
+            const checkedInNames: string[] = [];
+            host.commitLedger(prev => {
+                const next = { ...prev };
+                for (const key of linkedKeys) {
+                    const existing = prev[key] as Person;
+                    const newStatus = calculateRelationshipStatus(existing.priority, new Date(checkinDate), todayDate());
+                    const noteEntry = `[${checkinDate}] Checked in via task: "${matchedTask.title}"`;
+                    next[key] = { ...existing, last_contact: checkinDate, status: newStatus, notes: existing.notes ? `${existing.notes}\n${noteEntry}` : noteEntry };
+                    checkedInNames.push(`${existing.name} (${newStatus})`);
+                }
+                return next;
+            });
+            linkedMsg = ` Check-ins logged for: ${checkedInNames.join(', ')}.`;
+        }
+
+        return `Marked "${matchedTask.title}" as complete${isSeries(matchedTask) ? describeScope(scope, dateStr) : ''}.${linkedMsg}`;
+    }),
+    addTask: journaled('add_task', async ({ depends_on, due_date, ...task }: Omit<Task, 'id'> & { depends_on?: string[]; due_date?: string }) => {
+        console.log('addTask called with:', JSON.stringify({ ...task, depends_on, due_date }, null, 2));
+        
+        const isRecurring = !!task.recurrence;
+        const today = host.todayKey();
+        const viewDate = host.viewDateKey();
+        
+        // Temporal mode validation: Block fixed tasks with time slots on past dates
+        if (viewDate < today && task.type === 'fixed' && task.time) {
+          console.warn('Blocked past date task:', task.title, 'for date:', host.viewDateKey());
+          return "❌ Cannot schedule fixed tasks with specific times on past dates. Past dates are for reflection only. For historical records, use flexible tasks without times, or navigate to today/future to schedule new tasks.";
+        }
+        
+        const taskDate = isRecurring ? undefined : (task.date || host.viewDateKey());
+        
+        // Idempotency guard: prevent duplicate tasks from double tool-calls within one AI turn
+        const normalizeTitle = (s: string) => s.toLowerCase().trim();
+        const allExisting = [...host.getInventory().fixed, ...host.getInventory().flexible];
+        const duplicate = allExisting.find(t =>
+            normalizeTitle(t.title) === normalizeTitle(task.title) &&
+            t.date === taskDate &&
+            (t.time ?? '') === (task.time ?? '')
+        );
+        if (duplicate) {
+            console.warn(`⏭️ addTask: duplicate detected — "${task.title}" for ${taskDate} already exists. Skipping.`);
+            return `✅ "${task.title}" is already in the schedule for ${taskDate}.`;
+        }
+        
+        // Build set of existing IDs to ensure uniqueness
+        const existingIds = new Set([...host.getInventory().fixed, ...host.getInventory().flexible].map(t => t.id));
+        
+        const id = generateUniqueTaskId(existingIds);
+        const prerequisites = depends_on?.length ? resolvePrerequisites(depends_on, id, task.title) : { ids: [] };
+        if ('error' in prerequisites) return prerequisites.error;
+
+        const newTask: Task = { 
+            ...task, 
+            id, 
+            date: taskDate,
+            // Intervals, counts and rules without a day selector count from the first date
+            recurrence: task.recurrence && anchorRule(task.recurrence, task.date || viewDate),
+            linkedContact: task.linkedContact,
+            completed: task.completed ?? false,
+            ...(prerequisites.ids.length > 0 ? { dependsOn: prerequisites.ids } : {}),
+            ...(due_date ? { dueDate: due_date } : {}),
+        };
+
+        const { earliest } = dateBounds(newTask, allExisting, t => t.date);
+        if (taskDate && earliest && taskDate < earliest) {
+            return `❌ Cannot add "${newTask.title}" on ${taskDate}: a prerequisite is scheduled for ${earliest}. Add it on ${earliest} or later, or move the prerequisite earlier first.`;
+        }
+        
+        console.log('Adding task:', newTask.title, 'to date:', taskDate, 'current view:', host.viewDateKey());
+        
+        host.commitInventory(prev => {
+            const listKey = newTask.type === 'fixed' ? 'fixed' : 'flexible';
+            return { ...prev, [listKey]: [...prev[listKey], newTask] };
+        });
+        
+        // Flag that tasks were modified for background orchestration
+        host.onTasksModified();
+        
+        // Invalidate approved orchestration since tasks have been modified
+        if (taskDate) {
+          host.invalidateApprovedOrchestration(taskDate);
+        }
+        
+        // Provide context about where the task was added
+        if (newTask.recurrence) {
+          return `✅ Added recurring "${newTask.title}" (${describeRule(newTask.recurrence)}).`;
+        } else if (viewDate < today) {
+          return `✅ Added "${newTask.title}" to ${taskDate} as a historical record (reflection mode).`;
+        } else if (viewDate > today) {
+          return `✅ Added "${newTask.title}" to future date ${taskDate} (planning mode).`;
+        } else {
+          return `✅ Added "${newTask.title}" to today's schedule (${taskDate}).`;
+        }
+    }),
+    deleteTask: journaled('delete_task', async (title: string) => {
+        const normalize = (s: string) => s.toLowerCase().trim();
+        const target = normalize(title);
+        let deleted = false;
+        let deletedTaskName = '';
+        let deletedTaskDate: string | undefined;
+        
+        host.commitInventory(prev => {
+            // Find exact matches only
+            const fixedExactMatches = prev.fixed.filter(t => normalize(t.title) === target);
+            const flexibleExactMatches = prev.flexible.filter(t => normalize(t.title) === target);
+            
+            const allExactMatches = [...fixedExactMatches, ...flexibleExactMatches];
+            
+            // If multiple exact matches, ask for clarification
+            if (allExactMatches.length > 1) {
+                const list = allExactMatches.map((t, i) => `${i+1}) ${t.title} (${t.type}, ${t.time || 'no time'})`).join('\n');
+                throw new Error(`Multiple tasks found:\n${list}\n\nPlease be more specific or delete them one at a time.`);
+            }
+            
+            // Single exact match - delete it
+            if (allExactMatches.length === 1) {
+                deleted = true;
+                const match = allExactMatches[0];
+                deletedTaskName = match.title;
+                deletedTaskDate = match.date;
+                if (fixedExactMatches.length > 0) {
+                    return { ...prev, fixed: prev.fixed.filter(t => t.id !== match.id) };
+                } else {
+                    return { ...prev, flexible: prev.flexible.filter(t => t.id !== match.id) };
+                }
+            }
+            
+            return prev;
+        });
+        
+        if (!deleted) {
+            // No exact match - search for similar tasks to help user
+            const allTasks = [...host.getInventory().fixed, ...host.getInventory().flexible];
+            const similar = allTasks.filter(t => normalize(t.title).includes(target) || target.includes(normalize(t.title)));
+            
+            if (similar.length > 0) {
+                const list = similar.map(t => `"${t.title}"`).join(', ');
+                return `No exact match found. Did you mean: ${list}? Please use the exact task name.`;
+            }
+            return `No task found with name "${title}". Please check spelling and use the exact task name.`;
+        }
+        
+        // Flag that tasks were modified for background orchestration
+        host.onTasksModified();
+        
+        // Invalidate approved orchestration since tasks have been modified
+        if (deletedTaskDate) {
+          host.invalidateApprovedOrchestration(deletedTaskDate);
+        }
+        
+        return `Removed task "${deletedTaskName}".`;
+    }),
+    deleteRelationshipStatus: journaled('delete_relationship_status', async (name: string) => {
+        const normalize = (s: string) => s.toLowerCase().trim();
+        const target = normalize(name);
+        let deleted = false;
+        host.commitLedger(prev => {
+            const entry = Object.entries(prev).find(([_, p]) => normalize((p as Person).name).includes(target));
+            if (entry) { deleted = true; const newL = { ...prev }; delete newL[entry[0]]; return newL; }
+            return prev;
+        });
+        return deleted ? `Removed ${name}.` : "No contact found.";
+    }),
+    saveMemory: async (content: string, type: 'preference' | 'decision' | 'fact') => {
+        const current = host.getMemories();
+        const duplicate = findNearDuplicate(content, current);
+        if (duplicate) {
+            // Keep the more detailed wording and treat the restatement as a refresh.
+            host.commitMemories(prev => prev.map(m => m.id === duplicate.id
+              ? { ...m, content: content.length > m.content.length ? content : m.content, updatedAt: new Date().toISOString() }
+              : m));
+            return `Already remembered (id ${duplicate.id}): "${duplicate.content}". Refreshed the existing memory instead of saving a duplicate.`;
+        }
+
+        const contradicted = findContradiction(content, current);
+        if (contradicted) {
+            host.raiseMemoryConflict({
+              id: Math.random().toString(36).substr(2, 9),
+              existing: contradicted,
+              incoming: { content, type },
+              status: 'pending',
+            });
+            return `${PENDING_APPROVAL_PREFIX} — NOT saved: this may contradict memory ${contradicted.id} ("${contradicted.content}"). The user is being asked which one to keep. Do not save it again.`;
+        }
+
+        host.commitMemories(prev => enforceMemoryLimit([
+          ...prev,
+          { id: Math.random().toString(36).substr(2, 9), content, type, date: new Date().toLocaleDateString() },
+        ]));
+        return `Saved to memory: "${content}"`;
+    },
+    updateMemory: async (args: { memory_id?: string; match?: string; content?: string; type?: Memory['type']; pinned?: boolean }) => {
+        const target = findMemory(host.getMemories(), args);
+        if (!target) return `❌ No memory found matching "${args.memory_id || args.match}". Check the Memory Bank ids in the session context.`;
+        if (args.content === undefined && args.type === undefined && args.pinned === undefined) return `❌ Nothing to update for memory ${target.id}. Pass content, type or pinned.`;
+        host.commitMemories(prev => prev.map(m => m.id === target.id ? {
+          ...m,
+          ...(args.content !== undefined && { content: args.content }),
+          ...(args.type !== undefined && { type: args.type }),
+          ...(args.pinned !== undefined && { pinned: args.pinned }),
+          updatedAt: new Date().toISOString(),
+        } : m));
+        return `✅ Updated memory ${target.id}${args.content !== undefined ? `: "${args.content}"` : ''}${args.pinned !== undefined ? ` (${args.pinned ? 'pinned' : 'unpinned'})` : ''}`;
+    },
+    forgetMemory: async (args: { memory_id?: string; match?: string }) => {
+        const target = findMemory(host.getMemories(), args);
+        if (!target) return `❌ No memory found matching "${args.memory_id || args.match}".`;
+        host.commitMemories(prev => prev.filter(m => m.id !== target.id));
+        return `✅ Forgot memory ${target.id}: "${target.content}"`;
+    },
+    moveTasks: journaled('move_tasks', async (taskIdentifiers: string[], targetDate: string, fromDate?: string, scope: OccurrenceScope = 'this') => {
+        const normalize = (s: string) => s.toLowerCase().trim();
+        const targets = taskIdentifiers.map(normalize);
+        const currentInv = host.getInventory();
+        const occurrenceFrom = fromDate || host.viewDateKey();
+        let movedCount = 0;
+        const movedNames: string[] = [];
+        // Recurring series move per occurrence (see recurringOccurrences.ts), after the dated tasks
+        const seriesMoves: Array<{ task: Task; occurrenceDate: string }> = [];
+        const notMoved: Array<{ title: string; reason: string }> = [];
+
+        const updateTask = (t: Task) => {
+            const normTitle = normalize(t.title);
+            const match = targets.find(target => normTitle === target || normTitle.includes(target));
+            if (match && isSeries(t)) {
+                const occurrenceDate = occurrenceShownOn(t, occurrenceFrom);
+                if (!occurrenceDate) notMoved.push({ title: t.title, reason: `recurring, no occurrence on ${occurrenceFrom}` });
+                else if (scope !== 'this' && t.recurrence!.frequency === 'daily') notMoved.push({ title: t.title, reason: 'repeats daily; only one occurrence can move' });
+                else seriesMoves.push({ task: t, occurrenceDate });
+                return t;
+            }
+            if (match) {
+                movedCount++;
+                movedNames.push(t.title);
+                return { ...withoutSubBlocks(t), date: targetDate };
+            }
+            return t;
+        };
+
+        let next: LifeInventory = { fixed: currentInv.fixed.map(updateTask), flexible: currentInv.flexible.map(updateTask) };
+
+        // A dated task may not pass its prerequisites or dependents (taskDependencies.ts). Undo
+        // those moves until the rest is consistent, since undoing one can strand a task moved with it.
+        const originals = new Map([...currentInv.fixed, ...currentInv.flexible].map(t => [t.id, t]));
+        let movedTasks = [...next.fixed, ...next.flexible].filter(t => originals.get(t.id) !== t);
+        let blocked = movedTasks.map(t => ({ task: t, problem: dateOrderProblem(next, t.id) })).filter(b => b.problem);
+        while (blocked.length > 0) {
+            const revert = (t: Task) => blocked.some(b => b.task.id === t.id) ? originals.get(t.id)! : t;
+            next = { fixed: next.fixed.map(revert), flexible: next.flexible.map(revert) };
+            blocked.forEach(({ task, problem }) => {
+                movedCount--;
+                movedNames.splice(movedNames.indexOf(task.title), 1);
+                notMoved.push({ title: task.title, reason: `it ${problem}` });
+            });
+            movedTasks = movedTasks.filter(t => !blocked.some(b => b.task.id === t.id));
+            blocked = movedTasks.map(t => ({ task: t, problem: dateOrderProblem(next, t.id) })).filter(b => b.problem);
+        }
+
+        // Collect source dates before updating inventory
+        const sourceDates = new Set<string>();
+        [...currentInv.fixed, ...currentInv.flexible].forEach(t => {
+            if (movedNames.includes(t.title) && t.date) sourceDates.add(t.date);
+        });
+        seriesMoves.forEach(({ task, occurrenceDate }) => {
+            next = updateRecurring(next, task.id, occurrenceDate, scope, { date: targetDate });
+            movedCount++;
+            movedNames.push(`${task.title}${describeScope(scope, occurrenceFrom)}`);
+            sourceDates.add(occurrenceFrom);
+        });
+        // A split series leaves two tasks with the same title; only report titles that moved nowhere
+        const unmoved = notMoved.filter(n => !seriesMoves.some(m => m.task.title === n.title) && !movedNames.includes(n.title));
+        const notMovedMsg = unmoved.length > 0 ? ` Not moved: ${unmoved.map(n => `"${n.title}" (${n.reason})`).join(', ')}.` : '';
+
+        if (movedCount > 0) {
+            host.commitInventory(next);
+            // Flag that tasks were modified for background orchestration
+            host.onTasksModified();
+            
+            // Invalidate orchestrations for both source and target dates
+            sourceDates.forEach(date => host.invalidateApprovedOrchestration(date));
+            host.invalidateApprovedOrchestration(targetDate);
+            
+            return `Moved ${movedCount} tasks to ${targetDate}: ${movedNames.join(', ')}.${notMovedMsg}`;
+        }
+        return `${unmoved.length > 0 ? '❌ No tasks moved.' : 'No tasks found to move.'}${notMovedMsg}`;
+    }),
+    addSubtask: journaled('add_subtask', async (args: { task_title: string; subtask_title: string; duration?: string; occurrence_date?: string }) => {
+        const dateStr = args.occurrence_date || host.viewDateKey();
+        const task = findTaskByTitle(args.task_title, dateStr);
+        if (!task) return `No task matching "${args.task_title}" found. Check the task title in your inventory.`;
+        const title = (args.subtask_title || '').trim();
+        if (!title) return "❌ subtask_title is required: name the step to add.";
+        if (task.subtasks?.some(s => s.title.toLowerCase() === title.toLowerCase())) {
+            return `✅ "${task.title}" already has the step "${title}".`;
+        }
+
+        const updated = appendSubtask(task, title, args.duration);
+        if (isSeries(task)) {
+            // The checklist belongs to the whole series
+            host.commitInventory(prev => updateRecurring(prev, task.id, occurrenceShownOn(task, dateStr) ?? dateStr, 'all', { subtasks: updated.subtasks }));
+            host.invalidateApprovedOrchestration(dateStr);
+        } else {
+            saveTask(updated);
+        }
+        const progress = subtaskProgress(updated)!;
+        return `✅ Added step "${title}" to "${task.title}" (${progress.done}/${progress.total} steps done).`;
+    }),
+    completeSubtask: journaled('complete_subtask', async (args: { task_title: string; subtask_title: string; completed?: boolean; occurrence_date?: string }) => {
+        const dateStr = args.occurrence_date || host.viewDateKey();
+        const task = findTaskByTitle(args.task_title, dateStr);
+        if (!task) return `No task matching "${args.task_title}" found. Check the task title in your inventory.`;
+        // A recurring series ticks steps per occurrence
+        const instance = isSeries(task) ? expandSeries(task, dateStr)[0] : task;
+        if (!instance) {
+            return `❌ "${task.title}" is recurring and has no occurrence on ${dateStr}. Pass occurrence_date (YYYY-MM-DD) of the occurrence.`;
+        }
+        if (!instance.subtasks?.length) {
+            return `❌ "${task.title}" has no checklist. Add steps with add_subtask first, or use complete_task for the whole task.`;
+        }
+        const step = findSubtask(instance, args.subtask_title);
+        if (!step) {
+            return `❌ "${task.title}" has no step matching "${args.subtask_title}". Its steps: ${instance.subtasks.map(s => `"${s.title}"`).join(', ')}.`;
+        }
+
+        const completed = args.completed ?? true;
+        const updated = setSubtaskDone(instance, step.id, completed);
+        if (isSeries(task)) {
+            host.commitInventory(prev => updateRecurring(prev, task.id, instance.occurrenceDate!, 'this', { subtasks: updated.subtasks }));
+            host.invalidateApprovedOrchestration(dateStr);
+        } else {
+            saveTask(updated);
+        }
+        const progress = subtaskProgress(updated)!;
+        const allDone = progress.done === progress.total && !instance.completed
+            ? ` All steps are done; if the user confirms "${task.title}" is finished, call complete_task.`
+            : '';
+        return `✅ ${completed ? 'Checked off' : 'Unchecked'} "${step.title}" on "${task.title}" (${progress.done}/${progress.total} steps done).${allDone}`;
+    }),
+    saveDayReview: async (args: { date?: string; mood?: number; energy?: number; journal?: string; takeaway?: string }) => {
+        const dateKey = args.date || host.viewDateKey();
+        if (dateKey > host.todayKey()) {
+            return "❌ Cannot review a day that has not happened yet. Reviews are for today or past dates.";
+        }
+        const mood = clampRating(args.mood);
+        const energy = clampRating(args.energy);
+        if (!mood && !energy && !args.journal?.trim() && !args.takeaway?.trim()) {
+            return "❌ Nothing to save. Ask the user how the day went (mood and energy 1-5, a sentence or two) first.";
+        }
+        host.saveDayReview(dateKey, { mood, energy, journal: args.journal, takeaway: args.takeaway });
+        const ratings = [mood && `mood ${mood}/5`, energy && `energy ${energy}/5`].filter(Boolean).join(', ');
+        return `✅ Saved the review for ${dateKey}${ratings ? ` (${ratings})` : ''}. Planned vs completed tasks were compared automatically.`;
+    }
+  };
+};
+
+export type ToolExecutorSet = ReturnType<typeof createToolExecutors>;
@@ -0,0 +1,81 @@
+/**
+ * DESIGN DECISION: Human-Readable Tool Progress
+ *
+ * While the agent loop runs, ChatInterface shows each tool call as it happens
+ * ("Reading Tuesday's tasks…", "Moving 2 tasks to Friday…") instead of a rotating
+ * placeholder. These labels are derived from the call's name and arguments only —
+ * never from app state — so they can be rendered the instant the call starts.
+ */
+
+import { AgentStreamEvent, AgentToolCallStatus } from "./geminiService";
+
+const weekdayOf = (date?: string): string | null => {
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const day = new Date(`${date}T00:00:00`);
+  if (isNaN(day.getTime())) return null;
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const diffDays = Math.round((day.getTime() - today.getTime()) / 86400000);
+  if (diffDays === 0) return 'today';
+  if (diffDays === 1) return 'tomorrow';
+  if (diffDays === -1) return 'yesterday';
+  return Math.abs(diffDays) < 7
+    ? day.toLocaleDateString('en-US', { weekday: 'long' })
+    : day.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+const quoted = (text?: string) => (text ? `"${text.length > 40 ? `${text.slice(0, 40)}…` : text}"` : 'a task');
+
+/** Present-progressive label for a tool call that is starting, e.g. "Moving 2 tasks to Friday". */
+export const describeToolCall = (name: string, args: any = {}): string => {
+  const day = weekdayOf(args?.date);
+  switch (name) {
+    case 'get_life_context': return day ? `Reading ${day}'s tasks` : 'Reading your tasks';
+    case 'get_relationship_status': return 'Checking your relationships';
+    case 'get_baseline_schedule': return day ? `Drafting a baseline schedule for ${day}` : 'Drafting a baseline schedule';
+    case 'propose_orchestration': return 'Preparing the orchestration';
+    case 'get_week_context': {
+      const start = weekdayOf(args?.start_date);
+      return start ? `Reading the week's tasks from ${start}` : "Reading the week's tasks";
+    }
+    case 'propose_week_orchestration': return 'Preparing the week plan';
+    case 'get_conflicts': return day ? `Checking ${day} for conflicts` : 'Checking for conflicts';
+    case 'add_task': return `Adding ${quoted(args?.title)}${day ? ` on ${day}` : ''}`;
+    case 'update_task': return `Updating ${quoted(args?.task_title)}`;
+    case 'complete_task': return `Completing ${quoted(args?.task_title)}`;
+    case 'delete_task': return `Removing ${quoted(args?.title)}`;
+    case 'move_tasks': {
+      const count = Array.isArray(args?.task_identifiers) ? args.task_identifiers.length : 0;
+      const target = weekdayOf(args?.target_date) ?? args?.target_date ?? 'another day';
+      return `Moving ${count === 1 ? '1 task' : `${count || 'some'} tasks`} to ${target}`;
+    }
+    case 'log_checkin': return `Logging a check-in with ${args?.person_name || 'a contact'}`;
+    case 'update_relationship_status': return `Updating ${args?.person_name || 'a contact'}`;
+    case 'delete_relationship_status': return `Removing ${args?.person_name || 'a contact'} from the ledger`;
+    case 'save_memory': return 'Remembering that';
+    case 'update_memory': return 'Updating a memory';
+    case 'forget_memory': return 'Forgetting a memory';
+    case 'save_day_review': return day ? `Saving the review of ${day}` : 'Saving the day review';
+    case 'add_subtask': return `Adding a step to ${quoted(args?.task_title)}`;
+    case 'complete_subtask': return `Checking off ${quoted(args?.subtask_title)}`;
+    default: return `Running ${name}`;
+  }
+};
+
+export interface ToolProgressStep {
+  callId: string;
+  name: string;
+  label: string;
+  status: 'running' | AgentToolCallStatus;
+}
+
+/** Fold a tool-call event into the step list shown under the streaming message. */
+export const applyToolEvent = (steps: ToolProgressStep[], event: AgentStreamEvent): ToolProgressStep[] => {
+  if (event.type === 'tool-call-started') {
+    return [...steps, { callId: event.callId, name: event.name, label: describeToolCall(event.name, event.args), status: 'running' }];
+  }
+  if (event.type === 'tool-call-finished') {
+    return steps.map(s => (s.callId === event.callId ? { ...s, status: event.call.status } : s));
+  }
+  return steps;
+};
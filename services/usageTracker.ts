@@ -0,0 +1,102 @@
+/**
+ * DESIGN DECISION: Token Usage Accounting
+ *
+ * Every model response carries usageMetadata (prompt and candidate token counts).
+ * GeminiService reports each one through a listener, tagged with what triggered
+ * it; these pure helpers fold the calls into the persisted TokenUsageLog and
+ * answer the questions the UI and the background scheduler ask:
+ *
+ * 1. What did today cost, by kind (chat, briefing, orchestration...)?
+ * 2. What did the last 7 days cost, day by day?
+ * 3. Is today over the user's daily budget? Background orchestration runs without
+ *    the user asking, so it is the one caller that is skipped when it is.
+ *
+ * Costs are estimates at list price for the default model; the token counts are
+ * what the API reported and are exact.
+ */
+
+import { TokenUsageLog, UsageCall, UsageKind, UsageTotals } from "../types";
+import { addDaysToKey } from "./dateKeys";
+
+export const EMPTY_USAGE_LOG: TokenUsageLog = { days: {}, dailyBudget: null };
+
+// Days older than this are dropped on write; weekly totals only need 7.
+export const USAGE_RETENTION_DAYS = 90;
+
+// gemini-2.5-pro list price in USD per million tokens (prompts up to 200k tokens)
+const PROMPT_USD_PER_MILLION = 1.25;
+const CANDIDATE_USD_PER_MILLION = 10;
+
+export const USAGE_KIND_LABELS: Record<UsageKind, string> = {
+  chat: 'Chat',
+  briefing: 'Briefings',
+  orchestration: 'Orchestration',
+  background_orchestration: 'Background orchestration',
+  synopsis: 'History synopsis',
+  retrospective: 'Retrospectives',
+};
+
+export const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, candidateTokens: 0, totalTokens: 0 });
+
+export const addTotals = (a: UsageTotals, b: UsageTotals): UsageTotals => ({
+  calls: a.calls + b.calls,
+  promptTokens: a.promptTokens + b.promptTokens,
+  candidateTokens: a.candidateTokens + b.candidateTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+});
+
+/** Fold one call into the log (returns a new log; days past retention are pruned). */
+export const recordUsage = (log: TokenUsageLog, call: UsageCall): TokenUsageLog => {
+  const day = log.days[call.date] || {};
+  const callTotals: UsageTotals = {
+    calls: 1,
+    promptTokens: call.promptTokens,
+    candidateTokens: call.candidateTokens,
+    totalTokens: call.totalTokens,
+  };
+  const days = { ...log.days, [call.date]: { ...day, [call.kind]: addTotals(day[call.kind] || emptyTotals(), callTotals) } };
+
+  const cutoff = addDaysToKey(call.date, -USAGE_RETENTION_DAYS);
+  Object.keys(days).forEach(date => {
+    if (date < cutoff) delete days[date];
+  });
+  return { ...log, days };
+};
+
+/** All kinds of one day summed together. */
+export const totalsForDay = (log: TokenUsageLog, date: string): UsageTotals =>
+  Object.values(log.days[date] || {}).reduce((sum, t) => addTotals(sum, t!), emptyTotals());
+
+export interface UsageSummary {
+  today: UsageTotals;
+  todayByKind: Array<{ kind: UsageKind; totals: UsageTotals }>;
+  week: UsageTotals;
+  /** The 7 days ending today, oldest first (days without calls included as zero) */
+  weekDays: Array<{ date: string; totals: UsageTotals }>;
+}
+
+export const summarizeUsage = (log: TokenUsageLog, todayKey: string): UsageSummary => {
+  const todayLog = log.days[todayKey] || {};
+  const todayByKind = (Object.keys(USAGE_KIND_LABELS) as UsageKind[])
+    .filter(kind => todayLog[kind])
+    .map(kind => ({ kind, totals: todayLog[kind]! }));
+  const weekDays = Array.from({ length: 7 }, (_, i) => {
+    const date = addDaysToKey(todayKey, i - 6);
+    return { date, totals: totalsForDay(log, date) };
+  });
+  return {
+    today: totalsForDay(log, todayKey),
+    todayByKind,
+    week: weekDays.reduce((sum, d) => addTotals(sum, d.totals), emptyTotals()),
+    weekDays,
+  };
+};
+
+export const isOverDailyBudget = (log: TokenUsageLog, todayKey: string): boolean =>
+  log.dailyBudget !== null && totalsForDay(log, todayKey).totalTokens >= log.dailyBudget;
+
+export const estimateCostUsd = (totals: UsageTotals): number =>
+  (totals.promptTokens * PROMPT_USD_PER_MILLION + totals.candidateTokens * CANDIDATE_USD_PER_MILLION) / 1_000_000;
+
+export const formatTokenCount = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(2)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
@@ -0,0 +1,300 @@
+/**
+ * DESIGN DECISION: Week Planner
+ *
+ * Single-day orchestration can only say "this day is overloaded, consider
+ * move_tasks". Planning a window of days lets the plan itself do the moving:
+ *
+ * 1. Load: each day's planned minutes (incomplete tasks) against the scheduler's
+ *    overload budget.
+ * 2. Balance: from every day over budget, movable tasks (flexible, not high
+ *    priority, not a relationship touchpoint, not recurring, not done) move to the
+ *    day in the window with the most room, preferring days with fewer tasks of the
+ *    same category so e.g. all Health tasks do not pile onto one evening. A task
+ *    never moves before a prerequisite's day, after a dependent's day or past its
+ *    dueDate.
+ * 3. Schedule: every day is then planned with scheduleDay and checked with
+ *    validateOrchestration, exactly like a single-day proposal.
+ *
+ * The same module validates week proposals written by the model
+ * (propose_week_orchestration): moves must name real, movable tasks inside the
+ * window, must keep dependent tasks on or after their prerequisites, must not push
+ * a task past its dueDate, and every day's schedule must match that day's tasks
+ * after the moves.
+ *
+ * Input is always a window of getTasksForDate() results, so recurrence expansion
+ * stays in one place and this module never needs the whole inventory.
+ */
+
+import { CrossDayMove, LifeInventory, OrchestrationProposal, Task, WeekDayPlan, WeekOrchestrationProposal } from "../types";
+import { DEFAULT_SCHEDULER_OPTIONS, DaySchedulerOptions, PRIORITY_RANK, durationOf, scheduleDay } from "./dayScheduler";
+import { formatValidationErrors, validateOrchestration } from "./orchestrationValidator";
+import { formatMinutesAsDuration } from "./timeParsing";
+import { dateBounds } from "./taskDependencies";
+import { addDaysToKey, keyToDate } from "./dateKeys";
+
+export const WEEK_LENGTH = 7;
+
+// How much one extra same-category task on a day weighs against its free time when
+// picking a move target (as a fraction of the daily budget).
+const CATEGORY_CROWDING_WEIGHT = 0.15;
+
+export interface WeekDayInput {
+  date: string; // YYYY-MM-DD
+  tasks: LifeInventory; // getTasksForDate(inventory, date)
+}
+
+export const weekDates = (startDate: string, length: number = WEEK_LENGTH): string[] =>
+  Array.from({ length }, (_, i) => addDaysToKey(startDate, i));
+
+const weekdayLabel = (dateKey: string) => keyToDate(dateKey).toLocaleDateString('en-US', { weekday: 'long' });
+
+const allTasks = (tasks: LifeInventory) => [...tasks.fixed, ...tasks.flexible];
+
+/** Earliest/latest day for `task` in the window once `moves` are made (dependencies inside the window). */
+const boundsAfterMoves = (task: Task, window: WeekDayInput[], moves: CrossDayMove[]) =>
+  dateBounds(task, window.flatMap(day => allTasks(day.tasks)), t => moves.find(m => m.taskId === t.id)?.toDate ?? t.date);
+
+const plannedMinutes = (tasks: LifeInventory) =>
+  allTasks(tasks).filter(t => !t.completed).reduce((sum, t) => sum + durationOf(t), 0);
+
+/** Tasks the planner (and the model) may move between days. */
+export const isMovable = (task: Task): boolean =>
+  task.type === 'flexible' && !task.completed && !task.recurrence && !task.linkedContact && task.priority !== 'high' && !!task.date;
+
+/** The window with every not-yet-applied move carried out (tasks re-dated to their target day). */
+export const applyMovesToWindow = (window: WeekDayInput[], moves: CrossDayMove[]): WeekDayInput[] => {
+  const moving = new Map(moves.filter(m => !m.applied).map(m => [`${m.fromDate}|${m.taskId}`, m]));
+  const arrivals = new Map<string, Task[]>();
+  const departed = window.map(day => {
+    const keep = (t: Task) => {
+      const move = moving.get(`${day.date}|${t.id}`);
+      if (!move) return true;
+      arrivals.set(move.toDate, [...(arrivals.get(move.toDate) || []), { ...t, date: move.toDate }]);
+      return false;
+    };
+    return { date: day.date, tasks: { fixed: day.tasks.fixed.filter(keep), flexible: day.tasks.flexible.filter(keep) } };
+  });
+  return departed.map(day => ({
+    date: day.date,
+    tasks: { fixed: day.tasks.fixed, flexible: [...day.tasks.flexible, ...(arrivals.get(day.date) || [])] },
+  }));
+};
+
+/** Same as applyMovesToWindow, for the stored inventory (dated tasks only; recurring tasks never move). */
+export const applyMovesToInventory = (inventory: LifeInventory, moves: CrossDayMove[]): LifeInventory => {
+  const redate = (t: Task) => {
+    const move = moves.find(m => m.taskId === t.id && m.fromDate === t.date);
+    return move ? { ...t, date: move.toDate } : t;
+  };
+  return { fixed: inventory.fixed.map(redate), flexible: inventory.flexible.map(redate) };
+};
+
+export interface WeekDaySummary {
+  date: string;
+  weekday: string;
+  tasks: LifeInventory;
+  plannedHours: number;
+  overloaded: boolean;
+  movableTaskIds: string[];
+}
+
+/** Per-day load of a window, as returned to the model by get_week_context. */
+export const summarizeWeek = (window: WeekDayInput[], overrides: Partial<DaySchedulerOptions> = {}): WeekDaySummary[] => {
+  const opts: DaySchedulerOptions = { ...DEFAULT_SCHEDULER_OPTIONS, ...overrides };
+  return window.map(day => {
+    const minutes = plannedMinutes(day.tasks);
+    return {
+      date: day.date,
+      weekday: weekdayLabel(day.date),
+      tasks: day.tasks,
+      plannedHours: Math.round(minutes / 6) / 10,
+      overloaded: minutes > opts.overloadHours * 60,
+      movableTaskIds: day.tasks.flexible.filter(isMovable).map(t => t.id),
+    };
+  });
+};
+
+const buildDayPlan = (day: WeekDayInput, opts: DaySchedulerOptions): WeekDayPlan => {
+  const result = scheduleDay(day.tasks, opts, day.date);
+  const { proposal } = validateOrchestration(result.proposal, day.tasks);
+  return { date: day.date, proposal, totalMinutes: result.totalMinutes, overloaded: result.overloaded, status: 'pending' };
+};
+
+/**
+ * Balance and schedule a window of days.
+ *
+ * @param window - consecutive days, each with getTasksForDate() results
+ */
+export const planWeek = (window: WeekDayInput[], overrides: Partial<DaySchedulerOptions> = {}): WeekOrchestrationProposal => {
+  const opts: DaySchedulerOptions = { ...DEFAULT_SCHEDULER_OPTIONS, ...overrides };
+  const budget = opts.overloadHours * 60;
+  const loads = new Map(window.map(day => [day.date, plannedMinutes(day.tasks)]));
+  const categoryCounts = new Map(window.map(day => [day.date, allTasks(day.tasks).reduce<Record<string, number>>((acc, t) => {
+    acc[t.category ?? 'Life'] = (acc[t.category ?? 'Life'] || 0) + 1;
+    return acc;
+  }, {})]));
+  const moves: CrossDayMove[] = [];
+
+  window.forEach(day => {
+    if (loads.get(day.date)! <= budget) return;
+    const candidates = day.tasks.flexible
+      .filter(isMovable)
+      .sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || durationOf(b) - durationOf(a));
+
+    for (const task of candidates) {
+      if (loads.get(day.date)! <= budget) break;
+      const length = durationOf(task);
+      const category = task.category ?? 'Life';
+      const { earliest, latest } = boundsAfterMoves(task, window, moves);
+      const target = window
+        .filter(other => other.date !== day.date && loads.get(other.date)! + length <= budget)
+        .filter(other => (!earliest || other.date >= earliest) && (!latest || other.date <= latest))
+        // Never plan a task past its deadline
+        .filter(other => !task.dueDate || other.date <= task.dueDate)
+        .map(other => ({
+          date: other.date,
+          score: (loads.get(other.date)! + length) / budget + CATEGORY_CROWDING_WEIGHT * (categoryCounts.get(other.date)![category] || 0),
+        }))
+        .sort((a, b) => a.score - b.score)[0];
+      if (!target) continue;
+
+      moves.push({
+        taskId: task.id,
+        title: task.title,
+        fromDate: day.date,
+        toDate: target.date,
+        reason: `${weekdayLabel(day.date)} is over the ${opts.overloadHours}h budget; ${weekdayLabel(target.date)} has room for ${formatMinutesAsDuration(length)} of ${category}.`,
+      });
+      loads.set(day.date, loads.get(day.date)! - length);
+      loads.set(target.date, loads.get(target.date)! + length);
+      categoryCounts.get(day.date)![category]--;
+      categoryCounts.get(target.date)![category] = (categoryCounts.get(target.date)![category] || 0) + 1;
+    }
+  });
+
+  const days = applyMovesToWindow(window, moves).map(day => buildDayPlan(day, opts));
+  const stillOverloaded = days.filter(d => d.overloaded).map(d => weekdayLabel(d.date));
+  const reasoning = [
+    `Planned ${days.length} days from ${weekdayLabel(window[0].date)} with a ${opts.overloadHours}h daily budget.`,
+    moves.length > 0
+      ? `Moved ${moves.length} lower-priority flexible task${moves.length === 1 ? '' : 's'} off overloaded days to the days with the most room, spreading categories where possible.`
+      : 'No day needed tasks moved.',
+    stillOverloaded.length > 0 ? `Still over budget: ${stillOverloaded.join(', ')} — the remaining tasks there are fixed, high priority or relationship touchpoints.` : '',
+    'Each day was then scheduled by energy window around its fixed events.',
+  ].filter(Boolean).join(' ');
+
+  return {
+    startDate: window[0].date,
+    endDate: window[window.length - 1].date,
+    days,
+    moves,
+    reasoning,
+    source: 'local',
+  };
+};
+
+/** The shape of propose_week_orchestration arguments (snake_case, like the other tools). */
+export interface WeekToolArgs {
+  start_date: string;
+  reasoning: string;
+  days: Array<{ date: string; optimized_timeline: string; schedule: Task[] }>;
+  moves?: Array<{ task_id?: string; task_title: string; from_date: string; to_date: string; reason?: string }>;
+}
+
+export const toWeekToolArgs = (proposal: WeekOrchestrationProposal): WeekToolArgs => ({
+  start_date: proposal.startDate,
+  reasoning: proposal.reasoning,
+  days: proposal.days.map(d => ({ date: d.date, optimized_timeline: d.proposal.optimized_timeline, schedule: d.proposal.schedule })),
+  moves: proposal.moves.map(m => ({ task_id: m.taskId, task_title: m.title, from_date: m.fromDate, to_date: m.toDate, reason: m.reason })),
+});
+
+export interface WeekValidationResult {
+  ok: boolean;
+  proposal: WeekOrchestrationProposal;
+  errors: string[];
+  repairs: string[];
+}
+
+/**
+ * Check a model-written week plan against the window. Moves are resolved to task
+ * ids (by id, then exact title on the from-day); each day's schedule is validated
+ * against that day's tasks after all moves, with the usual auto-repairs.
+ * Days the model left out keep their tasks and are not re-orchestrated.
+ */
+export const validateWeekOrchestration = (args: WeekToolArgs, window: WeekDayInput[], overrides: Partial<DaySchedulerOptions> = {}): WeekValidationResult => {
+  const overloadHours = overrides.overloadHours ?? DEFAULT_SCHEDULER_OPTIONS.overloadHours;
+  const errors: string[] = [];
+  const repairs: string[] = [];
+  const byDate = new Map(window.map(day => [day.date, day]));
+  const normalize = (s: string) => (s || '').trim().toLowerCase();
+
+  const moves: CrossDayMove[] = [];
+  (args.moves || []).forEach(m => {
+    const from = byDate.get(m.from_date);
+    if (!from || !byDate.has(m.to_date)) {
+      errors.push(`Move "${m.task_title}": ${!from ? `from_date ${m.from_date}` : `to_date ${m.to_date}`} is outside the planned window.`);
+      return;
+    }
+    if (m.from_date === m.to_date) return;
+    const task = allTasks(from.tasks).find(t => t.id === m.task_id)
+      ?? allTasks(from.tasks).find(t => normalize(t.title) === normalize(m.task_title));
+    if (!task) {
+      errors.push(`Move "${m.task_title}": no such task on ${m.from_date}.`);
+    } else if (!isMovable(task)) {
+      errors.push(`Move "${task.title}": only flexible, non-high-priority, non-recurring tasks without linked contacts can move between days.`);
+    } else if (!moves.some(existing => existing.taskId === task.id)) {
+      moves.push({ taskId: task.id, title: task.title, fromDate: m.from_date, toDate: m.to_date, reason: m.reason || '' });
+    }
+  });
+
+  moves.forEach(move => {
+    const task = allTasks(byDate.get(move.fromDate)!.tasks).find(t => t.id === move.taskId)!;
+    const { earliest, latest } = boundsAfterMoves(task, window, moves);
+    if (earliest && move.toDate < earliest) {
+      errors.push(`Move "${move.title}": it depends on a task planned for ${earliest}, so it cannot move to ${move.toDate}.`);
+    } else if (latest && move.toDate > latest) {
+      errors.push(`Move "${move.title}": a task planned for ${latest} depends on it, so it cannot move to ${move.toDate}.`);
+    } else if (task.dueDate && move.toDate > task.dueDate && move.toDate > move.fromDate) {
+      errors.push(`Move "${move.title}": it is due ${task.dueDate}, so it cannot move to ${move.toDate}.`);
+    }
+  });
+
+  const adjusted = new Map(applyMovesToWindow(window, moves).map(day => [day.date, day]));
+  const days: WeekDayPlan[] = [];
+  (args.days || []).forEach(d => {
+    const day = adjusted.get(d.date);
+    if (!day) {
+      errors.push(`Day ${d.date} is outside the planned window.`);
+      return;
+    }
+    if (days.some(existing => existing.date === d.date)) return;
+    const proposal: OrchestrationProposal = { optimized_timeline: d.optimized_timeline || '', reasoning: args.reasoning || '', schedule: d.schedule || [] };
+    const validation = validateOrchestration(proposal, day.tasks);
+    if (!validation.ok) errors.push(`${d.date}:\n${formatValidationErrors(validation.findings)}`);
+    validation.findings.filter(f => f.repaired).forEach(f => repairs.push(`${d.date}: ${f.message}`));
+    const totalMinutes = plannedMinutes({ fixed: [], flexible: validation.proposal.schedule });
+    days.push({
+      date: d.date,
+      proposal: validation.proposal,
+      totalMinutes,
+      overloaded: totalMinutes > overloadHours * 60,
+      status: 'pending',
+    });
+  });
+  if (days.length === 0) errors.push('The plan contains no days.');
+  days.sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    ok: errors.length === 0,
+    errors,
+    repairs,
+    proposal: {
+      startDate: window[0]?.date ?? args.start_date,
+      endDate: window[window.length - 1]?.date ?? args.start_date,
+      days,
+      moves,
+      reasoning: args.reasoning || '',
+      source: 'model',
+    },
+  };
+};
@@ -45,13 +45,48 @@ export interface UserProfile {
  * RecurrenceRule: Flexible recurring task scheduling
  * DESIGN DECISION: Supports standard calendar patterns without external dependencies.
  * Weekday numbering matches JavaScript Date (0=Sunday) for consistency.
+ * Fields mirror the RFC 5545 RRULE parts Google Calendar uses (FREQ, INTERVAL, BYDAY,
+ * BYMONTHDAY, BYMONTH, BYSETPOS, UNTIL, COUNT, EXDATE); see services/recurrence.ts.
  */
 export interface RecurrenceRule {
-  frequency: 'daily' | 'weekly' | 'monthly';
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval?: number; // Every N days/weeks/months/years, counted from `start` (default 1)
   weekDays?: number[]; // 0 = Sunday, 1 = Monday, etc.
-  dayOfMonth?: number; // 1-31
+  dayOfMonth?: number; // 1-31, or -1 for the last day of the month
+  months?: number[]; // 1-12 (yearly: which months; otherwise a filter)
+  setPositions?: number[]; // Which of the month's matching weekdays: [2] = 2nd, [-1] = last
+  start?: string; // YYYY-MM-DD, first day the series can occur (DTSTART)
+  until?: string; // YYYY-MM-DD, last day the series can occur
+  count?: number; // Total number of occurrences from `start`
+  exceptions?: string[]; // YYYY-MM-DD dates excluded from the series (EXDATE)
 }
 
+/**
+ * OccurrenceOverride: Per-date exception to a recurring series
+ * DESIGN DECISION: Exceptions live on the series, keyed by occurrence date
+ *
+ * A recurring task is stored once and expanded per day, so a plain field edit on it
+ * changes every occurrence. Overrides keyed by the occurrence's original date
+ * (series id + date) let one day differ: done, skipped, moved to another date, or
+ * with its own title/time. Keeping them inside the series task means the action
+ * journal, undo and session replay see one ordinary task change.
+ */
+export interface OccurrenceOverride {
+  completed?: boolean;
+  skipped?: boolean;
+  movedTo?: string; // YYYY-MM-DD the occurrence was rescheduled to
+  title?: string;
+  time?: string;
+  duration?: string;
+  priority?: 'high' | 'medium' | 'low';
+  category?: 'Career' | 'Life' | 'Health' | 'Family';
+  description?: string;
+  subtasks?: Subtask[]; // This occurrence's checklist once a step was ticked on it
+}
+
+/** Which occurrences of a recurring task an edit applies to */
+export type OccurrenceScope = 'this' | 'following' | 'all';
+
 /**
  * Task: The atomic unit of life orchestration
  * DESIGN DECISION: Fixed vs Flexible Task Classification
@@ -102,10 +137,11 @@ export interface RelationshipLedger {
  */
 export const calculateRelationshipStatus = (
   priority: number,
-  lastContact: Date | string
+  lastContact: Date | string,
+  asOf: Date = new Date() // "today"; the tool executors pass their host's date so replays are deterministic
 ): Person['status'] => {
   const last = typeof lastContact === 'string' ? new Date(lastContact) : lastContact;
-  const today = new Date();
+  const today = new Date(asOf);
   today.setHours(0, 0, 0, 0);
   last.setHours(0, 0, 0, 0);
   const days = Math.max(0, Math.floor((today.getTime() - last.getTime()) / (1000 * 60 * 60 * 24)));
@@ -165,6 +201,24 @@ export interface Memory {
   content: string;
   date: string; // When this memory was created
   type: 'preference' | 'decision' | 'fact';
+  pinned?: boolean; // Pinned memories are exempt from the FIFO limit and always sent to the model
+  updatedAt?: string; // ISO timestamp of the last edit (update_memory or Memory Bank)
+}
+
+/**
+ * MemoryConflict: A new memory that appears to contradict an existing one
+ * DESIGN DECISION: Ask, don't guess
+ *
+ * "Prefers morning workouts" vs "Switched to evening workouts" could be a change of
+ * habit or a misunderstanding. Instead of letting the newer memory silently win,
+ * save_memory parks the incoming memory here and the chat shows a card asking the
+ * user which one to keep (or both).
+ */
+export interface MemoryConflict {
+  id: string;
+  existing: Memory;
+  incoming: { content: string; type: Memory['type'] };
+  status: 'pending' | 'kept_existing' | 'kept_incoming' | 'kept_both';
 }
 
 /**
@@ -197,6 +251,75 @@ export interface ChatMessage {
   contactProposals?: Person[];
   thought?: string;
   isAction?: boolean; // True if this message represents a system action (e.g. "Added task")
+  journalTurnId?: string; // Links an isAction message to the ActionJournal entries of one AI turn
+  changeset?: Changeset; // Write tool calls staged for approval while review mode is on
+  memoryConflicts?: MemoryConflict[]; // Contradicting memories the user is asked to resolve
+  weekProposal?: WeekOrchestrationProposal; // Multi-day plan from week orchestration
+}
+
+/**
+ * ActionJournalEntry: Undo record for one executed AI tool call
+ * DESIGN DECISION: Snapshot the affected entities, not the whole state
+ *
+ * Each entry stores before/after copies of only the tasks and Person entries the
+ * tool call touched (null = did not exist). That is enough to revert precisely,
+ * keeps the journal small enough for localStorage, and lets undo detect when an
+ * item has been edited again since (current !== after) instead of clobbering it.
+ *
+ * turnId groups every entry produced by one AI response so a whole turn can be
+ * undone atomically from its isAction chat message.
+ */
+export interface TaskSnapshotChange {
+  taskId: string;
+  before: Task | null;
+  after: Task | null;
+}
+
+export interface PersonSnapshotChange {
+  key: string; // RelationshipLedger key
+  before: Person | null;
+  after: Person | null;
+}
+
+export interface ActionJournalEntry {
+  id: string;
+  turnId: string;
+  date: string; // YYYY-MM-DD of the conversation the turn happened in
+  tool: string; // Tool name as the model called it, e.g. 'move_tasks'
+  args: any;
+  result: string; // Executor status string returned to the model
+  summary: string; // Human-readable description for the Undo list
+  timestamp: string; // ISO timestamp
+  taskChanges: TaskSnapshotChange[];
+  personChanges: PersonSnapshotChange[];
+  undoneAt?: string; // ISO timestamp; set once the entry has been reverted
+}
+
+/**
+ * Changeset: Write tool calls staged for user approval
+ * DESIGN DECISION: Stage the call, not its result
+ *
+ * In review mode the executors don't run; each write call is recorded with its
+ * arguments plus a human-readable preview of what it would change (diff lines
+ * computed against the state at staging time). Applying the changeset replays the
+ * enabled calls through the real executors in order, so matching/validation logic
+ * is exactly the same as in immediate mode and the action journal still records them.
+ */
+export interface PendingChange {
+  id: string;
+  tool: string; // Tool name as the model called it, e.g. 'add_task'
+  args: any;
+  summary: string; // One-line description, e.g. 'Add "Dentist" on 2026-03-02'
+  diff: string[]; // Preview lines prefixed with +, -, ~ (added/removed/changed)
+  status: 'pending' | 'applied' | 'rejected' | 'failed';
+  result?: string; // Executor status string once applied
+}
+
+export interface Changeset {
+  id: string;
+  createdAt: string; // ISO timestamp
+  changes: PendingChange[];
+  status: 'pending' | 'applied' | 'partially_applied' | 'rejected';
 }
 
 /**
@@ -210,6 +333,21 @@ export interface ChatMessage {
  */
 export type ChatHistory = Record<string, ChatMessage[]>;
 
+/**
+ * Subtask: One step of a task's checklist (see services/subtasks.ts)
+ * DESIGN DECISION: Steps stay inside their task
+ *
+ * Ticking steps shows progress without completing the task. `time` is only set
+ * when orchestration splits a long task into one block per step.
+ */
+export interface Subtask {
+  id: string;
+  title: string;
+  completed?: boolean;
+  duration?: string; // Optional estimate; steps without one share the rest of the task's duration
+  time?: string; // Start of this step's own block when the task is scheduled split
+}
+
 export interface Task {
   id: string;
   gcal_id?: string;
@@ -218,10 +356,16 @@ export interface Task {
   type: 'fixed' | 'flexible';
   time?: string;
   date?: string; // YYYY-MM-DD format to associate task with a specific day
+  dueDate?: string; // YYYY-MM-DD deadline, separate from the planned `date` (see services/deadlines.ts)
+  rolloverCount?: number; // Times the daily rollover carried this task forward unfinished
   duration: string;
+  startMinutes?: number; // Parsed `time`, minutes since midnight; derived on commit (timeParsing.withTimeFields)
+  durationMinutes?: number; // Parsed `duration` in minutes; absent when the string is unreadable
   priority: 'high' | 'medium' | 'low';
   category?: 'Career' | 'Life' | 'Health' | 'Family';
   recurrence?: RecurrenceRule;
+  dependsOn?: string[]; // Ids of tasks that must be completed first (see services/taskDependencies.ts)
+  subtasks?: Subtask[]; // Ordered checklist of steps
   description?: string;
   location?: string;
   attendees?: EventAttendee[];
@@ -232,8 +376,16 @@ export interface Task {
    *  When the task is completed, a check-in is automatically logged for EVERY person listed.
    */
   linkedContact?: string | string[];
-  /** Whether the user has manually marked this task as done. */
+  /** Whether the user has manually marked this task as done.
+   *  On a recurring series this is the default for every occurrence; use `occurrences` for one day.
+   */
   completed?: boolean;
+  /** Recurring series only: exceptions keyed by the original occurrence date (YYYY-MM-DD). */
+  occurrences?: Record<string, OccurrenceOverride>;
+  /** Set on the instances getTasksForDate expands from a series (never stored):
+   *  the original date of this occurrence, i.e. its key in the series' `occurrences`.
+   */
+  occurrenceDate?: string;
 }
 
 /**
@@ -290,7 +442,8 @@ export interface GoogleCalendarEvent {
   conferenceData?: ConferenceData;
   organizer?: EventOrganizer;
   recurringEventId?: string;
-  recurrence?: string[]; // RRULE array
+  recurrence?: string[]; // RRULE array (for instances, copied from the series' master event)
+  seriesStart?: string; // YYYY-MM-DD first date of the series this instance belongs to
   colorId?: string;
   status?: string;
 }
@@ -317,6 +470,75 @@ export interface OrchestrationProposal {
   optimized_timeline: string;
   reasoning: string;
   schedule: Task[]; // Full structured list of tasks for the day
+  validation?: OrchestrationFinding[]; // Set by the orchestration validator; shown on the proposal card
+  source?: 'model' | 'local'; // 'local' = built by services/dayScheduler.ts (Quick Plan); omitted = model
+}
+
+/**
+ * OrchestrationFinding: One result of checking a proposal against get_life_context
+ * DESIGN DECISION: Repair what is unambiguous, bounce what is not
+ *
+ * - severity 'error': the proposal cannot be applied as-is (invented work blocks,
+ *   overlapping slots, more than 24h of tasks). It is returned to the model to retry.
+ * - severity 'warning' + repaired: the validator fixed it deterministically
+ *   (restored a renamed title, a moved fixed time, a dropped linkedContact).
+ * - severity 'warning' without repaired: informational (e.g. fixed events that
+ *   already overlapped in the user's own calendar).
+ */
+export type OrchestrationFindingCode =
+  | 'invented_task'
+  | 'renamed_task'
+  | 'duplicate_task'
+  | 'missing_task'
+  | 'moved_fixed_task'
+  | 'dropped_linked_contact'
+  | 'overlap'
+  | 'dependency_order'
+  | 'over_24h';
+
+export interface OrchestrationFinding {
+  code: OrchestrationFindingCode;
+  severity: 'error' | 'warning';
+  message: string;
+  taskTitle?: string;
+  repaired?: boolean;
+}
+
+/**
+ * WeekOrchestrationProposal: A plan for a window of consecutive days
+ * DESIGN DECISION: Per-day proposals plus explicit cross-day moves
+ *
+ * Each day carries an ordinary OrchestrationProposal, so it is validated and applied
+ * exactly like a single-day plan and stored in approvedOrchestrations under its own
+ * date. Load balancing between days is expressed as CrossDayMoves rather than
+ * implied by tasks appearing in a different day's schedule, so the user sees what
+ * moves where and why. Accepting any day applies the moves into or out of it first,
+ * which keeps a moved task from existing on two days at once.
+ */
+export interface CrossDayMove {
+  taskId: string;
+  title: string;
+  fromDate: string; // YYYY-MM-DD
+  toDate: string; // YYYY-MM-DD
+  reason: string;
+  applied?: boolean;
+}
+
+export interface WeekDayPlan {
+  date: string; // YYYY-MM-DD
+  proposal: OrchestrationProposal;
+  totalMinutes: number;
+  overloaded: boolean;
+  status?: 'pending' | 'accepted' | 'rejected';
+}
+
+export interface WeekOrchestrationProposal {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  days: WeekDayPlan[];
+  moves: CrossDayMove[];
+  reasoning: string;
+  source?: 'model' | 'local';
 }
 
 export interface UpdateRelationshipArgs {
@@ -337,6 +559,110 @@ export interface StorageStats {
     ledger: number;
     memories: number;
     inventory: number;
+    usage: number;
   };
   messagesByDate: Record<string, number>;
 }
+
+/**
+ * Token usage accounting
+ * DESIGN DECISION: Aggregate per day and kind, not per call
+ *
+ * Every model response reports usageMetadata. Calls are tagged by what triggered
+ * them and summed into one bucket per calendar day and kind, so the persisted log
+ * stays small (a few hundred bytes per day) no matter how chatty a day was.
+ * Per-session totals live only in memory (GeminiService.getSessionUsage).
+ */
+export type UsageKind = 'chat' | 'briefing' | 'orchestration' | 'background_orchestration' | 'synopsis' | 'retrospective';
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  candidateTokens: number;
+  totalTokens: number;
+}
+
+/** One model response's token usage, as reported to the usage listener. */
+export interface UsageCall {
+  kind: UsageKind;
+  sessionId: string;
+  date: string; // YYYY-MM-DD, the calendar day the call was made (not the viewed date)
+  promptTokens: number;
+  candidateTokens: number;
+  totalTokens: number;
+}
+
+export interface TokenUsageLog {
+  days: Record<string, Partial<Record<UsageKind, UsageTotals>>>;
+  /** Total tokens per day above which background orchestration is skipped; null = no budget */
+  dailyBudget: number | null;
+}
+
+/**
+ * Prompt profiles
+ * DESIGN DECISION: User preferences compiled into the prompt, not edited into it
+ *
+ * SYSTEM_INSTRUCTION stays the shared baseline. A profile only holds the values
+ * users actually differ on; promptProfile.ts turns them into a short block that
+ * follows the core instructions and overrides them where they conflict, and into
+ * scheduler options so the local planners use the same hours and threshold.
+ *
+ * `version` is the schema version (migrated on load and import); `revision` counts
+ * saves, so two exported copies of a shared team profile can be told apart.
+ */
+export type AssistantTone = 'executive' | 'supportive' | 'concise' | 'coach';
+
+export interface PromptProfile {
+  id: string;
+  version: number;
+  revision: number;
+  name: string;
+  workingHours: { start: string; end: string }; // "HH:MM", 24-hour
+  workDays: number[];        // 0=Sunday, matches RecurrenceRule.weekDays
+  overloadHours: number;     // planned hours per day above which a day is overloaded
+  tone: AssistantTone;
+  languages: string[];       // first entry is the reply language
+  standingInstructions: string[];
+  updatedAt: string;         // ISO timestamp
+}
+
+export interface PromptProfileSettings {
+  activeId: string;
+  profiles: PromptProfile[];
+}
+
+/**
+ * DayReview: End-of-day record of how a day went
+ * DESIGN DECISION: Plan vs actual from data, everything else in the user's words
+ *
+ * The comparison is computed from the approved orchestration (or the day's tasks
+ * when none was approved) and the tasks' `completed` flags, never from the model's
+ * recollection. The review form and the save_day_review tool only contribute the
+ * journal entry, mood/energy ratings and a takeaway. One review per date; reviewing
+ * a day again updates it.
+ */
+export interface DayReviewItem {
+  title: string;
+  time?: string;
+  category?: Task['category'];
+  /** 'unplanned' = completed although it was not part of the plan; 'partial' = some checklist steps done */
+  status: 'done' | 'partial' | 'missed' | 'unplanned';
+  steps?: { done: number; total: number }; // Checklist progress of tasks with subtasks
+}
+
+export interface DayReview {
+  date: string; // YYYY-MM-DD
+  planSource: 'approved' | 'tasks';
+  items: DayReviewItem[];
+  plannedCount: number;
+  completedCount: number; // planned items that were done
+  progressScore?: number; // completedCount plus the done share of partly done tasks (absent on older reviews)
+  mood?: number;   // 1-5
+  energy?: number; // 1-5
+  journal: string;
+  takeaway?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DayReviewLog = Record<string, DayReview>;